@@ -0,0 +1,158 @@
+import { FeeRule, calculateFees, calculatePayoutFee, selectFeeRule } from '../lib/fees';
+
+jest.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const fees = {
+  transactionFee: 5,
+  buyerProtectionFee: 3,
+  payoutFee: 1.5,
+};
+
+const rule = (overrides: Partial<FeeRule>): FeeRule => ({
+  id: 'rule',
+  name: 'Rule',
+  fee_type: 'commission',
+  rate_bps: 0,
+  fixed_cents: 0,
+  min_cents: null,
+  max_cents: null,
+  category: null,
+  seller_tier: null,
+  min_price_cents: null,
+  max_price_cents: null,
+  priority: 0,
+  is_active: true,
+  starts_at: null,
+  ends_at: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('selectFeeRule', () => {
+  const rules = [
+    rule({ id: 'general' }),
+    rule({ id: 'bags', category: 'bags' }),
+    rule({ id: 'top-sellers', seller_tier: 'top', priority: 5 }),
+    rule({ id: 'expensive', min_price_cents: 10000, priority: 3 }),
+    rule({ id: 'switched-off', priority: 10, is_active: false }),
+    rule({ id: 'expired', priority: 10, ends_at: '2020-01-01T00:00:00Z' }),
+    rule({ id: 'payout', fee_type: 'payout', priority: 10 }),
+  ];
+
+  it('prefers the more specific rule on equal priority', () => {
+    expect(selectFeeRule(rules, 'commission', { priceCents: 5000, category: 'bags', sellerTier: 'new' })?.id).toBe('bags');
+    expect(selectFeeRule(rules, 'commission', { priceCents: 5000, category: 'shoes', sellerTier: 'new' })?.id).toBe('general');
+  });
+
+  it('lets a higher priority win and skips inactive, expired and other fee types', () => {
+    expect(selectFeeRule(rules, 'commission', { priceCents: 5000, category: 'bags', sellerTier: 'top' })?.id).toBe('top-sellers');
+  });
+
+  it('matches price bounds inclusively', () => {
+    expect(selectFeeRule(rules, 'commission', { priceCents: 9999, sellerTier: 'new' })?.id).toBe('general');
+    expect(selectFeeRule(rules, 'commission', { priceCents: 10000, sellerTier: 'new' })?.id).toBe('expensive');
+  });
+
+  it('only applies rules inside their schedule', () => {
+    const scheduled = [rule({ id: 'summer', starts_at: '2025-06-01T00:00:00Z', ends_at: '2025-09-01T00:00:00Z' })];
+
+    expect(selectFeeRule(scheduled, 'commission', { priceCents: 5000, sellerTier: 'new', at: new Date('2025-07-01T00:00:00Z') })?.id).toBe('summer');
+    expect(selectFeeRule(scheduled, 'commission', { priceCents: 5000, sellerTier: 'new', at: new Date('2025-09-01T00:00:00Z') })).toBeNull();
+  });
+});
+
+describe('calculateFees', () => {
+  it('falls back to the fee settings when no rule matches', () => {
+    const breakdown = calculateFees({ priceCents: 10000, currency: 'eur', sellerTier: 'new' }, [], fees);
+
+    expect(breakdown).toMatchObject({
+      currency: 'eur',
+      item_price_cents: 10000,
+      buyer_protection_cents: 300,
+      discount_cents: 0,
+      buyer_total_cents: 10300,
+      seller_commission_cents: 500,
+      seller_payout_cents: 9500,
+      platform_fee_cents: 800,
+    });
+    expect(breakdown.lines.map(line => line.rule_id)).toEqual([null, null]);
+  });
+
+  it('rounds half cents up', () => {
+    const breakdown = calculateFees({ priceCents: 1010, sellerTier: 'new' }, [], fees);
+
+    // 5% of 10.10 is 50.5 cents, 3% is 30.3 cents
+    expect(breakdown.seller_commission_cents).toBe(51);
+    expect(breakdown.buyer_protection_cents).toBe(30);
+  });
+
+  it('clamps rule amounts to their minimum and maximum', () => {
+    const rules = [rule({ id: 'clamped', rate_bps: 1000, min_cents: 200, max_cents: 1000 })];
+
+    expect(calculateFees({ priceCents: 1000, sellerTier: 'new' }, rules, fees).seller_commission_cents).toBe(200);
+    expect(calculateFees({ priceCents: 5000, sellerTier: 'new' }, rules, fees).seller_commission_cents).toBe(500);
+    expect(calculateFees({ priceCents: 50000, sellerTier: 'new' }, rules, fees).seller_commission_cents).toBe(1000);
+  });
+
+  it('adds fixed amounts and never takes more commission than the price', () => {
+    const rules = [rule({ id: 'fixed', rate_bps: 500, fixed_cents: 30, min_cents: 200 })];
+
+    expect(calculateFees({ priceCents: 10000, sellerTier: 'new' }, rules, fees).seller_commission_cents).toBe(530);
+
+    const cheap = calculateFees({ priceCents: 100, sellerTier: 'new' }, rules, fees);
+    expect(cheap.seller_commission_cents).toBe(100);
+    expect(cheap.seller_payout_cents).toBe(0);
+  });
+
+  it('takes discounts off the platform share only', () => {
+    const rules = [rule({ id: 'promo', name: 'Spring promo', fee_type: 'discount', fixed_cents: 500 })];
+    const breakdown = calculateFees({ priceCents: 10000, sellerTier: 'new' }, rules, fees);
+
+    expect(breakdown.discount_cents).toBe(500);
+    expect(breakdown.buyer_total_cents).toBe(9800);
+    expect(breakdown.platform_fee_cents).toBe(300);
+    expect(breakdown.seller_payout_cents).toBe(9500);
+    expect(breakdown.lines[2]).toEqual({ type: 'discount', label: 'Spring promo', amount_cents: -500, rule_id: 'promo' });
+  });
+
+  it('caps a discount at the platform fees', () => {
+    const rules = [rule({ id: 'promo', fee_type: 'discount', fixed_cents: 2000 })];
+    const breakdown = calculateFees({ priceCents: 10000, sellerTier: 'new' }, rules, fees);
+
+    expect(breakdown.discount_cents).toBe(800);
+    expect(breakdown.buyer_total_cents).toBe(9500);
+    expect(breakdown.platform_fee_cents).toBe(0);
+  });
+
+  it('rejects prices that are not whole cents', () => {
+    expect(() => calculateFees({ priceCents: 10.5, sellerTier: 'new' }, [], fees)).toThrow('whole number of cents');
+    expect(() => calculateFees({ priceCents: -1, sellerTier: 'new' }, [], fees)).toThrow('whole number of cents');
+  });
+});
+
+describe('calculatePayoutFee', () => {
+  it('falls back to the payout fee setting', () => {
+    expect(calculatePayoutFee(10000, 'new', [], fees)).toEqual({
+      amount_cents: 10000,
+      fee_cents: 150,
+      net_cents: 9850,
+      rule_id: null,
+    });
+  });
+
+  it('uses the rule for the seller tier and never takes more than the amount', () => {
+    const rules = [
+      rule({ id: 'flat', fee_type: 'payout', fixed_cents: 25 }),
+      rule({ id: 'free-for-top', fee_type: 'payout', seller_tier: 'top' }),
+    ];
+
+    expect(calculatePayoutFee(10000, 'top', rules, fees)).toMatchObject({ fee_cents: 0, net_cents: 10000, rule_id: 'free-for-top' });
+    expect(calculatePayoutFee(10000, 'new', rules, fees)).toMatchObject({ fee_cents: 25, net_cents: 9975, rule_id: 'flat' });
+    expect(calculatePayoutFee(10, 'new', rules, fees)).toMatchObject({ fee_cents: 10, net_cents: 0 });
+  });
+
+  it('rejects amounts that are not whole cents', () => {
+    expect(() => calculatePayoutFee(-100, 'new', [], fees)).toThrow('whole number of cents');
+  });
+});
@@ -0,0 +1,87 @@
+import { LedgerMovement, StripeMovement, reconcileMovements } from '../lib/ledger';
+
+jest.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const payment: LedgerMovement = {
+  entry_id: 'entry-payment',
+  entry_type: 'order_payment',
+  external_id: 'pi_1',
+  reference_id: 'order-1',
+  amount_cents: 10300,
+  currency: 'usd',
+  created_at: '2025-06-01T00:00:00Z',
+};
+
+const charge: StripeMovement = {
+  id: 'txn_charge',
+  type: 'charge',
+  source_id: 'pi_1',
+  amount_cents: 10300,
+  currency: 'usd',
+  created_at: '2025-06-01T00:00:00Z',
+};
+
+describe('reconcileMovements', () => {
+  it('matches movements by payment intent, refund or transfer id', () => {
+    const result = reconcileMovements(
+      [payment, { ...payment, entry_id: 'entry-refund', entry_type: 'order_refund', external_id: 're_1', amount_cents: -2000 }],
+      [charge, { ...charge, id: 'txn_refund', type: 'refund', source_id: 're_1', amount_cents: -2000 }]
+    );
+
+    expect(result.matched).toBe(2);
+    expect(result.issues).toEqual([]);
+    expect(result.totals).toEqual([
+      { currency: 'usd', stripe_total_cents: 8300, ledger_total_cents: 8300, drift_cents: 0 },
+    ]);
+  });
+
+  it('keeps the same id in two currencies apart', () => {
+    const result = reconcileMovements(
+      [payment, { ...payment, currency: 'eur', amount_cents: 5000 }],
+      [charge, { ...charge, currency: 'eur', amount_cents: 4000 }]
+    );
+
+    expect(result.matched).toBe(1);
+    expect(result.issues).toEqual([
+      { type: 'amount_mismatch', external_id: 'pi_1', currency: 'eur', stripe_amount_cents: 4000, ledger_amount_cents: 5000 },
+    ]);
+    expect(result.totals).toEqual([
+      { currency: 'eur', stripe_total_cents: 4000, ledger_total_cents: 5000, drift_cents: -1000 },
+      { currency: 'usd', stripe_total_cents: 10300, ledger_total_cents: 10300, drift_cents: 0 },
+    ]);
+  });
+
+  it('reports movements missing on either side', () => {
+    const result = reconcileMovements(
+      [{ ...payment, external_id: 'pi_ledger' }],
+      [{ ...charge, source_id: 'pi_stripe', amount_cents: 700 }]
+    );
+
+    expect(result.issues).toEqual([
+      { type: 'missing_in_stripe', external_id: 'pi_ledger', currency: 'usd', stripe_amount_cents: null, ledger_amount_cents: 10300 },
+      { type: 'missing_in_ledger', external_id: 'pi_stripe', currency: 'usd', stripe_amount_cents: 700, ledger_amount_cents: null },
+    ]);
+  });
+
+  it('never matches movements without an id', () => {
+    const result = reconcileMovements(
+      [{ ...payment, external_id: null, amount_cents: 500 }],
+      [{ ...charge, id: 'txn_fee', type: 'stripe_fee', source_id: null, amount_cents: 500 }]
+    );
+
+    expect(result.matched).toBe(0);
+    expect(result.totals[0].drift_cents).toBe(0);
+    expect(result.issues.map(issue => issue.type)).toEqual(['missing_in_stripe', 'missing_in_ledger']);
+  });
+
+  it('counts a transfer reversed before it was booked as matched', () => {
+    const result = reconcileMovements([], [
+      { ...charge, id: 'txn_transfer', type: 'transfer', source_id: 'tr_1', amount_cents: -5000 },
+      { ...charge, id: 'txn_reversal', type: 'transfer_reversal', source_id: 'tr_1', amount_cents: 5000 },
+    ]);
+
+    expect(result.matched).toBe(1);
+    expect(result.issues).toEqual([]);
+    expect(result.totals[0].drift_cents).toBe(0);
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -8,90 +8,132 @@ import {
   StyleSheet,
   SafeAreaView,
   Dimensions,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
-import { Heart, ShoppingBag, MapPin } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { Heart, ShoppingBag, Bell, BellRing } from 'lucide-react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Favorite, FavoritesService } from '~/lib/favorites';
+import { useDisplayCurrency } from '~/hooks/useDisplayCurrency';
 
 const { width } = Dimensions.get('window');
 const itemWidth = (width - 45) / 2;
 
-interface FavoriteItem {
-  id: string;
-  title: string;
-  price: number;
-  image: string;
-  brand: string;
-  size: string;
-  location: string;
-}
+export default function FavoritesScreen() {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const { formatPrice } = useDisplayCurrency();
 
-const mockFavorites: FavoriteItem[] = [
-  {
-    id: '1',
-    title: 'Vintage Denim Jacket',
-    price: 45,
-    image: 'https://images.pexels.com/photos/1598507/pexels-photo-1598507.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-    brand: 'Levi\'s',
-    size: 'M',
-    location: 'New York',
-  },
-  {
-    id: '3',
-    title: 'Designer Handbag',
-    price: 125,
-    image: 'https://images.pexels.com/photos/1152077/pexels-photo-1152077.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-    brand: 'Coach',
-    size: 'One Size',
-    location: 'Chicago',
-  },
-  {
-    id: '5',
-    title: 'Classic White Sneakers',
-    price: 65,
-    image: 'https://images.pexels.com/photos/2529148/pexels-photo-2529148.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-    brand: 'Nike',
-    size: '8',
-    location: 'Seattle',
-  },
-];
+  const loadFavorites = async () => {
+    try {
+      const data = await FavoritesService.getFavorites();
+      setFavorites(data.filter(favorite => favorite.item));
+    } catch (error) {
+      console.error('Load favorites error:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
 
-export default function FavoritesScreen() {
-  const [favorites, setFavorites] = useState<FavoriteItem[]>(mockFavorites);
+  // Reload whenever the tab is shown so hearts toggled elsewhere stay in sync
+  useFocusEffect(
+    useCallback(() => {
+      loadFavorites();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadFavorites();
+  };
 
-  const removeFavorite = (itemId: string) => {
-    setFavorites(prevFavorites => 
-      prevFavorites.filter(item => item.id !== itemId)
+  const removeFavorite = async (favorite: Favorite) => {
+    // Remove immediately and put it back if the delete fails
+    setFavorites(prevFavorites =>
+      prevFavorites.filter(item => item.id !== favorite.id)
     );
+
+    try {
+      await FavoritesService.removeFavorite(favorite.item_id);
+    } catch (error) {
+      setFavorites(prevFavorites => [favorite, ...prevFavorites]);
+      Alert.alert('Error', 'Failed to remove favorite');
+    }
   };
 
-  const renderItem = ({ item }: { item: FavoriteItem }) => (
-    <TouchableOpacity 
-      style={styles.itemContainer}
-      onPress={() => router.push(`/item/${item.id}`)}
-    >
-      <View style={styles.imageContainer}>
-        <Image source={{ uri: item.image }} style={styles.itemImage} />
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => removeFavorite(item.id)}
-        >
-          <Heart size={20} color="#FF6B47" fill="#FF6B47" />
-        </TouchableOpacity>
-      </View>
-      
-      <View style={styles.itemInfo}>
-        <Text style={styles.itemPrice}>${item.price}</Text>
-        <Text style={styles.itemTitle} numberOfLines={2}>
-          {item.title}
-        </Text>
-        <Text style={styles.itemBrand}>{item.brand} • {item.size}</Text>
-        <View style={styles.locationContainer}>
-          <MapPin size={12} color="#9CA3AF" />
-          <Text style={styles.locationText}>{item.location}</Text>
+  const toggleWatching = async (favorite: Favorite) => {
+    const updateWatching = (isWatching: boolean) => {
+      setFavorites(prevFavorites =>
+        prevFavorites.map(item =>
+          item.id === favorite.id ? { ...item, is_watching: isWatching } : item
+        )
+      );
+    };
+
+    updateWatching(!favorite.is_watching);
+
+    try {
+      await FavoritesService.setWatching(favorite.item_id, !favorite.is_watching);
+    } catch (error) {
+      updateWatching(favorite.is_watching);
+      Alert.alert('Error', 'Failed to update price watch');
+    }
+  };
+
+  const renderItem = ({ item: favorite }: { item: Favorite }) => {
+    const item = favorite.item!;
+
+    return (
+      <TouchableOpacity 
+        style={styles.itemContainer}
+        onPress={() => router.push(`/item/${item.id}`)}
+      >
+        <View style={styles.imageContainer}>
+          <Image source={{ uri: item.images[0] }} style={styles.itemImage} />
+          {item.status !== 'active' && (
+            <View style={styles.unavailableBadge}>
+              <Text style={styles.unavailableText}>
+                {item.status === 'sold' ? 'Sold' : 'Unavailable'}
+              </Text>
+            </View>
+          )}
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => removeFavorite(favorite)}
+          >
+            <Heart size={20} color="#FF6B47" fill="#FF6B47" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.removeButton, styles.watchButton]}
+            onPress={() => toggleWatching(favorite)}
+          >
+            {favorite.is_watching ? (
+              <BellRing size={18} color="#F59E0B" />
+            ) : (
+              <Bell size={18} color="#9CA3AF" />
+            )}
+          </TouchableOpacity>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
+        
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemPrice}>{formatPrice(item.price, item.currency)}</Text>
+          <Text style={styles.itemTitle} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text style={styles.itemBrand}>{item.brand} • {item.size}</Text>
+          <View style={styles.locationContainer}>
+            <Heart size={12} color="#9CA3AF" />
+            <Text style={styles.locationText}>
+              {item.favorites_count} {item.favorites_count === 1 ? 'favorite' : 'favorites'}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
@@ -126,7 +168,11 @@ export default function FavoritesScreen() {
         )}
       </View>
 
-      {favorites.length === 0 ? (
+      {loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#9ACD32" />
+        </View>
+      ) : favorites.length === 0 ? (
         renderEmptyState()
       ) : (
         <FlatList
@@ -137,6 +183,9 @@ export default function FavoritesScreen() {
           contentContainerStyle={styles.listContainer}
           columnWrapperStyle={styles.row}
           showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
         />
       )}
     </SafeAreaView>
@@ -234,6 +283,23 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  watchButton: {
+    top: 56,
+  },
+  unavailableBadge: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    backgroundColor: 'rgba(17, 24, 39, 0.75)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  unavailableText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+  },
   itemInfo: {
     padding: 12,
   },
@@ -12,10 +12,13 @@ import {
   RefreshControl,
 } from 'react-native';
 import { router } from 'expo-router';
-import { Settings, Star, MapPin, Calendar, Package, Heart, MessageCircle, Share2, UserPlus, Users } from 'lucide-react-native';
+import { Settings, Star, MapPin, Calendar, Package, Heart, MessageCircle, Share2, UserPlus, Users, ShoppingBag, ShieldAlert } from 'lucide-react-native';
 import { useAuth } from '~/contexts/AuthContext';
 import { ReviewStats } from '~/components/ReviewStats';
 import { SocialService } from '~/lib/social';
+import { Item, ItemsService } from '~/lib/items';
+import { formatMoney } from '~/lib/currency';
+import { AccountStanding, isRestricted, restrictionMessage } from '~/lib/account-status';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -32,13 +35,24 @@ export default function ProfileScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [followersCount, setFollowersCount] = useState(0);
   const [followingCount, setFollowingCount] = useState(0);
+  const [listings, setListings] = useState<Item[]>([]);
   
   useEffect(() => {
     if (user) {
       loadSocialCounts();
+      loadListings();
     }
   }, [user]);
 
+  const loadListings = async () => {
+    try {
+      const items = await ItemsService.getUserItems();
+      setListings(items);
+    } catch (error) {
+      console.error('Load listings error:', error);
+    }
+  };
+
   const loadSocialCounts = async () => {
     try {
       const { data } = await supabase
@@ -58,10 +72,23 @@ export default function ProfileScreen() {
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadSocialCounts();
+    await Promise.all([loadSocialCounts(), loadListings()]);
     setRefreshing(false);
   };
   
+  // Listings a moderator is still reviewing stay on the selling tab
+  const visibleListings = listings.filter(item =>
+    activeTab === 'selling'
+      ? ['active', 'pending_review', 'flagged'].includes(item.status)
+      : item.status === 'sold'
+  );
+
+  const standing: AccountStanding | null = user?.account_status ? {
+    account_status: user.account_status,
+    suspended_until: user.suspended_until ?? null,
+    status_reason: user.status_reason ?? null,
+  } : null;
+
   const styles = createStyles(colors);
 
   return (
@@ -79,6 +106,23 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
 
+        {standing && isRestricted(standing) && (
+          <TouchableOpacity
+            style={[styles.restrictionBanner, { backgroundColor: colors.error + '15' }]}
+            onPress={() => router.push('/account-status')}
+          >
+            <ShieldAlert size={20} color={colors.error} />
+            <View style={styles.restrictionContent}>
+              <ThemedText style={[styles.restrictionTitle, { color: colors.error }]}>
+                {restrictionMessage(standing)}
+              </ThemedText>
+              <ThemedText style={[styles.restrictionText, { color: colors.textSecondary }]}>
+                You cannot list, message or buy. Tap to see why or to appeal.
+              </ThemedText>
+            </View>
+          </TouchableOpacity>
+        )}
+
         <ScrollView 
           showsVerticalScrollIndicator={false}
           refreshControl={
@@ -190,8 +234,74 @@ export default function ProfileScreen() {
                 <Users size={20} color={colors.primary} />
                 <ThemedText style={styles.socialButtonText}>Following</ThemedText>
               </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.socialButton, { backgroundColor: colors.surface }]}
+                onPress={() => router.push('/bundle/settings')}
+              >
+                <ShoppingBag size={20} color={colors.primary} />
+                <ThemedText style={styles.socialButtonText}>Bundles</ThemedText>
+              </TouchableOpacity>
             </View>
           </View>
+
+          {/* Listings */}
+          <View style={styles.listingsSection}>
+            <View style={[styles.listingsTabs, { borderBottomColor: colors.border }]}>
+              {(['selling', 'sold'] as const).map(tab => (
+                <TouchableOpacity
+                  key={tab}
+                  style={[
+                    styles.listingsTab,
+                    activeTab === tab && { borderBottomColor: colors.primary },
+                  ]}
+                  onPress={() => setActiveTab(tab)}
+                >
+                  <ThemedText
+                    style={[
+                      styles.listingsTabText,
+                      { color: activeTab === tab ? colors.primary : colors.textSecondary },
+                    ]}
+                  >
+                    {tab === 'selling' ? 'Selling' : 'Sold'}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {visibleListings.length === 0 ? (
+              <View style={styles.emptyListings}>
+                <Package size={32} color={colors.textSecondary} />
+                <ThemedText style={[styles.emptyListingsText, { color: colors.textSecondary }]}>
+                  {activeTab === 'selling' ? 'No active listings' : 'No sold items yet'}
+                </ThemedText>
+              </View>
+            ) : (
+              <View style={styles.listingsGrid}>
+                {visibleListings.map(item => (
+                  <TouchableOpacity
+                    key={item.id}
+                    style={styles.listingItem}
+                    onPress={() => router.push(`/item/${item.id}`)}
+                  >
+                    <Image source={{ uri: item.images[0] }} style={styles.listingImage} />
+                    <ThemedText style={styles.listingPrice}>{formatMoney(item.price, item.currency)}</ThemedText>
+                    {/* How many buyers saved this listing */}
+                    <View style={styles.listingFavorites}>
+                      <Heart size={12} color={colors.error} fill={colors.error} />
+                      <ThemedText style={[styles.listingFavoritesText, { color: colors.textSecondary }]}>
+                        {item.favorites_count || 0}
+                      </ThemedText>
+                    </View>
+                    {item.status !== 'active' && item.status !== 'sold' && (
+                      <ThemedText style={[styles.listingReview, { color: colors.warning }]}>
+                        In review
+                      </ThemedText>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
         </ScrollView>
       </SafeAreaView>
     </ThemedView>
@@ -235,6 +345,27 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 24,
     fontFamily: 'Inter-Bold',
   },
+  restrictionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+  },
+  restrictionContent: {
+    flex: 1,
+  },
+  restrictionTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 2,
+  },
+  restrictionText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
   settingsButton: {
     padding: 8,
     borderRadius: 8,
@@ -354,4 +485,66 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontFamily: 'Inter-Medium',
     color: colors.text,
   },
+  listingsSection: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  listingsTabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    marginBottom: 16,
+  },
+  listingsTab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  listingsTabText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  listingsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  listingItem: {
+    width: itemWidth,
+  },
+  listingImage: {
+    width: itemWidth,
+    height: itemWidth * 1.3,
+    borderRadius: 8,
+    marginBottom: 6,
+  },
+  listingPrice: {
+    fontSize: 14,
+    fontFamily: 'Inter-Bold',
+  },
+  listingFavorites: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  listingReview: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 2,
+  },
+  listingFavoritesText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  emptyListings: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    gap: 8,
+  },
+  emptyListingsText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -7,12 +7,53 @@ import {
   TouchableOpacity,
   StyleSheet,
   SafeAreaView,
+  Image,
+  ActivityIndicator,
+  Dimensions,
+  Modal,
+  Alert,
 } from 'react-native';
-import { Search, Filter, X, Clock, TrendingUp } from '@expo/vector-icons';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { Search, Filter, X, Clock, TrendingUp, Bookmark, ChevronRight } from 'lucide-react-native';
+import {
+  ItemsService,
+  FacetCount,
+  PRICE_BUCKETS,
+  PriceBucket,
+  SearchCursor,
+  SearchFacets,
+  SearchFilters,
+  SearchResultItem,
+} from '~/lib/items';
+import { SavedSearch, SavedSearchesService } from '~/lib/saved-searches';
+
+const { width } = Dimensions.get('window');
+const itemWidth = (width - 52) / 2;
+
+type FacetKey = 'categories' | 'brands' | 'sizes' | 'conditions';
+
+const FACET_SECTIONS: { key: FacetKey; facet: keyof SearchFacets; title: string }[] = [
+  { key: 'categories', facet: 'category', title: 'Categories' },
+  { key: 'brands', facet: 'brand', title: 'Brands' },
+  { key: 'sizes', facet: 'size', title: 'Sizes' },
+  { key: 'conditions', facet: 'condition', title: 'Condition' },
+];
 
 export default function SearchScreen() {
+  const { savedSearchId } = useLocalSearchParams<{ savedSearchId?: string }>();
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFilters, setSelectedFilters] = useState<string[]>([]);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [results, setResults] = useState<SearchResultItem[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const requestId = useRef(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saving, setSaving] = useState(false);
 
   const popularSearches = [
     'Vintage jeans',
@@ -30,27 +71,175 @@ export default function SearchScreen() {
     'Nike Air Force',
   ];
 
-  const brands = [
-    'Nike', 'Adidas', 'Zara', 'H&M', 'Uniqlo', 'Levi\'s',
-    'Coach', 'Gucci', 'Prada', 'Vintage', 'Handmade',
+  const activeFilters = [
+    ...FACET_SECTIONS.flatMap(section =>
+      (filters[section.key] || []).map(value => ({ key: section.key, value, label: value }))
+    ),
+    ...(filters.priceBucket
+      ? [{
+          key: 'priceBucket' as const,
+          value: filters.priceBucket,
+          label: PRICE_BUCKETS.find(bucket => bucket.id === filters.priceBucket)?.label || filters.priceBucket,
+        }]
+      : []),
   ];
 
-  const sizes = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
-  const conditions = ['New with tags', 'Very good', 'Good', 'Satisfactory'];
-  const priceRanges = ['Under $20', '$20-50', '$50-100', '$100-200', 'Over $200'];
+  const isSearching = debouncedQuery.length > 0 || activeFilters.length > 0;
+
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    runSearch();
+  }, [debouncedQuery, filters]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSavedSearches();
+    }, [])
+  );
+
+  // Opened from a saved search alert
+  useEffect(() => {
+    if (savedSearchId) {
+      SavedSearchesService.getSavedSearch(savedSearchId).then(savedSearch => {
+        if (savedSearch) applySavedSearch(savedSearch);
+      });
+    }
+  }, [savedSearchId]);
+
+  const loadSavedSearches = async () => {
+    try {
+      const data = await SavedSearchesService.getSavedSearches();
+      setSavedSearches(data);
+    } catch (error) {
+      console.error('Load saved searches error:', error);
+    }
+  };
+
+  const applySavedSearch = (savedSearch: SavedSearch) => {
+    const query = savedSearch.query || '';
+    setSearchQuery(query);
+    setDebouncedQuery(query);
+    setFilters(savedSearch.filters || {});
+  };
+
+  const openSaveModal = () => {
+    setSaveName(debouncedQuery || activeFilters.map(filter => filter.label).join(', '));
+    setShowSaveModal(true);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!saveName.trim()) {
+      Alert.alert('Name Required', 'Please enter a name for this search');
+      return;
+    }
 
-  const toggleFilter = (filter: string) => {
-    setSelectedFilters(prev =>
-      prev.includes(filter)
-        ? prev.filter(f => f !== filter)
-        : [...prev, filter]
-    );
+    try {
+      setSaving(true);
+      const savedSearch = await SavedSearchesService.createSavedSearch(saveName, debouncedQuery, filters);
+      setSavedSearches(prev => [savedSearch, ...prev]);
+      setShowSaveModal(false);
+      Alert.alert('Search Saved', "We'll let you know when new items match this search.");
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runSearch = async () => {
+    const currentRequest = ++requestId.current;
+    setLoading(true);
+
+    try {
+      const result = await ItemsService.searchItems(debouncedQuery, filters);
+
+      // Ignore responses that arrive after a newer search started
+      if (currentRequest !== requestId.current) return;
+
+      setResults(result.items);
+      setFacets(result.facets);
+      setNextCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Search error:', error);
+    } finally {
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const currentRequest = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const result = await ItemsService.searchItems(debouncedQuery, filters, { cursor: nextCursor });
+      if (currentRequest !== requestId.current) return;
+
+      setResults(prev => [...prev, ...result.items]);
+      setNextCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Load more search results error:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleFilter = (key: FacetKey, value: string) => {
+    setFilters(prev => {
+      const current = prev[key] || [];
+      return {
+        ...prev,
+        [key]: current.includes(value)
+          ? current.filter(v => v !== value)
+          : [...current, value],
+      };
+    });
+  };
+
+  const togglePriceBucket = (bucket: PriceBucket) => {
+    setFilters(prev => ({
+      ...prev,
+      priceBucket: prev.priceBucket === bucket ? undefined : bucket,
+    }));
+  };
+
+  const removeFilter = (key: FacetKey | 'priceBucket', value: string) => {
+    if (key === 'priceBucket') {
+      togglePriceBucket(value as PriceBucket);
+    } else {
+      toggleFilter(key, value);
+    }
   };
 
   const clearFilters = () => {
-    setSelectedFilters([]);
+    setFilters({});
   };
 
+  const renderFacetChip = (
+    facet: FacetCount,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={facet.value}
+      style={[styles.filterTag, selected && styles.filterTagActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterTagText, selected && styles.filterTagTextActive]}>
+        {label} ({facet.count})
+      </Text>
+    </TouchableOpacity>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -82,9 +271,9 @@ export default function SearchScreen() {
         </View>
         <TouchableOpacity style={styles.filterButton}>
           <Filter size={20} color="#9ACD32" />
-          {selectedFilters.length > 0 && (
+          {activeFilters.length > 0 && (
             <View style={styles.filterBadge}>
-              <Text style={styles.filterBadgeText}>{selectedFilters.length}</Text>
+              <Text style={styles.filterBadgeText}>{activeFilters.length}</Text>
             </View>
           )}
         </TouchableOpacity>
@@ -92,7 +281,7 @@ export default function SearchScreen() {
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Active Filters */}
-        {selectedFilters.length > 0 && (
+        {activeFilters.length > 0 && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Active Filters</Text>
@@ -101,13 +290,13 @@ export default function SearchScreen() {
               </TouchableOpacity>
             </View>
             <View style={styles.filtersContainer}>
-              {selectedFilters.map((filter) => (
+              {activeFilters.map((filter) => (
                 <TouchableOpacity
-                  key={filter}
+                  key={`${filter.key}-${filter.value}`}
                   style={styles.activeFilter}
-                  onPress={() => toggleFilter(filter)}
+                  onPress={() => removeFilter(filter.key, filter.value)}
                 >
-                  <Text style={styles.activeFilterText}>{filter}</Text>
+                  <Text style={styles.activeFilterText}>{filter.label}</Text>
                   <X size={16} color="#ffffff" />
                 </TouchableOpacity>
               ))}
@@ -115,8 +304,33 @@ export default function SearchScreen() {
           </View>
         )}
 
+        {/* Saved Searches */}
+        {!isSearching && savedSearches.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Bookmark size={18} color="#6B2C91" />
+              <Text style={styles.sectionTitle}>Saved Searches</Text>
+              <TouchableOpacity onPress={() => router.push('/saved-searches')}>
+                <Text style={styles.manageButton}>Manage</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.searchList}>
+              {savedSearches.slice(0, 5).map((savedSearch) => (
+                <TouchableOpacity
+                  key={savedSearch.id}
+                  style={[styles.searchItem, styles.savedSearchItem]}
+                  onPress={() => applySavedSearch(savedSearch)}
+                >
+                  <Text style={styles.searchItemText}>{savedSearch.name}</Text>
+                  <ChevronRight size={18} color="#9CA3AF" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Recent Searches */}
-        {searchQuery.length === 0 && (
+        {!isSearching && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Clock size={18} color="#6B7280" />
@@ -137,128 +351,150 @@ export default function SearchScreen() {
         )}
 
         {/* Popular Searches */}
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <TrendingUp size={18} color="#9ACD32" />
-            <Text style={styles.sectionTitle}>Trending Searches</Text>
-          </View>
-          <View style={styles.tagsContainer}>
-            {popularSearches.map((search) => (
-              <TouchableOpacity
-                key={search}
-                style={styles.trendingTag}
-                onPress={() => setSearchQuery(search)}
-              >
-                <Text style={styles.trendingTagText}>{search}</Text>
-              </TouchableOpacity>
-            ))}
+        {!isSearching && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <TrendingUp size={18} color="#9ACD32" />
+              <Text style={styles.sectionTitle}>Trending Searches</Text>
+            </View>
+            <View style={styles.tagsContainer}>
+              {popularSearches.map((search) => (
+                <TouchableOpacity
+                  key={search}
+                  style={styles.trendingTag}
+                  onPress={() => setSearchQuery(search)}
+                >
+                  <Text style={styles.trendingTagText}>{search}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </View>
-        </View>
+        )}
 
-        {/* Brands */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Brands</Text>
-          <View style={styles.tagsContainer}>
-            {brands.map((brand) => (
-              <TouchableOpacity
-                key={brand}
-                style={[
-                  styles.filterTag,
-                  selectedFilters.includes(brand) && styles.filterTagActive,
-                ]}
-                onPress={() => toggleFilter(brand)}
-              >
-                <Text
-                  style={[
-                    styles.filterTagText,
-                    selectedFilters.includes(brand) && styles.filterTagTextActive,
-                  ]}
-                >
-                  {brand}
-                </Text>
-              </TouchableOpacity>
-            ))}
+        {/* Facets */}
+        {facets && FACET_SECTIONS.map(section => (
+          facets[section.facet].length > 0 && (
+            <View key={section.key} style={styles.section}>
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <View style={styles.tagsContainer}>
+                {facets[section.facet].map(facet =>
+                  renderFacetChip(
+                    facet,
+                    facet.value,
+                    (filters[section.key] || []).includes(facet.value),
+                    () => toggleFilter(section.key, facet.value)
+                  )
+                )}
+              </View>
+            </View>
+          )
+        ))}
+
+        {/* Price Range */}
+        {facets && facets.price.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Price Range</Text>
+            <View style={styles.tagsContainer}>
+              {facets.price.map(facet =>
+                renderFacetChip(
+                  facet,
+                  PRICE_BUCKETS.find(bucket => bucket.id === facet.value)?.label || facet.value,
+                  filters.priceBucket === facet.value,
+                  () => togglePriceBucket(facet.value as PriceBucket)
+                )
+              )}
+            </View>
           </View>
-        </View>
+        )}
 
-        {/* Sizes */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Sizes</Text>
-          <View style={styles.tagsContainer}>
-            {sizes.map((size) => (
-              <TouchableOpacity
-                key={size}
-                style={[
-                  styles.filterTag,
-                  selectedFilters.includes(size) && styles.filterTagActive,
-                ]}
-                onPress={() => toggleFilter(size)}
-              >
-                <Text
-                  style={[
-                    styles.filterTagText,
-                    selectedFilters.includes(size) && styles.filterTagTextActive,
-                  ]}
-                >
-                  {size}
-                </Text>
+        {/* Results */}
+        {isSearching && (
+          <View style={[styles.section, { marginBottom: 100 }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Results</Text>
+              <TouchableOpacity style={styles.saveSearchButton} onPress={openSaveModal}>
+                <Bookmark size={16} color="#6B2C91" />
+                <Text style={styles.manageButton}>Save search</Text>
               </TouchableOpacity>
-            ))}
+            </View>
+            {loading ? (
+              <ActivityIndicator style={styles.resultsLoading} color="#9ACD32" />
+            ) : results.length === 0 ? (
+              <Text style={styles.noResultsText}>No items match your search</Text>
+            ) : (
+              <>
+                <View style={styles.resultsGrid}>
+                  {results.map(item => (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={styles.resultItem}
+                      onPress={() => router.push(`/item/${item.id}`)}
+                    >
+                      <Image source={{ uri: item.images[0] }} style={styles.resultImage} />
+                      <Text style={styles.resultPrice}>${item.price}</Text>
+                      <Text style={styles.resultTitle} numberOfLines={2}>{item.title}</Text>
+                      <Text style={styles.resultBrand}>{item.brand} • {item.size}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {nextCursor && (
+                  <TouchableOpacity style={styles.loadMoreButton} onPress={loadMore}>
+                    {loadingMore ? (
+                      <ActivityIndicator color="#6B2C91" />
+                    ) : (
+                      <Text style={styles.loadMoreText}>Load more</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
           </View>
-        </View>
+        )}
+      </ScrollView>
 
-        {/* Condition */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Condition</Text>
-          <View style={styles.tagsContainer}>
-            {conditions.map((condition) => (
+      {/* Save Search Modal */}
+      <Modal
+        visible={showSaveModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowSaveModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Save Search</Text>
+            <Text style={styles.modalSubtitle}>
+              Get notified when new items match this search
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              placeholder="Name this search"
+              value={saveName}
+              onChangeText={setSaveName}
+              placeholderTextColor="#9CA3AF"
+              autoFocus
+            />
+            <View style={styles.modalActions}>
               <TouchableOpacity
-                key={condition}
-                style={[
-                  styles.filterTag,
-                  selectedFilters.includes(condition) && styles.filterTagActive,
-                ]}
-                onPress={() => toggleFilter(condition)}
+                style={[styles.modalButton, styles.modalCancelButton]}
+                onPress={() => setShowSaveModal(false)}
               >
-                <Text
-                  style={[
-                    styles.filterTagText,
-                    selectedFilters.includes(condition) && styles.filterTagTextActive,
-                  ]}
-                >
-                  {condition}
-                </Text>
+                <Text style={styles.modalCancelText}>Cancel</Text>
               </TouchableOpacity>
-            ))}
-          </View>
-        </View>
-
-        {/* Price Range */}
-        <View style={[styles.section, { marginBottom: 100 }]}>
-          <Text style={styles.sectionTitle}>Price Range</Text>
-          <View style={styles.tagsContainer}>
-            {priceRanges.map((range) => (
               <TouchableOpacity
-                key={range}
-                style={[
-                  styles.filterTag,
-                  selectedFilters.includes(range) && styles.filterTagActive,
-                ]}
-                onPress={() => toggleFilter(range)}
+                style={[styles.modalButton, styles.modalSaveButton]}
+                onPress={handleSaveSearch}
+                disabled={saving}
               >
-                <Text
-                  style={[
-                    styles.filterTagText,
-                    selectedFilters.includes(range) && styles.filterTagTextActive,
-                  ]}
-                >
-                  {range}
-                </Text>
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.modalSaveText}>Save</Text>
+                )}
               </TouchableOpacity>
-            ))}
+            </View>
           </View>
         </View>
-      </ScrollView>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -443,4 +679,135 @@ const styles = StyleSheet.create({
   filterTagTextActive: {
     color: '#ffffff',
   },
-});
\ No newline at end of file
+  resultsLoading: {
+    marginTop: 24,
+  },
+  noResultsText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  resultsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  resultItem: {
+    width: itemWidth,
+    marginBottom: 20,
+  },
+  resultImage: {
+    width: itemWidth,
+    height: itemWidth * 1.3,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  resultPrice: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+    color: '#9ACD32',
+    marginBottom: 2,
+  },
+  resultTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#374151',
+    marginBottom: 2,
+  },
+  resultBrand: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: '#9CA3AF',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6B2C91',
+  },
+  manageButton: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    color: '#6B2C91',
+  },
+  savedSearchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  saveSearchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  modalCancelButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  modalSaveButton: {
+    backgroundColor: '#6B2C91',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#374151',
+  },
+  modalSaveText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#ffffff',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    color: '#6B2C91',
+  },
+});
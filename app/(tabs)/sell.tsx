@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -11,9 +11,10 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { DollarSign, Tag, Package, Info, CheckCircle } from 'lucide-react-native';
+import { Tag, Package, Info, CheckCircle } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { ItemsService, CreateItemData } from '~/lib/items';
+import { CURRENCIES, CurrencyService, DEFAULT_CURRENCY, currencySymbol } from '~/lib/currency';
 import { ImageUploader } from '~/components/ImageUploader';
 import { LoadingOverlay } from '~/components/LoadingOverlay';
 import { useColorScheme } from '~/hooks/useColorScheme';
@@ -58,6 +59,24 @@ export default function SellScreen() {
   const [loading, setLoading] = useState(false);
   const [uploadingImages, setUploadingImages] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+
+  // Listings are priced in the seller's currency
+  useEffect(() => {
+    CurrencyService.getUserCurrency().then(setCurrency);
+  }, []);
+
+  const changeCurrency = async (code: string) => {
+    const previous = currency;
+    setCurrency(code);
+
+    try {
+      await CurrencyService.setUserCurrency(code);
+    } catch (error) {
+      setCurrency(previous);
+      Alert.alert('Error', 'Failed to change your currency');
+    }
+  };
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -84,7 +103,7 @@ export default function SellScreen() {
     } else if (isNaN(price) || price <= 0) {
       newErrors.price = 'Price must be a valid number greater than 0';
     } else if (price > 10000) {
-      newErrors.price = 'Price must be less than $10,000';
+      newErrors.price = `Price must be less than ${currencySymbol(currency)}10,000`;
     }
 
     if (!formData.brand.trim()) {
@@ -153,9 +172,14 @@ export default function SellScreen() {
       });
       setErrors({});
 
+      // Listings wait for a moderator unless auto approval is on
+      const pendingReview = newItem.status === 'pending_review';
+
       Alert.alert(
-        'Item Listed Successfully! 🎉',
-        'Your item is now live and visible to buyers.',
+        pendingReview ? 'Item Submitted for Review' : 'Item Listed Successfully! 🎉',
+        pendingReview
+          ? 'Your item will be visible to buyers once a moderator approves it. We will notify you.'
+          : 'Your item is now live and visible to buyers.',
         [
           {
             text: 'View Item',
@@ -300,7 +324,9 @@ export default function SellScreen() {
                       borderColor: errors.price ? colors.error : colors.border,
                     }
                   ]}>
-                    <DollarSign size={20} color={colors.primary} />
+                    <ThemedText style={[styles.currencySymbol, { color: colors.primary }]}>
+                      {currencySymbol(currency).trim()}
+                    </ThemedText>
                     <TextInput
                       style={[styles.priceTextInput, { color: colors.text }]}
                       placeholder="0.00"
@@ -338,6 +364,41 @@ export default function SellScreen() {
                   )}
                 </View>
               </View>
+
+              <View style={styles.inputGroup}>
+                <ThemedText style={[styles.label, { color: colors.textSecondary }]}>Currency</ThemedText>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  style={styles.optionsScroll}
+                  contentContainerStyle={styles.optionsContent}
+                >
+                  {CURRENCIES.map((option) => (
+                    <TouchableOpacity
+                      key={option.code}
+                      style={[
+                        styles.sizeButton,
+                        {
+                          backgroundColor: currency === option.code ? colors.primary : colors.surface,
+                          borderColor: currency === option.code ? colors.primary : colors.border,
+                        }
+                      ]}
+                      onPress={() => changeCurrency(option.code)}
+                      disabled={loading}
+                    >
+                      <ThemedText style={[
+                        styles.sizeText,
+                        { color: currency === option.code ? '#FFFFFF' : colors.text }
+                      ]}>
+                        {option.code.toUpperCase()}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                <Text style={[styles.charCount, { color: colors.textSecondary }]}>
+                  Your listings are priced in {currency.toUpperCase()}, buyers elsewhere also see an estimate in their currency
+                </Text>
+              </View>
             </View>
 
             {/* Category & Details */}
@@ -598,6 +659,10 @@ const createStyles = (colors: any) => StyleSheet.create({
     paddingVertical: 14,
     gap: 8,
   },
+  currencySymbol: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
   priceTextInput: {
     flex: 1,
     fontSize: 16,
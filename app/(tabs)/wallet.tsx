@@ -14,6 +14,7 @@ import { Plus, ArrowUpRight, ArrowDownLeft, DollarSign, CreditCard, Settings, Ex
 import { StripeService, UserWallet, WalletTransaction } from '~/lib/stripe';
 import { StripeConnectService, StripeAccount } from '~/lib/stripe-connect';
 import { StripeConnectModal } from '~/components/StripeConnectModal';
+import { DEFAULT_CURRENCY, formatMoney } from '~/lib/currency';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -29,6 +30,12 @@ export default function WalletScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [showConnectModal, setShowConnectModal] = useState(false);
 
+  const currency = wallet?.currency || DEFAULT_CURRENCY;
+  // Balances in other currencies stay in the wallet for purchases, payouts go out in the wallet's currency
+  const otherBalances = (wallet?.balances || []).filter(balance =>
+    balance.currency !== currency && (balance.available_balance > 0 || balance.pending_balance > 0)
+  );
+
   useEffect(() => {
     loadWalletData();
   }, []);
@@ -68,7 +75,7 @@ export default function WalletScreen() {
           onPress: async (amount) => {
             if (amount && !isNaN(parseFloat(amount))) {
               try {
-                const paymentIntent = await StripeService.addFundsToWallet(parseFloat(amount));
+                const paymentIntent = await StripeService.addFundsToWallet(parseFloat(amount), currency);
                 Alert.alert(
                   'Payment Required',
                   'In a real app, this would open Stripe\'s payment sheet to add funds.',
@@ -116,7 +123,7 @@ export default function WalletScreen() {
 
     Alert.prompt(
       'Request Payout',
-      `Available balance: $${wallet.available_balance.toFixed(2)}\nEnter amount to withdraw:`,
+      `Available balance: ${formatMoney(wallet.available_balance, currency)}\nEnter amount to withdraw:`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -151,6 +158,8 @@ export default function WalletScreen() {
       case 'debit': return 'Purchase';
       case 'escrow_hold': return 'Sale (Pending)';
       case 'escrow_release': return 'Sale Completed';
+      case 'escrow_reversal': return 'Sale Refunded';
+      case 'refund': return 'Refund';
       case 'payout': return 'Payout';
       default: return type;
     }
@@ -160,9 +169,11 @@ export default function WalletScreen() {
     switch (type) {
       case 'credit':
       case 'escrow_release':
+      case 'refund':
         return <ArrowDownLeft size={20} color={colors.success} />;
       case 'debit':
       case 'payout':
+      case 'escrow_reversal':
         return <ArrowUpRight size={20} color={colors.error} />;
       case 'escrow_hold':
         return <DollarSign size={20} color={colors.warning} />;
@@ -222,13 +233,19 @@ export default function WalletScreen() {
               <CreditCard size={24} color="#FFFFFF" />
             </View>
             <ThemedText style={styles.balanceAmount}>
-              ${wallet?.available_balance.toFixed(2) || '0.00'}
+              {formatMoney(wallet?.available_balance || 0, currency)}
             </ThemedText>
             {wallet && wallet.pending_balance > 0 && (
               <ThemedText style={styles.pendingBalance}>
-                ${wallet.pending_balance.toFixed(2)} pending
+                {formatMoney(wallet.pending_balance, currency)} pending
               </ThemedText>
             )}
+            {otherBalances.map(balance => (
+              <ThemedText key={balance.currency} style={styles.pendingBalance}>
+                {formatMoney(balance.available_balance, balance.currency)} available
+                {balance.pending_balance > 0 ? `, ${formatMoney(balance.pending_balance, balance.currency)} pending` : ''}
+              </ThemedText>
+            ))}
           </View>
 
           {/* Stripe Connect Status */}
@@ -308,7 +325,7 @@ export default function WalletScreen() {
             <View style={[styles.statsCard, { backgroundColor: colors.surface }]}>
               <View style={styles.statItem}>
                 <ThemedText style={[styles.statValue, { color: colors.success }]}>
-                  ${wallet.total_earned.toFixed(2)}
+                  {formatMoney(wallet.total_earned, currency)}
                 </ThemedText>
                 <ThemedText style={[styles.statLabel, { color: colors.textSecondary }]}>
                   Total Earned
@@ -317,7 +334,7 @@ export default function WalletScreen() {
               <View style={styles.statDivider} />
               <View style={styles.statItem}>
                 <ThemedText style={[styles.statValue, { color: colors.error }]}>
-                  ${wallet.total_spent.toFixed(2)}
+                  {formatMoney(wallet.total_spent, currency)}
                 </ThemedText>
                 <ThemedText style={[styles.statLabel, { color: colors.textSecondary }]}>
                   Total Spent
@@ -362,7 +379,7 @@ export default function WalletScreen() {
                           color: transaction.amount > 0 ? colors.success : colors.error
                         }
                       ]}>
-                        {transaction.amount > 0 ? '+' : ''}${Math.abs(transaction.amount).toFixed(2)}
+                        {transaction.amount > 0 ? '+' : ''}{formatMoney(Math.abs(transaction.amount), transaction.currency)}
                       </ThemedText>
                       <View style={[
                         styles.transactionStatus,
@@ -0,0 +1,318 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { ArrowLeft, ShieldAlert, ShieldCheck } from 'lucide-react-native';
+import {
+  AccountAppeal,
+  AccountStanding,
+  AccountStatusService,
+  AppealStatus,
+  isRestricted,
+  restrictionMessage,
+} from '~/lib/account-status';
+import { useAuth } from '~/contexts/AuthContext';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+const APPEAL_STATUS_LABELS: Record<AppealStatus, string> = {
+  pending: 'Under review',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  closed: 'Closed',
+};
+
+export default function AccountStatusScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const { user } = useAuth();
+  const [standing, setStanding] = useState<AccountStanding | null>(null);
+  const [appeals, setAppeals] = useState<AccountAppeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [user?.id])
+  );
+
+  const loadStatus = async (refresh = false) => {
+    if (!user) return;
+
+    try {
+      if (refresh) setRefreshing(true);
+      const [data, history] = await Promise.all([
+        AccountStatusService.getStanding(user.id),
+        AccountStatusService.getMyAppeals(),
+      ]);
+      setStanding(data);
+      setAppeals(history);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load your account status');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleSubmitAppeal = async () => {
+    if (message.trim().length < 10) {
+      Alert.alert('Tell Us More', 'Explain in a few sentences why your account should be reinstated');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const appeal = await AccountStatusService.submitAppeal(message);
+      setAppeals(prev => [appeal, ...prev]);
+      setMessage('');
+      Alert.alert('Appeal Sent', 'Our team will review your appeal and notify you of the outcome');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send your appeal');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+  const restricted = isRestricted(standing);
+  const hasPendingAppeal = appeals.some(appeal => appeal.status === 'pending');
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Account Status</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadStatus(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          >
+            <View style={[styles.statusCard, { backgroundColor: (restricted ? colors.error : colors.success) + '15' }]}>
+              {restricted ? (
+                <ShieldAlert size={32} color={colors.error} />
+              ) : (
+                <ShieldCheck size={32} color={colors.success} />
+              )}
+              <ThemedText style={styles.statusTitle}>
+                {restricted && standing ? restrictionMessage(standing) : 'Your account is in good standing'}
+              </ThemedText>
+              {restricted && standing?.status_reason && (
+                <ThemedText style={[styles.statusReason, { color: colors.textSecondary }]}>
+                  {standing.status_reason}
+                </ThemedText>
+              )}
+              {restricted && (
+                <ThemedText style={[styles.statusReason, { color: colors.textSecondary }]}>
+                  {standing?.account_status === 'suspended'
+                    ? 'You cannot list, message or buy until your suspension ends. Your listings are hidden until then.'
+                    : 'You cannot list, message or buy. Your listings are hidden.'}
+                </ThemedText>
+              )}
+            </View>
+
+            {restricted && !hasPendingAppeal && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Appeal</ThemedText>
+                <ThemedText style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+                  If you think this is a mistake, tell us what happened. You can have one appeal under review at a time.
+                </ThemedText>
+                <TextInput
+                  style={[styles.appealInput, { color: colors.text, borderColor: colors.border }]}
+                  value={message}
+                  onChangeText={setMessage}
+                  placeholder="Why should your account be reinstated?"
+                  placeholderTextColor={colors.textSecondary}
+                  maxLength={2000}
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: colors.primary }]}
+                  onPress={handleSubmitAppeal}
+                  disabled={submitting}
+                >
+                  {submitting ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <ThemedText style={styles.submitButtonText}>Send Appeal</ThemedText>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {appeals.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Your Appeals</ThemedText>
+                {appeals.map(appeal => (
+                  <View key={appeal.id} style={[styles.appealCard, { backgroundColor: colors.surface }]}>
+                    <View style={styles.appealHeader}>
+                      <ThemedText style={styles.appealStatus}>{APPEAL_STATUS_LABELS[appeal.status]}</ThemedText>
+                      <ThemedText style={[styles.appealDate, { color: colors.textSecondary }]}>
+                        {new Date(appeal.created_at).toLocaleDateString()}
+                      </ThemedText>
+                    </View>
+                    <ThemedText style={[styles.appealMessage, { color: colors.textSecondary }]}>
+                      {appeal.message}
+                    </ThemedText>
+                    {appeal.response && (
+                      <ThemedText style={styles.appealResponse}>{appeal.response}</ThemedText>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 24,
+  },
+  statusCard: {
+    alignItems: 'center',
+    padding: 24,
+    borderRadius: 16,
+    gap: 8,
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    textAlign: 'center',
+  },
+  statusReason: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  appealInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  appealCard: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  appealHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  appealStatus: {
+    fontSize: 15,
+    fontFamily: 'Inter-SemiBold',
+  },
+  appealDate: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  appealMessage: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  appealResponse: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    lineHeight: 20,
+  },
+});
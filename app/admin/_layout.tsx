@@ -1,24 +1,31 @@
-import { Stack } from 'expo-router';
+import { Stack, useSegments } from 'expo-router';
 import { useEffect } from 'react';
 import { router } from 'expo-router';
 import { useAuth } from '~/contexts/AuthContext';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
+import { ADMIN_SCREEN_PERMISSIONS, hasPermission } from '~/lib/admin-access';
 
 export default function AdminLayout() {
   const { user } = useAuth();
+  const { access, loading } = useAdminAccess();
+  const segments = useSegments() as string[];
+
+  // Each screen needs the permission for what it shows, the dashboard is open to every admin role
+  const screen = segments[1] || 'index';
+  const requiredPermission = ADMIN_SCREEN_PERMISSIONS[screen];
+  const allowed = !!access && (!requiredPermission || hasPermission(access, requiredPermission));
 
   useEffect(() => {
-    // Check if user is admin (in a real app, this would check user role)
-    if (!user || !isAdmin(user)) {
+    if (loading) return;
+
+    if (!user || !access) {
       router.replace('/');
+    } else if (!allowed) {
+      router.replace('/admin');
     }
-  }, [user]);
-
-  // Mock admin check - in production, check user role from database
-  const isAdmin = (user: any) => {
-    return user?.email?.includes('admin') || user?.id === 'admin-user-id';
-  };
+  }, [loading, user, access, allowed]);
 
-  if (!user || !isAdmin(user)) {
+  if (loading || !user || !allowed) {
     return null;
   }
 
@@ -27,11 +34,16 @@ export default function AdminLayout() {
       <Stack.Screen name="index" />
       <Stack.Screen name="users" />
       <Stack.Screen name="items" />
+      <Stack.Screen name="reports" />
       <Stack.Screen name="orders" />
       <Stack.Screen name="disputes" />
       <Stack.Screen name="analytics" />
       <Stack.Screen name="settings" />
+      <Stack.Screen name="fee-rules" />
       <Stack.Screen name="delivery-api" />
+      <Stack.Screen name="stripe-events" />
+      <Stack.Screen name="audit-log" />
+      <Stack.Screen name="team" />
     </Stack>
   );
-}
\ No newline at end of file
+}
@@ -23,9 +23,12 @@ import {
   Share2,
   PieChart,
   LineChart,
+  Scale,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { AdminService } from '~/lib/admin';
+import { LedgerService, ReconciliationIssueType, ReconciliationReport } from '~/lib/ledger';
+import { formatCents } from '~/lib/fees';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -34,6 +37,14 @@ import { AnalyticsChart } from '~/components/AnalyticsChart';
 
 const { width } = Dimensions.get('window');
 
+const RANGE_DAYS = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+
+const ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  missing_in_ledger: 'In Stripe, not in ledger',
+  missing_in_stripe: 'In ledger, not in Stripe',
+  amount_mismatch: 'Amounts differ',
+};
+
 export default function AdminAnalyticsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
@@ -41,9 +52,12 @@ export default function AdminAnalyticsScreen() {
   const [loading, setLoading] = useState(true);
   const [analyticsData, setAnalyticsData] = useState<any>(null);
   const [activeMetric, setActiveMetric] = useState<'revenue' | 'orders' | 'users' | 'items'>('revenue');
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [reconciliationError, setReconciliationError] = useState<string | null>(null);
 
   useEffect(() => {
     loadAnalyticsData();
+    loadReconciliation();
   }, [timeRange]);
 
   const loadAnalyticsData = async () => {
@@ -58,6 +72,18 @@ export default function AdminAnalyticsScreen() {
     }
   };
 
+  const loadReconciliation = async () => {
+    try {
+      setReconciliation(null);
+      setReconciliationError(null);
+      const from = new Date(Date.now() - RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000);
+      setReconciliation(await LedgerService.getReconciliation(from));
+    } catch (error) {
+      console.error('Load reconciliation error:', error);
+      setReconciliationError(error instanceof Error ? error.message : 'Failed to load reconciliation');
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -411,6 +437,96 @@ export default function AdminAnalyticsScreen() {
             </View>
           </View>
 
+          {/* Reconciliation */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <View style={styles.sectionTitleContainer}>
+                <Scale size={20} color={colors.primary} />
+                <ThemedText style={styles.sectionTitle}>Reconciliation</ThemedText>
+              </View>
+            </View>
+            <View style={[styles.reconciliationCard, { backgroundColor: colors.surface }]}>
+              {!reconciliation ? (
+                <ThemedText style={[styles.reconciliationNote, { color: reconciliationError ? colors.error : colors.textSecondary }]}>
+                  {reconciliationError || 'Comparing the ledger with Stripe...'}
+                </ThemedText>
+              ) : (
+                <>
+                  {reconciliation.totals.map(total => (
+                    <React.Fragment key={total.currency}>
+                      <View style={styles.reconciliationRow}>
+                        <ThemedText style={styles.reconciliationLabel}>
+                          Stripe balance movements ({total.currency.toUpperCase()})
+                        </ThemedText>
+                        <ThemedText style={styles.reconciliationValue}>
+                          {formatCents(total.stripe_total_cents, total.currency)}
+                        </ThemedText>
+                      </View>
+                      <View style={styles.reconciliationRow}>
+                        <ThemedText style={styles.reconciliationLabel}>
+                          Ledger clearing movements ({total.currency.toUpperCase()})
+                        </ThemedText>
+                        <ThemedText style={styles.reconciliationValue}>
+                          {formatCents(total.ledger_total_cents, total.currency)}
+                        </ThemedText>
+                      </View>
+                      <View style={styles.reconciliationRow}>
+                        <ThemedText style={styles.reconciliationLabel}>Drift ({total.currency.toUpperCase()})</ThemedText>
+                        <ThemedText style={[
+                          styles.reconciliationValue,
+                          { color: total.drift_cents === 0 ? colors.success : colors.error },
+                        ]}>
+                          {formatCents(total.drift_cents, total.currency)}
+                        </ThemedText>
+                      </View>
+                    </React.Fragment>
+                  ))}
+                  <View style={styles.reconciliationRow}>
+                    <ThemedText style={styles.reconciliationLabel}>Unbalanced entries</ThemedText>
+                    <ThemedText style={[
+                      styles.reconciliationValue,
+                      { color: reconciliation.health.unbalanced_entries === 0 ? colors.success : colors.error },
+                    ]}>
+                      {reconciliation.health.unbalanced_entries}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.reconciliationRow}>
+                    <ThemedText style={styles.reconciliationLabel}>Wallets out of sync</ThemedText>
+                    <ThemedText style={[
+                      styles.reconciliationValue,
+                      { color: reconciliation.health.wallet_drift.length === 0 ? colors.success : colors.error },
+                    ]}>
+                      {reconciliation.health.wallet_drift.length}
+                    </ThemedText>
+                  </View>
+
+                  <ThemedText style={[styles.reconciliationNote, { color: colors.textSecondary }]}>
+                    {reconciliation.matched} matched, {reconciliation.issues.length} flagged.
+                    Movements near the start or end of the period may land on the other side of it.
+                  </ThemedText>
+
+                  {reconciliation.issues.slice(0, 10).map((issue, index) => (
+                    <View key={`${issue.external_id}-${index}`} style={styles.issueItem}>
+                      <View style={styles.issueInfo}>
+                        <ThemedText style={[styles.issueType, { color: colors.error }]}>
+                          {ISSUE_LABELS[issue.type]}
+                        </ThemedText>
+                        <ThemedText style={[styles.issueId, { color: colors.textSecondary }]} numberOfLines={1}>
+                          {issue.external_id || 'No Stripe reference'}
+                        </ThemedText>
+                      </View>
+                      <ThemedText style={styles.issueAmounts}>
+                        {issue.stripe_amount_cents !== null ? formatCents(issue.stripe_amount_cents, issue.currency) : '-'}
+                        {' / '}
+                        {issue.ledger_amount_cents !== null ? formatCents(issue.ledger_amount_cents, issue.currency) : '-'}
+                      </ThemedText>
+                    </View>
+                  ))}
+                </>
+              )}
+            </View>
+          </View>
+
           {/* Top Sellers */}
           <View style={[styles.section, { marginBottom: 100 }]}>
             <View style={styles.sectionHeader}>
@@ -686,6 +802,51 @@ const createStyles = (colors: any) => StyleSheet.create({
     height: '100%',
     borderRadius: 2,
   },
+  reconciliationCard: {
+    padding: 20,
+    borderRadius: 16,
+  },
+  reconciliationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  reconciliationLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  reconciliationValue: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  reconciliationNote: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 18,
+  },
+  issueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  issueInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  issueType: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 2,
+  },
+  issueId: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  issueAmounts: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
   sellersCard: {
     padding: 20,
     borderRadius: 16,
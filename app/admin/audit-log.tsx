@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, History } from 'lucide-react-native';
+import { AdminAccessService, AdminAuditEntry, adminRoleName } from '~/lib/admin-access';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+// Actions are named "<area>.<verb>", filtering matches the area
+const ACTION_AREAS: { id: string | null; label: string }[] = [
+  { id: null, label: 'All' },
+  { id: 'dispute.', label: 'Disputes' },
+  { id: 'order.', label: 'Orders' },
+  { id: 'item.', label: 'Items' },
+  { id: 'report.', label: 'Reports' },
+  { id: 'settings.', label: 'Settings' },
+  { id: 'fee_rule.', label: 'Fee rules' },
+  { id: 'admin.', label: 'Admins' },
+  { id: 'rider.', label: 'Riders' },
+  { id: 'webhook', label: 'Webhooks' },
+];
+
+export default function AuditLogScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [area, setArea] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadEntries();
+  }, [area]);
+
+  const loadEntries = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      const { entries: data } = await AdminAccessService.getAuditLog({ action: area ?? undefined });
+      setEntries(data);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderEntry = ({ item }: { item: AdminAuditEntry }) => (
+    <View style={styles.entryCard}>
+      <View style={styles.entryHeader}>
+        <ThemedText style={styles.entryAction} numberOfLines={1}>{item.action}</ThemedText>
+        <ThemedText style={[styles.entryTime, { color: colors.textSecondary }]}>
+          {new Date(item.created_at).toLocaleString()}
+        </ThemedText>
+      </View>
+      <ThemedText style={[styles.entryActor, { color: colors.textSecondary }]} numberOfLines={1}>
+        {item.actor?.nickname || 'Deleted user'} · {adminRoleName(item.actor_role)}
+      </ThemedText>
+      <ThemedText style={[styles.entryTarget, { color: colors.textSecondary }]} numberOfLines={1}>
+        {item.target_type}{item.target_id ? ` ${item.target_id}` : ''}
+      </ThemedText>
+      {Object.keys(item.details || {}).length > 0 && (
+        <ThemedText style={styles.entryDetails} numberOfLines={4}>
+          {JSON.stringify(item.details)}
+        </ThemedText>
+      )}
+    </View>
+  );
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <History size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No admin actions</ThemedText>
+        <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+          Actions taken with admin rights are recorded here
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Audit Log</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.filters}>
+          <View style={styles.chipRow}>
+            {ACTION_AREAS.map(option => {
+              const active = option.id === area;
+              return (
+                <TouchableOpacity
+                  key={option.id || 'any'}
+                  style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+                  onPress={() => {
+                    setLoading(true);
+                    setArea(option.id);
+                  }}
+                >
+                  <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{option.label}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            renderItem={renderEntry}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyComponent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadEntries(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    gap: 12,
+  },
+  entryCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  entryAction: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginRight: 12,
+  },
+  entryTime: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  entryActor: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 2,
+  },
+  entryTarget: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 8,
+  },
+  entryDetails: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -25,10 +25,15 @@ import {
   Copy,
   Check,
   ExternalLink,
+  Ban,
+  Trash2,
+  RotateCcw,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { DeliveryApiDocs } from '~/components/DeliveryApiDocs';
 import { AdminService } from '~/lib/admin';
+import { Rider, RidersService, RiderApiScope } from '~/lib/riders';
+import { DeadLetter, WebhookEndpoint, WebhooksService } from '~/lib/webhooks';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -41,8 +46,13 @@ export default function DeliveryApiScreen() {
   const [loading, setLoading] = useState(true);
   const [settings, setSettings] = useState<any>(null);
   const [apiEnabled, setApiEnabled] = useState(true);
-  const [isRegeneratingKey, setIsRegeneratingKey] = useState(false);
-  const [webhookUrl, setWebhookUrl] = useState('');
+  const [riders, setRiders] = useState<Rider[]>([]);
+  const [busyRiderId, setBusyRiderId] = useState<string | null>(null);
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [newWebhookUrl, setNewWebhookUrl] = useState('');
+  const [savingWebhook, setSavingWebhook] = useState(false);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
   const [copiedText, setCopiedText] = useState<string | null>(null);
   
   useEffect(() => {
@@ -52,10 +62,17 @@ export default function DeliveryApiScreen() {
   const loadSettings = async () => {
     try {
       setLoading(true);
-      const data = await AdminService.getAdminSettings();
+      const [data, riderList, endpoints, failed] = await Promise.all([
+        AdminService.getAdminSettings(),
+        RidersService.getRiders(),
+        WebhooksService.getEndpoints(),
+        WebhooksService.getDeadLetters(),
+      ]);
       setSettings(data);
+      setRiders(riderList);
+      setWebhookEndpoints(endpoints);
+      setDeadLetters(failed);
       setApiEnabled(data.delivery.apiEnabled);
-      setWebhookUrl(data.delivery.webhookUrl || '');
     } catch (error) {
       console.error('Load settings error:', error);
       Alert.alert('Error', 'Failed to load API settings');
@@ -113,35 +130,62 @@ export default function DeliveryApiScreen() {
     }
   };
   
-  const handleRegenerateKey = () => {
+  const replaceRider = (updated: Rider) => {
+    setRiders(prev => prev.map(rider => rider.id === updated.id ? updated : rider));
+  };
+
+  const handleRotateKey = (rider: Rider) => {
     Alert.alert(
-      "Regenerate API Key",
-      "Are you sure you want to regenerate the API key? This will invalidate the current key and all rider apps will need to be updated.",
+      "Rotate API Key",
+      `Issue a new key for ${rider.profile?.nickname || 'this rider'}? Their current key stops working immediately.`,
       [
         { text: "Cancel", style: "cancel" },
-        { 
-          text: "Regenerate", 
+        {
+          text: "Rotate",
           style: "destructive",
           onPress: async () => {
             try {
-              setIsRegeneratingKey(true);
-              const newKey = await AdminService.generateDeliveryApiKey();
-              if (settings) {
-                const updatedSettings = {
-                  ...settings,
-                  delivery: {
-                    ...settings.delivery,
-                    apiKey: newKey
-                  }
-                };
-                await AdminService.updateAdminSettings(updatedSettings);
-                setSettings(updatedSettings);
-              }
-              Alert.alert("Success", "API key has been regenerated. Make sure to update all rider apps.");
+              setBusyRiderId(rider.id);
+              const newKey = await RidersService.rotateApiKey(rider.id);
+              setRiders(await RidersService.getRiders());
+              // The plain key is never stored, so this is the only chance to copy it
+              Alert.alert(
+                "New API Key",
+                `${newKey}\n\nCopy this key now and send it to the rider. It will not be shown again.`,
+                [
+                  { text: "Copy", onPress: () => copyToClipboard(newKey) },
+                  { text: "Done", style: "cancel" },
+                ]
+              );
+            } catch (error) {
+              Alert.alert("Error", "Failed to rotate API key");
+            } finally {
+              setBusyRiderId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRevokeKey = (rider: Rider) => {
+    Alert.alert(
+      "Revoke API Key",
+      `${rider.profile?.nickname || 'This rider'} will lose API access until their key is rotated.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setBusyRiderId(rider.id);
+              await RidersService.revokeApiKey(rider.id);
+              replaceRider({ ...rider, api_key_revoked_at: new Date().toISOString() });
             } catch (error) {
-              Alert.alert("Error", "Failed to regenerate API key");
+              Alert.alert("Error", "Failed to revoke API key");
             } finally {
-              setIsRegeneratingKey(false);
+              setBusyRiderId(null);
             }
           }
         }
@@ -149,22 +193,87 @@ export default function DeliveryApiScreen() {
     );
   };
 
-  const handleSaveWebhook = async () => {
+  const handleToggleWriteScope = async (rider: Rider, allowed: boolean) => {
+    const scopes: RiderApiScope[] = allowed
+      ? ['deliveries:read', 'deliveries:write']
+      : ['deliveries:read'];
+
+    replaceRider({ ...rider, api_key_scopes: scopes });
+
     try {
-      if (settings) {
-        const updatedSettings = {
-          ...settings,
-          delivery: {
-            ...settings.delivery,
-            webhookUrl
+      await RidersService.setApiKeyScopes(rider.id, scopes);
+    } catch (error) {
+      replaceRider(rider);
+      Alert.alert("Error", "Failed to update key scopes");
+    }
+  };
+
+  const handleAddWebhook = async () => {
+    if (!newWebhookUrl.trim()) return;
+
+    try {
+      setSavingWebhook(true);
+      const endpoint = await WebhooksService.createEndpoint(newWebhookUrl);
+      setWebhookEndpoints(prev => [...prev, endpoint]);
+      setNewWebhookUrl('');
+      Alert.alert(
+        "Webhook Added",
+        `Partners should verify the X-Remore-Signature header with this signing secret:\n\n${endpoint.secret}`,
+        [
+          { text: "Copy", onPress: () => copyToClipboard(endpoint.secret) },
+          { text: "Done", style: "cancel" },
+        ]
+      );
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to add webhook");
+    } finally {
+      setSavingWebhook(false);
+    }
+  };
+
+  const handleToggleWebhook = async (endpoint: WebhookEndpoint, active: boolean) => {
+    setWebhookEndpoints(prev => prev.map(item => item.id === endpoint.id ? { ...item, is_active: active } : item));
+
+    try {
+      await WebhooksService.setEndpointActive(endpoint.id, active);
+    } catch (error) {
+      setWebhookEndpoints(prev => prev.map(item => item.id === endpoint.id ? endpoint : item));
+      Alert.alert("Error", "Failed to update webhook");
+    }
+  };
+
+  const handleDeleteWebhook = (endpoint: WebhookEndpoint) => {
+    Alert.alert(
+      "Remove Webhook",
+      `Stop sending events to ${endpoint.url}? Undelivered events for this endpoint are discarded.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await WebhooksService.deleteEndpoint(endpoint.id);
+              setWebhookEndpoints(prev => prev.filter(item => item.id !== endpoint.id));
+              setDeadLetters(prev => prev.filter(item => item.endpoint_id !== endpoint.id));
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove webhook");
+            }
           }
-        };
-        await AdminService.updateAdminSettings(updatedSettings);
-        setSettings(updatedSettings);
-        Alert.alert("Success", "Webhook URL has been updated");
-      }
+        }
+      ]
+    );
+  };
+
+  const handleReplay = async (deadLetter: DeadLetter) => {
+    try {
+      setReplayingId(deadLetter.id);
+      await WebhooksService.replayDelivery(deadLetter.id);
+      setDeadLetters(prev => prev.filter(item => item.id !== deadLetter.id));
     } catch (error) {
-      Alert.alert("Error", "Failed to update webhook URL");
+      Alert.alert("Error", "Failed to replay event");
+    } finally {
+      setReplayingId(null);
     }
   };
 
@@ -231,55 +340,60 @@ export default function DeliveryApiScreen() {
                 />
               </View>
               
-              <View style={[styles.divider, { backgroundColor: colors.border }]} />
-              
-              <View style={styles.statusRow}>
-                <View style={styles.statusInfo}>
-                  <ThemedText style={styles.statusLabel}>API Key</ThemedText>
-                  <View style={styles.apiKeyContainer}>
-                    <ThemedText style={[styles.apiKey, { color: colors.textSecondary }]}>
-                      {settings?.delivery.apiKey}
-                    </ThemedText>
-                    <TouchableOpacity 
-                      style={styles.copyButton}
-                      onPress={() => copyToClipboard(settings?.delivery.apiKey)}
-                    >
-                      {copiedText === settings?.delivery.apiKey ? (
-                        <Check size={16} color={colors.success} />
-                      ) : (
-                        <Copy size={16} color={colors.textSecondary} />
-                      )}
-                    </TouchableOpacity>
-                  </View>
-                </View>
-                <TouchableOpacity 
-                  style={[styles.regenerateButton, { backgroundColor: colors.error + '20' }]}
-                  onPress={handleRegenerateKey}
-                  disabled={isRegeneratingKey || !apiEnabled}
-                >
-                  {isRegeneratingKey ? (
-                    <ActivityIndicator size="small" color={colors.error} />
-                  ) : (
-                    <>
-                      <RefreshCw size={16} color={colors.error} />
-                      <ThemedText style={[styles.regenerateText, { color: colors.error }]}>
-                        Regenerate
-                      </ThemedText>
-                    </>
-                  )}
-                </TouchableOpacity>
-              </View>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Webhook size={20} color={colors.primary} />
+              <ThemedText style={styles.sectionTitle}>Partner Webhooks</ThemedText>
+            </View>
 
-              <View style={[styles.divider, { backgroundColor: colors.border }]} />
+            <View style={[styles.statusCard, { backgroundColor: colors.surface }]}>
+              <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
+                Assignments, delivery status changes, pickups and cancellations are posted to these URLs, signed with each endpoint's secret
+              </ThemedText>
 
-              <View style={styles.statusRow}>
-                <View style={styles.statusInfo}>
-                  <ThemedText style={styles.statusLabel}>Webhook URL</ThemedText>
-                  <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
-                    URL to receive delivery status updates
-                  </ThemedText>
+              {webhookEndpoints.map(endpoint => (
+                <View key={endpoint.id}>
+                  <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                  <View style={styles.statusRow}>
+                    <View style={styles.statusInfo}>
+                      <ThemedText style={styles.riderScopeLabel} numberOfLines={1}>
+                        {endpoint.url}
+                      </ThemedText>
+                      <View style={styles.apiKeyContainer}>
+                        <ThemedText style={[styles.apiKey, { color: colors.textSecondary }]}>
+                          {`${endpoint.secret.slice(0, 12)}…`}
+                        </ThemedText>
+                        <TouchableOpacity
+                          style={styles.copyButton}
+                          onPress={() => copyToClipboard(endpoint.secret)}
+                        >
+                          {copiedText === endpoint.secret ? (
+                            <Check size={16} color={colors.success} />
+                          ) : (
+                            <Copy size={16} color={colors.textSecondary} />
+                          )}
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.copyButton}
+                          onPress={() => handleDeleteWebhook(endpoint)}
+                        >
+                          <Trash2 size={16} color={colors.error} />
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                    <Switch
+                      value={endpoint.is_active}
+                      onValueChange={(value) => handleToggleWebhook(endpoint, value)}
+                      trackColor={{ false: colors.border, true: colors.primary }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
                 </View>
-              </View>
+              ))}
+
               <View style={styles.webhookInputContainer}>
                 <TextInput
                   style={[styles.webhookInput, { 
@@ -287,21 +401,171 @@ export default function DeliveryApiScreen() {
                     backgroundColor: colors.background,
                     borderColor: colors.border
                   }]}
-                  value={webhookUrl}
-                  onChangeText={setWebhookUrl}
+                  value={newWebhookUrl}
+                  onChangeText={setNewWebhookUrl}
                   placeholder="https://your-rider-app.com/webhook"
                   placeholderTextColor={colors.textSecondary}
+                  autoCapitalize="none"
+                  keyboardType="url"
                 />
                 <TouchableOpacity 
                   style={[styles.saveButton, { backgroundColor: colors.primary }]}
-                  onPress={handleSaveWebhook}
+                  onPress={handleAddWebhook}
+                  disabled={savingWebhook}
                 >
-                  <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+                  {savingWebhook ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <ThemedText style={styles.saveButtonText}>Add</ThemedText>
+                  )}
                 </TouchableOpacity>
               </View>
             </View>
           </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <RotateCcw size={20} color={colors.primary} />
+              <ThemedText style={styles.sectionTitle}>Failed Deliveries</ThemedText>
+            </View>
+
+            <View style={[styles.statusCard, { backgroundColor: colors.surface }]}>
+              {deadLetters.length === 0 ? (
+                <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
+                  No events have run out of retries
+                </ThemedText>
+              ) : (
+                deadLetters.map((deadLetter, index) => (
+                  <View key={deadLetter.id}>
+                    {index > 0 && (
+                      <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                    )}
+                    <View style={styles.statusRow}>
+                      <View style={styles.statusInfo}>
+                        <ThemedText style={styles.riderScopeLabel}>{deadLetter.event_type}</ThemedText>
+                        <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]} numberOfLines={1}>
+                          {deadLetter.endpoint_url}
+                        </ThemedText>
+                        <ThemedText style={[styles.statusDescription, { color: colors.error }]} numberOfLines={2}>
+                          {deadLetter.last_error || 'Unknown error'} · {deadLetter.attempts} attempts
+                        </ThemedText>
+                      </View>
+                      <TouchableOpacity
+                        style={[styles.regenerateButton, { backgroundColor: colors.primary + '20' }]}
+                        onPress={() => handleReplay(deadLetter)}
+                        disabled={replayingId === deadLetter.id}
+                      >
+                        {replayingId === deadLetter.id ? (
+                          <ActivityIndicator size="small" color={colors.primary} />
+                        ) : (
+                          <>
+                            <RotateCcw size={16} color={colors.primary} />
+                            <ThemedText style={[styles.regenerateText, { color: colors.primary }]}>
+                              Replay
+                            </ThemedText>
+                          </>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))
+              )}
+            </View>
+          </View>
           
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Key size={20} color={colors.primary} />
+              <ThemedText style={styles.sectionTitle}>Rider API Keys</ThemedText>
+            </View>
+
+            <View style={[styles.statusCard, { backgroundColor: colors.surface }]}>
+              {riders.length === 0 ? (
+                <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
+                  No riders have registered yet
+                </ThemedText>
+              ) : (
+                riders.map((rider, index) => {
+                  const revoked = !!rider.api_key_revoked_at;
+                  const busy = busyRiderId === rider.id;
+
+                  return (
+                    <View key={rider.id}>
+                      {index > 0 && (
+                        <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                      )}
+                      <View style={styles.statusRow}>
+                        <View style={styles.statusInfo}>
+                          <ThemedText style={styles.statusLabel}>
+                            {rider.profile?.nickname || 'Unknown rider'}
+                          </ThemedText>
+                          <View style={styles.apiKeyContainer}>
+                            <ThemedText style={[styles.apiKey, { color: revoked ? colors.error : colors.textSecondary }]}>
+                              {rider.api_key_prefix ? `${rider.api_key_prefix}…` : 'No key issued'}
+                              {revoked ? ' · Revoked' : ''}
+                            </ThemedText>
+                          </View>
+                          <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
+                            {rider.last_used_at
+                              ? `Last used ${new Date(rider.last_used_at).toLocaleString()}`
+                              : 'Never used'}
+                          </ThemedText>
+                        </View>
+                      </View>
+
+                      <View style={[styles.statusRow, styles.riderScopeRow]}>
+                        <View style={styles.statusInfo}>
+                          <ThemedText style={styles.riderScopeLabel}>Status updates</ThemedText>
+                          <ThemedText style={[styles.statusDescription, { color: colors.textSecondary }]}>
+                            Assign deliveries and mark them picked up or delivered
+                          </ThemedText>
+                        </View>
+                        <Switch
+                          value={rider.api_key_scopes.includes('deliveries:write')}
+                          onValueChange={(value) => handleToggleWriteScope(rider, value)}
+                          disabled={busy}
+                          trackColor={{ false: colors.border, true: colors.primary }}
+                          thumbColor="#FFFFFF"
+                        />
+                      </View>
+
+                      <View style={styles.riderActions}>
+                        <TouchableOpacity
+                          style={[styles.regenerateButton, { backgroundColor: colors.primary + '20' }]}
+                          onPress={() => handleRotateKey(rider)}
+                          disabled={busy}
+                        >
+                          {busy ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
+                          ) : (
+                            <>
+                              <RefreshCw size={16} color={colors.primary} />
+                              <ThemedText style={[styles.regenerateText, { color: colors.primary }]}>
+                                {revoked ? 'Issue New Key' : 'Rotate'}
+                              </ThemedText>
+                            </>
+                          )}
+                        </TouchableOpacity>
+                        {!revoked && rider.api_key_prefix && (
+                          <TouchableOpacity
+                            style={[styles.regenerateButton, { backgroundColor: colors.error + '20' }]}
+                            onPress={() => handleRevokeKey(rider)}
+                            disabled={busy}
+                          >
+                            <Ban size={16} color={colors.error} />
+                            <ThemedText style={[styles.regenerateText, { color: colors.error }]}>
+                              Revoke
+                            </ThemedText>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          </View>
+
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Server size={20} color={colors.primary} />
@@ -447,7 +711,7 @@ export default function DeliveryApiScreen() {
               <View style={[styles.securityNote, { backgroundColor: colors.warning + '10' }]}>
                 <Shield size={16} color={colors.warning} />
                 <ThemedText style={[styles.securityText, { color: colors.textSecondary }]}>
-                  Keep your API key secure. It provides access to your delivery system.
+                  Each rider gets their own API key. Keys are stored hashed and shown only once, so rotate a key if it is lost.
                 </ThemedText>
               </View>
 
@@ -576,10 +840,23 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 12,
     fontFamily: 'Inter-Medium',
   },
+  riderScopeRow: {
+    marginTop: 12,
+  },
+  riderScopeLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 2,
+  },
+  riderActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
   webhookInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginTop: 8,
+    marginTop: 16,
     gap: 8,
   },
   webhookInput: {
@@ -28,16 +28,26 @@ import {
   Send,
 } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { AdminService, AdminDispute } from '~/lib/admin';
+import { AdminService, AdminDispute, DisputeOutcome } from '~/lib/admin';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
 import { ThemedText } from '~/components/ThemedText';
 
+const OUTCOME_OPTIONS: { value: DisputeOutcome; label: string }[] = [
+  { value: 'full_refund', label: 'Full Refund' },
+  { value: 'partial_refund', label: 'Partial Refund' },
+  { value: 'split', label: 'Split 50/50' },
+  { value: 'release_to_seller', label: 'Release to Seller' },
+];
+
 export default function AdminDisputesScreen() {
   const params = useLocalSearchParams();
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { can } = useAdminAccess();
+  const canManage = can('disputes.manage');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [disputes, setDisputes] = useState<AdminDispute[]>([]);
@@ -46,6 +56,7 @@ export default function AdminDisputesScreen() {
   const [showDisputeModal, setShowDisputeModal] = useState(false);
   const [resolution, setResolution] = useState('');
   const [refundAmount, setRefundAmount] = useState('');
+  const [outcome, setOutcome] = useState<DisputeOutcome>('full_refund');
   const [filterStatus, setFilterStatus] = useState<'all' | 'open' | 'investigating' | 'resolved'>('all');
   const [filterPriority, setFilterPriority] = useState<'all' | 'low' | 'medium' | 'high'>('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -150,12 +161,18 @@ export default function AdminDisputesScreen() {
       return;
     }
 
+    if (outcome === 'partial_refund' && !(parseFloat(refundAmount) > 0)) {
+      Alert.alert('Error', 'Please enter the amount to refund');
+      return;
+    }
+
     try {
       setResolvingDispute(true);
-      await AdminService.resolveDispute(
-        selectedDispute.id, 
+      const result = await AdminService.resolveDispute(
+        selectedDispute.id,
+        outcome,
         resolution,
-        refundAmount ? parseFloat(refundAmount) : undefined
+        outcome === 'partial_refund' ? parseFloat(refundAmount) : undefined
       );
       
       // Update local state
@@ -163,9 +180,12 @@ export default function AdminDisputesScreen() {
         d.id === selectedDispute.id 
           ? { 
               ...d, 
-              status: 'resolved', 
+              status: 'resolved' as const,
               resolved_at: new Date().toISOString(),
-              resolution
+              resolution,
+              resolution_outcome: result.outcome,
+              refund_amount: result.refund_amount,
+              seller_amount_released: result.seller_amount_released,
             } 
           : d
       );
@@ -176,10 +196,16 @@ export default function AdminDisputesScreen() {
       setShowDisputeModal(false);
       setResolution('');
       setRefundAmount('');
+      setOutcome('full_refund');
       
-      Alert.alert('Success', 'Dispute resolved successfully');
+      Alert.alert(
+        'Success',
+        result.refund_amount > 0
+          ? `Dispute resolved. $${result.refund_amount.toFixed(2)} refunded to the buyer.`
+          : 'Dispute resolved. Funds released to the seller.'
+      );
     } catch (error) {
-      Alert.alert('Error', 'Failed to resolve dispute');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve dispute');
     } finally {
       setResolvingDispute(false);
     }
@@ -267,6 +293,7 @@ export default function AdminDisputesScreen() {
             </View>
             <TouchableOpacity 
               style={[styles.priorityBadge, { backgroundColor: getPriorityColor(item.priority) + '20' }]}
+              disabled={!canManage}
               onPress={() => {
                 Alert.alert(
                   'Update Priority',
@@ -585,6 +612,7 @@ export default function AdminDisputesScreen() {
                         styles.priorityBadge, 
                         { backgroundColor: getPriorityColor(selectedDispute.priority) + '20' }
                       ]}
+                      disabled={!canManage}
                       onPress={() => {
                         Alert.alert(
                           'Update Priority',
@@ -772,10 +800,16 @@ export default function AdminDisputesScreen() {
                           {selectedDispute.resolution}
                         </ThemedText>
                       </View>
+                      {selectedDispute.resolution_outcome && (
+                        <ThemedText style={[styles.refundLabel, { color: colors.textSecondary, marginTop: 8 }]}>
+                          {OUTCOME_OPTIONS.find(o => o.value === selectedDispute.resolution_outcome)?.label}
+                          {selectedDispute.refund_amount ? ` · $${Number(selectedDispute.refund_amount).toFixed(2)} refunded` : ''}
+                        </ThemedText>
+                      )}
                     </View>
                   )}
 
-                  {selectedDispute.status !== 'resolved' && (
+                  {selectedDispute.status !== 'resolved' && canManage && (
                     <View style={styles.resolutionSection}>
                       <ThemedText style={styles.resolutionTitle}>Resolve Dispute</ThemedText>
                       <TextInput
@@ -793,19 +827,45 @@ export default function AdminDisputesScreen() {
                       />
                       
                       <View style={styles.refundContainer}>
-                        <ThemedText style={styles.refundLabel}>Refund Amount (Optional)</ThemedText>
-                        <View style={[styles.refundInputContainer, { backgroundColor: colors.surface, borderColor: colors.border }]}>
-                          <ThemedText style={[styles.currencySymbol, { color: colors.textSecondary }]}>$</ThemedText>
-                          <TextInput
-                            style={[styles.refundInput, { color: colors.text }]}
-                            placeholder="0.00"
-                            placeholderTextColor={colors.textSecondary}
-                            value={refundAmount}
-                            onChangeText={setRefundAmount}
-                            keyboardType="decimal-pad"
-                          />
+                        <ThemedText style={styles.refundLabel}>Outcome</ThemedText>
+                        <View style={styles.filterOptions}>
+                          {OUTCOME_OPTIONS.map((option) => (
+                            <TouchableOpacity
+                              key={option.value}
+                              style={[
+                                styles.filterOption,
+                                outcome === option.value && { backgroundColor: colors.primary },
+                              ]}
+                              onPress={() => setOutcome(option.value)}
+                            >
+                              <ThemedText style={[
+                                styles.filterOptionText,
+                                outcome === option.value && { color: '#FFFFFF' },
+                                outcome !== option.value && { color: colors.textSecondary },
+                              ]}>
+                                {option.label}
+                              </ThemedText>
+                            </TouchableOpacity>
+                          ))}
                         </View>
                       </View>
+
+                      {outcome === 'partial_refund' && (
+                        <View style={styles.refundContainer}>
+                          <ThemedText style={styles.refundLabel}>Refund Amount</ThemedText>
+                          <View style={[styles.refundInputContainer, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                            <ThemedText style={[styles.currencySymbol, { color: colors.textSecondary }]}>$</ThemedText>
+                            <TextInput
+                              style={[styles.refundInput, { color: colors.text }]}
+                              placeholder="0.00"
+                              placeholderTextColor={colors.textSecondary}
+                              value={refundAmount}
+                              onChangeText={setRefundAmount}
+                              keyboardType="decimal-pad"
+                            />
+                          </View>
+                        </View>
+                      )}
                       
                       <TouchableOpacity
                         style={[styles.resolveButton, { backgroundColor: colors.success }]}
@@ -0,0 +1,568 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  Switch,
+  Modal,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, DollarSign, Plus, Trash2 } from 'lucide-react-native';
+import {
+  FEE_TYPES,
+  FeeRule,
+  FeeRuleInput,
+  FeesService,
+  FeeType,
+  SELLER_TIERS,
+  SellerTier,
+  formatCents,
+  toCents,
+} from '~/lib/fees';
+import { ITEM_CATEGORIES } from '~/lib/items';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+interface RuleForm {
+  name: string;
+  feeType: FeeType;
+  ratePercent: string;
+  fixedAmount: string;
+  category: string | null;
+  sellerTier: SellerTier | null;
+  minPrice: string;
+  maxPrice: string;
+  priority: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  feeType: 'commission',
+  ratePercent: '',
+  fixedAmount: '',
+  category: null,
+  sellerTier: null,
+  minPrice: '',
+  maxPrice: '',
+  priority: '0',
+};
+
+// Short description of the amount and conditions of a rule
+const describeRule = (rule: FeeRule): string => {
+  const amount = [
+    rule.rate_bps > 0 ? `${rule.rate_bps / 100}%` : null,
+    rule.fixed_cents > 0 ? formatCents(rule.fixed_cents) : null,
+  ].filter(Boolean).join(' + ') || 'Free';
+
+  const price = rule.min_price_cents !== null || rule.max_price_cents !== null
+    ? `${rule.min_price_cents !== null ? formatCents(rule.min_price_cents) : '$0'}–${rule.max_price_cents !== null ? formatCents(rule.max_price_cents) : 'any'}`
+    : null;
+
+  const conditions = [
+    rule.category,
+    rule.seller_tier ? SELLER_TIERS.find(tier => tier.id === rule.seller_tier)?.label : null,
+    price,
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? `${amount} · ${conditions.join(' · ')}` : `${amount} · All sales`;
+};
+
+// Empty input means no limit, otherwise a dollar amount in cents
+const parseDollars = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount < 0 ? undefined : toCents(amount);
+};
+
+export default function FeeRulesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [rules, setRules] = useState<FeeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      setRules(await FeesService.getRules());
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load fee rules');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const replaceRule = (updated: FeeRule) => {
+    setRules(prev => prev.map(rule => rule.id === updated.id ? updated : rule));
+  };
+
+  const handleToggleActive = async (rule: FeeRule) => {
+    replaceRule({ ...rule, is_active: !rule.is_active });
+
+    try {
+      replaceRule(await FeesService.updateRule(rule.id, { is_active: !rule.is_active }));
+    } catch (error) {
+      replaceRule(rule);
+      Alert.alert('Error', 'Failed to update fee rule');
+    }
+  };
+
+  const handleDelete = (rule: FeeRule) => {
+    Alert.alert(
+      'Delete Fee Rule',
+      `Delete "${rule.name}"? Orders already placed keep the fees they were charged.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FeesService.deleteRule(rule.id);
+              setRules(prev => prev.filter(item => item.id !== rule.id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete fee rule');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleCreate = async () => {
+    const ratePercent = form.ratePercent.trim() ? parseFloat(form.ratePercent) : 0;
+    const fixedCents = parseDollars(form.fixedAmount);
+    const minPriceCents = parseDollars(form.minPrice);
+    const maxPriceCents = parseDollars(form.maxPrice);
+    const priority = parseInt(form.priority, 10);
+
+    if (!form.name.trim()) {
+      Alert.alert('Name Required', 'Please enter a name for this rule');
+      return;
+    }
+    if (isNaN(ratePercent) || ratePercent < 0 || ratePercent > 100) {
+      Alert.alert('Invalid Rate', 'Rate must be between 0 and 100%');
+      return;
+    }
+    if (fixedCents === undefined || minPriceCents === undefined || maxPriceCents === undefined) {
+      Alert.alert('Invalid Amount', 'Amounts must be positive dollar values');
+      return;
+    }
+    if (minPriceCents !== null && maxPriceCents !== null && maxPriceCents < minPriceCents) {
+      Alert.alert('Invalid Price Range', 'Maximum price must be above the minimum');
+      return;
+    }
+
+    const rule: FeeRuleInput = {
+      name: form.name.trim(),
+      fee_type: form.feeType,
+      rate_bps: Math.round(ratePercent * 100),
+      fixed_cents: fixedCents || 0,
+      min_cents: null,
+      max_cents: null,
+      category: form.category,
+      seller_tier: form.sellerTier,
+      min_price_cents: minPriceCents,
+      max_price_cents: maxPriceCents,
+      priority: isNaN(priority) ? 0 : priority,
+      is_active: true,
+      starts_at: null,
+      ends_at: null,
+    };
+
+    try {
+      setSaving(true);
+      const created = await FeesService.createRule(rule);
+      setRules(prev => [...prev, created]);
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create fee rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderChips = <T extends string>(
+    options: { id: T | null; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | null) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const active = option.id === selected;
+        return (
+          <TouchableOpacity
+            key={option.id || 'any'}
+            style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+            onPress={() => onSelect(option.id)}
+          >
+            <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{option.label}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderRule = ({ item }: { item: FeeRule }) => (
+    <View style={styles.ruleCard}>
+      <View style={styles.ruleInfo}>
+        <ThemedText style={[styles.ruleType, { color: colors.primary }]}>
+          {FEE_TYPES.find(type => type.id === item.fee_type)?.label} · Priority {item.priority}
+        </ThemedText>
+        <ThemedText style={styles.ruleName} numberOfLines={1}>{item.name}</ThemedText>
+        <ThemedText style={[styles.ruleDescription, { color: colors.textSecondary }]} numberOfLines={2}>
+          {describeRule(item)}
+        </ThemedText>
+        <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+          <Trash2 size={18} color={colors.error} />
+        </TouchableOpacity>
+      </View>
+      <Switch
+        value={item.is_active}
+        onValueChange={() => handleToggleActive(item)}
+        trackColor={{ false: colors.border, true: colors.primary }}
+      />
+    </View>
+  );
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <DollarSign size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No fee rules</ThemedText>
+        <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+          Every sale uses the platform fee settings until a rule matches
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Fee Rules</ThemedText>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => setShowForm(true)}
+          >
+            <Plus size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={rules}
+            renderItem={renderRule}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyComponent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadRules(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+
+        <Modal
+          visible={showForm}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setShowForm(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <ThemedText style={styles.modalTitle}>New Fee Rule</ThemedText>
+                <TextInput
+                  style={[styles.modalInput, { color: colors.text, borderColor: colors.border }]}
+                  value={form.name}
+                  onChangeText={(name) => setForm(prev => ({ ...prev, name }))}
+                  placeholder="Rule name"
+                  placeholderTextColor={colors.textSecondary}
+                />
+
+                <ThemedText style={styles.fieldLabel}>Type</ThemedText>
+                {renderChips(
+                  FEE_TYPES.map(type => ({ id: type.id, label: type.label })),
+                  form.feeType,
+                  (feeType) => feeType && setForm(prev => ({ ...prev, feeType }))
+                )}
+
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.modalInput, styles.halfInput, { color: colors.text, borderColor: colors.border }]}
+                    value={form.ratePercent}
+                    onChangeText={(ratePercent) => setForm(prev => ({ ...prev, ratePercent }))}
+                    placeholder="Rate %"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                  <TextInput
+                    style={[styles.modalInput, styles.halfInput, { color: colors.text, borderColor: colors.border }]}
+                    value={form.fixedAmount}
+                    onChangeText={(fixedAmount) => setForm(prev => ({ ...prev, fixedAmount }))}
+                    placeholder="Fixed $"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                <ThemedText style={styles.fieldLabel}>Category</ThemedText>
+                {renderChips<string>(
+                  [{ id: null, label: 'Any' }, ...ITEM_CATEGORIES.map(category => ({ id: category, label: category }))],
+                  form.category,
+                  (category) => setForm(prev => ({ ...prev, category }))
+                )}
+
+                <ThemedText style={styles.fieldLabel}>Seller tier</ThemedText>
+                {renderChips<SellerTier>(
+                  [{ id: null, label: 'Any' }, ...SELLER_TIERS],
+                  form.sellerTier,
+                  (sellerTier) => setForm(prev => ({ ...prev, sellerTier }))
+                )}
+
+                <ThemedText style={styles.fieldLabel}>Item price</ThemedText>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.modalInput, styles.halfInput, { color: colors.text, borderColor: colors.border }]}
+                    value={form.minPrice}
+                    onChangeText={(minPrice) => setForm(prev => ({ ...prev, minPrice }))}
+                    placeholder="From $"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                  <TextInput
+                    style={[styles.modalInput, styles.halfInput, { color: colors.text, borderColor: colors.border }]}
+                    value={form.maxPrice}
+                    onChangeText={(maxPrice) => setForm(prev => ({ ...prev, maxPrice }))}
+                    placeholder="To $"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                <ThemedText style={styles.fieldLabel}>Priority (highest wins)</ThemedText>
+                <TextInput
+                  style={[styles.modalInput, { color: colors.text, borderColor: colors.border }]}
+                  value={form.priority}
+                  onChangeText={(priority) => setForm(prev => ({ ...prev, priority }))}
+                  placeholder="0"
+                  placeholderTextColor={colors.textSecondary}
+                  keyboardType="numeric"
+                />
+
+                <View style={styles.modalActions}>
+                  <TouchableOpacity
+                    style={[styles.modalButton, { backgroundColor: colors.surface }]}
+                    onPress={() => setShowForm(false)}
+                  >
+                    <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.modalButton, { backgroundColor: colors.primary }]}
+                    onPress={handleCreate}
+                    disabled={saving}
+                  >
+                    {saving ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <ThemedText style={[styles.modalButtonText, { color: '#ffffff' }]}>Create</ThemedText>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    padding: 20,
+    gap: 12,
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleType: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 4,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 4,
+  },
+  ruleDescription: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  iconButton: {
+    alignSelf: 'flex-start',
+    padding: 4,
+    marginTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 48,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: '100%',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 16,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfInput: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
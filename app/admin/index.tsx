@@ -25,9 +25,15 @@ import {
   Code,
   Settings as SettingsIcon,
   BarChart3,
+  Webhook,
+  History,
+  UserCog,
+  Flag,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { AdminService, DashboardStats } from '~/lib/admin';
+import { adminRoleName } from '~/lib/admin-access';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -38,6 +44,7 @@ const { width } = Dimensions.get('window');
 export default function AdminDashboard() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { access, can } = useAdminAccess();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -103,7 +110,7 @@ export default function AdminDashboard() {
           <View>
             <ThemedText style={styles.headerTitle}>Admin Dashboard</ThemedText>
             <ThemedText style={[styles.headerSubtitle, { color: colors.textSecondary }]}>
-              Platform Overview
+              Platform Overview · {adminRoleName(access?.role)}
             </ThemedText>
           </View>
           <View style={styles.headerActions}>
@@ -123,12 +130,14 @@ export default function AdminDashboard() {
                  timeRange === '90d' ? 'Last 90 days' : 'Last 12 months'}
               </ThemedText>
             </TouchableOpacity>
-            <TouchableOpacity 
-              style={[styles.settingsButton, { backgroundColor: colors.surface }]}
-              onPress={() => router.push('/admin/settings')}
-            >
-              <SettingsIcon size={24} color={colors.primary} />
-            </TouchableOpacity>
+            {can('settings.view') && (
+              <TouchableOpacity 
+                style={[styles.settingsButton, { backgroundColor: colors.surface }]}
+                onPress={() => router.push('/admin/settings')}
+              >
+                <SettingsIcon size={24} color={colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -264,71 +273,135 @@ export default function AdminDashboard() {
           <View style={styles.section}>
             <ThemedText style={styles.sectionTitle}>Quick Actions</ThemedText>
             <View style={styles.actionsGrid}>
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/users')}
-              >
-                <Users size={32} color={colors.primary} />
-                <ThemedText style={styles.actionTitle}>Manage Users</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  View and moderate users
-                </ThemedText>
-              </TouchableOpacity>
+              {can('users.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/users')}
+                >
+                  <Users size={32} color={colors.primary} />
+                  <ThemedText style={styles.actionTitle}>Manage Users</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    View and moderate users
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
 
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/items')}
-              >
-                <Package size={32} color={colors.success} />
-                <ThemedText style={styles.actionTitle}>Review Items</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  Moderate listings
-                </ThemedText>
-              </TouchableOpacity>
+              {can('items.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/items')}
+                >
+                  <Package size={32} color={colors.success} />
+                  <ThemedText style={styles.actionTitle}>Review Items</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Moderate listings
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
 
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/orders')}
-              >
-                <ShoppingCart size={32} color={colors.info} />
-                <ThemedText style={styles.actionTitle}>Track Orders</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  Monitor transactions
-                </ThemedText>
-              </TouchableOpacity>
+              {can('reports.manage') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/reports')}
+                >
+                  <Flag size={32} color={colors.warning} />
+                  <ThemedText style={styles.actionTitle}>User Reports</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Triage reported content
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
 
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/disputes')}
-              >
-                <AlertTriangle size={32} color={colors.error} />
-                <ThemedText style={styles.actionTitle}>Handle Disputes</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  Resolve conflicts
-                </ThemedText>
-              </TouchableOpacity>
+              {can('orders.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/orders')}
+                >
+                  <ShoppingCart size={32} color={colors.info} />
+                  <ThemedText style={styles.actionTitle}>Track Orders</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Monitor transactions
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+
+              {can('disputes.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/disputes')}
+                >
+                  <AlertTriangle size={32} color={colors.error} />
+                  <ThemedText style={styles.actionTitle}>Handle Disputes</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Resolve conflicts
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
               
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/delivery-api')}
-              >
-                <Code size={32} color={colors.warning} />
-                <ThemedText style={styles.actionTitle}>Delivery API</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  Manage rider integration
-                </ThemedText>
-              </TouchableOpacity>
+              {can('integrations.manage') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/delivery-api')}
+                >
+                  <Code size={32} color={colors.warning} />
+                  <ThemedText style={styles.actionTitle}>Delivery API</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Manage rider integration
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
               
-              <TouchableOpacity
-                style={[styles.actionCard, { backgroundColor: colors.surface }]}
-                onPress={() => router.push('/admin/analytics')}
-              >
-                <BarChart3 size={32} color={colors.secondary} />
-                <ThemedText style={styles.actionTitle}>Analytics</ThemedText>
-                <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
-                  View platform metrics
-                </ThemedText>
-              </TouchableOpacity>
+              {can('analytics.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/analytics')}
+                >
+                  <BarChart3 size={32} color={colors.secondary} />
+                  <ThemedText style={styles.actionTitle}>Analytics</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    View platform metrics
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+
+              {can('finance.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/stripe-events')}
+                >
+                  <Webhook size={32} color={colors.error} />
+                  <ThemedText style={styles.actionTitle}>Stripe Events</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Review webhook processing
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+
+              {can('audit.view') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/audit-log')}
+                >
+                  <History size={32} color={colors.info} />
+                  <ThemedText style={styles.actionTitle}>Audit Log</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Review admin actions
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+
+              {can('admins.manage') && (
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: colors.surface }]}
+                  onPress={() => router.push('/admin/team')}
+                >
+                  <UserCog size={32} color={colors.primary} />
+                  <ThemedText style={styles.actionTitle}>Admin Team</ThemedText>
+                  <ThemedText style={[styles.actionSubtitle, { color: colors.textSecondary }]}>
+                    Manage roles
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
 
@@ -10,6 +10,8 @@ import {
   Alert,
   Modal,
   Image,
+  ScrollView,
+  RefreshControl,
 } from 'react-native';
 import {
   ArrowLeft,
@@ -21,42 +23,87 @@ import {
   Trash2,
   CheckCircle,
   DollarSign,
+  XCircle,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
-import { AdminService, AdminItem } from '~/lib/admin';
+import {
+  AdminService,
+  AdminItem,
+  MODERATION_REASONS,
+  ModerationAction,
+  ModerationDecision,
+} from '~/lib/admin';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
 import { ThemedText } from '~/components/ThemedText';
 
+const ACTION_LABELS: Record<ModerationAction, { verb: string; done: string }> = {
+  approve: { verb: 'approve', done: 'approved' },
+  reject: { verb: 'reject', done: 'rejected' },
+  flag: { verb: 'flag', done: 'flagged' },
+  remove: { verb: 'remove', done: 'removed' },
+};
+
 export default function AdminItemsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { can } = useAdminAccess();
   const [items, setItems] = useState<AdminItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedItem, setSelectedItem] = useState<AdminItem | null>(null);
   const [showItemModal, setShowItemModal] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'flagged' | 'removed'>('all');
+  const [filterStatus, setFilterStatus] = useState<'queue' | 'all' | 'active' | 'flagged' | 'removed'>('queue');
+  const [refreshing, setRefreshing] = useState(false);
+  const [history, setHistory] = useState<ModerationDecision[]>([]);
+  const [reasonCode, setReasonCode] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const inQueue = filterStatus === 'queue';
 
   useEffect(() => {
     loadItems();
-  }, []);
+  }, [inQueue]);
 
-  const loadItems = async () => {
+  const loadItems = async (refresh = false) => {
     try {
-      const data = await AdminService.getItems();
+      if (refresh) setRefreshing(true);
+      // The queue keeps its risk and age order, the other tabs filter all listings
+      const { items: data } = inQueue
+        ? await AdminService.getModerationQueue(1, 100)
+        : await AdminService.getItems(undefined, undefined, undefined, undefined, 'created_at', 'desc', 1, 100);
       setItems(data);
     } catch (error) {
       console.error('Load items error:', error);
     } finally {
       setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const openItem = async (item: AdminItem) => {
+    setSelectedItem(item);
+    setReasonCode(null);
+    setNote('');
+    setHistory([]);
+    setShowItemModal(true);
+
+    try {
+      setHistory(await AdminService.getModerationHistory(item.id));
+    } catch (error) {
+      console.error('Load moderation history error:', error);
     }
   };
 
-  const handleItemAction = async (itemId: string, action: 'approve' | 'flag' | 'remove') => {
-    const actionText = action === 'approve' ? 'approve' : action === 'flag' ? 'flag' : 'remove';
-    
+  const handleItemAction = async (itemId: string, action: ModerationAction) => {
+    const actionText = ACTION_LABELS[action].verb;
+
+    if (action !== 'approve' && !reasonCode) {
+      Alert.alert('Reason Required', `Pick a reason to ${actionText} this item. The seller sees it.`);
+      return;
+    }
+
     Alert.alert(
       'Confirm Action',
       `Are you sure you want to ${actionText} this item?`,
@@ -64,14 +111,15 @@ export default function AdminItemsScreen() {
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Confirm',
-          style: action === 'remove' ? 'destructive' : 'default',
+          style: action === 'approve' ? 'default' : 'destructive',
           onPress: async () => {
             try {
-              await AdminService.moderateItem(itemId, action);
+              await AdminService.moderateItem(itemId, action, reasonCode ?? undefined, note);
+              setShowItemModal(false);
               await loadItems();
-              Alert.alert('Success', `Item ${actionText}d successfully`);
+              Alert.alert('Success', `Item ${ACTION_LABELS[action].done} successfully`);
             } catch (error) {
-              Alert.alert('Error', `Failed to ${actionText} item`);
+              Alert.alert('Error', error instanceof Error ? error.message : `Failed to ${actionText} item`);
             }
           },
         },
@@ -83,7 +131,7 @@ export default function AdminItemsScreen() {
     const matchesSearch = item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          item.brand.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          item.seller.nickname.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesFilter = filterStatus === 'all' || item.status === filterStatus;
+    const matchesFilter = filterStatus === 'all' || inQueue || item.status === filterStatus;
     return matchesSearch && matchesFilter;
   });
 
@@ -99,19 +147,24 @@ export default function AdminItemsScreen() {
     switch (status) {
       case 'active': return colors.success;
       case 'flagged': return colors.warning;
+      case 'pending_review': return colors.primary;
       case 'removed': return colors.error;
+      case 'reserved': return colors.secondary;
       case 'sold': return colors.info;
       default: return colors.textSecondary;
     }
   };
 
+  const getRiskColor = (score: number) => {
+    if (score >= 60) return colors.error;
+    if (score >= 30) return colors.warning;
+    return colors.success;
+  };
+
   const renderItem = ({ item }: { item: AdminItem }) => (
     <TouchableOpacity
       style={[styles.itemCard, { backgroundColor: colors.surface }]}
-      onPress={() => {
-        setSelectedItem(item);
-        setShowItemModal(true);
-      }}
+      onPress={() => openItem(item)}
     >
       <View style={styles.itemHeader}>
         <Image 
@@ -131,17 +184,19 @@ export default function AdminItemsScreen() {
             </ThemedText>
             <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) + '20' }]}>
               <ThemedText style={[styles.statusText, { color: getStatusColor(item.status) }]}>
-                {item.status}
+                {item.status.replace('_', ' ')}
               </ThemedText>
             </View>
           </View>
+          {inQueue && (
+            <ThemedText style={[styles.riskText, { color: getRiskColor(item.risk_score) }]} numberOfLines={1}>
+              Risk {item.risk_score}{item.risk_signals.length > 0 ? ` · ${item.risk_signals[0]}` : ''}
+            </ThemedText>
+          )}
         </View>
         <TouchableOpacity
           style={styles.actionButton}
-          onPress={() => {
-            setSelectedItem(item);
-            setShowItemModal(true);
-          }}
+          onPress={() => openItem(item)}
         >
           <MoreVertical size={20} color={colors.textSecondary} />
         </TouchableOpacity>
@@ -203,7 +258,7 @@ export default function AdminItemsScreen() {
         </View>
 
         <View style={styles.filterTabs}>
-          {['all', 'active', 'flagged', 'removed'].map((status) => (
+          {['queue', 'all', 'active', 'flagged', 'removed'].map((status) => (
             <TouchableOpacity
               key={status}
               style={[
@@ -229,6 +284,14 @@ export default function AdminItemsScreen() {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContainer}
           showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => loadItems(true)}
+              colors={[colors.primary]}
+              tintColor={colors.primary}
+            />
+          }
         />
 
         {/* Item Detail Modal */}
@@ -249,7 +312,7 @@ export default function AdminItemsScreen() {
                 </TouchableOpacity>
               </View>
 
-              <View style={styles.modalContent}>
+              <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
                 <Image 
                   source={{ uri: selectedItem.images[0] || 'https://via.placeholder.com/300' }} 
                   style={styles.modalImage} 
@@ -286,12 +349,31 @@ export default function AdminItemsScreen() {
                       </ThemedText>
                       <View style={[styles.modalStatusBadge, { backgroundColor: getStatusColor(selectedItem.status) + '20' }]}>
                         <ThemedText style={[styles.modalStatusText, { color: getStatusColor(selectedItem.status) }]}>
-                          {selectedItem.status}
+                          {selectedItem.status.replace('_', ' ')}
                         </ThemedText>
                       </View>
                     </View>
+                    <View style={styles.detailItem}>
+                      <ThemedText style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                        Risk Score
+                      </ThemedText>
+                      <ThemedText style={[styles.detailValue, { color: getRiskColor(selectedItem.risk_score) }]}>
+                        {selectedItem.risk_score}
+                      </ThemedText>
+                    </View>
                   </View>
 
+                  {selectedItem.risk_signals.length > 0 && (
+                    <View style={styles.descriptionSection}>
+                      <ThemedText style={styles.descriptionTitle}>Risk Signals</ThemedText>
+                      {selectedItem.risk_signals.map((signal, index) => (
+                        <ThemedText key={index} style={[styles.descriptionText, { color: colors.textSecondary }]}>
+                          • {signal}
+                        </ThemedText>
+                      ))}
+                    </View>
+                  )}
+
                   <View style={styles.descriptionSection}>
                     <ThemedText style={styles.descriptionTitle}>Description</ThemedText>
                     <ThemedText style={[styles.descriptionText, { color: colors.textSecondary }]}>
@@ -299,17 +381,42 @@ export default function AdminItemsScreen() {
                     </ThemedText>
                   </View>
 
+                  {can('items.moderate') && ['active', 'flagged', 'pending_review'].includes(selectedItem.status) && (
                   <View style={styles.actionSection}>
                     <ThemedText style={styles.actionSectionTitle}>Actions</ThemedText>
-                    
+
+                    <ThemedText style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                      Reason (required to reject, flag or remove)
+                    </ThemedText>
+                    <View style={styles.chipRow}>
+                      {MODERATION_REASONS.map(reason => {
+                        const active = reason.code === reasonCode;
+                        return (
+                          <TouchableOpacity
+                            key={reason.code}
+                            style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+                            onPress={() => setReasonCode(active ? null : reason.code)}
+                          >
+                            <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{reason.label}</ThemedText>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <TextInput
+                      style={[styles.noteInput, { color: colors.text, borderColor: colors.border }]}
+                      value={note}
+                      onChangeText={setNote}
+                      placeholder="Note for the seller (optional)"
+                      placeholderTextColor={colors.textSecondary}
+                      maxLength={1000}
+                      multiline
+                    />
+
                     <View style={styles.actionButtons}>
-                      {selectedItem.status !== 'active' && (
+                      {['pending_review', 'flagged'].includes(selectedItem.status) && (
                         <TouchableOpacity
                           style={[styles.actionItem, { backgroundColor: colors.success + '20' }]}
-                          onPress={() => {
-                            setShowItemModal(false);
-                            handleItemAction(selectedItem.id, 'approve');
-                          }}
+                          onPress={() => handleItemAction(selectedItem.id, 'approve')}
                         >
                           <CheckCircle size={20} color={colors.success} />
                           <ThemedText style={[styles.actionText, { color: colors.success }]}>
@@ -317,14 +424,23 @@ export default function AdminItemsScreen() {
                           </ThemedText>
                         </TouchableOpacity>
                       )}
-                      
-                      {selectedItem.status !== 'flagged' && (
+
+                      {selectedItem.status === 'pending_review' && (
+                        <TouchableOpacity
+                          style={[styles.actionItem, { backgroundColor: colors.error + '20' }]}
+                          onPress={() => handleItemAction(selectedItem.id, 'reject')}
+                        >
+                          <XCircle size={20} color={colors.error} />
+                          <ThemedText style={[styles.actionText, { color: colors.error }]}>
+                            Reject
+                          </ThemedText>
+                        </TouchableOpacity>
+                      )}
+
+                      {selectedItem.status === 'active' && (
                         <TouchableOpacity
                           style={[styles.actionItem, { backgroundColor: colors.warning + '20' }]}
-                          onPress={() => {
-                            setShowItemModal(false);
-                            handleItemAction(selectedItem.id, 'flag');
-                          }}
+                          onPress={() => handleItemAction(selectedItem.id, 'flag')}
                         >
                           <Flag size={20} color={colors.warning} />
                           <ThemedText style={[styles.actionText, { color: colors.warning }]}>
@@ -332,23 +448,51 @@ export default function AdminItemsScreen() {
                           </ThemedText>
                         </TouchableOpacity>
                       )}
-                      
-                      <TouchableOpacity
-                        style={[styles.actionItem, { backgroundColor: colors.error + '20' }]}
-                        onPress={() => {
-                          setShowItemModal(false);
-                          handleItemAction(selectedItem.id, 'remove');
-                        }}
-                      >
-                        <Trash2 size={20} color={colors.error} />
-                        <ThemedText style={[styles.actionText, { color: colors.error }]}>
-                          Remove Item
-                        </ThemedText>
-                      </TouchableOpacity>
+
+                      {selectedItem.status !== 'pending_review' && (
+                        <TouchableOpacity
+                          style={[styles.actionItem, { backgroundColor: colors.error + '20' }]}
+                          onPress={() => handleItemAction(selectedItem.id, 'remove')}
+                        >
+                          <Trash2 size={20} color={colors.error} />
+                          <ThemedText style={[styles.actionText, { color: colors.error }]}>
+                            Remove Item
+                          </ThemedText>
+                        </TouchableOpacity>
+                      )}
                     </View>
                   </View>
+                  )}
+
+                  {history.length > 0 && (
+                    <View style={styles.actionSection}>
+                      <ThemedText style={styles.actionSectionTitle}>Moderation History</ThemedText>
+                      {history.map(decision => (
+                        <View key={decision.id} style={[styles.historyEntry, { backgroundColor: colors.surface }]}>
+                          <View style={styles.historyHeader}>
+                            <ThemedText style={styles.historyAction}>
+                              {decision.action} · {decision.moderator?.nickname || 'System'}
+                            </ThemedText>
+                            <ThemedText style={[styles.itemDate, { color: colors.textSecondary }]}>
+                              {formatDate(decision.created_at)}
+                            </ThemedText>
+                          </View>
+                          {decision.reason_code && (
+                            <ThemedText style={[styles.historyReason, { color: colors.textSecondary }]}>
+                              {MODERATION_REASONS.find(reason => reason.code === decision.reason_code)?.label || decision.reason_code}
+                            </ThemedText>
+                          )}
+                          {decision.note && (
+                            <ThemedText style={[styles.historyReason, { color: colors.textSecondary }]}>
+                              {decision.note}
+                            </ThemedText>
+                          )}
+                        </View>
+                      ))}
+                    </View>
+                  )}
                 </View>
-              </View>
+              </ScrollView>
             </ThemedView>
           )}
         </Modal>
@@ -624,4 +768,56 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
   },
+  riskText: {
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  historyEntry: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  historyAction: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    textTransform: 'capitalize',
+  },
+  historyReason: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Flag, EyeOff } from 'lucide-react-native';
+import { AdminService, AdminReportGroup } from '~/lib/admin';
+import { ReportTargetType, reportReasonLabel } from '~/lib/reports';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+const TARGET_TYPES: { id: ReportTargetType | null; label: string }[] = [
+  { id: null, label: 'All' },
+  { id: 'item', label: 'Listings' },
+  { id: 'profile', label: 'Users' },
+  { id: 'message', label: 'Messages' },
+  { id: 'review', label: 'Reviews' },
+];
+
+const TARGET_NAMES: Record<ReportTargetType, string> = {
+  item: 'Listing',
+  profile: 'User',
+  message: 'Message',
+  review: 'Review',
+};
+
+// What taking action does on top of closing the reports
+const ACTION_HINTS: Record<ReportTargetType, string> = {
+  item: 'The reports are closed. Approve or remove the listing from the moderation queue.',
+  profile: 'The reports are closed. Suspend or ban the user from the users screen if needed.',
+  message: 'The message is hidden from both people in the conversation.',
+  review: 'The review is hidden and no longer counts towards the rating.',
+};
+
+export default function AdminReportsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [groups, setGroups] = useState<AdminReportGroup[]>([]);
+  const [targetType, setTargetType] = useState<ReportTargetType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadGroups();
+  }, [targetType]);
+
+  const loadGroups = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      const data = await AdminService.getReportQueue(targetType ?? undefined);
+      setGroups(data);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load reports');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const resolve = async (group: AdminReportGroup, resolution: 'actioned' | 'dismissed') => {
+    try {
+      setResolving(group.target_id);
+      await AdminService.resolveReports(group.target_type, group.target_id, resolution);
+      setGroups(prev => prev.filter(g => g.target_id !== group.target_id));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve reports');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleResolve = (group: AdminReportGroup, resolution: 'actioned' | 'dismissed') => {
+    Alert.alert(
+      resolution === 'actioned' ? 'Take Action' : 'Dismiss Reports',
+      resolution === 'actioned'
+        ? ACTION_HINTS[group.target_type]
+        : group.is_hidden
+          ? `The reports are closed and the ${TARGET_NAMES[group.target_type].toLowerCase()} is shown again.`
+          : 'The reports are closed without any action.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: resolution === 'actioned' ? 'Take Action' : 'Dismiss',
+          style: resolution === 'actioned' ? 'destructive' : 'default',
+          onPress: () => resolve(group, resolution),
+        },
+      ]
+    );
+  };
+
+  const openTarget = (group: AdminReportGroup) => {
+    if (group.target_type === 'item') {
+      router.push(`/item/${group.target_id}`);
+    } else if (group.target_type === 'profile') {
+      router.push(`/user/${group.target_id}`);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderGroup = ({ item }: { item: AdminReportGroup }) => (
+    <View style={styles.groupCard}>
+      <View style={styles.groupHeader}>
+        <ThemedText style={[styles.groupType, { color: colors.textSecondary }]}>
+          {TARGET_NAMES[item.target_type]}
+        </ThemedText>
+        {item.is_hidden && (
+          <View style={[styles.hiddenBadge, { backgroundColor: colors.warning + '20' }]}>
+            <EyeOff size={12} color={colors.warning} />
+            <ThemedText style={[styles.hiddenBadgeText, { color: colors.warning }]}>Hidden</ThemedText>
+          </View>
+        )}
+        <ThemedText style={[styles.reportCount, { color: colors.error }]}>
+          {item.report_count} {item.report_count === 1 ? 'report' : 'reports'}
+        </ThemedText>
+      </View>
+
+      <ThemedText style={styles.groupSummary} numberOfLines={3}>
+        {item.summary || 'Deleted'}
+      </ThemedText>
+      {item.owner_nickname && item.target_type !== 'profile' && (
+        <ThemedText style={[styles.groupOwner, { color: colors.textSecondary }]}>
+          by {item.owner_nickname}
+        </ThemedText>
+      )}
+
+      <View style={styles.chipRow}>
+        {item.reasons.map(reason => (
+          <View key={reason} style={[styles.chip, { borderColor: colors.border }]}>
+            <ThemedText style={styles.chipText}>{reportReasonLabel(item.target_type, reason)}</ThemedText>
+          </View>
+        ))}
+      </View>
+
+      {item.details.slice(0, 3).map((detail, index) => (
+        <ThemedText key={index} style={[styles.groupDetail, { color: colors.textSecondary }]} numberOfLines={3}>
+          "{detail}"
+        </ThemedText>
+      ))}
+
+      <ThemedText style={[styles.groupTime, { color: colors.textSecondary }]}>
+        First reported {new Date(item.first_reported_at).toLocaleString()}
+      </ThemedText>
+
+      <View style={styles.groupActions}>
+        {(item.target_type === 'item' || item.target_type === 'profile') && (
+          <TouchableOpacity
+            style={[styles.actionButton, { borderColor: colors.border }]}
+            onPress={() => openTarget(item)}
+          >
+            <ThemedText style={styles.actionButtonText}>Open</ThemedText>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, { borderColor: colors.border }]}
+          onPress={() => handleResolve(item, 'dismissed')}
+          disabled={resolving === item.target_id}
+        >
+          <ThemedText style={styles.actionButtonText}>Dismiss</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.error, borderColor: colors.error }]}
+          onPress={() => handleResolve(item, 'actioned')}
+          disabled={resolving === item.target_id}
+        >
+          {resolving === item.target_id ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <ThemedText style={[styles.actionButtonText, { color: '#FFFFFF' }]}>Take Action</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Flag size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No open reports</ThemedText>
+        <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+          Listings, users, messages and reviews reported by users show up here
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>User Reports</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.filters}>
+          <View style={styles.chipRow}>
+            {TARGET_TYPES.map(option => {
+              const active = option.id === targetType;
+              return (
+                <TouchableOpacity
+                  key={option.id || 'any'}
+                  style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+                  onPress={() => {
+                    setLoading(true);
+                    setTargetType(option.id);
+                  }}
+                >
+                  <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{option.label}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={groups}
+            renderItem={renderGroup}
+            keyExtractor={(item) => `${item.target_type}:${item.target_id}`}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyComponent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadGroups(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    gap: 12,
+  },
+  groupCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  groupType: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'Inter-SemiBold',
+    textTransform: 'uppercase',
+  },
+  hiddenBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  hiddenBadgeText: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
+  reportCount: {
+    fontSize: 13,
+    fontFamily: 'Inter-SemiBold',
+  },
+  groupSummary: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 2,
+  },
+  groupOwner: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 12,
+  },
+  groupDetail: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    fontStyle: 'italic',
+    marginBottom: 6,
+  },
+  groupTime: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 4,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+});
@@ -23,29 +23,61 @@ import {
   Database,
   Download,
   Trash2,
-  RefreshCw,
   Save,
   Key,
   Truck,
   Globe,
   Webhook,
+  History,
+  RotateCcw,
+  ChevronRight,
+  Clock,
+  Flag,
+  EyeOff,
+  ShieldAlert,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
-import { AdminService, AdminSettings } from '~/lib/admin';
+import { AdminService, AdminSettings, SettingsVersion } from '~/lib/admin';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
 import { ThemedText } from '~/components/ThemedText';
 
+type RiskListKey = 'prohibitedKeywords' | 'replicaKeywords' | 'luxuryBrands';
+type RiskNumberKey = Exclude<keyof AdminSettings['moderation'], RiskListKey>;
+
+const RISK_RULE_LISTS: { key: RiskListKey; title: string; description: string }[] = [
+  { key: 'prohibitedKeywords', title: 'Prohibited Keywords', description: 'Items that cannot be sold, one word or phrase per line' },
+  { key: 'replicaKeywords', title: 'Replica Keywords', description: 'Words that suggest a counterfeit, one per line' },
+  { key: 'luxuryBrands', title: 'Luxury Brands', description: 'Brands whose prices are checked against the category median, one per line' },
+];
+
+const RISK_RULE_NUMBERS: { key: RiskNumberKey; title: string; description: string; unit?: string }[] = [
+  { key: 'reviewThreshold', title: 'Review Threshold', description: 'Listings scoring this much or more wait for a moderator' },
+  { key: 'prohibitedKeywordScore', title: 'Prohibited Keyword', description: 'Added when a prohibited keyword is found' },
+  { key: 'replicaKeywordScore', title: 'Replica Keyword', description: 'Added when a replica keyword is found' },
+  { key: 'contactDetailsScore', title: 'Contact Details', description: 'Added for emails, phone numbers or messaging apps in the description' },
+  { key: 'luxuryPriceRatio', title: 'Luxury Price Ratio', description: 'Luxury listings cheaper than this share of the median are suspicious', unit: '%' },
+  { key: 'luxuryPriceScore', title: 'Luxury Price', description: 'Added for suspiciously cheap luxury listings' },
+  { key: 'newSellerDays', title: 'New Seller Period', description: 'Sellers younger than this count as new', unit: 'd' },
+  { key: 'newSellerScore', title: 'New Seller', description: 'Added for new sellers' },
+  { key: 'noSalesScore', title: 'No Sales', description: 'Added when the seller has never completed a sale' },
+  { key: 'recentTakedownScore', title: 'Recent Takedown', description: 'Added when a listing of the seller was taken down in the last 90 days' },
+  { key: 'duplicateImageScore', title: 'Duplicate Photos', description: "Added when a photo is used in another seller's listing" },
+];
+
 export default function AdminSettingsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { can } = useAdminAccess();
+  const canManage = can('settings.manage');
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [settings, setSettings] = useState<AdminSettings | null>(null);
-  const [isRegeneratingKey, setIsRegeneratingKey] = useState(false);
-  const [webhookUrl, setWebhookUrl] = useState('');
+  const [history, setHistory] = useState<SettingsVersion[]>([]);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
 
   useEffect(() => {
     loadSettings();
@@ -54,9 +86,12 @@ export default function AdminSettingsScreen() {
   const loadSettings = async () => {
     try {
       setLoading(true);
-      const data = await AdminService.getAdminSettings();
+      const [data, versions] = await Promise.all([
+        AdminService.getAdminSettings(),
+        AdminService.getSettingsHistory(),
+      ]);
       setSettings(data);
-      setWebhookUrl(data.delivery.webhookUrl || '');
+      setHistory(versions);
     } catch (error) {
       console.error('Load settings error:', error);
       Alert.alert('Error', 'Failed to load settings');
@@ -86,49 +121,37 @@ export default function AdminSettingsScreen() {
     try {
       setSaving(true);
       
-      // Update webhook URL
-      if (settings.delivery.webhookUrl !== webhookUrl) {
-        settings.delivery.webhookUrl = webhookUrl;
-      }
-      
       await AdminService.updateAdminSettings(settings);
+      setHistory(await AdminService.getSettingsHistory());
       Alert.alert('Success', 'Settings saved successfully');
     } catch (error) {
       console.error('Save settings error:', error);
-      Alert.alert('Error', 'Failed to save settings');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save settings');
     } finally {
       setSaving(false);
     }
   };
 
-  const handleRegenerateApiKey = () => {
+  const handleRollback = (version: number) => {
     Alert.alert(
-      "Regenerate API Key",
-      "Are you sure you want to regenerate the API key? This will invalidate the current key and all rider apps will need to be updated.",
+      'Roll Back Settings',
+      `Restore all settings to version ${version}? This is recorded as a new version.`,
       [
-        { text: "Cancel", style: "cancel" },
-        { 
-          text: "Regenerate", 
-          style: "destructive",
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Roll Back',
+          style: 'destructive',
           onPress: async () => {
             try {
-              setIsRegeneratingKey(true);
-              const newKey = await AdminService.generateDeliveryApiKey();
-              setSettings(prev => {
-                if (!prev) return prev;
-                return {
-                  ...prev,
-                  delivery: {
-                    ...prev.delivery,
-                    apiKey: newKey
-                  }
-                };
-              });
-              Alert.alert("Success", "API key has been regenerated. Make sure to update all rider apps.");
+              setRollingBack(version);
+              await AdminService.rollbackSettings(version);
+              await loadSettings();
+              Alert.alert('Success', `Settings restored to version ${version}`);
             } catch (error) {
-              Alert.alert("Error", "Failed to regenerate API key");
+              console.error('Rollback settings error:', error);
+              Alert.alert('Error', 'Failed to roll back settings');
             } finally {
-              setIsRegeneratingKey(false);
+              setRollingBack(null);
             }
           }
         }
@@ -200,20 +223,22 @@ export default function AdminSettingsScreen() {
             <ArrowLeft size={24} color={colors.text} />
           </TouchableOpacity>
           <ThemedText style={styles.headerTitle}>Admin Settings</ThemedText>
-          <TouchableOpacity 
-            style={[styles.saveButton, { backgroundColor: colors.primary }]}
-            onPress={handleSaveSettings}
-            disabled={saving}
-          >
-            {saving ? (
-              <ActivityIndicator size="small" color="#FFFFFF" />
-            ) : (
-              <>
-                <Save size={16} color="#FFFFFF" />
-                <Text style={styles.saveButtonText}>Save</Text>
-              </>
-            )}
-          </TouchableOpacity>
+          {canManage && (
+            <TouchableOpacity 
+              style={[styles.saveButton, { backgroundColor: colors.primary }]}
+              onPress={handleSaveSettings}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Save size={16} color="#FFFFFF" />
+                  <Text style={styles.saveButtonText}>Save</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
 
         <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -231,7 +256,7 @@ export default function AdminSettingsScreen() {
                   <View style={styles.settingText}>
                     <ThemedText style={styles.settingTitle}>Auto Moderation</ThemedText>
                     <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
-                      Automatically flag suspicious content
+                      Hold risky new and edited listings for review
                     </ThemedText>
                   </View>
                 </View>
@@ -296,6 +321,112 @@ export default function AdminSettingsScreen() {
                   thumbColor="#FFFFFF"
                 />
               </View>
+
+              <View style={styles.settingItem}>
+                <View style={styles.settingInfo}>
+                  <EyeOff size={20} color={colors.error} />
+                  <View style={styles.settingText}>
+                    <ThemedText style={styles.settingTitle}>Report Auto-Hide</ThemedText>
+                    <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                      Users who must report a listing, message or review before it is hidden
+                    </ThemedText>
+                  </View>
+                </View>
+                <View style={styles.feeInputContainer}>
+                  <TextInput
+                    style={[styles.feeInput, { color: colors.text, backgroundColor: colors.background }]}
+                    value={settings?.platform.reportAutoHideThreshold.toString()}
+                    onChangeText={(value) => {
+                      const numValue = parseInt(value, 10);
+                      if (!isNaN(numValue)) {
+                        updateSetting('platform', 'reportAutoHideThreshold', numValue);
+                      }
+                    }}
+                    keyboardType="numeric"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.settingItem}>
+                <View style={styles.settingInfo}>
+                  <Flag size={20} color={colors.warning} />
+                  <View style={styles.settingText}>
+                    <ThemedText style={styles.settingTitle}>Daily Report Limit</ThemedText>
+                    <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                      Reports each user can send in 24 hours
+                    </ThemedText>
+                  </View>
+                </View>
+                <View style={styles.feeInputContainer}>
+                  <TextInput
+                    style={[styles.feeInput, { color: colors.text, backgroundColor: colors.background }]}
+                    value={settings?.platform.reportDailyLimit.toString()}
+                    onChangeText={(value) => {
+                      const numValue = parseInt(value, 10);
+                      if (!isNaN(numValue)) {
+                        updateSetting('platform', 'reportDailyLimit', numValue);
+                      }
+                    }}
+                    keyboardType="numeric"
+                  />
+                </View>
+              </View>
+            </View>
+          </View>
+
+          {/* Listing Risk Rules */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <ShieldAlert size={20} color={colors.primary} />
+              <ThemedText style={styles.sectionTitle}>Listing Risk Rules</ThemedText>
+            </View>
+            <ThemedText style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+              New and edited listings are scored while Auto Moderation is on
+            </ThemedText>
+
+            <View style={[styles.feeCard, { backgroundColor: colors.surface }]}>
+              {RISK_RULE_NUMBERS.map(rule => (
+                <View key={rule.key} style={styles.feeItem}>
+                  <View style={styles.feeInfo}>
+                    <ThemedText style={styles.feeTitle}>{rule.title}</ThemedText>
+                    <ThemedText style={[styles.feeDescription, { color: colors.textSecondary }]}>
+                      {rule.description}
+                    </ThemedText>
+                  </View>
+                  <View style={styles.feeInputContainer}>
+                    <TextInput
+                      style={[styles.feeInput, { color: colors.text, backgroundColor: colors.background }]}
+                      value={settings?.moderation[rule.key].toString()}
+                      onChangeText={(value) => {
+                        const numValue = parseInt(value, 10);
+                        if (!isNaN(numValue)) {
+                          updateSetting('moderation', rule.key, numValue);
+                        }
+                      }}
+                      keyboardType="numeric"
+                    />
+                    {rule.unit && <ThemedText style={styles.feeUnit}>{rule.unit}</ThemedText>}
+                  </View>
+                </View>
+              ))}
+
+              {RISK_RULE_LISTS.map(rule => (
+                <View key={rule.key} style={styles.listItem}>
+                  <ThemedText style={styles.feeTitle}>{rule.title}</ThemedText>
+                  <ThemedText style={[styles.feeDescription, { color: colors.textSecondary }]}>
+                    {rule.description}
+                  </ThemedText>
+                  <TextInput
+                    style={[styles.listInput, { color: colors.text, backgroundColor: colors.background }]}
+                    value={settings?.moderation[rule.key].join('\n')}
+                    onChangeText={(value) => updateSetting('moderation', rule.key, value.split('\n'))}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    multiline
+                    textAlignVertical="top"
+                  />
+                </View>
+              ))}
             </View>
           </View>
 
@@ -375,7 +506,7 @@ export default function AdminSettingsScreen() {
                 <View style={styles.feeInfo}>
                   <ThemedText style={styles.feeTitle}>Transaction Fee (%)</ThemedText>
                   <ThemedText style={[styles.feeDescription, { color: colors.textSecondary }]}>
-                    Fee charged per transaction
+                    Commission taken from the seller on each sale
                   </ThemedText>
                 </View>
                 <View style={styles.feeInputContainer}>
@@ -396,24 +527,24 @@ export default function AdminSettingsScreen() {
 
               <View style={styles.feeItem}>
                 <View style={styles.feeInfo}>
-                  <ThemedText style={styles.feeTitle}>Listing Fee ($)</ThemedText>
+                  <ThemedText style={styles.feeTitle}>Buyer Protection (%)</ThemedText>
                   <ThemedText style={[styles.feeDescription, { color: colors.textSecondary }]}>
-                    Fee for premium listings
+                    Added to the buyer's total at checkout
                   </ThemedText>
                 </View>
                 <View style={styles.feeInputContainer}>
-                  <ThemedText style={styles.feeUnit}>$</ThemedText>
                   <TextInput
                     style={[styles.feeInput, { color: colors.text, backgroundColor: colors.background }]}
-                    value={settings?.fees.listingFee.toString()}
+                    value={settings?.fees.buyerProtectionFee.toString()}
                     onChangeText={(value) => {
                       const numValue = parseFloat(value);
                       if (!isNaN(numValue)) {
-                        updateSetting('fees', 'listingFee', numValue);
+                        updateSetting('fees', 'buyerProtectionFee', numValue);
                       }
                     }}
                     keyboardType="numeric"
                   />
+                  <ThemedText style={styles.feeUnit}>%</ThemedText>
                 </View>
               </View>
 
@@ -439,6 +570,19 @@ export default function AdminSettingsScreen() {
                   <ThemedText style={styles.feeUnit}>%</ThemedText>
                 </View>
               </View>
+
+              <TouchableOpacity
+                style={styles.feeItem}
+                onPress={() => router.push('/admin/fee-rules')}
+              >
+                <View style={styles.feeInfo}>
+                  <ThemedText style={styles.feeTitle}>Fee Rules</ThemedText>
+                  <ThemedText style={[styles.feeDescription, { color: colors.textSecondary }]}>
+                    Override these fees by category, price or seller tier, and run promotions
+                  </ThemedText>
+                </View>
+                <ChevronRight size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
             </View>
           </View>
 
@@ -487,54 +631,123 @@ export default function AdminSettingsScreen() {
               
               <View style={styles.settingItem}>
                 <View style={styles.settingInfo}>
-                  <Key size={20} color={colors.primary} />
+                  <Clock size={20} color={colors.primary} />
                   <View style={styles.settingText}>
-                    <ThemedText style={styles.settingTitle}>API Key</ThemedText>
-                    <ThemedText style={[styles.apiKey, { color: colors.textSecondary }]}>
-                      {settings?.delivery.apiKey}
+                    <ThemedText style={styles.settingTitle}>Inspection Window</ThemedText>
+                    <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                      Time buyers have to check a delivered item before escrow is released
                     </ThemedText>
                   </View>
                 </View>
-                <TouchableOpacity 
-                  style={[styles.regenerateButton, { backgroundColor: colors.error + '20' }]}
-                  onPress={handleRegenerateApiKey}
-                  disabled={isRegeneratingKey || !settings?.delivery.apiEnabled}
-                >
-                  {isRegeneratingKey ? (
-                    <ActivityIndicator size="small" color={colors.error} />
-                  ) : (
-                    <>
-                      <RefreshCw size={16} color={colors.error} />
-                      <ThemedText style={[styles.regenerateText, { color: colors.error }]}>
-                        Regenerate
-                      </ThemedText>
-                    </>
-                  )}
-                </TouchableOpacity>
+                <View style={styles.feeInputContainer}>
+                  <TextInput
+                    style={[styles.feeInput, { color: colors.text, backgroundColor: colors.background }]}
+                    value={settings?.delivery.inspectionWindowHours.toString()}
+                    onChangeText={(value) => {
+                      const numValue = parseInt(value, 10);
+                      if (!isNaN(numValue)) {
+                        updateSetting('delivery', 'inspectionWindowHours', numValue);
+                      }
+                    }}
+                    keyboardType="numeric"
+                  />
+                  <ThemedText style={styles.feeUnit}>h</ThemedText>
+                </View>
               </View>
 
-              <View style={styles.settingItem}>
+              <TouchableOpacity
+                style={styles.settingItem}
+                onPress={() => router.push('/admin/delivery-api')}
+              >
+                <View style={styles.settingInfo}>
+                  <Key size={20} color={colors.primary} />
+                  <View style={styles.settingText}>
+                    <ThemedText style={styles.settingTitle}>Rider API Keys</ThemedText>
+                    <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                      Each rider has their own key, managed from the Delivery API page
+                    </ThemedText>
+                  </View>
+                </View>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.settingItem}
+                onPress={() => router.push('/admin/delivery-api')}
+              >
                 <View style={styles.settingInfo}>
                   <Webhook size={20} color={colors.primary} />
                   <View style={styles.settingText}>
-                    <ThemedText style={styles.settingTitle}>Webhook URL</ThemedText>
+                    <ThemedText style={styles.settingTitle}>Partner Webhooks</ThemedText>
                     <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
-                      URL to receive delivery status updates
+                      Signed delivery events and failed deliveries, managed from the Delivery API page
                     </ThemedText>
                   </View>
                 </View>
-              </View>
-              <TextInput
-                style={[styles.webhookInput, { 
-                  color: colors.text, 
-                  backgroundColor: colors.background,
-                  borderColor: colors.border
-                }]}
-                value={webhookUrl}
-                onChangeText={setWebhookUrl}
-                placeholder="https://your-rider-app.com/webhook"
-                placeholderTextColor={colors.textSecondary}
-              />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Settings History */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <History size={20} color={colors.primary} />
+              <ThemedText style={styles.sectionTitle}>Settings History</ThemedText>
+            </View>
+
+            <View style={[styles.settingCard, { backgroundColor: colors.surface }]}>
+              {history.length === 0 ? (
+                <View style={styles.settingItem}>
+                  <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                    No changes recorded yet
+                  </ThemedText>
+                </View>
+              ) : (
+                history.map((entry, index) => (
+                  <View key={entry.version} style={styles.historyItem}>
+                    <View style={styles.historyInfo}>
+                      <ThemedText style={styles.settingTitle}>
+                        Version {entry.version}
+                        {index === 0 ? ' (current)' : ''}
+                      </ThemedText>
+                      <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                        {entry.changed_by_nickname || 'System'} · {new Date(entry.created_at).toLocaleString()}
+                      </ThemedText>
+                      {entry.notes && (
+                        <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                          {entry.notes}
+                        </ThemedText>
+                      )}
+                      {entry.changes.map(change => (
+                        <ThemedText key={change.id} style={styles.historyChange}>
+                          {change.key}: {change.key === 'delivery.apiKey'
+                            ? 'rotated'
+                            : change.previous_value === null && change.new_value === null
+                              ? 'changed'
+                              : `${JSON.stringify(change.previous_value)} → ${JSON.stringify(change.new_value)}`}
+                        </ThemedText>
+                      ))}
+                    </View>
+                    {index > 0 && canManage && (
+                      <TouchableOpacity
+                        style={[styles.regenerateButton, { backgroundColor: colors.warning + '20' }]}
+                        onPress={() => handleRollback(entry.version)}
+                        disabled={rollingBack !== null}
+                      >
+                        {rollingBack === entry.version ? (
+                          <ActivityIndicator size="small" color={colors.warning} />
+                        ) : (
+                          <>
+                            <RotateCcw size={16} color={colors.warning} />
+                            <ThemedText style={[styles.regenerateText, { color: colors.warning }]}>
+                              Roll back
+                            </ThemedText>
+                          </>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))
+              )}
             </View>
           </View>
 
@@ -664,6 +877,11 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 18,
     fontFamily: 'Inter-SemiBold',
   },
+  sectionDescription: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 12,
+  },
   settingCard: {
     borderRadius: 16,
     overflow: 'hidden',
@@ -694,11 +912,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-Regular',
   },
-  apiKey: {
-    fontSize: 14,
-    fontFamily: 'Inter-Medium',
-    marginTop: 4,
-  },
   regenerateButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -711,15 +924,22 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 12,
     fontFamily: 'Inter-Medium',
   },
-  webhookInput: {
-    borderWidth: 1,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    marginHorizontal: 16,
-    marginBottom: 16,
-    fontSize: 14,
+  historyItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyChange: {
+    fontSize: 12,
     fontFamily: 'Inter-Regular',
+    marginTop: 4,
   },
   feeCard: {
     borderRadius: 16,
@@ -759,6 +979,19 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     textAlign: 'center',
   },
+  listItem: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  listInput: {
+    minHeight: 96,
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
   feeUnit: {
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
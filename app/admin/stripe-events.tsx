@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Webhook } from 'lucide-react-native';
+import {
+  STRIPE_EVENT_STATUSES,
+  StripeEvent,
+  StripeEventStatus,
+  StripeEventsService,
+} from '~/lib/stripe-events';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+export default function StripeEventsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [status, setStatus] = useState<StripeEventStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadEvents();
+  }, [status]);
+
+  const loadEvents = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      setEvents(await StripeEventsService.getEvents(status ?? undefined));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load Stripe events');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const getStatusColor = (eventStatus: StripeEventStatus) => {
+    switch (eventStatus) {
+      case 'processed': return colors.success;
+      case 'failed': return colors.error;
+      case 'processing': return colors.warning;
+      default: return colors.textSecondary;
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderChips = <T extends string>(
+    options: { id: T | null; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | null) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const active = option.id === selected;
+        return (
+          <TouchableOpacity
+            key={option.id || 'any'}
+            style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+            onPress={() => onSelect(option.id)}
+          >
+            <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{option.label}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderEvent = ({ item }: { item: StripeEvent }) => {
+    const statusColor = getStatusColor(item.status);
+
+    return (
+      <View style={styles.eventCard}>
+        <View style={styles.eventHeader}>
+          <ThemedText style={styles.eventType} numberOfLines={1}>{item.type}</ThemedText>
+          <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+            <ThemedText style={[styles.statusText, { color: statusColor }]}>
+              {item.status.toUpperCase()}
+            </ThemedText>
+          </View>
+        </View>
+        <ThemedText style={[styles.eventId, { color: colors.textSecondary }]} numberOfLines={1}>
+          {item.id}{item.account_id ? ` · ${item.account_id}` : ''}{item.livemode ? '' : ' · test'}
+        </ThemedText>
+        {(item.last_error || item.result) && (
+          <ThemedText
+            style={[styles.eventResult, { color: item.last_error ? colors.error : colors.text }]}
+            numberOfLines={3}
+          >
+            {item.last_error || item.result}
+          </ThemedText>
+        )}
+        <ThemedText style={[styles.eventMeta, { color: colors.textSecondary }]}>
+          {new Date(item.received_at).toLocaleString()} · {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Webhook size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No events</ThemedText>
+        <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+          Events appear here as Stripe sends them to the webhook
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Stripe Events</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.filters}>
+          {renderChips<StripeEventStatus>(
+            [{ id: null, label: 'All' }, ...STRIPE_EVENT_STATUSES],
+            status,
+            (value) => {
+              setLoading(true);
+              setStatus(value);
+            }
+          )}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={events}
+            renderItem={renderEvent}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyComponent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadEvents(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    gap: 12,
+  },
+  eventCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  eventType: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginRight: 12,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 10,
+    fontFamily: 'Inter-Bold',
+  },
+  eventId: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 8,
+  },
+  eventResult: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 8,
+  },
+  eventMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+});
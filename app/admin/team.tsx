@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, UserCog, Trash2 } from 'lucide-react-native';
+import { ADMIN_ROLES, AdminAccessService, AdminRole, AdminTeamMember } from '~/lib/admin-access';
+import { useAuth } from '~/contexts/AuthContext';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+export default function AdminTeamScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const { user } = useAuth();
+  const [members, setMembers] = useState<AdminTeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<AdminRole>('support');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      const data = await AdminAccessService.getTeam();
+      setMembers(data);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load the admin team');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleSetRole = async (member: AdminTeamMember, role: AdminRole) => {
+    if (member.role === role) return;
+
+    try {
+      await AdminAccessService.setRole(member.user_id, role);
+      setMembers(prev => prev.map(m => m.user_id === member.user_id ? { ...m, role } : m));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to change role');
+    }
+  };
+
+  const handleRemove = (member: AdminTeamMember) => {
+    Alert.alert(
+      'Remove Admin',
+      `Remove admin rights from ${member.profile?.nickname || 'this user'}? Disputes assigned to them go back to the queue.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await AdminAccessService.removeAdmin(member.user_id);
+              setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove admin');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAdd = async () => {
+    if (!email.trim()) {
+      Alert.alert('Email Required', 'Enter the email the user signed up with');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await AdminAccessService.addAdmin(email, newRole);
+      setEmail('');
+      await loadTeam();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add admin');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  const renderRoleChips = (selected: AdminRole, onSelect: (role: AdminRole) => void) => (
+    <View style={styles.chipRow}>
+      {ADMIN_ROLES.map(role => {
+        const active = role.key === selected;
+        return (
+          <TouchableOpacity
+            key={role.key}
+            style={[styles.chip, { borderColor: active ? colors.primary : colors.border }, active && { backgroundColor: colors.primary + '20' }]}
+            onPress={() => onSelect(role.key)}
+          >
+            <ThemedText style={[styles.chipText, active && { color: colors.primary }]}>{role.name}</ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderMember = ({ item }: { item: AdminTeamMember }) => {
+    const isSelf = item.user_id === user?.id;
+
+    return (
+      <View style={styles.memberCard}>
+        <View style={styles.memberHeader}>
+          <View style={styles.memberInfo}>
+            <ThemedText style={styles.memberName} numberOfLines={1}>
+              {item.profile?.nickname || 'Unknown user'}{isSelf ? ' (you)' : ''}
+            </ThemedText>
+            <ThemedText style={[styles.memberEmail, { color: colors.textSecondary }]} numberOfLines={1}>
+              {item.profile?.email}
+            </ThemedText>
+          </View>
+          {!isSelf && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+              <Trash2 size={18} color={colors.error} />
+            </TouchableOpacity>
+          )}
+        </View>
+        {renderRoleChips(item.role, (role) => handleSetRole(item, role))}
+        <ThemedText style={[styles.roleDescription, { color: colors.textSecondary }]}>
+          {ADMIN_ROLES.find(role => role.key === item.role)?.description}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  const renderAddForm = () => (
+    <View style={styles.addCard}>
+      <ThemedText style={styles.sectionTitle}>Add Admin</ThemedText>
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={email}
+        onChangeText={setEmail}
+        placeholder="user@example.com"
+        placeholderTextColor={colors.textSecondary}
+        autoCapitalize="none"
+        keyboardType="email-address"
+      />
+      {renderRoleChips(newRole, setNewRole)}
+      <TouchableOpacity
+        style={[styles.addButton, { backgroundColor: colors.primary }]}
+        onPress={handleAdd}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <ThemedText style={styles.addButtonText}>Add</ThemedText>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <UserCog size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No admins</ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Admin Team</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={members}
+            renderItem={renderMember}
+            keyExtractor={(item) => item.user_id}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={renderAddForm()}
+            ListEmptyComponent={renderEmptyComponent}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadTeam(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    padding: 20,
+    gap: 12,
+  },
+  addCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 12,
+  },
+  addButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  memberCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  memberHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  memberEmail: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+  },
+  removeButton: {
+    padding: 8,
+  },
+  roleDescription: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: 'Inter-Medium',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+  },
+});
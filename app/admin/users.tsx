@@ -22,23 +22,34 @@ import {
   Phone,
   Calendar,
   DollarSign,
+  Clock,
+  CheckCircle,
+  XCircle,
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { AdminService, AdminUser } from '~/lib/admin';
+import { isRestricted } from '~/lib/account-status';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useAdminAccess } from '~/hooks/useAdminAccess';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
 import { ThemedText } from '~/components/ThemedText';
 
+// Suspension lengths admins can pick from
+const SUSPENSION_DAYS = [7, 30];
+
 export default function AdminUsersScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { can } = useAdminAccess();
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
   const [showUserModal, setShowUserModal] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'suspended'>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'suspended' | 'banned'>('all');
+  const [actionReason, setActionReason] = useState('');
+  const [appealResponse, setAppealResponse] = useState('');
 
   useEffect(() => {
     loadUsers();
@@ -55,22 +66,34 @@ export default function AdminUsersScreen() {
     }
   };
 
-  const handleUserAction = async (userId: string, action: 'suspend' | 'activate' | 'delete') => {
+  const handleUserAction = async (userId: string, action: 'suspend' | 'ban' | 'activate', days?: number) => {
+    if (action !== 'activate' && !actionReason.trim()) {
+      Alert.alert('Reason Required', 'Tell the user why their account is restricted');
+      return;
+    }
+
+    const label = action === 'suspend' ? `suspend this user for ${days} days` : action === 'ban' ? 'ban this user' : 'reinstate this user';
+
     Alert.alert(
       'Confirm Action',
-      `Are you sure you want to ${action} this user?`,
+      `Are you sure you want to ${label}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Confirm',
-          style: action === 'delete' ? 'destructive' : 'default',
+          style: action === 'activate' ? 'default' : 'destructive',
           onPress: async () => {
             try {
-              await AdminService.moderateUser(userId, action);
+              setShowUserModal(false);
+              await AdminService.moderateUser(userId, action, {
+                reason: actionReason,
+                suspendedUntil: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : undefined,
+              });
+              setActionReason('');
               await loadUsers();
-              Alert.alert('Success', `User ${action}d successfully`);
+              Alert.alert('Success', 'Account status updated');
             } catch (error) {
-              Alert.alert('Error', `Failed to ${action} user`);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update account status');
             }
           },
         },
@@ -78,6 +101,23 @@ export default function AdminUsersScreen() {
     );
   };
 
+  const handleReviewAppeal = async (appealId: string, accept: boolean) => {
+    if (!accept && !appealResponse.trim()) {
+      Alert.alert('Response Required', 'Explain to the user why the appeal was rejected');
+      return;
+    }
+
+    try {
+      setShowUserModal(false);
+      await AdminService.reviewAppeal(appealId, accept, appealResponse);
+      setAppealResponse('');
+      await loadUsers();
+      Alert.alert('Success', accept ? 'Appeal accepted and user reinstated' : 'Appeal rejected');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to review appeal');
+    }
+  };
+
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.nickname.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          user.email.toLowerCase().includes(searchQuery.toLowerCase());
@@ -96,7 +136,8 @@ export default function AdminUsersScreen() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return colors.success;
-      case 'suspended': return colors.error;
+      case 'suspended': return colors.warning;
+      case 'banned': return colors.error;
       default: return colors.textSecondary;
     }
   };
@@ -211,7 +252,7 @@ export default function AdminUsersScreen() {
         </View>
 
         <View style={styles.filterTabs}>
-          {['all', 'active', 'suspended'].map((status) => (
+          {['all', 'active', 'suspended', 'banned'].map((status) => (
             <TouchableOpacity
               key={status}
               style={[
@@ -277,6 +318,20 @@ export default function AdminUsersScreen() {
                 </View>
 
                 <View style={styles.userInfoSection}>
+                  {selectedUser.status !== 'active' && (
+                    <View style={styles.infoItem}>
+                      <Clock size={20} color={getStatusColor(selectedUser.status)} />
+                      <View style={styles.infoContent}>
+                        <ThemedText style={[styles.infoLabel, { color: colors.textSecondary }]}>
+                          {selectedUser.status === 'suspended' && selectedUser.suspended_until
+                            ? `Suspended until ${formatDate(selectedUser.suspended_until)}`
+                            : 'Banned'}
+                        </ThemedText>
+                        <ThemedText style={styles.infoValue}>{selectedUser.status_reason}</ThemedText>
+                      </View>
+                    </View>
+                  )}
+
                   <View style={styles.infoItem}>
                     <Mail size={20} color={colors.textSecondary} />
                     <View style={styles.infoContent}>
@@ -324,37 +379,98 @@ export default function AdminUsersScreen() {
                   </View>
                 </View>
 
+                {can('users.manage') && (
                 <View style={styles.actionSection}>
                   <ThemedText style={styles.actionSectionTitle}>Actions</ThemedText>
                   
-                  {selectedUser.status === 'active' ? (
+                  {selectedUser.pending_appeal && (
+                    <View style={[styles.appealBox, { borderColor: colors.border }]}>
+                      <ThemedText style={styles.appealTitle}>
+                        Appeal from {formatDate(selectedUser.pending_appeal.created_at)}
+                      </ThemedText>
+                      <ThemedText style={[styles.appealMessage, { color: colors.textSecondary }]}>
+                        {selectedUser.pending_appeal.message}
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.reasonInput, { color: colors.text, borderColor: colors.border }]}
+                        placeholder="Response to the user"
+                        placeholderTextColor={colors.textSecondary}
+                        value={appealResponse}
+                        onChangeText={setAppealResponse}
+                        multiline
+                      />
+                      <View style={styles.actionRow}>
+                        <TouchableOpacity
+                          style={[styles.actionItem, styles.actionRowItem, { backgroundColor: colors.success + '20' }]}
+                          onPress={() => handleReviewAppeal(selectedUser.pending_appeal!.id, true)}
+                        >
+                          <CheckCircle size={20} color={colors.success} />
+                          <ThemedText style={[styles.actionText, { color: colors.success }]}>Accept</ThemedText>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.actionItem, styles.actionRowItem, { backgroundColor: colors.error + '20' }]}
+                          onPress={() => handleReviewAppeal(selectedUser.pending_appeal!.id, false)}
+                        >
+                          <XCircle size={20} color={colors.error} />
+                          <ThemedText style={[styles.actionText, { color: colors.error }]}>Reject</ThemedText>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  )}
+
+                  {selectedUser.status !== 'banned' && (
+                    <TextInput
+                      style={[styles.reasonInput, { color: colors.text, borderColor: colors.border }]}
+                      placeholder="Reason shown to the user"
+                      placeholderTextColor={colors.textSecondary}
+                      value={actionReason}
+                      onChangeText={setActionReason}
+                      multiline
+                    />
+                  )}
+
+                  {!isRestricted({
+                    account_status: selectedUser.status,
+                    suspended_until: selectedUser.suspended_until ?? null,
+                    status_reason: selectedUser.status_reason ?? null,
+                  }) && SUSPENSION_DAYS.map(days => (
+                    <TouchableOpacity
+                      key={days}
+                      style={[styles.actionItem, { backgroundColor: colors.warning + '20' }]}
+                      onPress={() => handleUserAction(selectedUser.id, 'suspend', days)}
+                    >
+                      <Clock size={20} color={colors.warning} />
+                      <ThemedText style={[styles.actionText, { color: colors.warning }]}>
+                        Suspend for {days} days
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+
+                  {selectedUser.status !== 'banned' && (
                     <TouchableOpacity
                       style={[styles.actionItem, { backgroundColor: colors.error + '20' }]}
-                      onPress={() => {
-                        setShowUserModal(false);
-                        handleUserAction(selectedUser.id, 'suspend');
-                      }}
+                      onPress={() => handleUserAction(selectedUser.id, 'ban')}
                     >
                       <Ban size={20} color={colors.error} />
                       <ThemedText style={[styles.actionText, { color: colors.error }]}>
-                        Suspend User
+                        Ban User
                       </ThemedText>
                     </TouchableOpacity>
-                  ) : (
+                  )}
+
+                  {selectedUser.status !== 'active' && (
                     <TouchableOpacity
                       style={[styles.actionItem, { backgroundColor: colors.success + '20' }]}
-                      onPress={() => {
-                        setShowUserModal(false);
-                        handleUserAction(selectedUser.id, 'activate');
-                      }}
+                      onPress={() => handleUserAction(selectedUser.id, 'activate')}
                     >
                       <Shield size={20} color={colors.success} />
                       <ThemedText style={[styles.actionText, { color: colors.success }]}>
-                        Activate User
+                        Reinstate User
                       </ThemedText>
                     </TouchableOpacity>
                   )}
                 </View>
+                )}
               </ScrollView>
             </ThemedView>
           )}
@@ -608,6 +724,7 @@ const createStyles = (colors: any) => StyleSheet.create({
   },
   actionSection: {
     marginBottom: 40,
+    gap: 12,
   },
   actionSectionTitle: {
     fontSize: 18,
@@ -625,4 +742,36 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
   },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionRowItem: {
+    flex: 1,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  appealBox: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  appealTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  appealMessage: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
 });
\ No newline at end of file
@@ -94,7 +94,7 @@ export async function GET(request: ExpoRequest): Promise<ExpoResponse> {
 // POST to create a new dispute
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { order_id, type, description, evidence } = await request.json();
+    const { order_id, order_item_id, type, description, evidence } = await request.json();
     
     // Validate required fields
     if (!order_id || !type || !description) {
@@ -138,6 +138,23 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
+    // A dispute about one item of a bundle must name an item of this order
+    if (order_item_id) {
+      const { data: orderItem } = await supabase
+        .from('order_items')
+        .select('id')
+        .eq('id', order_item_id)
+        .eq('order_id', order_id)
+        .maybeSingle();
+
+      if (!orderItem) {
+        return new Response(JSON.stringify({ error: 'Item is not part of this order' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     // Check if dispute already exists for this order
     const { count, error: disputeCountError } = await supabase
       .from('disputes')
@@ -162,6 +179,7 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       .from('disputes')
       .insert({
         order_id,
+        order_item_id: order_item_id ?? null,
         reporter_id: reporterId,
         reported_id: reportedId,
         type,
@@ -0,0 +1,153 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server';
+import Stripe from 'stripe';
+import { supabase, createUserClient } from '../../../../lib/supabase';
+import { DisputeOutcome, getDisputeRefundAmount } from '../../../../lib/disputes';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+});
+
+const OUTCOMES: DisputeOutcome[] = ['full_refund', 'partial_refund', 'release_to_seller', 'split'];
+
+// POST to resolve a dispute (admin only)
+export async function POST(request: ExpoRequest, { params }: { params: { id: string } }): Promise<ExpoResponse> {
+  try {
+    const disputeId = params.id;
+    const { outcome, resolution, refund_amount } = await request.json();
+
+    if (!OUTCOMES.includes(outcome) || !resolution) {
+      return new Response(JSON.stringify({ error: 'A valid outcome and resolution are required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get user from auth header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Act as the admin so the database can enforce permissions
+    const userClient = createUserClient(token);
+
+    const { data: canResolve } = await userClient.rpc('has_admin_permission', { p_permission: 'disputes.manage' });
+    if (!canResolve) {
+      return new Response(JSON.stringify({ error: 'Dispute management access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: dispute, error: disputeError } = await userClient
+      .from('disputes')
+      .select(`
+        id,
+        status,
+        order:orders(id, total_amount, refunded_amount, status, payment_intent_id)
+      `)
+      .eq('id', disputeId)
+      .single();
+
+    if (disputeError || !dispute) {
+      return new Response(JSON.stringify({ error: 'Dispute not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (dispute.status === 'resolved' || dispute.status === 'closed') {
+      return new Response(JSON.stringify({ error: `Dispute is already ${dispute.status}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const order = dispute.order as unknown as {
+      id: string;
+      total_amount: number;
+      refunded_amount: number | null;
+      payment_intent_id: string | null;
+    };
+
+    // Outcomes apply to whatever has not been refunded already
+    const remainingAmount = Math.round((order.total_amount - (order.refunded_amount || 0)) * 100) / 100;
+
+    let refundAmount: number;
+    try {
+      refundAmount = getDisputeRefundAmount(outcome, remainingAmount, refund_amount);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid refund amount' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Record the resolution first, so it is kept if the refund goes through but resolving below fails
+    const { error: pendingError } = await userClient.rpc('begin_dispute_resolution', {
+      p_dispute_id: disputeId,
+      p_outcome: outcome,
+      p_resolution: resolution,
+      p_refund_amount: refundAmount,
+    });
+
+    if (pendingError) throw pendingError;
+
+    // Card payments go back through Stripe, the key makes retries safe
+    let stripeRefundId: string | null = null;
+    if (refundAmount > 0 && order.payment_intent_id) {
+      const refund = await stripe.refunds.create({
+        payment_intent: order.payment_intent_id,
+        amount: Math.round(refundAmount * 100),
+        reason: 'requested_by_customer',
+        metadata: {
+          dispute_id: disputeId,
+          order_id: order.id,
+          outcome,
+        },
+      }, {
+        idempotencyKey: `dispute-${disputeId}-refund`,
+      });
+
+      stripeRefundId = refund.id;
+    }
+
+    // Settle the dispute and move the escrowed funds atomically
+    const { data: result, error: resolveError } = await userClient.rpc('resolve_dispute', {
+      p_dispute_id: disputeId,
+      p_outcome: outcome,
+      p_resolution: resolution,
+      p_refund_amount: refundAmount,
+      p_stripe_refund_id: stripeRefundId,
+    });
+
+    if (resolveError) throw resolveError;
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Resolve dispute error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to resolve dispute',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,103 +1,171 @@
-export async function GET(request: Request) {
-  const url = new URL(request.url);
-  const category = url.searchParams.get('category');
-  const search = url.searchParams.get('search');
-  const limit = parseInt(url.searchParams.get('limit') || '20');
-  const offset = parseInt(url.searchParams.get('offset') || '0');
-
-  // Mock data - in a real app, this would come from a database
-  const mockItems = [
-    {
-      id: '1',
-      title: 'Vintage Denim Jacket',
-      price: 45,
-      originalPrice: 89,
-      image: 'https://images.pexels.com/photos/1598507/pexels-photo-1598507.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-      brand: 'Levi\'s',
-      size: 'M',
-      condition: 'Good',
-      seller: 'Sarah M.',
-      location: 'New York',
-      category: 'women',
-      isPromoted: true,
-      createdAt: new Date().toISOString(),
-    },
-    {
-      id: '2',
-      title: 'Summer Floral Dress',
-      price: 32,
-      originalPrice: 65,
-      image: 'https://images.pexels.com/photos/985635/pexels-photo-985635.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-      brand: 'Zara',
-      size: 'S',
-      condition: 'Excellent',
-      seller: 'Emma K.',
-      location: 'Los Angeles',
-      category: 'women',
-      isPromoted: false,
-      createdAt: new Date().toISOString(),
-    },
-    // Add more mock items as needed
-  ];
-
-  // Filter items based on query parameters
-  let filteredItems = mockItems;
-
-  if (category && category !== 'all') {
-    filteredItems = filteredItems.filter(item => item.category === category);
-  }
+import { ExpoRequest, ExpoResponse } from 'expo-router/server';
+import { supabase, createUserClient } from '../../lib/supabase';
+import {
+  ItemsService,
+  CreateItemData,
+  ItemListCursor,
+  ItemSort,
+  ITEM_SORTS,
+  validateItemData,
+} from '../../lib/items';
+import { AccountStatusService, isRestricted, restrictionMessage } from '../../lib/account-status';
 
-  if (search) {
-    const searchLower = search.toLowerCase();
-    filteredItems = filteredItems.filter(item =>
-      item.title.toLowerCase().includes(searchLower) ||
-      item.brand.toLowerCase().includes(searchLower)
-    );
-  }
+// GET a page of active items
+export async function GET(request: ExpoRequest): Promise<ExpoResponse> {
+  try {
+    // Get user from auth header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get URL parameters
+    const url = new URL(request.url);
+    const sort = (url.searchParams.get('sort') || 'newest') as ItemSort;
+    const category = url.searchParams.get('category');
+    const sellerId = url.searchParams.get('seller_id');
+    const search = url.searchParams.get('search');
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+    const cursorParam = url.searchParams.get('cursor');
+
+    if (!ITEM_SORTS.includes(sort)) {
+      return new Response(JSON.stringify({ error: `sort must be one of: ${ITEM_SORTS.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return new Response(JSON.stringify({ error: 'limit must be between 1 and 100' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The cursor is the next_cursor object from the previous page, JSON encoded
+    let cursor: ItemListCursor | null = null;
+    if (cursorParam) {
+      try {
+        cursor = JSON.parse(cursorParam);
+      } catch (error) {
+        cursor = null;
+      }
 
-  // Apply pagination
-  const paginatedItems = filteredItems.slice(offset, offset + limit);
+      if (!cursor || typeof cursor !== 'object' || !cursor.id || !cursor.created_at) {
+        return new Response(JSON.stringify({ error: 'Invalid cursor' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const result = await ItemsService.listItems({
+      sort,
+      query: search || undefined,
+      category: category && category !== 'all' ? category : undefined,
+      sellerId: sellerId || undefined,
+      limit,
+      cursor,
+    });
 
-  return Response.json({
-    items: paginatedItems,
-    total: filteredItems.length,
-    hasMore: offset + limit < filteredItems.length,
-  });
+    return new Response(JSON.stringify({
+      items: result.items,
+      next_cursor: result.next_cursor,
+      has_more: result.next_cursor !== null,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Get items error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to get items',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 }
 
-export async function POST(request: Request) {
+// POST to list a new item for the current user
+export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const body = await request.json();
-    
-    // Validate required fields
-    const requiredFields = ['title', 'description', 'price', 'brand', 'size', 'condition', 'category'];
-    for (const field of requiredFields) {
-      if (!body[field]) {
-        return new Response(
-          JSON.stringify({ error: `Missing required field: ${field}` }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const errors = validateItemData(body);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid item', details: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get user from auth header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
-    // Mock item creation - in a real app, this would save to a database
-    const newItem = {
-      id: Date.now().toString(),
-      ...body,
-      seller: 'Current User', // Would come from authentication
-      location: 'User Location', // Would come from user profile
-      createdAt: new Date().toISOString(),
-      isPromoted: false,
-    };
-
-    return Response.json({
-      success: true,
-      item: newItem,
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Insert as the caller so the items RLS policies apply
+    const userClient = createUserClient(token);
+
+    const standing = await AccountStatusService.getStanding(user.id, userClient);
+    if (isRestricted(standing)) {
+      return new Response(JSON.stringify({ error: restrictionMessage(standing) }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const item = await ItemsService.insertItem(userClient, user.id, body as CreateItemData);
+
+    return new Response(JSON.stringify({ success: true, item }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: 'Invalid JSON' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
+    console.error('Create item error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create item',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
   }
-}
\ No newline at end of file
+}
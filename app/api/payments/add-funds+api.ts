@@ -1,6 +1,8 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
 import { supabase } from '../../../lib/supabase';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from '../../../lib/currency';
+import { formatCents } from '../../../lib/fees';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
@@ -8,10 +10,17 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { amount } = await request.json();
+    const { amount, currency = DEFAULT_CURRENCY } = await request.json();
 
-    if (!amount || amount < 100) { // Minimum $1.00
-      return new Response(JSON.stringify({ error: 'Minimum amount is $1.00' }), {
+    if (!isSupportedCurrency(currency)) {
+      return new Response(JSON.stringify({ error: 'Currency is not supported' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!amount || amount < 100) { // Minimum 1.00 in any currency
+      return new Response(JSON.stringify({ error: `Minimum amount is ${formatCents(100, currency)}` }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
@@ -39,7 +48,7 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
     // Create Stripe payment intent for wallet top-up
     const paymentIntent = await stripe.paymentIntents.create({
       amount,
-      currency: 'usd',
+      currency,
       metadata: {
         type: 'wallet_topup',
         user_id: user.id,
@@ -56,7 +65,7 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
         id: paymentIntent.id,
         user_id: user.id,
         amount: amount / 100,
-        currency: 'usd',
+        currency,
         status: paymentIntent.status,
         client_secret: paymentIntent.client_secret,
         type: 'wallet_topup',
@@ -66,7 +75,7 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       id: paymentIntent.id,
       client_secret: paymentIntent.client_secret,
       amount: amount / 100,
-      currency: 'usd',
+      currency,
       status: paymentIntent.status,
     }), {
       status: 200,
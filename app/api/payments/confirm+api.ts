@@ -1,14 +1,19 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
-import { supabase } from '../../../lib/supabase';
+import { supabase, createUserClient, createServiceClient } from '../../../lib/supabase';
+import { FeeBreakdown, fromCents } from '../../../lib/fees';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
 });
 
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',');
+}
+
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { payment_intent_id, item_id } = await request.json();
+    const { payment_intent_id, item_id, item_ids } = await request.json();
 
     if (!payment_intent_id || !item_id) {
       return new Response(JSON.stringify({ error: 'Payment intent ID and item ID are required' }), {
@@ -46,12 +51,47 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
+    // The payment must be the caller's and for the items being confirmed
+    const paidItemIds = paymentIntent.metadata.item_ids
+      ? paymentIntent.metadata.item_ids.split(',')
+      : [paymentIntent.metadata.item_id];
+    if (
+      paymentIntent.metadata.buyer_id !== user.id ||
+      paymentIntent.metadata.item_id !== item_id ||
+      (Array.isArray(item_ids) && item_ids.length > 0 && !sameItems(item_ids, paidItemIds))
+    ) {
+      return new Response(JSON.stringify({ error: 'Payment does not match this purchase' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Act as the buyer, RLS hides their orders and payment intents from the anon key
+    const userClient = createUserClient(token);
+
+    // Confirming the same payment again returns the order it already created
+    const { data: existingOrder } = await userClient
+      .from('orders')
+      .select('id')
+      .eq('payment_intent_id', payment_intent_id)
+      .maybeSingle();
+
+    if (existingOrder) {
+      return new Response(JSON.stringify({
+        success: true,
+        order_id: existingOrder.id,
+        message: 'Payment confirmed and order created',
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Get item details
     const { data: item, error: itemError } = await supabase
       .from('items')
       .select('*')
       .eq('id', item_id)
-      .eq('status', 'active')
       .single();
 
     if (itemError || !item) {
@@ -61,10 +101,77 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    // Calculate platform fee (5%)
-    const totalAmount = paymentIntent.amount / 100;
-    const platformFee = totalAmount * 0.05;
-    const sellerAmount = totalAmount - platformFee;
+    // Charge the fees quoted when the payment was created, at the offer price if there was one
+    const { data: storedIntent } = await userClient
+      .from('payment_intents')
+      .select('user_id, item_id, fee_breakdown, offer_id, bundle_lines')
+      .eq('id', payment_intent_id)
+      .single();
+
+    if (!storedIntent) {
+      return new Response(JSON.stringify({ error: 'No quote found for this payment' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const bundleLines: { item_id: string; list_price: number; price: number }[] | null = storedIntent.bundle_lines ?? null;
+    const itemIds = bundleLines ? bundleLines.map(line => line.item_id) : [item_id];
+
+    // The quote must be for the same buyer and items Stripe was paid for
+    if (storedIntent.user_id !== user.id || storedIntent.item_id !== item_id || !sameItems(itemIds, paidItemIds)) {
+      return new Response(JSON.stringify({ error: 'Payment does not match this purchase' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const feeBreakdown: FeeBreakdown = storedIntent.fee_breakdown;
+    if (paymentIntent.amount !== feeBreakdown.buyer_total_cents || paymentIntent.currency !== item.currency) {
+      return new Response(JSON.stringify({ error: 'Payment amount does not match the quoted total' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Take the items, a buyer who lost one to someone else while paying gets their money back
+    const { data: claimed, error: claimError } = bundleLines
+      ? await userClient.rpc('claim_reserved_items', { p_item_ids: itemIds, p_buyer_id: user.id })
+      : await userClient.rpc('claim_reserved_item', { p_item_id: item_id, p_buyer_id: user.id });
+
+    if (claimError) throw claimError;
+
+    if (!claimed) {
+      await stripe.refunds.create({
+        payment_intent: payment_intent_id,
+        reason: 'duplicate',
+        metadata: {
+          item_id,
+          buyer_id: user.id,
+        },
+      }, {
+        idempotencyKey: `unavailable-${payment_intent_id}`,
+      });
+
+      await userClient
+        .from('payment_intents')
+        .update({ status: 'refunded' })
+        .eq('id', payment_intent_id);
+
+      return new Response(JSON.stringify({
+        error: bundleLines
+          ? 'An item in this bundle was sold to another buyer, your payment has been refunded'
+          : 'This item was sold to another buyer, your payment has been refunded',
+        refunded: true,
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const totalAmount = fromCents(feeBreakdown.buyer_total_cents);
+    const platformFee = fromCents(feeBreakdown.platform_fee_cents);
+    const sellerAmount = fromCents(feeBreakdown.seller_payout_cents);
 
     // Start transaction
     const { data: order, error: orderError } = await supabase
@@ -76,7 +183,14 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
         total_amount: totalAmount,
         platform_fee: platformFee,
         seller_amount: sellerAmount,
+        fee_breakdown: feeBreakdown,
         payment_intent_id,
+        currency: paymentIntent.currency,
+        offer_id: storedIntent.offer_id ?? null,
+        is_bundle: !!bundleLines,
+        bundle_discount: bundleLines
+          ? bundleLines.reduce((sum, line) => sum + line.list_price - line.price, 0)
+          : 0,
         status: 'paid',
       })
       .select()
@@ -86,24 +200,29 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       throw new Error('Failed to create order');
     }
 
-    // Update item status to sold
-    await supabase
-      .from('items')
-      .update({ status: 'sold' })
-      .eq('id', item_id);
-
-    // Add funds to seller's wallet (in escrow)
-    await supabase.rpc('add_wallet_transaction', {
-      p_user_id: item.seller_id,
-      p_type: 'escrow_hold',
-      p_amount: sellerAmount,
-      p_description: `Sale of ${item.title}`,
-      p_reference_id: order.id,
-      p_reference_type: 'order',
+    // Single-item orders get their line from the database, bundles list the lines they were quoted for
+    const serviceClient = createServiceClient();
+    if (bundleLines) {
+      const { error: linesError } = await serviceClient
+        .from('order_items')
+        .insert(bundleLines.map(line => ({ order_id: order.id, ...line })));
+
+      if (linesError) {
+        throw new Error('Failed to record order items');
+      }
+    }
+
+    // Book the payment, the seller's proceeds are held in escrow
+    const { error: ledgerError } = await serviceClient.rpc('post_order_payment', {
+      p_order_id: order.id,
     });
 
+    if (ledgerError) {
+      throw new Error('Failed to record payment');
+    }
+
     // Update payment intent status
-    await supabase
+    await userClient
       .from('payment_intents')
       .update({ status: 'succeeded' })
       .eq('id', payment_intent_id);
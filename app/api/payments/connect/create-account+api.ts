@@ -1,6 +1,7 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
-import { supabase } from '../../../../lib/supabase';
+import { supabase, createServiceClient } from '../../../../lib/supabase';
+import { isSupportedCurrency } from '../../../../lib/currency';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
@@ -84,23 +85,34 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       },
     });
 
-    // Update wallet with Stripe account ID
-    await supabase
+    // Pay out in the account's currency, and price new listings in it too.
+    // Wallets are only written server-side, the ledger keeps their balances
+    const serviceClient = createServiceClient();
+    const currency = isSupportedCurrency(account.default_currency) ? account.default_currency : null;
+
+    const { error: walletError } = await serviceClient
       .from('wallets')
       .upsert({
         user_id: user.id,
         stripe_account_id: account.id,
-        available_balance: 0,
-        pending_balance: 0,
-        total_earned: 0,
-        total_spent: 0,
-      });
+        ...(currency ? { currency } : {}),
+      }, { onConflict: 'user_id' });
+
+    if (walletError) throw walletError;
+
+    if (currency) {
+      await serviceClient
+        .from('profiles')
+        .update({ currency })
+        .eq('id', user.id);
+    }
 
     return new Response(JSON.stringify({
       account_id: account.id,
       details_submitted: account.details_submitted,
       charges_enabled: account.charges_enabled,
       payouts_enabled: account.payouts_enabled,
+      currency: currency || account.default_currency,
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -1,6 +1,9 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
-import { supabase } from '../../../lib/supabase';
+import { supabase, createUserClient } from '../../../lib/supabase';
+import { FeesService, fromCents } from '../../../lib/fees';
+import { BundlesService, toOrderLines } from '../../../lib/bundles';
+import { AccountStatusService, isRestricted, restrictionMessage } from '../../../lib/account-status';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
@@ -8,15 +11,23 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { item_id, amount, currency = 'usd' } = await request.json();
+    const { item_id, item_ids, amount, currency, offer_id } = await request.json();
+    const bundleIds: string[] | null = Array.isArray(item_ids) && item_ids.length > 0 ? item_ids : null;
 
-    if (!item_id || !amount) {
+    if ((!item_id && !bundleIds) || !amount) {
       return new Response(JSON.stringify({ error: 'Item ID and amount are required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    if (bundleIds && offer_id) {
+      return new Response(JSON.stringify({ error: 'Offers cannot be used on bundles' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Get user from auth header
     const authHeader = request.headers.get('Authorization');
     if (!authHeader) {
@@ -36,62 +47,178 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    // Get item details
-    const { data: item, error: itemError } = await supabase
-      .from('items')
-      .select('*, seller:profiles!items_seller_id_fkey(*)')
-      .eq('id', item_id)
-      .eq('status', 'active')
-      .single();
-
-    if (itemError || !item) {
-      return new Response(JSON.stringify({ error: 'Item not found or not available' }), {
-        status: 404,
+    // Suspended and banned users cannot buy
+    const standing = await AccountStatusService.getStanding(user.id, createUserClient(token));
+    if (isRestricted(standing)) {
+      return new Response(JSON.stringify({ error: restrictionMessage(standing) }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // A bundle is priced with the seller's discount, a single item at its price or accepted offer
+    let item: { id: string; price: number; currency: string; category?: string | null; seller_id: string };
+    let bundleLines: ReturnType<typeof toOrderLines> | null = null;
+    if (bundleIds) {
+      try {
+        const { price: bundle } = await BundlesService.quoteBundle(bundleIds);
+        item = {
+          id: bundle.lines[0].item_id,
+          price: fromCents(bundle.price_cents),
+          currency: bundle.currency,
+          category: bundle.category,
+          seller_id: bundle.seller_id,
+        };
+        bundleLines = toOrderLines(bundle);
+      } catch {
+        return new Response(JSON.stringify({ error: 'Some items in the bundle are no longer available' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    } else {
+      // Get item details
+      const { data: singleItem, error: itemError } = await supabase
+        .from('items')
+        .select('*, seller:profiles!items_seller_id_fkey(*)')
+        .eq('id', item_id)
+        .in('status', ['active', 'reserved'])
+        .single();
+
+      if (itemError || !singleItem) {
+        return new Response(JSON.stringify({ error: 'Item not found or not available' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // An accepted offer replaces the asking price
+      let price = singleItem.price;
+      if (offer_id) {
+        const { data: offer, error: offerError } = await createUserClient(token).rpc('get_checkout_offer', {
+          p_offer_id: offer_id,
+          p_buyer_id: user.id,
+          p_item_id: item_id,
+        });
+
+        if (offerError || !offer) {
+          return new Response(JSON.stringify({ error: 'Offer is no longer available' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        price = offer.amount;
+      }
+      item = { ...singleItem, price };
+    }
+
+    // Items are charged in the currency the seller priced them in
+    if (currency && currency !== item.currency) {
+      return new Response(JSON.stringify({
+        error: `Item is priced in ${item.currency.toUpperCase()}`,
+        currency: item.currency,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Verify amount matches the item price plus fees
+    const feeBreakdown = await FeesService.quoteItem(item);
+    if (amount !== feeBreakdown.buyer_total_cents) {
+      return new Response(JSON.stringify({
+        error: 'Amount does not match item price and fees',
+        fee_breakdown: feeBreakdown,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Hold the items so no one else can buy them while this payment is pending
+    const userClient = createUserClient(token);
+    const { data: reservedUntil, error: reserveError } = bundleIds
+      ? await userClient.rpc('reserve_items', { p_item_ids: bundleIds, p_buyer_id: user.id })
+      : await userClient.rpc('reserve_item', { p_item_id: item.id, p_buyer_id: user.id });
+
+    if (reserveError?.message.includes('Item is not available')) {
+      return new Response(JSON.stringify({ error: 'Item is reserved by another buyer' }), {
+        status: 409,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Verify amount matches item price
-    if (amount !== Math.round(item.price * 100)) {
-      return new Response(JSON.stringify({ error: 'Amount does not match item price' }), {
+    // Buying your own item or holding too many at once
+    if (reserveError) {
+      return new Response(JSON.stringify({ error: reserveError.message }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
     // Create Stripe payment intent
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount,
-      currency,
-      metadata: {
-        item_id,
-        buyer_id: user.id,
-        seller_id: item.seller_id,
-      },
-      automatic_payment_methods: {
-        enabled: true,
-      },
-    });
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount,
+        currency: item.currency,
+        metadata: {
+          item_id: item.id,
+          buyer_id: user.id,
+          seller_id: item.seller_id,
+          ...(bundleIds ? { item_ids: bundleIds.join(',') } : {}),
+          ...(offer_id ? { offer_id } : {}),
+        },
+        automatic_payment_methods: {
+          enabled: true,
+        },
+      });
+    } catch (stripeError) {
+      await Promise.all((bundleIds || [item.id]).map(id => userClient.rpc('release_item_reservation', {
+        p_item_id: id,
+        p_buyer_id: user.id,
+      })));
+      throw stripeError;
+    }
 
-    // Store payment intent in database
-    await supabase
+    // Store payment intent in database, RLS only lets the buyer insert their own
+    const { error: insertError } = await userClient
       .from('payment_intents')
       .insert({
         id: paymentIntent.id,
         user_id: user.id,
-        item_id,
+        item_id: item.id,
         amount: amount / 100,
-        currency,
+        currency: item.currency,
         status: paymentIntent.status,
         client_secret: paymentIntent.client_secret,
+        fee_breakdown: feeBreakdown,
+        offer_id: offer_id ?? null,
+        bundle_lines: bundleLines,
       });
 
+    // Without the stored quote the payment could never be confirmed, so don't let it be paid
+    if (insertError) {
+      console.error('Store payment intent error:', insertError);
+      await stripe.paymentIntents.cancel(paymentIntent.id).catch(() => {});
+      await Promise.all((bundleIds || [item.id]).map(id => userClient.rpc('release_item_reservation', {
+        p_item_id: id,
+        p_buyer_id: user.id,
+      })));
+      return new Response(JSON.stringify({ error: 'Failed to create payment intent' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     return new Response(JSON.stringify({
       id: paymentIntent.id,
       client_secret: paymentIntent.client_secret,
       amount: amount / 100,
-      currency,
+      currency: item.currency,
       status: paymentIntent.status,
+      fee_breakdown: feeBreakdown,
+      reserved_until: reservedUntil,
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -1,17 +1,28 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
-import { supabase } from '../../../lib/supabase';
+import { supabase, createUserClient, createServiceClient } from '../../../lib/supabase';
+import { FeesService, fromCents } from '../../../lib/fees';
+import { BundlesService, toOrderLines } from '../../../lib/bundles';
+import { AccountStatusService, isRestricted, restrictionMessage } from '../../../lib/account-status';
 
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { item_id, amount } = await request.json();
+    const { item_id, item_ids, amount, offer_id } = await request.json();
+    const bundleIds: string[] | null = Array.isArray(item_ids) && item_ids.length > 0 ? item_ids : null;
 
-    if (!item_id || !amount) {
+    if ((!item_id && !bundleIds) || !amount) {
       return new Response(JSON.stringify({ error: 'Item ID and amount are required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    if (bundleIds && offer_id) {
+      return new Response(JSON.stringify({ error: 'Offers cannot be used on bundles' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Get user from auth header
     const authHeader = request.headers.get('Authorization');
     if (!authHeader) {
@@ -31,49 +42,111 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    // Get item details
-    const { data: item, error: itemError } = await supabase
-      .from('items')
-      .select('*')
-      .eq('id', item_id)
-      .eq('status', 'active')
-      .single();
-
-    if (itemError || !item) {
-      return new Response(JSON.stringify({ error: 'Item not found or not available' }), {
-        status: 404,
+    // Act as the buyer, RLS hides their wallet from the anon key
+    const userClient = createUserClient(token);
+
+    // Suspended and banned users cannot buy
+    const standing = await AccountStatusService.getStanding(user.id, userClient);
+    if (isRestricted(standing)) {
+      return new Response(JSON.stringify({ error: restrictionMessage(standing) }), {
+        status: 403,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Verify amount matches item price
-    const totalAmount = amount / 100;
-    if (totalAmount !== item.price) {
-      return new Response(JSON.stringify({ error: 'Amount does not match item price' }), {
+    // A bundle is priced with the seller's discount, a single item at its price or accepted offer
+    let item: { id: string; price: number; currency: string; category?: string | null; seller_id: string };
+    let bundleLines: ReturnType<typeof toOrderLines> | null = null;
+    if (bundleIds) {
+      try {
+        const { price: bundle } = await BundlesService.quoteBundle(bundleIds);
+        item = {
+          id: bundle.lines[0].item_id,
+          price: fromCents(bundle.price_cents),
+          currency: bundle.currency,
+          category: bundle.category,
+          seller_id: bundle.seller_id,
+        };
+        bundleLines = toOrderLines(bundle);
+      } catch {
+        return new Response(JSON.stringify({ error: 'Some items in the bundle are no longer available' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    } else {
+      // Get item details
+      const { data: singleItem, error: itemError } = await supabase
+        .from('items')
+        .select('*')
+        .eq('id', item_id)
+        .in('status', ['active', 'reserved'])
+        .single();
+
+      if (itemError || !singleItem) {
+        return new Response(JSON.stringify({ error: 'Item not found or not available' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // An accepted offer replaces the asking price
+      let price = singleItem.price;
+      if (offer_id) {
+        const { data: offer, error: offerError } = await userClient.rpc('get_checkout_offer', {
+          p_offer_id: offer_id,
+          p_buyer_id: user.id,
+          p_item_id: item_id,
+        });
+
+        if (offerError || !offer) {
+          return new Response(JSON.stringify({ error: 'Offer is no longer available' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        price = offer.amount;
+      }
+      item = { ...singleItem, price };
+    }
+
+    // Verify amount matches the item price plus fees
+    const feeBreakdown = await FeesService.quoteItem(item);
+    if (amount !== feeBreakdown.buyer_total_cents) {
+      return new Response(JSON.stringify({
+        error: 'Amount does not match item price and fees',
+        fee_breakdown: feeBreakdown,
+      }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
+    const totalAmount = fromCents(feeBreakdown.buyer_total_cents);
 
-    // Get user wallet
-    const { data: wallet, error: walletError } = await supabase
-      .from('wallets')
-      .select('*')
-      .eq('user_id', user.id)
-      .single();
+    // Use database transaction to ensure consistency, the order is booked at the quoted amounts.
+    // It locks the buyer's balance in the item's currency and refuses the payment if it is short
+    const { data, error } = await createServiceClient().rpc('process_wallet_payment', {
+      p_buyer_id: user.id,
+      p_seller_id: item.seller_id,
+      p_item_id: item.id,
+      p_fee_breakdown: feeBreakdown,
+      p_offer_id: offer_id ?? null,
+      p_bundle_lines: bundleLines,
+    });
 
-    if (walletError || !wallet) {
-      return new Response(JSON.stringify({ error: 'Wallet not found' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    if (error?.message.includes('Insufficient wallet balance')) {
+      // Tell the buyer what their wallet holds in this currency
+      const { data: balance } = await userClient
+        .from('wallet_balances')
+        .select('available_balance')
+        .eq('user_id', user.id)
+        .eq('currency', item.currency)
+        .maybeSingle();
 
-    // Check if user has sufficient balance
-    if (wallet.available_balance < totalAmount) {
-      return new Response(JSON.stringify({ 
+      return new Response(JSON.stringify({
         error: 'Insufficient wallet balance',
-        available_balance: wallet.available_balance,
+        currency: item.currency,
+        available_balance: balance?.available_balance ?? 0,
         required_amount: totalAmount,
       }), {
         status: 400,
@@ -81,19 +154,12 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    // Calculate platform fee (5%)
-    const platformFee = totalAmount * 0.05;
-    const sellerAmount = totalAmount - platformFee;
-
-    // Use database transaction to ensure consistency
-    const { data, error } = await supabase.rpc('process_wallet_payment', {
-      p_buyer_id: user.id,
-      p_seller_id: item.seller_id,
-      p_item_id: item_id,
-      p_total_amount: totalAmount,
-      p_platform_fee: platformFee,
-      p_seller_amount: sellerAmount,
-    });
+    if (error?.message.includes('Item is not available')) {
+      return new Response(JSON.stringify({ error: 'Item is reserved by another buyer' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
     if (error) {
       throw new Error(error.message);
@@ -1,6 +1,7 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
-import { supabase } from '../../../lib/supabase';
+import { supabase, createUserClient } from '../../../lib/supabase';
+import { FeesService, fromCents } from '../../../lib/fees';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
@@ -10,8 +11,8 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
     const { amount } = await request.json();
 
-    if (!amount || amount < 100) { // Minimum $1.00
-      return new Response(JSON.stringify({ error: 'Minimum payout amount is $1.00' }), {
+    if (!Number.isInteger(amount) || amount < 100) { // Minimum 1.00 in any currency
+      return new Response(JSON.stringify({ error: 'Minimum payout amount is 1.00' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
@@ -50,13 +51,25 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    const payoutAmount = amount / 100;
+    const payoutAmount = fromCents(amount);
+
+    // Payouts go to the connected account in its currency, from the balance held in that currency
+    const { data: balance, error: balanceError } = await supabase
+      .from('wallet_balances')
+      .select('available_balance')
+      .eq('user_id', user.id)
+      .eq('currency', wallet.currency)
+      .maybeSingle();
+
+    if (balanceError) throw balanceError;
 
     // Check if user has sufficient balance
-    if (wallet.available_balance < payoutAmount) {
+    const availableBalance = balance?.available_balance ?? 0;
+    if (availableBalance < payoutAmount) {
       return new Response(JSON.stringify({ 
         error: 'Insufficient wallet balance',
-        available_balance: wallet.available_balance,
+        currency: wallet.currency,
+        available_balance: availableBalance,
         requested_amount: payoutAmount,
       }), {
         status: 400,
@@ -75,32 +88,43 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
+    // The payout fee is kept from the transfer, the wallet is debited the full amount
+    const payoutFee = await FeesService.quotePayout(user.id, amount);
+
     try {
       // Create Stripe transfer to connected account
       const transfer = await stripe.transfers.create({
-        amount,
-        currency: 'usd',
+        amount: payoutFee.net_cents,
+        currency: wallet.currency,
         destination: wallet.stripe_account_id,
         metadata: {
           user_id: user.id,
           type: 'payout',
+          fee_cents: payoutFee.fee_cents.toString(),
         },
       });
 
-      // Record the payout transaction
-      await supabase.rpc('add_wallet_transaction', {
-        p_user_id: user.id,
-        p_type: 'payout',
-        p_amount: -payoutAmount,
-        p_description: `Payout to bank account`,
-        p_reference_id: transfer.id,
-        p_reference_type: 'payout',
+      // Debit the wallet, the fee is booked as platform revenue
+      const { error: ledgerError } = await createUserClient(token).rpc('post_payout', {
+        p_transfer_id: transfer.id,
+        p_amount_cents: payoutFee.amount_cents,
+        p_fee_cents: payoutFee.fee_cents,
+        p_currency: wallet.currency,
       });
 
+      if (ledgerError) {
+        console.error('Record payout error:', ledgerError);
+        await stripe.transfers.createReversal(transfer.id);
+        throw new Error('Failed to record payout');
+      }
+
       return new Response(JSON.stringify({
         success: true,
         transfer_id: transfer.id,
         amount: payoutAmount,
+        currency: wallet.currency,
+        fee: fromCents(payoutFee.fee_cents),
+        net_amount: fromCents(payoutFee.net_cents),
         message: 'Payout initiated successfully',
       }), {
         status: 200,
@@ -0,0 +1,153 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server';
+import Stripe from 'stripe';
+import { supabase, createUserClient } from '../../../lib/supabase';
+import { LedgerHealth, LedgerMovement, StripeMovement, reconcileMovements } from '../../../lib/ledger';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+});
+
+const MAX_PAGES = 20;
+
+// Balance transaction types the ledger books
+const BOOKED_TYPES = ['charge', 'payment', 'refund', 'payment_refund', 'transfer', 'transfer_refund'];
+
+// The payment intent, refund or transfer a balance transaction belongs to, as the ledger stores it
+const sourceId = (transaction: Stripe.BalanceTransaction): string | null => {
+  const source = transaction.source as any;
+  if (!source) return null;
+
+  switch (transaction.type) {
+    case 'charge':
+    case 'payment':
+      return typeof source.payment_intent === 'string' ? source.payment_intent : source.payment_intent?.id || null;
+    case 'refund':
+    case 'payment_refund':
+    case 'transfer':
+      return source.id;
+    case 'transfer_refund':
+      return typeof source.transfer === 'string' ? source.transfer : source.transfer?.id || null;
+    default:
+      return null;
+  }
+};
+
+// The amount and currency the ledger booked a balance transaction in: for payments in another currency
+// than the platform settles in, Stripe converts and the ledger keeps the presentment amount
+const bookedAmount = (transaction: Stripe.BalanceTransaction): { amount_cents: number; currency: string } => {
+  const source = transaction.source as any;
+  if (transaction.exchange_rate && source && typeof source.amount === 'number' && source.currency) {
+    return { amount_cents: Math.sign(transaction.amount) * source.amount, currency: source.currency };
+  }
+
+  return { amount_cents: transaction.amount, currency: transaction.currency };
+};
+
+export async function GET(request: ExpoRequest): Promise<ExpoResponse> {
+  try {
+    // Get user from auth header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Act as the caller so the ledger functions check their finance access
+    const userClient = createUserClient(token);
+
+    const { data: canViewFinance } = await userClient.rpc('has_admin_permission', { p_permission: 'finance.view' });
+    if (!canViewFinance) {
+      return new Response(JSON.stringify({ error: 'Only finance admins can view reconciliation' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get URL parameters
+    const url = new URL(request.url);
+    const to = new Date(url.searchParams.get('to') || Date.now());
+    const from = new Date(url.searchParams.get('from') || to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return new Response(JSON.stringify({ error: 'from must be a date before to' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Stripe's side: every balance transaction in the period
+    const stripeMovements: StripeMovement[] = [];
+    let startingAfter: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const transactions = await stripe.balanceTransactions.list({
+        created: {
+          gte: Math.floor(from.getTime() / 1000),
+          lt: Math.floor(to.getTime() / 1000),
+        },
+        limit: 100,
+        expand: ['data.source'],
+        ...(startingAfter ? { starting_after: startingAfter } : {}),
+      });
+
+      transactions.data
+        .filter((transaction: Stripe.BalanceTransaction) => BOOKED_TYPES.includes(transaction.type))
+        .forEach((transaction: Stripe.BalanceTransaction) => {
+          stripeMovements.push({
+            id: transaction.id,
+            type: transaction.type,
+            source_id: sourceId(transaction),
+            ...bookedAmount(transaction),
+            created_at: new Date(transaction.created * 1000).toISOString(),
+          });
+        });
+
+      if (!transactions.has_more || transactions.data.length === 0) break;
+      startingAfter = transactions.data[transactions.data.length - 1].id;
+    }
+
+    // The ledger's side: every movement of the Stripe clearing account in the period
+    const { data: ledgerMovements, error: ledgerError } = await userClient.rpc('get_ledger_stripe_movements', {
+      p_from: from.toISOString(),
+      p_to: to.toISOString(),
+    });
+
+    if (ledgerError) throw ledgerError;
+
+    const { data: health, error: healthError } = await userClient.rpc('get_ledger_health');
+
+    if (healthError) throw healthError;
+
+    return new Response(JSON.stringify({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...reconcileMovements((ledgerMovements || []) as LedgerMovement[], stripeMovements),
+      health: health as LedgerHealth,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to load reconciliation',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
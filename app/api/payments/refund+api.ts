@@ -0,0 +1,189 @@
+import { ExpoRequest, ExpoResponse } from 'expo-router/server';
+import Stripe from 'stripe';
+import { supabase, createUserClient } from '../../../lib/supabase';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20',
+});
+
+// Same statuses record_order_refund() accepts, checked here before any money moves
+const REFUNDABLE_STATUSES = ['paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed'];
+
+export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
+  try {
+    const { order_id, amount, reason, cancel = false } = await request.json();
+
+    if (!order_id) {
+      return new Response(JSON.stringify({ error: 'Order ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+      return new Response(JSON.stringify({ error: 'Refund amount must be a positive number of cents' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get user from auth header
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Authorization required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Act as the caller so RLS limits the order to its buyer, seller or an admin
+    const userClient = createUserClient(token);
+
+    const { data: order, error: orderError } = await userClient
+      .from('orders')
+      .select('id, buyer_id, seller_id, status, total_amount, refunded_amount, payment_intent_id')
+      .eq('id', order_id)
+      .single();
+
+    if (orderError || !order) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Buyers can only cancel, and only before shipping
+    const { data: isRefundAdmin } = await userClient.rpc('has_admin_permission', { p_permission: 'orders.refund' });
+    const canRefund = isRefundAdmin ||
+      order.seller_id === user.id ||
+      (order.buyer_id === user.id && cancel && order.status === 'paid');
+
+    if (!canRefund) {
+      return new Response(JSON.stringify({ error: 'You are not allowed to refund this order' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(order.status)) {
+      return new Response(JSON.stringify({ error: `Order is ${order.status} and can no longer be refunded` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (cancel && order.status !== 'paid') {
+      return new Response(JSON.stringify({ error: 'Order cannot be cancelled at this stage' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Work in cents so partial refunds add up exactly
+    const totalCents = Math.round(order.total_amount * 100);
+    const refundedCents = Math.round((order.refunded_amount || 0) * 100);
+    const refundCents = amount ?? totalCents - refundedCents;
+
+    if (refundCents <= 0 || refundedCents + refundCents > totalCents) {
+      return new Response(JSON.stringify({
+        error: 'Refund exceeds the remaining order amount',
+        remaining_amount: (totalCents - refundedCents) / 100,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The same refund of the same order state always maps to the same key, so
+    // double submits and retries never refund twice. A caller's own key only
+    // applies to this order, it can never match another order's refund
+    const requestKey = request.headers.get('Idempotency-Key');
+    const idempotencyKey = requestKey
+      ? `refund-${order.id}-${requestKey}`
+      : `refund-${order.id}-${refundedCents}-${refundCents}`;
+
+    let stripeRefundId: string | null = null;
+
+    if (order.payment_intent_id) {
+      // Refund against the payment intent the buyer actually paid with
+      const { data: paymentIntent, error: intentError } = await userClient
+        .from('payment_intents')
+        .select('id, status')
+        .eq('id', order.payment_intent_id)
+        .single();
+
+      if (intentError || !paymentIntent || paymentIntent.status !== 'succeeded') {
+        return new Response(JSON.stringify({ error: 'No completed card payment found for this order' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      try {
+        const refund = await stripe.refunds.create({
+          payment_intent: paymentIntent.id,
+          amount: refundCents,
+          reason: 'requested_by_customer',
+          metadata: {
+            order_id: order.id,
+            requested_by: user.id,
+            cancel: String(cancel),
+          },
+        }, {
+          idempotencyKey,
+        });
+
+        stripeRefundId = refund.id;
+      } catch (stripeError: any) {
+        console.error('Stripe refund error:', stripeError);
+        return new Response(JSON.stringify({
+          error: 'Failed to process refund',
+          details: stripeError.message,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // Credit the buyer, reverse the seller's escrow and write order history atomically
+    const { data: result, error: refundError } = await userClient.rpc('record_order_refund', {
+      p_order_id: order.id,
+      p_amount: refundCents / 100,
+      p_idempotency_key: idempotencyKey,
+      p_reason: reason ?? null,
+      p_stripe_refund_id: stripeRefundId,
+      p_cancel: cancel,
+    });
+
+    if (refundError) throw refundError;
+
+    return new Response(JSON.stringify({
+      success: true,
+      ...result,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Refund error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to process refund',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
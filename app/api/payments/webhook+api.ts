@@ -1,12 +1,54 @@
 import { ExpoRequest, ExpoResponse } from 'expo-router/server';
 import Stripe from 'stripe';
-import { supabase } from '../../../lib/supabase';
+import { createServiceClient } from '../../../lib/supabase';
+import { formatMoney, isSupportedCurrency } from '../../../lib/currency';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2024-06-20',
 });
 
-const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
+// Platform events and Connect events are sent to separate endpoints with their own secrets
+const endpointSecrets = [
+  process.env.STRIPE_WEBHOOK_SECRET,
+  process.env.STRIPE_CONNECT_WEBHOOK_SECRET,
+].filter((secret): secret is string => !!secret);
+
+// Webhooks run without a user, so they act as the service role
+const supabase = createServiceClient();
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 250;
+
+// Postgres errors that go away on retry: serialization failure, deadlock, statement timeout, unique race
+const TRANSIENT_PG_CODES = ['40001', '40P01', '57014', '23505'];
+
+// Thrown when an event arrived before the data it refers to, Stripe redelivers it later
+class RetryableError extends Error {}
+
+interface HandlerResult {
+  status: 'processed' | 'ignored';
+  result: string;
+}
+
+interface EventHandler {
+  // Events carrying a full snapshot of their object, an older one must not overwrite a newer one
+  latestWins?: boolean;
+  handle: (event: Stripe.Event) => Promise<HandlerResult>;
+}
+
+const handlers: Record<string, EventHandler> = {
+  'payment_intent.succeeded': { handle: handlePaymentIntentSucceeded },
+  'payment_intent.payment_failed': { handle: handlePaymentIntentFailed },
+  'payment_intent.canceled': { handle: handlePaymentIntentFailed },
+  'transfer.created': { handle: handleTransferCreated },
+  'transfer.failed': { handle: handleTransferFailed },
+  'transfer.reversed': { handle: handleTransferFailed },
+  'charge.refunded': { handle: handleChargeRefunded },
+  'charge.dispute.created': { handle: handleDisputeCreated },
+  'account.updated': { latestWins: true, handle: handleAccountUpdated },
+  'payout.paid': { handle: handlePayoutUpdated },
+  'payout.failed': { handle: handlePayoutUpdated },
+};
 
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
@@ -17,131 +59,399 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       return new Response('Missing stripe-signature header', { status: 400 });
     }
 
-    let event: Stripe.Event;
+    let event: Stripe.Event | null = null;
+    let verifyError: any;
 
-    try {
-      event = stripe.webhooks.constructEvent(body, sig, endpointSecret);
-    } catch (err: any) {
-      console.error('Webhook signature verification failed:', err.message);
-      return new Response(`Webhook Error: ${err.message}`, { status: 400 });
+    for (const secret of endpointSecrets) {
+      try {
+        event = stripe.webhooks.constructEvent(body, sig, secret);
+        break;
+      } catch (err) {
+        verifyError = err;
+      }
     }
 
-    // Handle the event
-    switch (event.type) {
-      case 'payment_intent.succeeded':
-        await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
-        break;
-      
-      case 'payment_intent.payment_failed':
-        await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
-        break;
-      
-      case 'transfer.created':
-        await handleTransferCreated(event.data.object as Stripe.Transfer);
-        break;
-      
-      case 'transfer.failed':
-        await handleTransferFailed(event.data.object as Stripe.Transfer);
-        break;
-      
-      default:
-        console.log(`Unhandled event type ${event.type}`);
+    if (!event) {
+      console.error('Webhook signature verification failed:', verifyError?.message);
+      return new Response(`Webhook Error: ${verifyError?.message || 'No webhook secret configured'}`, { status: 400 });
     }
 
-    return new Response(JSON.stringify({ received: true }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+    const handler = handlers[event.type];
+
+    // Store the event, Stripe redelivers events so each one is only processed once
+    const { data: claim, error: claimError } = await supabase.rpc('begin_stripe_event', {
+      p_event_id: event.id,
+      p_type: event.type,
+      p_object_id: (event.data.object as { id?: string }).id ?? null,
+      p_account_id: event.account ?? null,
+      p_livemode: event.livemode,
+      p_payload: event,
+      p_created_at: new Date(event.created * 1000).toISOString(),
+      p_latest_wins: handler?.latestWins ?? false,
     });
 
+    if (claimError) throw claimError;
+
+    if (!claim.process) {
+      return new Response(JSON.stringify({ received: true, status: claim.status }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!handler) {
+      await finishEvent(event.id, 'ignored', 'No handler');
+      return new Response(JSON.stringify({ received: true, status: 'ignored' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const outcome = await withRetry(() => handler.handle(event!));
+      await finishEvent(event.id, outcome.status, outcome.result);
+
+      return new Response(JSON.stringify({ received: true, status: outcome.status }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      console.error(`Error handling ${event.type}:`, error);
+      await finishEvent(event.id, 'failed', null, errorMessage(error));
+
+      // Transient failures return 500 so Stripe retries, permanent ones are left for an admin
+      if (isTransient(error)) {
+        return new Response('Webhook handler failed', { status: 500 });
+      }
+
+      return new Response(JSON.stringify({ received: true, status: 'failed' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
   } catch (error) {
     console.error('Webhook error:', error);
     return new Response('Webhook handler failed', { status: 500 });
   }
 }
 
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
-  try {
-    const { metadata } = paymentIntent;
-    
-    if (metadata.type === 'wallet_topup') {
-      // Add funds to user wallet
-      await supabase.rpc('add_wallet_transaction', {
-        p_user_id: metadata.user_id,
-        p_type: 'credit',
-        p_amount: paymentIntent.amount / 100,
-        p_description: 'Wallet top-up',
-        p_reference_id: paymentIntent.id,
-        p_reference_type: 'payment',
-      });
+async function finishEvent(eventId: string, status: 'processed' | 'ignored' | 'failed', result: string | null, error?: string) {
+  const { error: finishError } = await supabase.rpc('finish_stripe_event', {
+    p_event_id: eventId,
+    p_status: status,
+    p_result: result,
+    p_error: error ?? null,
+  });
+
+  if (finishError) throw finishError;
+}
+
+function errorMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as any).message);
+  return 'Unknown error';
+}
+
+function isTransient(error: any) {
+  if (error instanceof RetryableError) return true;
+
+  // Network failures reaching Stripe or Supabase
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return true;
+
+  if (error instanceof Stripe.errors.StripeConnectionError ||
+      error instanceof Stripe.errors.StripeAPIError ||
+      error instanceof Stripe.errors.StripeRateLimitError) {
+    return true;
+  }
+
+  return TRANSIENT_PG_CODES.includes(error?.code);
+}
+
+// Retry transient failures with exponential backoff before giving up on this delivery
+async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isTransient(error)) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
     }
+  }
+}
 
-    // Update payment intent status
-    await supabase
-      .from('payment_intents')
-      .update({ status: 'succeeded' })
-      .eq('id', paymentIntent.id);
+async function handlePaymentIntentSucceeded(event: Stripe.Event): Promise<HandlerResult> {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
 
-  } catch (error) {
-    console.error('Error handling payment_intent.succeeded:', error);
+  if (paymentIntent.metadata.type === 'wallet_topup') {
+    // Credit the wallet from the platform's Stripe balance
+    const { error } = await supabase.rpc('post_wallet_topup', {
+      p_payment_intent_id: paymentIntent.id,
+      p_amount_cents: paymentIntent.amount,
+    });
+
+    if (error) throw error;
   }
+
+  // Update payment intent status
+  const { error } = await supabase
+    .from('payment_intents')
+    .update({ status: 'succeeded' })
+    .eq('id', paymentIntent.id);
+
+  if (error) throw error;
+
+  return {
+    status: 'processed',
+    result: paymentIntent.metadata.type === 'wallet_topup' ? 'Wallet top-up credited' : 'Payment marked succeeded',
+  };
 }
 
-async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
-  try {
-    // Update payment intent status
-    await supabase
-      .from('payment_intents')
-      .update({ status: 'failed' })
-      .eq('id', paymentIntent.id);
+async function handlePaymentIntentFailed(event: Stripe.Event): Promise<HandlerResult> {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+  const status = event.type === 'payment_intent.canceled' ? 'canceled' : 'failed';
 
-  } catch (error) {
-    console.error('Error handling payment_intent.payment_failed:', error);
+  // Update payment intent status
+  const { error } = await supabase
+    .from('payment_intents')
+    .update({ status })
+    .eq('id', paymentIntent.id);
+
+  if (error) throw error;
+
+  // Put the items back on sale if the buyer was still holding them
+  const { item_id, item_ids, buyer_id } = paymentIntent.metadata;
+  const heldItemIds = item_ids ? item_ids.split(',') : item_id ? [item_id] : [];
+  for (const heldItemId of buyer_id ? heldItemIds : []) {
+    const { error: releaseError } = await supabase.rpc('release_item_reservation', {
+      p_item_id: heldItemId,
+      p_buyer_id: buyer_id,
+    });
+
+    if (releaseError) throw releaseError;
   }
+
+  return { status: 'processed', result: `Payment marked ${status}` };
 }
 
-async function handleTransferCreated(transfer: Stripe.Transfer) {
-  try {
-    // Update wallet transaction status to completed
-    await supabase
-      .from('wallet_transactions')
-      .update({ status: 'completed' })
-      .eq('reference_id', transfer.id)
-      .eq('reference_type', 'payout');
+async function handleTransferCreated(event: Stripe.Event): Promise<HandlerResult> {
+  const transfer = event.data.object as Stripe.Transfer;
 
-  } catch (error) {
-    console.error('Error handling transfer.created:', error);
+  // Move the payout out of transit and mark it completed
+  const { error } = await supabase.rpc('settle_payout', {
+    p_transfer_id: transfer.id,
+  });
+
+  // The payout route books the payout right after creating the transfer
+  if (error?.message === 'Payout not found') {
+    throw new RetryableError('Payout not recorded yet');
+  }
+  if (error) throw error;
+
+  return { status: 'processed', result: 'Payout settled' };
+}
+
+async function handleTransferFailed(event: Stripe.Event): Promise<HandlerResult> {
+  const transfer = event.data.object as Stripe.Transfer;
+
+  // Mark the payout failed and return the full amount, fee included, to the wallet
+  const { error } = await supabase.rpc('fail_payout', {
+    p_transfer_id: transfer.id,
+  });
+
+  // The payout route reverses transfers it could not book, there is nothing to return
+  if (error?.message === 'Payout not found') {
+    return { status: 'ignored', result: 'No payout booked for this transfer' };
   }
+  if (error) throw error;
+
+  return { status: 'processed', result: 'Payout returned to wallet' };
 }
 
-async function handleTransferFailed(transfer: Stripe.Transfer) {
-  try {
-    // Update wallet transaction status to failed and refund the amount
-    const { data: transaction } = await supabase
-      .from('wallet_transactions')
-      .select('*')
-      .eq('reference_id', transfer.id)
-      .eq('reference_type', 'payout')
-      .single();
-
-    if (transaction) {
-      // Mark original transaction as failed
-      await supabase
-        .from('wallet_transactions')
-        .update({ status: 'failed' })
-        .eq('id', transaction.id);
-
-      // Refund the amount back to wallet
-      await supabase.rpc('add_wallet_transaction', {
-        p_user_id: transaction.user_id,
-        p_type: 'credit',
-        p_amount: Math.abs(transaction.amount),
-        p_description: 'Payout failed - refund',
-        p_reference_id: transfer.id,
-        p_reference_type: 'refund',
-      });
+async function handleChargeRefunded(event: Stripe.Event): Promise<HandlerResult> {
+  const charge = event.data.object as Stripe.Charge;
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return { status: 'ignored', result: 'Charge has no payment intent' };
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (orderError) throw orderError;
+
+  if (!order) {
+    return { status: 'ignored', result: 'No order for this charge' };
+  }
+
+  // Book every refund on the charge, refunds the app already recorded are returned as they are
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  let recorded = 0;
+
+  for (const refund of refunds.data) {
+    if (refund.status === 'failed' || refund.status === 'canceled') continue;
+
+    // A dispute refund settles its dispute, unless the app already did
+    if (refund.metadata?.dispute_id && await settlePendingDispute(refund.metadata.dispute_id, refund.id)) {
+      recorded++;
+      continue;
     }
 
-  } catch (error) {
-    console.error('Error handling transfer.failed:', error);
+    const { error } = await supabase.rpc('record_order_refund', {
+      p_order_id: order.id,
+      p_amount: refund.amount / 100,
+      p_idempotency_key: `stripe-${refund.id}`,
+      p_reason: refund.reason ? refund.reason.replace(/_/g, ' ') : 'Refunded in Stripe',
+      p_stripe_refund_id: refund.id,
+      p_cancel: false,
+    });
+
+    if (error) throw error;
+    recorded++;
+  }
+
+  return { status: 'processed', result: `${recorded} refund(s) recorded` };
+}
+
+// Settle a dispute whose refund went through before it was resolved, returns whether it did
+async function settlePendingDispute(disputeId: string, refundId: string): Promise<boolean> {
+  const { data: dispute, error: disputeError } = await supabase
+    .from('disputes')
+    .select('status, pending_outcome, pending_resolution, pending_refund_amount')
+    .eq('id', disputeId)
+    .maybeSingle();
+
+  if (disputeError) throw disputeError;
+
+  if (!dispute?.pending_outcome || dispute.status === 'resolved' || dispute.status === 'closed') {
+    return false;
+  }
+
+  const { error } = await supabase.rpc('resolve_dispute', {
+    p_dispute_id: disputeId,
+    p_outcome: dispute.pending_outcome,
+    p_resolution: dispute.pending_resolution,
+    p_refund_amount: dispute.pending_refund_amount,
+    p_stripe_refund_id: refundId,
+  });
+
+  if (error) throw error;
+  return true;
+}
+
+async function handleDisputeCreated(event: Stripe.Event): Promise<HandlerResult> {
+  const dispute = event.data.object as Stripe.Dispute;
+  const paymentIntentId = typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return { status: 'ignored', result: 'Dispute has no payment intent' };
   }
-}
\ No newline at end of file
+
+  // Hold the seller's escrow and open a dispute for the admins
+  const { data: disputeId, error } = await supabase.rpc('open_chargeback_dispute', {
+    p_payment_intent_id: paymentIntentId,
+    p_stripe_dispute_id: dispute.id,
+    p_amount_cents: dispute.amount,
+    p_reason: dispute.reason,
+  });
+
+  if (error) throw error;
+
+  if (!disputeId) {
+    return { status: 'ignored', result: 'No order for this payment' };
+  }
+
+  return { status: 'processed', result: `Dispute ${disputeId} opened` };
+}
+
+async function handleAccountUpdated(event: Stripe.Event): Promise<HandlerResult> {
+  const account = event.data.object as Stripe.Account;
+
+  const { data: wallet, error: walletError } = await supabase
+    .from('wallets')
+    .select('user_id, stripe_payouts_enabled')
+    .eq('stripe_account_id', account.id)
+    .maybeSingle();
+
+  if (walletError) throw walletError;
+
+  if (!wallet) {
+    return { status: 'ignored', result: 'No wallet for this account' };
+  }
+
+  // Keep the Connect onboarding status in sync
+  const { error } = await supabase
+    .from('wallets')
+    .update({
+      stripe_charges_enabled: account.charges_enabled,
+      stripe_payouts_enabled: account.payouts_enabled,
+      stripe_details_submitted: account.details_submitted,
+      // Payouts follow the account's currency once Stripe knows it
+      ...(isSupportedCurrency(account.default_currency) ? { currency: account.default_currency } : {}),
+    })
+    .eq('stripe_account_id', account.id);
+
+  if (error) throw error;
+
+  if (account.payouts_enabled && !wallet.stripe_payouts_enabled) {
+    await notify(wallet.user_id, 'Payouts enabled', 'Your bank account is verified, you can now withdraw your earnings.', {
+      account_id: account.id,
+    });
+  }
+
+  return {
+    status: 'processed',
+    result: account.payouts_enabled ? 'Payouts enabled' : account.details_submitted ? 'Verification pending' : 'Onboarding incomplete',
+  };
+}
+
+async function handlePayoutUpdated(event: Stripe.Event): Promise<HandlerResult> {
+  const payout = event.data.object as Stripe.Payout;
+  const paid = event.type === 'payout.paid';
+
+  // Payouts from the platform's own balance are only recorded
+  if (!event.account) {
+    return { status: 'processed', result: paid ? 'Platform payout paid' : 'Platform payout failed' };
+  }
+
+  const { data: wallet, error } = await supabase
+    .from('wallets')
+    .select('user_id')
+    .eq('stripe_account_id', event.account)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!wallet) {
+    return { status: 'ignored', result: 'No wallet for this account' };
+  }
+
+  const amount = formatMoney(payout.amount / 100, payout.currency);
+
+  await notify(
+    wallet.user_id,
+    paid ? 'Payout arrived' : 'Payout failed',
+    paid
+      ? `${amount} has been paid to your bank account.`
+      : `Your bank could not accept a payout of ${amount}${payout.failure_message ? `: ${payout.failure_message}` : '.'} Please check your bank details.`,
+    { payout_id: payout.id, account_id: event.account },
+  );
+
+  return { status: 'processed', result: paid ? 'Payout paid' : `Payout failed: ${payout.failure_code || 'unknown'}` };
+}
+
+async function notify(userId: string, title: string, message: string, data: Record<string, unknown>) {
+  const { error } = await supabase.rpc('create_notification', {
+    p_user_id: userId,
+    p_type: 'payment',
+    p_title: title,
+    p_message: message,
+    p_data: data,
+  });
+
+  if (error) throw error;
+}
@@ -107,7 +107,7 @@ export async function GET(request: ExpoRequest): Promise<ExpoResponse> {
 // POST to create a new review
 export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
   try {
-    const { order_id, reviewee_id, rating, content, item_accuracy, communication, shipping_speed } = await request.json();
+    const { order_id, order_item_id, reviewee_id, rating, content, item_accuracy, communication, shipping_speed } = await request.json();
     
     // Validate required fields
     if (!order_id || !reviewee_id || !rating) {
@@ -184,16 +184,29 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       });
     }
 
-    // Check if a review already exists for this order by this user
-    const { data: existingReview } = await supabase
+    // Only buyers review the items of a bundle one by one
+    if (order_item_id && !isBuyer) {
+      return new Response(JSON.stringify({ error: 'Only the buyer can review individual items' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Check if a review already exists for this order, or this item of a bundle, by this user
+    let existingQuery = supabase
       .from('reviews')
       .select('id')
       .eq('order_id', order_id)
-      .eq('reviewer_id', user.id)
-      .maybeSingle();
+      .eq('reviewer_id', user.id);
+
+    existingQuery = order_item_id
+      ? existingQuery.eq('order_item_id', order_item_id)
+      : existingQuery.is('order_item_id', null);
+
+    const { data: existingReview } = await existingQuery.maybeSingle();
 
     if (existingReview) {
-      return new Response(JSON.stringify({ error: 'You have already reviewed this order' }), {
+      return new Response(JSON.stringify({ error: order_item_id ? 'You have already reviewed this item' : 'You have already reviewed this order' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
@@ -204,6 +217,7 @@ export async function POST(request: ExpoRequest): Promise<ExpoResponse> {
       .from('reviews')
       .insert({
         order_id,
+        order_item_id: order_item_id ?? null,
         reviewer_id: user.id,
         reviewee_id,
         rating,
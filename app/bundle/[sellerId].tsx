@@ -0,0 +1,365 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router, useFocusEffect } from 'expo-router';
+import { ArrowLeft, ShoppingBag, Trash2 } from 'lucide-react-native';
+import { BundleCart, BundlesService, MIN_BUNDLE_ITEMS } from '~/lib/bundles';
+import { formatCents, fromCents } from '~/lib/fees';
+import { StripeService } from '~/lib/stripe';
+import { PaymentModal } from '~/components/PaymentModal';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+export default function BundleScreen() {
+  const { sellerId } = useLocalSearchParams();
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [bundle, setBundle] = useState<BundleCart | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [userWallet, setUserWallet] = useState<any>(null);
+
+  const loadBundle = async () => {
+    try {
+      const carts = await BundlesService.getCart();
+      setBundle(carts.find(cart => cart.seller.id === sellerId) || null);
+    } catch (error) {
+      console.error('Load bundle error:', error);
+      Alert.alert('Error', 'Failed to load your bundle');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBundle();
+    }, [sellerId])
+  );
+
+  const removeItem = async (itemId: string) => {
+    try {
+      await BundlesService.removeFromCart([itemId]);
+      await loadBundle();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to remove item from bundle');
+    }
+  };
+
+  const openCheckout = async () => {
+    try {
+      setUserWallet(await StripeService.getUserWallet());
+    } catch (error) {
+      console.error('Load wallet error:', error);
+    }
+    setShowPaymentModal(true);
+  };
+
+  const handlePaymentSuccess = async (orderId: string) => {
+    setShowPaymentModal(false);
+    if (bundle) {
+      await BundlesService.removeFromCart(bundle.items.map(item => item.id)).catch(() => {});
+    }
+    router.replace(`/order/${orderId}`);
+  };
+
+  const styles = createStyles(colors);
+
+  if (loading) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ThemedView>
+    );
+  }
+
+  const minItems = Math.max(bundle?.seller.bundle_min_items || MIN_BUNDLE_ITEMS, MIN_BUNDLE_ITEMS);
+  const missingItems = bundle ? minItems - bundle.items.length : 0;
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Bundle</ThemedText>
+          <View style={styles.headerRight} />
+        </View>
+
+        {!bundle ? (
+          <View style={[styles.centered, styles.emptyState]}>
+            <ShoppingBag size={64} color={colors.border} />
+            <ThemedText style={styles.emptyTitle}>Your bundle is empty</ThemedText>
+            <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+              Add items from this seller's closet to buy them together
+            </ThemedText>
+          </View>
+        ) : (
+          <>
+            <ScrollView contentContainerStyle={styles.content}>
+              <TouchableOpacity
+                style={styles.sellerRow}
+                onPress={() => router.push(`/user/${bundle.seller.id}`)}
+              >
+                <ThemedText style={styles.sellerName}>{bundle.seller.nickname}</ThemedText>
+                {bundle.seller.bundle_discount_percent > 0 && (
+                  <ThemedText style={[styles.sellerDiscount, { color: colors.primary }]}>
+                    {Number(bundle.seller.bundle_discount_percent)}% off {minItems}+ items
+                  </ThemedText>
+                )}
+              </TouchableOpacity>
+
+              {bundle.items.map((item, index) => {
+                const line = bundle.price.lines[index];
+
+                return (
+                  <View key={item.id} style={[styles.lineItem, { borderBottomColor: colors.border }]}>
+                    <TouchableOpacity onPress={() => router.push(`/item/${item.id}`)}>
+                      <Image
+                        source={{ uri: item.images?.[0] || 'https://via.placeholder.com/100' }}
+                        style={styles.lineImage}
+                      />
+                    </TouchableOpacity>
+                    <View style={styles.lineInfo}>
+                      <ThemedText style={styles.lineTitle} numberOfLines={2}>{item.title}</ThemedText>
+                      <ThemedText style={[styles.lineMeta, { color: colors.textSecondary }]}>
+                        {item.brand} • {item.size}
+                      </ThemedText>
+                      <View style={styles.linePrices}>
+                        <ThemedText style={[styles.linePrice, { color: colors.primary }]}>
+                          {formatCents(line.price_cents, bundle.price.currency)}
+                        </ThemedText>
+                        {line.price_cents < line.list_price_cents && (
+                          <ThemedText style={[styles.lineListPrice, { color: colors.textSecondary }]}>
+                            {formatCents(line.list_price_cents, bundle.price.currency)}
+                          </ThemedText>
+                        )}
+                      </View>
+                    </View>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => removeItem(item.id)}>
+                      <Trash2 size={20} color={colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+
+              <View style={[styles.summary, { backgroundColor: colors.surface }]}>
+                <View style={styles.summaryRow}>
+                  <ThemedText style={styles.summaryLabel}>Subtotal</ThemedText>
+                  <ThemedText style={styles.summaryValue}>{formatCents(bundle.price.subtotal_cents, bundle.price.currency)}</ThemedText>
+                </View>
+                {bundle.price.discount_cents > 0 && (
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>
+                      Bundle discount ({bundle.price.discount_percent}%)
+                    </ThemedText>
+                    <ThemedText style={[styles.summaryValue, { color: colors.success }]}>
+                      -{formatCents(bundle.price.discount_cents, bundle.price.currency)}
+                    </ThemedText>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <ThemedText style={styles.summaryTotalLabel}>Items total</ThemedText>
+                  <ThemedText style={styles.summaryTotalValue}>{formatCents(bundle.price.price_cents, bundle.price.currency)}</ThemedText>
+                </View>
+                {bundle.seller.bundle_discount_percent > 0 && missingItems > 0 && (
+                  <ThemedText style={[styles.summaryHint, { color: colors.textSecondary }]}>
+                    Add {missingItems} more {missingItems === 1 ? 'item' : 'items'} to get {Number(bundle.seller.bundle_discount_percent)}% off
+                  </ThemedText>
+                )}
+                <ThemedText style={[styles.summaryHint, { color: colors.textSecondary }]}>
+                  Ships as one order with a single delivery
+                </ThemedText>
+              </View>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.checkoutButton, { backgroundColor: colors.primary }]}
+              onPress={openCheckout}
+            >
+              <ThemedText style={styles.checkoutButtonText}>
+                Buy {bundle.items.length} {bundle.items.length === 1 ? 'item' : 'items'} for {formatCents(bundle.price.price_cents, bundle.price.currency)}
+              </ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </SafeAreaView>
+
+      {bundle && (
+        <PaymentModal
+          visible={showPaymentModal}
+          onClose={() => setShowPaymentModal(false)}
+          item={{
+            id: bundle.items[0].id,
+            title: `${bundle.items.length} items from ${bundle.seller.nickname}`,
+            price: fromCents(bundle.price.price_cents),
+            currency: bundle.price.currency,
+            category: bundle.price.category || undefined,
+            seller_id: bundle.seller.id,
+          }}
+          userWallet={userWallet}
+          bundle={{
+            item_ids: bundle.items.map(item => item.id),
+            subtotal: fromCents(bundle.price.subtotal_cents),
+          }}
+          onPaymentSuccess={handlePaymentSuccess}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerRight: {
+    width: 40,
+  },
+  emptyState: {
+    paddingHorizontal: 40,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  sellerRow: {
+    marginBottom: 16,
+  },
+  sellerName: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+  },
+  sellerDiscount: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginTop: 4,
+  },
+  lineItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  lineImage: {
+    width: 64,
+    height: 80,
+    borderRadius: 8,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 4,
+  },
+  lineMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 4,
+  },
+  linePrices: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  linePrice: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+  },
+  lineListPrice: {
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    textDecorationLine: 'line-through',
+  },
+  removeButton: {
+    padding: 8,
+  },
+  summary: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  summaryTotalLabel: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  summaryTotalValue: {
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+  },
+  summaryHint: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
+  checkoutButton: {
+    margin: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  checkoutButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Save } from 'lucide-react-native';
+import { BundlesService, MAX_BUNDLE_DISCOUNT_PERCENT, MIN_BUNDLE_ITEMS } from '~/lib/bundles';
+import { useAuth } from '~/contexts/AuthContext';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+export default function BundleSettingsScreen() {
+  const { user } = useAuth();
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [discountPercent, setDiscountPercent] = useState('0');
+  const [minItems, setMinItems] = useState(String(MIN_BUNDLE_ITEMS));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    BundlesService.getSettings(user.id)
+      .then(settings => {
+        setDiscountPercent(String(settings.bundle_discount_percent));
+        setMinItems(String(settings.bundle_min_items));
+      })
+      .catch(() => Alert.alert('Error', 'Failed to load bundle settings'))
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  const saveSettings = async () => {
+    const percent = parseFloat(discountPercent);
+    const items = parseInt(minItems, 10);
+
+    if (isNaN(percent) || percent < 0 || percent > MAX_BUNDLE_DISCOUNT_PERCENT) {
+      Alert.alert('Invalid discount', `Enter a discount between 0 and ${MAX_BUNDLE_DISCOUNT_PERCENT}%`);
+      return;
+    }
+
+    if (isNaN(items) || items < MIN_BUNDLE_ITEMS) {
+      Alert.alert('Invalid minimum', `A bundle needs at least ${MIN_BUNDLE_ITEMS} items`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await BundlesService.updateSettings({
+        bundle_discount_percent: Math.round(percent * 100) / 100,
+        bundle_min_items: items,
+      });
+      Alert.alert('Saved', 'Your bundle discount has been updated');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save bundle settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Bundle Discount</ThemedText>
+          <View style={styles.headerRight} />
+        </View>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <View style={styles.content}>
+            <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+              Buyers who bundle several of your items into one order get this discount.
+              Bundles ship together, so you only send one parcel.
+            </ThemedText>
+
+            <ThemedText style={styles.label}>Discount (%)</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+              value={discountPercent}
+              onChangeText={setDiscountPercent}
+              keyboardType="decimal-pad"
+              placeholder="0"
+              placeholderTextColor={colors.textSecondary}
+            />
+
+            <ThemedText style={styles.label}>Minimum items</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+              value={minItems}
+              onChangeText={setMinItems}
+              keyboardType="number-pad"
+              placeholder={String(MIN_BUNDLE_ITEMS)}
+              placeholderTextColor={colors.textSecondary}
+            />
+
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: colors.primary }, saving && styles.saveButtonDisabled]}
+              onPress={saveSettings}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Save size={20} color="#FFFFFF" />
+                  <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerRight: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 20,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
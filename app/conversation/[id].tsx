@@ -13,9 +13,15 @@ import {
   Alert,
 } from 'react-native';
 import { ArrowLeft, Send, DollarSign, Image as ImageIcon } from '@expo/vector-icons';
+import { Flag } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { MessagingService, Message, Conversation } from '../../lib/messaging';
+import { MessagingService, Message, Conversation, Offer } from '../../lib/messaging';
+import { StripeService } from '../../lib/stripe';
 import { useAuth } from '../../contexts/AuthContext';
+import { PaymentModal } from '../../components/PaymentModal';
+import { ReportModal } from '../../components/ReportModal';
+import { ReportTargetType } from '../../lib/reports';
+import { currencySymbol, formatMoney } from '../../lib/currency';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import * as ImagePicker from 'expo-image-picker';
 
@@ -29,13 +35,19 @@ export default function ConversationScreen() {
   const [sending, setSending] = useState(false);
   const [showOfferInput, setShowOfferInput] = useState(false);
   const [offerAmount, setOfferAmount] = useState('');
+  const [counterOfferId, setCounterOfferId] = useState<string | null>(null);
+  const [offers, setOffers] = useState<Record<string, Offer>>({});
+  const [checkoutOffer, setCheckoutOffer] = useState<Offer | null>(null);
+  const [userWallet, setUserWallet] = useState<any>(null);
   const [realtimeChannel, setRealtimeChannel] = useState<RealtimeChannel | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ type: ReportTargetType; id: string } | null>(null);
   const flatListRef = useRef<FlatList>(null);
 
   useEffect(() => {
     if (id) {
       loadConversation();
       loadMessages();
+      loadOffers();
       markMessagesAsRead();
 
       // Subscribe to real-time updates
@@ -74,6 +86,15 @@ export default function ConversationScreen() {
     }
   };
 
+  const loadOffers = async () => {
+    try {
+      const data = await MessagingService.getOffers(id as string);
+      setOffers(Object.fromEntries(data.map(offer => [offer.id, offer])));
+    } catch (error) {
+      console.error('Load offers error:', error);
+    }
+  };
+
   const markMessagesAsRead = async () => {
     try {
       await MessagingService.markMessagesAsRead(id as string);
@@ -86,6 +107,10 @@ export default function ConversationScreen() {
     console.log('Message update:', payload);
     if (payload.eventType === 'INSERT') {
       setMessages(prev => [...prev, payload.new]);
+      // Offer messages change the status of earlier offers too
+      if (payload.new.offer_id) {
+        loadOffers();
+      }
       // Auto-scroll to bottom
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
@@ -107,7 +132,7 @@ export default function ConversationScreen() {
       setNewMessage('');
     } catch (error) {
       console.error('Send message error:', error);
-      Alert.alert('Error', 'Failed to send message');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send message');
     } finally {
       setSending(false);
     }
@@ -122,32 +147,43 @@ export default function ConversationScreen() {
 
     try {
       setSending(true);
-      await MessagingService.sendOffer(id as string, amount);
+      if (counterOfferId) {
+        await MessagingService.counterOffer(counterOfferId, amount);
+      } else {
+        await MessagingService.sendOffer(id as string, amount);
+      }
       setOfferAmount('');
+      setCounterOfferId(null);
       setShowOfferInput(false);
     } catch (error) {
       console.error('Send offer error:', error);
-      Alert.alert('Error', 'Failed to send offer');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send offer');
     } finally {
       setSending(false);
     }
   };
 
-  const acceptOffer = async (messageId: string) => {
+  const startCounterOffer = (offerId: string) => {
+    setCounterOfferId(offerId);
+    setOfferAmount('');
+    setShowOfferInput(true);
+  };
+
+  const acceptOffer = async (offerId: string) => {
     Alert.alert(
       'Accept Offer',
-      'Are you sure you want to accept this offer?',
+      'The item is reserved for the buyer at this price for 24 hours. Accept this offer?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Accept',
           onPress: async () => {
             try {
-              await MessagingService.acceptOffer(messageId);
-              Alert.alert('Success', 'Offer accepted! Proceeding to payment.');
+              await MessagingService.acceptOffer(offerId);
+              await loadOffers();
             } catch (error) {
               console.error('Accept offer error:', error);
-              Alert.alert('Error', 'Failed to accept offer');
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to accept offer');
             }
           },
         },
@@ -155,6 +191,31 @@ export default function ConversationScreen() {
     );
   };
 
+  const declineOffer = async (offerId: string) => {
+    try {
+      await MessagingService.declineOffer(offerId);
+      await loadOffers();
+    } catch (error) {
+      console.error('Decline offer error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to decline offer');
+    }
+  };
+
+  const openCheckout = async (offer: Offer) => {
+    try {
+      setUserWallet(await StripeService.getUserWallet());
+    } catch (error) {
+      console.error('Load wallet error:', error);
+    }
+    setCheckoutOffer(offer);
+  };
+
+  const handlePaymentSuccess = (orderId: string) => {
+    setCheckoutOffer(null);
+    loadOffers();
+    router.push(`/order/${orderId}`);
+  };
+
   const pickImage = async () => {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
@@ -190,10 +251,69 @@ export default function ConversationScreen() {
     return conversation.buyer_id === user?.id ? conversation.seller : conversation.buyer;
   };
 
+  const handleMessageLongPress = (message: Message) => {
+    Alert.alert('Message', undefined, [
+      { text: 'Report Message', style: 'destructive', onPress: () => setReportTarget({ type: 'message', id: message.id }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const getOfferStatusLabel = (offer: Offer) => {
+    const expired = offer.status === 'expired'
+      || (offer.status === 'pending' && new Date(offer.expires_at) <= new Date())
+      || (offer.status === 'accepted' && !offer.order_id && !!offer.reserved_until && new Date(offer.reserved_until) <= new Date());
+
+    if (expired) return 'Expired';
+    if (offer.order_id) return 'Purchased';
+
+    switch (offer.status) {
+      case 'pending': return 'Pending';
+      case 'accepted': return 'Accepted';
+      case 'declined': return 'Declined';
+      case 'countered': return 'Countered';
+      default: return offer.status;
+    }
+  };
+
+  const renderOfferActions = (offer: Offer) => {
+    const label = getOfferStatusLabel(offer);
+
+    // The other party answers a pending offer, only the seller can counter
+    if (label === 'Pending' && offer.created_by !== user?.id) {
+      return (
+        <View style={styles.offerActions}>
+          <TouchableOpacity style={styles.acceptOfferButton} onPress={() => acceptOffer(offer.id)}>
+            <Text style={styles.acceptOfferText}>Accept</Text>
+          </TouchableOpacity>
+          {offer.seller_id === user?.id && (
+            <TouchableOpacity style={styles.counterOfferButton} onPress={() => startCounterOffer(offer.id)}>
+              <Text style={styles.counterOfferText}>Counter</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.declineOfferButton} onPress={() => declineOffer(offer.id)}>
+            <Text style={styles.declineOfferText}>Decline</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    // The buyer checks out an accepted offer while the item is reserved
+    if (label === 'Accepted' && offer.buyer_id === user?.id) {
+      return (
+        <TouchableOpacity style={styles.acceptOfferButton} onPress={() => openCheckout(offer)}>
+          <Text style={styles.acceptOfferText}>Buy for {formatMoney(offer.amount, conversation?.item?.currency)}</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return null;
+  };
+
   const renderMessage = ({ item, index }: { item: Message; index: number }) => {
     const isMyMessage = item.sender_id === user?.id;
     const showAvatar = !isMyMessage && (index === 0 || messages[index - 1]?.sender_id !== item.sender_id);
     const otherUser = getOtherUser();
+    const offer = item.offer_id ? offers[item.offer_id] : undefined;
 
     return (
       <View style={[styles.messageContainer, isMyMessage && styles.myMessageContainer]}>
@@ -211,28 +331,34 @@ export default function ConversationScreen() {
           </View>
         )}
 
-        <View style={[
-          styles.messageBubble,
-          isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble,
-          !showAvatar && !isMyMessage && styles.messageWithoutAvatar,
-        ]}>
-          {item.message_type === 'image' ? (
+        <TouchableOpacity
+          activeOpacity={1}
+          delayLongPress={400}
+          onLongPress={() => handleMessageLongPress(item)}
+          disabled={isMyMessage || item.message_type === 'system' || item.is_hidden}
+          style={[
+            styles.messageBubble,
+            isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble,
+            !showAvatar && !isMyMessage && styles.messageWithoutAvatar,
+          ]}
+        >
+          {item.is_hidden ? (
+            <Text style={styles.systemMessage}>This message was hidden after it was reported</Text>
+          ) : item.message_type === 'image' ? (
             <Image source={{ uri: item.content }} style={styles.messageImage} />
           ) : item.message_type === 'offer' ? (
             <View style={styles.offerContainer}>
               <View style={styles.offerHeader}>
                 <DollarSign size={16} color="#9ACD32" />
-                <Text style={styles.offerTitle}>Offer</Text>
+                <Text style={styles.offerTitle}>
+                  {offer?.parent_offer_id ? 'Counter-offer' : 'Offer'}
+                </Text>
+                {offer && (
+                  <Text style={styles.offerStatus}>{getOfferStatusLabel(offer)}</Text>
+                )}
               </View>
-              <Text style={styles.offerAmount}>${item.offer_amount}</Text>
-              {!isMyMessage && (
-                <TouchableOpacity
-                  style={styles.acceptOfferButton}
-                  onPress={() => acceptOffer(item.id)}
-                >
-                  <Text style={styles.acceptOfferText}>Accept Offer</Text>
-                </TouchableOpacity>
-              )}
+              <Text style={styles.offerAmount}>{formatMoney(item.offer_amount || 0, conversation?.item?.currency)}</Text>
+              {offer && renderOfferActions(offer)}
             </View>
           ) : item.message_type === 'system' ? (
             <Text style={styles.systemMessage}>{item.content}</Text>
@@ -251,7 +377,7 @@ export default function ConversationScreen() {
           ]}>
             {formatTime(item.created_at)}
           </Text>
-        </View>
+        </TouchableOpacity>
       </View>
     );
   };
@@ -295,6 +421,16 @@ export default function ConversationScreen() {
           </View>
         </View>
 
+        <TouchableOpacity
+          style={styles.reportButton}
+          onPress={() => setReportTarget({
+            type: 'profile',
+            id: conversation.buyer_id === user?.id ? conversation.seller_id : conversation.buyer_id,
+          })}
+        >
+          <Flag size={20} color="#6B7280" />
+        </TouchableOpacity>
+
         <TouchableOpacity 
           style={styles.itemButton}
           onPress={() => router.push(`/item/${conversation.item_id}`)}
@@ -317,10 +453,12 @@ export default function ConversationScreen() {
       {/* Offer Input */}
       {showOfferInput && (
         <View style={styles.offerInputContainer}>
-          <Text style={styles.offerInputTitle}>Make an Offer</Text>
+          <Text style={styles.offerInputTitle}>
+            {counterOfferId ? 'Make a Counter-offer' : 'Make an Offer'}
+          </Text>
           <View style={styles.offerInputRow}>
             <View style={styles.offerInputWrapper}>
-              <Text style={styles.dollarSign}>$</Text>
+              <Text style={styles.dollarSign}>{currencySymbol(conversation.item?.currency)}</Text>
               <TextInput
                 style={styles.offerInput}
                 value={offerAmount}
@@ -338,7 +476,10 @@ export default function ConversationScreen() {
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.cancelOfferButton}
-              onPress={() => setShowOfferInput(false)}
+              onPress={() => {
+                setShowOfferInput(false);
+                setCounterOfferId(null);
+              }}
             >
               <Text style={styles.cancelOfferText}>Cancel</Text>
             </TouchableOpacity>
@@ -358,7 +499,10 @@ export default function ConversationScreen() {
 
           <TouchableOpacity 
             style={styles.offerButton} 
-            onPress={() => setShowOfferInput(!showOfferInput)}
+            onPress={() => {
+              setShowOfferInput(!showOfferInput);
+              setCounterOfferId(null);
+            }}
           >
             <DollarSign size={24} color="#9ACD32" />
           </TouchableOpacity>
@@ -381,6 +525,34 @@ export default function ConversationScreen() {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      {/* Payment Modal */}
+      {checkoutOffer && conversation.item && (
+        <PaymentModal
+          visible={!!checkoutOffer}
+          onClose={() => setCheckoutOffer(null)}
+          item={{
+            id: conversation.item.id,
+            title: conversation.item.title,
+            price: conversation.item.price,
+            currency: conversation.item.currency,
+            category: conversation.item.category,
+            seller_id: conversation.seller_id,
+          }}
+          userWallet={userWallet}
+          offer={{ id: checkoutOffer.id, amount: checkoutOffer.amount }}
+          onPaymentSuccess={handlePaymentSuccess}
+        />
+      )}
+
+      {reportTarget && (
+        <ReportModal
+          visible={!!reportTarget}
+          onClose={() => setReportTarget(null)}
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -452,6 +624,10 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 8,
   },
+  reportButton: {
+    padding: 8,
+    marginRight: 4,
+  },
   itemButtonText: {
     color: '#ffffff',
     fontSize: 12,
@@ -559,6 +735,12 @@ const styles = StyleSheet.create({
     color: '#9ACD32',
     marginLeft: 4,
   },
+  offerStatus: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+    color: '#6B7280',
+    marginLeft: 8,
+  },
   offerAmount: {
     fontSize: 24,
     fontFamily: 'Inter-Bold',
@@ -576,6 +758,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-SemiBold',
   },
+  offerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  counterOfferButton: {
+    backgroundColor: '#6B2C91',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  counterOfferText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
+  declineOfferButton: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  declineOfferText: {
+    color: '#6B7280',
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+  },
   offerInputContainer: {
     backgroundColor: '#F9FAFB',
     padding: 16,
@@ -10,13 +10,15 @@ import {
   SafeAreaView,
   Alert,
 } from 'react-native';
-import { ArrowLeft, Heart, Share2, MessageCircle, Star, MapPin, Shield } from 'lucide-react-native';
+import { ArrowLeft, Heart, Share2, MessageCircle, Star, MapPin, Shield, Bell, BellRing, Flag } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { PaymentModal } from '~/components/PaymentModal';
 import { StripeService } from '~/lib/stripe';
 import { SocialService } from '~/lib/social';
+import { FavoritesService } from '~/lib/favorites';
 import { ReviewStats } from '~/components/ReviewStats';
 import { FollowButton } from '~/components/FollowButton';
+import { ReportModal } from '~/components/ReportModal';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedView } from '~/components/ThemedView';
@@ -31,10 +33,13 @@ export default function ItemDetailScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const [isFavorite, setIsFavorite] = useState(false);
+  const [isWatching, setIsWatching] = useState(false);
+  const [favoritesCount, setFavoritesCount] = useState(0);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [userWallet, setUserWallet] = useState<any>(null);
   const [isFollowingSeller, setIsFollowingSeller] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
 
   // Mock item data - in a real app, this would be fetched based on the ID
   const item = {
@@ -70,13 +75,13 @@ export default function ItemDetailScreen() {
     },
     tags: ['vintage', 'denim', 'casual', 'spring'],
     views: 234,
-    likes: 18,
     postedDate: '2 days ago',
   };
 
   useEffect(() => {
     loadUserWallet();
     checkIfFollowingSeller();
+    loadFavorite();
   }, []);
 
   const loadUserWallet = async () => {
@@ -99,6 +104,70 @@ export default function ItemDetailScreen() {
     }
   };
 
+  const loadFavorite = async () => {
+    const [favorite, count] = await Promise.all([
+      FavoritesService.getFavorite(item.id),
+      FavoritesService.getFavoriteCount(item.id),
+    ]);
+    setIsFavorite(!!favorite);
+    setIsWatching(!!favorite?.is_watching);
+    setFavoritesCount(count);
+  };
+
+  const handleToggleFavorite = async () => {
+    const wasFavorite = isFavorite;
+    const wasWatching = isWatching;
+
+    // Update immediately and roll back if saving fails
+    setIsFavorite(!wasFavorite);
+    setIsWatching(false);
+    setFavoritesCount(count => Math.max(0, count + (wasFavorite ? -1 : 1)));
+
+    try {
+      if (wasFavorite) {
+        await FavoritesService.removeFavorite(item.id);
+      } else {
+        await FavoritesService.addFavorite(item.id);
+      }
+    } catch (error) {
+      setIsFavorite(wasFavorite);
+      setIsWatching(wasWatching);
+      setFavoritesCount(count => Math.max(0, count + (wasFavorite ? 1 : -1)));
+      Alert.alert('Error', 'Failed to update favorites');
+    }
+  };
+
+  const handleToggleWatch = async () => {
+    const wasFavorite = isFavorite;
+    const wasWatching = isWatching;
+
+    // Watching an item also favorites it
+    setIsFavorite(true);
+    setIsWatching(!wasWatching);
+    if (!wasFavorite) {
+      setFavoritesCount(count => count + 1);
+    }
+
+    try {
+      if (wasFavorite) {
+        await FavoritesService.setWatching(item.id, !wasWatching);
+      } else {
+        await FavoritesService.addFavorite(item.id, true);
+      }
+
+      if (!wasWatching) {
+        Alert.alert('Watching Price', "We'll notify you when the price drops.");
+      }
+    } catch (error) {
+      setIsFavorite(wasFavorite);
+      setIsWatching(wasWatching);
+      if (!wasFavorite) {
+        setFavoritesCount(count => Math.max(0, count - 1));
+      }
+      Alert.alert('Error', 'Failed to update price watch');
+    }
+  };
+
   const handleBuyNow = () => {
     setShowPaymentModal(true);
   };
@@ -159,7 +228,17 @@ export default function ItemDetailScreen() {
             </TouchableOpacity>
             <TouchableOpacity
               style={[styles.headerButton, { backgroundColor: colors.surface }]}
-              onPress={() => setIsFavorite(!isFavorite)}
+              onPress={handleToggleWatch}
+            >
+              {isWatching ? (
+                <BellRing size={24} color={colors.warning} />
+              ) : (
+                <Bell size={24} color={colors.primary} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.headerButton, { backgroundColor: colors.surface }]}
+              onPress={handleToggleFavorite}
             >
               <Heart
                 size={24}
@@ -167,6 +246,14 @@ export default function ItemDetailScreen() {
                 fill={isFavorite ? colors.error : 'transparent'}
               />
             </TouchableOpacity>
+            {user && user.id !== item.seller.id && (
+              <TouchableOpacity
+                style={[styles.headerButton, { backgroundColor: colors.surface }]}
+                onPress={() => setShowReportModal(true)}
+              >
+                <Flag size={24} color={colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -231,8 +318,8 @@ export default function ItemDetailScreen() {
                 <ThemedText style={[styles.statLabel, { color: colors.textSecondary }]}>views</ThemedText>
               </View>
               <View style={styles.stat}>
-                <ThemedText style={styles.statNumber}>{item.likes}</ThemedText>
-                <ThemedText style={[styles.statLabel, { color: colors.textSecondary }]}>likes</ThemedText>
+                <ThemedText style={styles.statNumber}>{favoritesCount}</ThemedText>
+                <ThemedText style={[styles.statLabel, { color: colors.textSecondary }]}>favorites</ThemedText>
               </View>
               <ThemedText style={[styles.postedDate, { color: colors.textSecondary }]}>Posted {item.postedDate}</ThemedText>
             </View>
@@ -376,11 +463,19 @@ export default function ItemDetailScreen() {
             id: item.id,
             title: item.title,
             price: item.price,
+            category: item.category,
             seller_id: item.seller.id,
           }}
           userWallet={userWallet}
           onPaymentSuccess={handlePaymentSuccess}
         />
+
+        <ReportModal
+          visible={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          targetType="item"
+          targetId={item.id}
+        />
       </SafeAreaView>
     </ThemedView>
   );
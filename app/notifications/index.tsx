@@ -49,8 +49,8 @@ export default function NotificationsScreen() {
         }
         break;
       case 'review':
-        if (notification.data?.review_id) {
-          router.push(`/reviews/${notification.data.review_id}`);
+        if (notification.data?.reviewee_id) {
+          router.push(`/reviews/${notification.data.reviewee_id}`);
         }
         break;
       case 'dispute':
@@ -69,14 +69,35 @@ export default function NotificationsScreen() {
         }
         break;
       case 'price_drop':
-      case 'item_sold':
         if (notification.data?.item_id) {
           router.push(`/item/${notification.data.item_id}`);
         }
         break;
+      case 'item_sold':
+        if (notification.data?.order_id) {
+          router.push(`/order/${notification.data.order_id}`);
+        }
+        break;
       case 'payment':
         router.push('/(tabs)/wallet');
         break;
+      case 'saved_search':
+        if (notification.data?.count === 1 && notification.data.item_ids[0]) {
+          router.push(`/item/${notification.data.item_ids[0]}`);
+        } else if (notification.data?.saved_search_id) {
+          router.push(`/(tabs)/search?savedSearchId=${notification.data.saved_search_id}`);
+        }
+        break;
+      case 'offer':
+        if (notification.data?.conversation_id) {
+          router.push(`/conversation/${notification.data.conversation_id}`);
+        }
+        break;
+      case 'moderation':
+        if (notification.data?.item_id) {
+          router.push(`/item/${notification.data.item_id}`);
+        }
+        break;
       default:
         // For system notifications or when no specific navigation is needed
         break;
@@ -9,13 +9,14 @@ import {
   Alert,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
-import { ArrowLeft, Package, Star, MessageCircle, Truck, ShieldAlert } from 'lucide-react-native';
-import { OrderService } from '~/lib/orders';
+import { ArrowLeft, Package, Star, MessageCircle, Truck, ShieldAlert, Clock, CheckCircle } from 'lucide-react-native';
+import { OrderItem, OrderService } from '~/lib/orders';
 import { ReviewsService } from '~/lib/reviews';
 import { DisputeService } from '~/lib/disputes';
 import { ReviewForm } from '~/components/ReviewForm';
 import { ReviewCard } from '~/components/ReviewCard';
 import { DisputeForm } from '~/components/DisputeForm';
+import { useAuth } from '~/contexts/AuthContext';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedText } from '~/components/ThemedText';
@@ -30,14 +31,26 @@ export default function OrderDetailScreen() {
   const [canReview, setCanReview] = useState(false);
   const [canDispute, setCanDispute] = useState(false);
   const [revieweeId, setRevieweeId] = useState<string | null>(null);
+  const [reviewableItemIds, setReviewableItemIds] = useState<string[]>([]);
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [showDisputeForm, setShowDisputeForm] = useState(false);
   const [reviews, setReviews] = useState<any[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [completing, setCompleting] = useState(false);
+  const { user } = useAuth();
 
   useEffect(() => {
     loadOrder();
   }, [id]);
 
+  // Tick the inspection countdown while the window is running
+  useEffect(() => {
+    if (order?.status !== 'delivered' || !order?.inspection_ends_at || order?.inspection_paused_at) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [order?.status, order?.inspection_ends_at, order?.inspection_paused_at]);
+
   const loadOrder = async () => {
     try {
       setLoading(true);
@@ -45,10 +58,11 @@ export default function OrderDetailScreen() {
       setOrder(orderData);
       
       // Check if the user can review this order
-      const { canReview: canReviewOrder, revieweeId: revieweeIdResult } = 
+      const { canReview: canReviewOrder, revieweeId: revieweeIdResult, orderItemIds } = 
         await ReviewsService.canReviewOrder(id as string);
       setCanReview(canReviewOrder);
       setRevieweeId(revieweeIdResult || null);
+      setReviewableItemIds(orderItemIds || []);
       
       // Check if the user can open a dispute for this order
       const canDisputeOrder = await DisputeService.canOpenDispute(id as string);
@@ -111,6 +125,42 @@ export default function OrderDetailScreen() {
     }
   };
 
+  const handleConfirmReceipt = () => {
+    Alert.alert(
+      'Confirm Receipt',
+      'Only confirm once you have checked the item. The payment is released to the seller and the order can no longer be disputed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Confirm',
+          onPress: async () => {
+            try {
+              setCompleting(true);
+              await OrderService.completeOrder(order.id);
+              loadOrder();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to complete order');
+            } finally {
+              setCompleting(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Time left in the inspection window, e.g. "1d 4h" or "35m", counted from when a dispute paused it
+  const formatTimeLeft = (endsAt: string, pausedAt?: string) => {
+    const from = pausedAt ? new Date(pausedAt).getTime() : now;
+    const minutes = Math.max(0, Math.ceil((new Date(endsAt).getTime() - from) / 60000));
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -186,6 +236,14 @@ export default function OrderDetailScreen() {
     );
   }
 
+  // Items of a bundle, reviews and disputes can be about one of them
+  const lineItems: { id: string; title: string }[] = order.is_bundle
+    ? (order.order_items || []).map((line: OrderItem) => ({ id: line.id, title: line.item?.title || 'Item' }))
+    : [];
+
+  // An open dispute pauses the window even if the order did not move to disputed
+  const inspectionPaused = order.status === 'disputed' || !!order.inspection_paused_at;
+
   return (
     <ThemedView style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
@@ -212,29 +270,105 @@ export default function OrderDetailScreen() {
             </ThemedText>
           </View>
 
-          <View style={[styles.itemSection, { backgroundColor: colors.surface }]}>
-            <View style={styles.itemHeader}>
-              <Package size={20} color={colors.primary} />
-              <ThemedText style={styles.sectionTitle}>Item</ThemedText>
+          {order.inspection_ends_at && (order.status === 'delivered' || order.status === 'disputed') && (
+            <View style={[styles.inspectionSection, { backgroundColor: colors.surface }]}>
+              <View style={styles.itemHeader}>
+                <Clock size={20} color={inspectionPaused ? colors.error : colors.warning} />
+                <ThemedText style={styles.sectionTitle}>Inspection Window</ThemedText>
+                {order.status === 'delivered' && (
+                  <ThemedText style={[styles.inspectionTimeLeft, { color: inspectionPaused ? colors.error : colors.warning }]}>
+                    {inspectionPaused
+                      ? formatTimeLeft(order.inspection_ends_at, order.inspection_paused_at)
+                      : new Date(order.inspection_ends_at).getTime() > now ? formatTimeLeft(order.inspection_ends_at) : 'Ended'}
+                  </ThemedText>
+                )}
+              </View>
+              <ThemedText style={[styles.inspectionText, { color: colors.textSecondary }]}>
+                {order.status === 'disputed'
+                  ? 'Paused while the dispute is open. The payment stays in escrow until it is resolved.'
+                  : inspectionPaused
+                    ? 'Paused while the dispute is open. The time left is given back when it closes.'
+                    : new Date(order.inspection_ends_at).getTime() <= now
+                      ? `The payment is being released to ${user?.id === order.buyer_id ? 'the seller' : 'you'}.`
+                      : user?.id === order.buyer_id
+                        ? 'Check the item and open a dispute if something is wrong. Otherwise the payment is released to the seller when the window ends.'
+                        : 'The payment is released to you when the window ends, unless the buyer opens a dispute.'}
+              </ThemedText>
+              {order.status === 'delivered' && user?.id === order.buyer_id && (
+                <TouchableOpacity
+                  style={[styles.confirmButton, { backgroundColor: colors.primary }]}
+                  onPress={handleConfirmReceipt}
+                  disabled={completing}
+                >
+                  <CheckCircle size={20} color="#FFFFFF" />
+                  <ThemedText style={styles.confirmButtonText}>
+                    {completing ? 'Confirming...' : 'Confirm Receipt'}
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
             </View>
-            
-            <View style={styles.itemDetails}>
-              {order.item.images && order.item.images[0] && (
-                <Image source={{ uri: order.item.images[0] }} style={styles.itemImage} />
+          )}
+
+          {order.is_bundle ? (
+            <View style={[styles.itemSection, { backgroundColor: colors.surface }]}>
+              <View style={styles.itemHeader}>
+                <Package size={20} color={colors.primary} />
+                <ThemedText style={styles.sectionTitle}>Bundle ({order.order_items?.length || 0} items)</ThemedText>
+              </View>
+
+              {(order.order_items || []).map((line: OrderItem) => (
+                <View key={line.id} style={[styles.itemDetails, styles.bundleLine]}>
+                  {line.item?.images?.[0] && (
+                    <Image source={{ uri: line.item.images[0] }} style={styles.itemImage} />
+                  )}
+                  <View style={styles.itemInfo}>
+                    <ThemedText style={styles.itemTitle}>{line.item?.title}</ThemedText>
+                    <View style={styles.itemMeta}>
+                      <ThemedText style={[styles.itemMetaText, { color: colors.textSecondary }]}>
+                        {line.item?.brand} • {line.item?.size}
+                      </ThemedText>
+                    </View>
+                    <ThemedText style={[styles.itemMetaText, { color: colors.textSecondary }]}>
+                      ${Number(line.price).toFixed(2)}
+                    </ThemedText>
+                  </View>
+                </View>
+              ))}
+
+              {order.bundle_discount > 0 && (
+                <ThemedText style={[styles.itemMetaText, { color: colors.success }]}>
+                  Bundle discount -${Number(order.bundle_discount).toFixed(2)}
+                </ThemedText>
               )}
-              <View style={styles.itemInfo}>
-                <ThemedText style={styles.itemTitle}>{order.item.title}</ThemedText>
-                <View style={styles.itemMeta}>
-                  <ThemedText style={[styles.itemMetaText, { color: colors.textSecondary }]}>
-                    {order.item.brand} • {order.item.size} • {order.item.condition}
+              <ThemedText style={[styles.itemPrice, { color: colors.primary }]}>
+                ${order.total_amount.toFixed(2)}
+              </ThemedText>
+            </View>
+          ) : (
+            <View style={[styles.itemSection, { backgroundColor: colors.surface }]}>
+              <View style={styles.itemHeader}>
+                <Package size={20} color={colors.primary} />
+                <ThemedText style={styles.sectionTitle}>Item</ThemedText>
+              </View>
+            
+              <View style={styles.itemDetails}>
+                {order.item.images && order.item.images[0] && (
+                  <Image source={{ uri: order.item.images[0] }} style={styles.itemImage} />
+                )}
+                <View style={styles.itemInfo}>
+                  <ThemedText style={styles.itemTitle}>{order.item.title}</ThemedText>
+                  <View style={styles.itemMeta}>
+                    <ThemedText style={[styles.itemMetaText, { color: colors.textSecondary }]}>
+                      {order.item.brand} • {order.item.size} • {order.item.condition}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={[styles.itemPrice, { color: colors.primary }]}>
+                    ${order.total_amount.toFixed(2)}
                   </ThemedText>
                 </View>
-                <ThemedText style={[styles.itemPrice, { color: colors.primary }]}>
-                  ${order.total_amount.toFixed(2)}
-                </ThemedText>
               </View>
             </View>
-          </View>
+          )}
 
           <View style={[styles.partiesSection, { backgroundColor: colors.surface }]}>
             <View style={styles.partyContainer}>
@@ -357,6 +491,7 @@ export default function OrderDetailScreen() {
           onSubmit={handleReviewSubmit}
           orderId={id as string}
           revieweeId={revieweeId || ''}
+          lineItems={lineItems.filter(line => reviewableItemIds.includes(line.id))}
         />
 
         {/* Dispute Form Modal */}
@@ -365,6 +500,7 @@ export default function OrderDetailScreen() {
           onClose={() => setShowDisputeForm(false)}
           onSubmit={handleDisputeSubmit}
           orderId={id as string}
+          lineItems={lineItems}
         />
       </SafeAreaView>
     </ThemedView>
@@ -434,6 +570,35 @@ const createStyles = (colors: any) => StyleSheet.create({
     padding: 16,
     marginBottom: 16,
   },
+  inspectionSection: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  inspectionTimeLeft: {
+    marginLeft: 'auto',
+    fontSize: 16,
+    fontFamily: 'Inter-Bold',
+  },
+  inspectionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    lineHeight: 20,
+  },
+  confirmButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 16,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
   itemHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -447,6 +612,9 @@ const createStyles = (colors: any) => StyleSheet.create({
   itemDetails: {
     flexDirection: 'row',
   },
+  bundleLine: {
+    marginBottom: 12,
+  },
   itemImage: {
     width: 80,
     height: 80,
@@ -0,0 +1,379 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  Switch,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Bookmark, Pencil, Trash2 } from 'lucide-react-native';
+import { SavedSearch, SavedSearchesService } from '~/lib/saved-searches';
+import { PRICE_BUCKETS } from '~/lib/items';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from '~/components/ThemedText';
+import { ThemedView } from '~/components/ThemedView';
+
+// Short description of a saved search's query and filters
+const describeSearch = (savedSearch: SavedSearch): string => {
+  const { filters } = savedSearch;
+  const priceBucket = PRICE_BUCKETS.find(bucket => bucket.id === filters.priceBucket);
+  const parts = [
+    savedSearch.query ? `"${savedSearch.query}"` : null,
+    ...(filters.categories || []),
+    ...(filters.brands || []),
+    ...(filters.sizes || []).map(size => `Size ${size}`),
+    ...(filters.conditions || []),
+    priceBucket ? priceBucket.label : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All items';
+};
+
+export default function SavedSearchesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [renaming, setRenaming] = useState<SavedSearch | null>(null);
+  const [newName, setNewName] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSavedSearches();
+    }, [])
+  );
+
+  const loadSavedSearches = async (refresh = false) => {
+    try {
+      if (refresh) setRefreshing(true);
+      const data = await SavedSearchesService.getSavedSearches();
+      setSavedSearches(data);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load saved searches');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const replaceSavedSearch = (updated: SavedSearch) => {
+    setSavedSearches(prev => prev.map(search => search.id === updated.id ? updated : search));
+  };
+
+  const handleToggleMuted = async (savedSearch: SavedSearch) => {
+    const muted = !savedSearch.is_muted;
+    replaceSavedSearch({ ...savedSearch, is_muted: muted });
+
+    try {
+      const updated = await SavedSearchesService.setMuted(savedSearch.id, muted);
+      replaceSavedSearch(updated);
+    } catch (error) {
+      replaceSavedSearch(savedSearch);
+      Alert.alert('Error', 'Failed to update alerts');
+    }
+  };
+
+  const openRename = (savedSearch: SavedSearch) => {
+    setRenaming(savedSearch);
+    setNewName(savedSearch.name);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    if (!newName.trim()) {
+      Alert.alert('Name Required', 'Please enter a name for this search');
+      return;
+    }
+
+    try {
+      const updated = await SavedSearchesService.renameSavedSearch(renaming.id, newName);
+      replaceSavedSearch(updated);
+      setRenaming(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to rename saved search');
+    }
+  };
+
+  const handleDelete = (savedSearch: SavedSearch) => {
+    Alert.alert(
+      'Delete Saved Search',
+      `Stop getting alerts for "${savedSearch.name}" and delete it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SavedSearchesService.deleteSavedSearch(savedSearch.id);
+              setSavedSearches(prev => prev.filter(search => search.id !== savedSearch.id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete saved search');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const styles = createStyles(colors);
+
+  const renderSavedSearch = ({ item }: { item: SavedSearch }) => (
+    <TouchableOpacity
+      style={styles.searchCard}
+      onPress={() => router.push(`/(tabs)/search?savedSearchId=${item.id}`)}
+    >
+      <View style={styles.searchInfo}>
+        <ThemedText style={styles.searchName} numberOfLines={1}>{item.name}</ThemedText>
+        <ThemedText style={[styles.searchDescription, { color: colors.textSecondary }]} numberOfLines={2}>
+          {describeSearch(item)}
+        </ThemedText>
+        <View style={styles.searchActions}>
+          <TouchableOpacity style={styles.iconButton} onPress={() => openRename(item)}>
+            <Pencil size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+            <Trash2 size={18} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      </View>
+      <View style={styles.alertToggle}>
+        <ThemedText style={[styles.alertLabel, { color: colors.textSecondary }]}>
+          {item.is_muted ? 'Muted' : 'Alerts'}
+        </ThemedText>
+        <Switch
+          value={!item.is_muted}
+          onValueChange={() => handleToggleMuted(item)}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEmptyComponent = () => {
+    if (loading) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Bookmark size={64} color={colors.textSecondary} />
+        <ThemedText style={styles.emptyTitle}>No saved searches</ThemedText>
+        <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+          Save a search to get notified when new items match it
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Saved Searches</ThemedText>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={savedSearches}
+            renderItem={renderSavedSearch}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyComponent}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => loadSavedSearches(true)}
+                colors={[colors.primary]}
+                tintColor={colors.primary}
+              />
+            }
+          />
+        )}
+
+        <Modal
+          visible={renaming !== null}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setRenaming(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+              <ThemedText style={styles.modalTitle}>Rename Search</ThemedText>
+              <TextInput
+                style={[styles.modalInput, { color: colors.text, borderColor: colors.border }]}
+                value={newName}
+                onChangeText={setNewName}
+                placeholder="Search name"
+                placeholderTextColor={colors.textSecondary}
+                autoFocus
+              />
+              <View style={styles.modalActions}>
+                <TouchableOpacity
+                  style={[styles.modalButton, { backgroundColor: colors.surface }]}
+                  onPress={() => setRenaming(null)}
+                >
+                  <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modalButton, { backgroundColor: colors.primary }]}
+                  onPress={handleRename}
+                >
+                  <ThemedText style={[styles.modalButtonText, { color: '#ffffff' }]}>Save</ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    flexGrow: 1,
+    padding: 20,
+    gap: 12,
+  },
+  searchCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  searchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  searchName: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 4,
+  },
+  searchDescription: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  searchActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  alertToggle: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  alertLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter-Medium',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 16,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    marginBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+});
@@ -11,12 +11,15 @@ import {
   RefreshControl,
 } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
-import { ArrowLeft, MapPin, Calendar, Star, Heart, MessageCircle, Share2 } from 'lucide-react-native';
+import { ArrowLeft, MapPin, Calendar, Star, Heart, MessageCircle, Share2, ShoppingBag } from 'lucide-react-native';
 import { useAuth } from '~/contexts/AuthContext';
 import { ReviewStats } from '~/components/ReviewStats';
 import { FollowButton } from '~/components/FollowButton';
 import { SocialService } from '~/lib/social';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useFavorites } from '~/hooks/useFavorites';
+import { useBundleCart } from '~/hooks/useBundleCart';
+import { useDisplayCurrency } from '~/hooks/useDisplayCurrency';
 import { getColors } from '~/constants/Colors';
 import { ThemedText } from '~/components/ThemedText';
 import { ThemedView } from '~/components/ThemedView';
@@ -36,7 +39,11 @@ export default function UserProfileScreen() {
   const [isFollowing, setIsFollowing] = useState(false);
   const [activeTab, setActiveTab] = useState<'items' | 'reviews'>('items');
   const [items, setItems] = useState<any[]>([]);
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { isInCart, toggleCartItem } = useBundleCart();
+  const { formatPrice } = useDisplayCurrency();
+  const isOwnProfile = user?.id === id;
+  const bundleCount = items.filter(item => isInCart(item.id)).length;
 
   useEffect(() => {
     loadProfile();
@@ -116,18 +123,6 @@ export default function UserProfileScreen() {
     }
   };
 
-  const toggleFavorite = (itemId: string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(itemId)) {
-        newFavorites.delete(itemId);
-      } else {
-        newFavorites.add(itemId);
-      }
-      return newFavorites;
-    });
-  };
-
   const renderItem = ({ item }: { item: any }) => (
     <TouchableOpacity
       style={[styles.itemContainer, { backgroundColor: colors.background }]}
@@ -144,14 +139,25 @@ export default function UserProfileScreen() {
         >
           <Heart
             size={20}
-            color={favorites.has(item.id) ? colors.error : colors.textSecondary}
-            fill={favorites.has(item.id) ? colors.error : 'transparent'}
+            color={isFavorite(item.id) ? colors.error : colors.textSecondary}
+            fill={isFavorite(item.id) ? colors.error : 'transparent'}
           />
         </TouchableOpacity>
+        {user && !isOwnProfile && (
+          <TouchableOpacity
+            style={[
+              styles.bundleButton,
+              { backgroundColor: isInCart(item.id) ? colors.primary : colors.background },
+            ]}
+            onPress={() => toggleCartItem(item.id)}
+          >
+            <ShoppingBag size={18} color={isInCart(item.id) ? '#FFFFFF' : colors.textSecondary} />
+          </TouchableOpacity>
+        )}
       </View>
       
       <View style={styles.itemInfo}>
-        <ThemedText style={[styles.itemPrice, { color: colors.primary }]}>${item.price}</ThemedText>
+        <ThemedText style={[styles.itemPrice, { color: colors.primary }]}>{formatPrice(item.price, item.currency)}</ThemedText>
         <ThemedText style={styles.itemTitle} numberOfLines={2}>
           {item.title}
         </ThemedText>
@@ -304,6 +310,16 @@ export default function UserProfileScreen() {
                 View all reviews
               </ThemedText>
             </TouchableOpacity>
+
+            {/* Bundle Discount */}
+            {profile?.bundle_discount_percent > 0 && (
+              <View style={[styles.bundleBanner, { backgroundColor: colors.surface }]}>
+                <ShoppingBag size={18} color={colors.primary} />
+                <ThemedText style={styles.bundleBannerText}>
+                  Bundle {profile.bundle_min_items || 2}+ items and save {Number(profile.bundle_discount_percent)}%
+                </ThemedText>
+              </View>
+            )}
           </View>
 
           {/* Tabs */}
@@ -371,6 +387,18 @@ export default function UserProfileScreen() {
             </View>
           )}
         </ScrollView>
+
+        {bundleCount > 0 && (
+          <TouchableOpacity
+            style={[styles.bundleBar, { backgroundColor: colors.primary }]}
+            onPress={() => router.push(`/bundle/${id}`)}
+          >
+            <ShoppingBag size={20} color="#FFFFFF" />
+            <ThemedText style={styles.bundleBarText}>
+              View bundle ({bundleCount} {bundleCount === 1 ? 'item' : 'items'})
+            </ThemedText>
+          </TouchableOpacity>
+        )}
       </SafeAreaView>
     </ThemedView>
   );
@@ -577,6 +605,51 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  bundleButton: {
+    position: 'absolute',
+    top: 56,
+    right: 12,
+    borderRadius: 20,
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  bundleBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    width: '100%',
+  },
+  bundleBannerText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  bundleBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    margin: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  bundleBarText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
   itemInfo: {
     padding: 12,
   },
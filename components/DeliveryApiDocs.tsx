@@ -22,7 +22,7 @@ export function DeliveryApiDocs() {
       method: 'GET',
       path: '/deliveries/pending',
       description: 'Get all pending deliveries that need to be assigned to a rider',
-      auth: true,
+      auth: 'deliveries:read',
       response: {
         "id": "123e4567-e89b-12d3-a456-426614174000",
         "status": "pickup_scheduled",
@@ -53,7 +53,7 @@ export function DeliveryApiDocs() {
       method: 'GET',
       path: '/deliveries/assigned',
       description: 'Get all deliveries assigned to the authenticated rider',
-      auth: true,
+      auth: 'deliveries:read',
       response: [
         {
           "id": "123e4567-e89b-12d3-a456-426614174000",
@@ -80,7 +80,7 @@ export function DeliveryApiDocs() {
       method: 'GET',
       path: '/deliveries/:id',
       description: 'Get detailed information about a specific delivery',
-      auth: true,
+      auth: 'deliveries:read',
       response: {
         "id": "123e4567-e89b-12d3-a456-426614174000",
         "status": "pickup_scheduled",
@@ -117,7 +117,7 @@ export function DeliveryApiDocs() {
       method: 'POST',
       path: '/deliveries/:id/assign',
       description: 'Assign a delivery to the authenticated rider',
-      auth: true,
+      auth: 'deliveries:write',
       response: {
         "success": true,
         "message": "Delivery assigned successfully"
@@ -127,7 +127,7 @@ export function DeliveryApiDocs() {
       method: 'PUT',
       path: '/deliveries/:id/status',
       description: 'Update the status of a delivery',
-      auth: true,
+      auth: 'deliveries:write',
       body: {
         status: 'en_route_to_pickup | at_pickup | picked_up | en_route_to_delivery | at_delivery | delivered | failed',
         notes: 'Optional notes about the status update',
@@ -146,7 +146,7 @@ export function DeliveryApiDocs() {
       method: 'GET',
       path: '/deliveries/:id/history',
       description: 'Get the status history for a delivery',
-      auth: true,
+      auth: 'deliveries:read',
       response: [
         {
           "id": "history-123",
@@ -206,7 +206,10 @@ export function DeliveryApiDocs() {
       
       <ThemedText style={styles.description}>
         This API allows external rider applications to interact with the Remore delivery system.
-        All endpoints require authentication using a Bearer token.
+        All endpoints require a rider API key sent as a Bearer token. Keys are issued per rider
+        and are limited to the scopes shown on each endpoint. Partner webhooks are signed with an
+        X-Remore-Signature header of the form t=timestamp,v1=hex, an HMAC-SHA256 of
+        "timestamp.body" using the endpoint's signing secret.
       </ThemedText>
       
       <View style={[styles.baseUrlContainer, { backgroundColor: colors.surface }]}>
@@ -285,7 +288,7 @@ export function DeliveryApiDocs() {
                   Authentication:
                 </ThemedText>
                 <ThemedText style={styles.authText}>
-                  Bearer Token
+                  Bearer rider API key ({endpoint.auth})
                 </ThemedText>
               </View>
             )}
@@ -24,23 +24,28 @@ interface DisputeFormProps {
     type: 'item_not_received' | 'item_not_as_described' | 'payment_issue' | 'other';
     description: string;
     evidence: { evidence_type: 'image' | 'text'; content: string }[];
+    order_item_id?: string;
   }) => Promise<void>;
   orderId: string;
+  // Items of a bundle order, the dispute can be about one of them
+  lineItems?: { id: string; title: string }[];
 }
 
-export function DisputeForm({ visible, onClose, onSubmit, orderId }: DisputeFormProps) {
+export function DisputeForm({ visible, onClose, onSubmit, orderId, lineItems }: DisputeFormProps) {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   
   const [type, setType] = useState<'item_not_received' | 'item_not_as_described' | 'payment_issue' | 'other'>('item_not_received');
   const [description, setDescription] = useState('');
   const [evidence, setEvidence] = useState<{ evidence_type: 'image' | 'text'; content: string }[]>([]);
+  const [orderItemId, setOrderItemId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
   const resetForm = () => {
     setType('item_not_received');
     setDescription('');
     setEvidence([]);
+    setOrderItemId(null);
   };
 
   const handleClose = () => {
@@ -60,6 +65,7 @@ export function DisputeForm({ visible, onClose, onSubmit, orderId }: DisputeForm
         type,
         description: description.trim(),
         evidence,
+        order_item_id: orderItemId || undefined,
       });
       resetForm();
       onClose();
@@ -119,6 +125,31 @@ export function DisputeForm({ visible, onClose, onSubmit, orderId }: DisputeForm
             </ThemedText>
           </View>
 
+          {lineItems && lineItems.length > 1 && (
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Which item?</ThemedText>
+              <View style={styles.typeOptions}>
+                {[{ id: null, title: 'The whole order' }, ...lineItems].map(line => (
+                  <TouchableOpacity
+                    key={line.id || 'order'}
+                    style={[
+                      styles.typeOption,
+                      orderItemId === line.id && { backgroundColor: colors.primary + '20', borderColor: colors.primary }
+                    ]}
+                    onPress={() => setOrderItemId(line.id)}
+                  >
+                    <ThemedText style={[
+                      styles.typeOptionText,
+                      orderItemId === line.id && { color: colors.primary }
+                    ]}>
+                      {line.title}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           <View style={styles.section}>
             <ThemedText style={styles.sectionTitle}>What's the issue?</ThemedText>
             <View style={styles.typeOptions}>
@@ -11,7 +11,10 @@ import {
   ArrowDown, 
   DollarSign, 
   Bell,
-  Check
+  Check,
+  Search,
+  Tag,
+  ShieldAlert
 } from 'lucide-react-native';
 import { Notification, NotificationType } from '~/lib/notifications';
 import { useColorScheme } from '~/hooks/useColorScheme';
@@ -55,6 +58,12 @@ export function NotificationItem({
         return <ShoppingBag size={24} color={colors.success} />;
       case 'payment':
         return <DollarSign size={24} color={colors.primary} />;
+      case 'saved_search':
+        return <Search size={24} color={colors.info} />;
+      case 'offer':
+        return <Tag size={24} color={colors.secondary} />;
+      case 'moderation':
+        return <ShieldAlert size={24} color={colors.warning} />;
       case 'system':
       default:
         return <Bell size={24} color={colors.textSecondary} />;
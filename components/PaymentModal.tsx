@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,6 +10,9 @@ import {
 } from 'react-native';
 import { CreditCard, Wallet, X } from 'lucide-react-native';
 import { StripeService } from '~/lib/stripe';
+import { FeeBreakdown, FeesService, formatCents, fromCents } from '~/lib/fees';
+import { DEFAULT_CURRENCY, formatMoney } from '~/lib/currency';
+import { useDisplayCurrency } from '~/hooks/useDisplayCurrency';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 
@@ -20,10 +23,24 @@ interface PaymentModalProps {
     id: string;
     title: string;
     price: number;
+    currency?: string;
+    category?: string;
     seller_id: string;
   };
   userWallet?: {
     available_balance: number;
+    currency?: string;
+    balances?: { currency: string; available_balance: number }[];
+  };
+  // Accepted offer to check out at instead of the asking price
+  offer?: {
+    id: string;
+    amount: number;
+  };
+  // Items bought together, `item` then carries the discounted bundle price
+  bundle?: {
+    item_ids: string[];
+    subtotal: number;
   };
   onPaymentSuccess: (orderId: string) => void;
 }
@@ -33,27 +50,55 @@ export function PaymentModal({
   onClose, 
   item, 
   userWallet, 
+  offer,
+  bundle,
   onPaymentSuccess 
 }: PaymentModalProps) {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const [loading, setLoading] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'wallet'>('card');
+  const [quote, setQuote] = useState<FeeBreakdown | null>(null);
+  const price = offer ? offer.amount : item.price;
+  const currency = item.currency || DEFAULT_CURRENCY;
+  const { approximate } = useDisplayCurrency();
+
+  // Wallet payments come out of the balance held in the item's currency
+  const walletBalance = userWallet?.balances
+    ? userWallet.balances.find(balance => balance.currency === currency)?.available_balance ?? 0
+    : (userWallet?.currency || DEFAULT_CURRENCY) === currency ? userWallet?.available_balance ?? 0 : 0;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setQuote(null);
+    FeesService.quoteItem({ ...item, price })
+      .then(setQuote)
+      .catch(() => Alert.alert('Error', 'Failed to calculate fees'));
+  }, [visible, item.id, price]);
 
-  const canPayWithWallet = userWallet && userWallet.available_balance >= item.price;
+  const approximateTotal = quote ? approximate(fromCents(quote.buyer_total_cents), quote.currency) : null;
+
+  const canPayWithWallet = !!quote && !!userWallet && walletBalance >= fromCents(quote.buyer_total_cents);
 
   const handlePayment = async () => {
+    if (!quote) return;
+
     try {
       setLoading(true);
 
       if (paymentMethod === 'wallet') {
         // Pay with wallet balance
-        const result = await StripeService.payWithWallet(item.id, item.price);
+        const result = bundle
+          ? await StripeService.payBundleWithWallet(bundle.item_ids, quote.buyer_total_cents)
+          : await StripeService.payWithWallet(item.id, quote.buyer_total_cents, offer?.id);
         onPaymentSuccess(result.order_id);
         Alert.alert('Success', 'Payment completed successfully!');
       } else {
         // Pay with card - create payment intent
-        const paymentIntent = await StripeService.createPaymentIntent(item.id, item.price);
+        const paymentIntent = bundle
+          ? await StripeService.createBundlePaymentIntent(bundle.item_ids, quote.buyer_total_cents, quote.currency)
+          : await StripeService.createPaymentIntent(item.id, quote.buyer_total_cents, offer?.id, quote.currency);
         
         // In a real app, you would integrate with Stripe's payment sheet here
         // For now, we'll simulate a successful payment
@@ -105,7 +150,13 @@ export function PaymentModal({
         <View style={styles.content}>
           <View style={styles.itemInfo}>
             <Text style={styles.itemTitle}>{item.title}</Text>
-            <Text style={styles.itemPrice}>${item.price.toFixed(2)}</Text>
+            <Text style={styles.itemPrice}>{formatMoney(price, currency)}</Text>
+            {offer && (
+              <Text style={styles.itemOriginalPrice}>Accepted offer · was {formatMoney(item.price, currency)}</Text>
+            )}
+            {bundle && bundle.subtotal > price && (
+              <Text style={styles.itemOriginalPrice}>Bundle discount · was {formatMoney(bundle.subtotal, currency)}</Text>
+            )}
           </View>
 
           <View style={styles.paymentMethods}>
@@ -158,7 +209,7 @@ export function PaymentModal({
                 </Text>
                 <Text style={styles.paymentOptionSubtitle}>
                   {userWallet 
-                    ? `Available: $${userWallet.available_balance.toFixed(2)}`
+                    ? `Available: ${formatMoney(walletBalance, currency)}`
                     : 'No wallet found'
                   }
                 </Text>
@@ -172,18 +223,39 @@ export function PaymentModal({
           </View>
 
           <View style={styles.summary}>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Item Price</Text>
-              <Text style={styles.summaryValue}>${item.price.toFixed(2)}</Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Platform Fee</Text>
-              <Text style={styles.summaryValue}>$0.00</Text>
-            </View>
-            <View style={[styles.summaryRow, styles.summaryTotal]}>
-              <Text style={styles.summaryTotalLabel}>Total</Text>
-              <Text style={styles.summaryTotalValue}>${item.price.toFixed(2)}</Text>
-            </View>
+            {quote ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Item Price</Text>
+                  <Text style={styles.summaryValue}>{formatCents(quote.item_price_cents, quote.currency)}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Buyer Protection</Text>
+                  <Text style={styles.summaryValue}>{formatCents(quote.buyer_protection_cents, quote.currency)}</Text>
+                </View>
+                {quote.lines
+                  .filter(line => line.type === 'discount')
+                  .map(line => (
+                    <View key={line.rule_id || line.label} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{line.label}</Text>
+                      <Text style={[styles.summaryValue, { color: colors.success }]}>
+                        {formatCents(line.amount_cents, quote.currency)}
+                      </Text>
+                    </View>
+                  ))}
+                <View style={[styles.summaryRow, styles.summaryTotal]}>
+                  <Text style={styles.summaryTotalLabel}>Total</Text>
+                  <Text style={styles.summaryTotalValue}>{formatCents(quote.buyer_total_cents, quote.currency)}</Text>
+                </View>
+                {approximateTotal && (
+                  <Text style={styles.summaryNote}>
+                    Charged in {quote.currency.toUpperCase()}, about {approximateTotal}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <ActivityIndicator color={colors.primary} />
+            )}
           </View>
         </View>
 
@@ -191,13 +263,13 @@ export function PaymentModal({
           <TouchableOpacity
             style={[styles.payButton, { backgroundColor: colors.primary }]}
             onPress={handlePayment}
-            disabled={loading}
+            disabled={loading || !quote}
           >
-            {loading ? (
+            {loading || !quote ? (
               <ActivityIndicator color="#FFFFFF" />
             ) : (
               <Text style={styles.payButtonText}>
-                Pay ${item.price.toFixed(2)}
+                Pay {formatCents(quote.buyer_total_cents, quote.currency)}
               </Text>
             )}
           </TouchableOpacity>
@@ -252,6 +324,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: colors.primary,
   },
+  itemOriginalPrice: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
   paymentMethods: {
     marginBottom: 24,
   },
@@ -330,6 +408,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontFamily: 'Inter-Bold',
     color: colors.primary,
   },
+  summaryNote: {
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
   footer: {
     padding: 20,
     paddingBottom: 40,
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import {
+  View,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { X, AlertCircle } from 'lucide-react-native';
+import { REPORT_REASONS, ReportTargetType, ReportsService } from '~/lib/reports';
+import { useColorScheme } from '~/hooks/useColorScheme';
+import { getColors } from '~/constants/Colors';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+
+interface ReportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+const TARGET_NAMES: Record<ReportTargetType, string> = {
+  item: 'Listing',
+  profile: 'User',
+  message: 'Message',
+  review: 'Review',
+};
+
+export function ReportModal({ visible, onClose, targetType, targetId }: ReportModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+
+  const [reasonCode, setReasonCode] = useState<string | null>(null);
+  const [details, setDetails] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleClose = () => {
+    setReasonCode(null);
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reasonCode) {
+      Alert.alert('Error', 'Please pick a reason for your report');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await ReportsService.submitReport(targetType, targetId, reasonCode, details);
+      handleClose();
+      Alert.alert('Thanks for Reporting', 'Our team will review your report. We do not tell the other user who reported them.');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={handleClose}
+    >
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Report {TARGET_NAMES[targetType]}</ThemedText>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.infoBox}>
+            <AlertCircle size={20} color={colors.warning} />
+            <ThemedText style={[styles.infoText, { color: colors.textSecondary }]}>
+              Reports are anonymous. For problems with an order you paid for, open a dispute from the order instead.
+            </ThemedText>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>What's wrong?</ThemedText>
+            <View style={styles.reasonOptions}>
+              {REPORT_REASONS[targetType].map(reason => (
+                <TouchableOpacity
+                  key={reason.code}
+                  style={[
+                    styles.reasonOption,
+                    reasonCode === reason.code && { backgroundColor: colors.primary + '20', borderColor: colors.primary }
+                  ]}
+                  onPress={() => setReasonCode(reason.code)}
+                >
+                  <ThemedText style={[
+                    styles.reasonOptionText,
+                    reasonCode === reason.code && { color: colors.primary }
+                  ]}>
+                    {reason.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Anything else? (Optional)</ThemedText>
+            <TextInput
+              style={[styles.detailsInput, {
+                backgroundColor: colors.surface,
+                borderColor: colors.border,
+                color: colors.text
+              }]}
+              placeholder="Tell us what happened..."
+              placeholderTextColor={colors.textSecondary}
+              value={details}
+              onChangeText={setDetails}
+              maxLength={1000}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.cancelButton, { borderColor: colors.border }]}
+            onPress={handleClose}
+            disabled={loading}
+          >
+            <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: colors.error }]}
+            onPress={handleSubmit}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator color="#FFFFFF" size="small" />
+            ) : (
+              <ThemedText style={styles.submitButtonText}>Send Report</ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  infoBox: {
+    flexDirection: 'row',
+    backgroundColor: colors.warning + '10',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    flex: 1,
+    lineHeight: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    marginBottom: 12,
+  },
+  reasonOptions: {
+    gap: 12,
+  },
+  reasonOption: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  reasonOptionText: {
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+  },
+  detailsInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    fontFamily: 'Inter-Regular',
+    minHeight: 120,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 20,
+    paddingBottom: 40,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 56,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  submitButton: {
+    flex: 2,
+    height: 56,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
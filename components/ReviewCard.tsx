@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
-import { Star, ThumbsUp, MessageSquare, MoreVertical } from 'lucide-react-native';
+import { Star, ThumbsUp, MessageSquare, MoreVertical, Flag } from 'lucide-react-native';
 import { Review, ReviewsService } from '../lib/reviews';
+import { useAuth } from '~/contexts/AuthContext';
+import { ReportModal } from './ReportModal';
 import { useColorScheme } from '~/hooks/useColorScheme';
 import { getColors } from '~/constants/Colors';
 import { ThemedText } from './ThemedText';
@@ -26,9 +28,11 @@ export function ReviewCard({
 }: ReviewCardProps) {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { user } = useAuth();
   const [isHelpful, setIsHelpful] = useState(review.is_helpful || false);
   const [helpfulCount, setHelpfulCount] = useState(review.helpful_count || 0);
   const [showOptions, setShowOptions] = useState(false);
+  const [showReport, setShowReport] = useState(false);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -273,8 +277,27 @@ export function ReviewCard({
               </ThemedText>
             </TouchableOpacity>
           )}
+
+          {user && review.reviewer_id !== user.id && (
+            <TouchableOpacity 
+              style={styles.reportButton}
+              onPress={() => setShowReport(true)}
+            >
+              <Flag size={16} color={colors.textSecondary} />
+              <ThemedText style={[styles.replyText, { color: colors.textSecondary }]}>
+                Report
+              </ThemedText>
+            </TouchableOpacity>
+          )}
         </View>
       )}
+
+      <ReportModal
+        visible={showReport}
+        onClose={() => setShowReport(false)}
+        targetType="review"
+        targetId={review.id}
+      />
     </ThemedView>
   );
 }
@@ -519,4 +542,10 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter-Medium',
   },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 8,
+  },
 });
\ No newline at end of file
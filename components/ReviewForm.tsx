@@ -24,6 +24,8 @@ interface ReviewFormProps {
   initialData?: Partial<CreateReviewData>;
   isEdit?: boolean;
   reviewId?: string;
+  // Items of a bundle order, the review can be about one of them
+  lineItems?: { id: string; title: string }[];
 }
 
 export function ReviewForm({ 
@@ -34,7 +36,8 @@ export function ReviewForm({
   revieweeId,
   initialData,
   isEdit = false,
-  reviewId
+  reviewId,
+  lineItems
 }: ReviewFormProps) {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
@@ -44,6 +47,7 @@ export function ReviewForm({
   const [itemAccuracy, setItemAccuracy] = useState(initialData?.item_accuracy || 0);
   const [communication, setCommunication] = useState(initialData?.communication || 0);
   const [shippingSpeed, setShippingSpeed] = useState(initialData?.shipping_speed || 0);
+  const [orderItemId, setOrderItemId] = useState<string | null>(initialData?.order_item_id || null);
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async () => {
@@ -63,6 +67,7 @@ export function ReviewForm({
         item_accuracy: itemAccuracy || undefined,
         communication: communication || undefined,
         shipping_speed: shippingSpeed || undefined,
+        order_item_id: orderItemId || undefined,
       };
 
       let result;
@@ -89,6 +94,7 @@ export function ReviewForm({
       setItemAccuracy(0);
       setCommunication(0);
       setShippingSpeed(0);
+      setOrderItemId(null);
     }
   };
 
@@ -146,6 +152,32 @@ export function ReviewForm({
         </View>
 
         <ScrollView style={styles.content}>
+          {!isEdit && lineItems && lineItems.length > 0 && (
+            <View style={styles.lineItems}>
+              <ThemedText style={styles.sectionTitle}>What are you reviewing?</ThemedText>
+              <View style={styles.lineItemOptions}>
+                {[{ id: null, title: 'The whole order' }, ...lineItems].map(line => (
+                  <TouchableOpacity
+                    key={line.id || 'order'}
+                    style={[
+                      styles.lineItemOption,
+                      { borderColor: orderItemId === line.id ? colors.primary : colors.border },
+                      orderItemId === line.id && { backgroundColor: colors.primary + '20' },
+                    ]}
+                    onPress={() => setOrderItemId(line.id)}
+                  >
+                    <ThemedText
+                      style={[styles.lineItemOptionText, orderItemId === line.id && { color: colors.primary }]}
+                      numberOfLines={1}
+                    >
+                      {line.title}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           <View style={styles.overallRating}>
             <ThemedText style={styles.sectionTitle}>Overall Rating</ThemedText>
             <View style={styles.ratingContainer}>
@@ -237,6 +269,24 @@ const createStyles = (colors: any) => StyleSheet.create({
     flex: 1,
     padding: 20,
   },
+  lineItems: {
+    marginBottom: 24,
+  },
+  lineItemOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  lineItemOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  lineItemOptionText: {
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
   overallRating: {
     marginBottom: 24,
   },
@@ -13,6 +13,7 @@ import { router } from 'expo-router';
 import { Heart, MapPin } from 'lucide-react-native';
 import { SocialService, SocialFeedItem } from '~/lib/social';
 import { useColorScheme } from '~/hooks/useColorScheme';
+import { useFavorites } from '~/hooks/useFavorites';
 import { getColors } from '~/constants/Colors';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
@@ -32,7 +33,7 @@ export function SocialFeed({ onEmptyFeed }: SocialFeedProps) {
   const [refreshing, setRefreshing] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [offset, setOffset] = useState(0);
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const { isFavorite, toggleFavorite } = useFavorites();
 
   useEffect(() => {
     loadItems();
@@ -77,18 +78,6 @@ export function SocialFeed({ onEmptyFeed }: SocialFeedProps) {
     loadItems(true);
   };
 
-  const toggleFavorite = (itemId: string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(itemId)) {
-        newFavorites.delete(itemId);
-      } else {
-        newFavorites.add(itemId);
-      }
-      return newFavorites;
-    });
-  };
-
   const renderItem = ({ item }: { item: SocialFeedItem }) => (
     <TouchableOpacity
       style={[styles.itemContainer, { backgroundColor: colors.background }]}
@@ -102,8 +91,8 @@ export function SocialFeed({ onEmptyFeed }: SocialFeedProps) {
         >
           <Heart
             size={20}
-            color={favorites.has(item.id) ? colors.error : colors.textSecondary}
-            fill={favorites.has(item.id) ? colors.error : 'transparent'}
+            color={isFavorite(item.id) ? colors.error : colors.textSecondary}
+            fill={isFavorite(item.id) ? colors.error : 'transparent'}
           />
         </TouchableOpacity>
       </View>
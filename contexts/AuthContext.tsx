@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { supabase } from '~/lib/supabase';
 import { AuthService, SignUpData, LoginData } from '~/lib/auth';
 import { Session, User } from '@supabase/supabase-js';
+import { AccountStatus } from '~/lib/account-status';
 
 interface UserProfile {
   id: string;
@@ -13,6 +14,9 @@ interface UserProfile {
   last_name?: string;
   phone_verified: boolean;
   email_verified: boolean;
+  account_status?: AccountStatus;
+  suspended_until?: string | null;
+  status_reason?: string | null;
   created_at: string;
 }
 
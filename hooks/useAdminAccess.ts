@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { AdminAccess, AdminAccessService, AdminPermission, hasPermission } from '~/lib/admin-access';
+import { useAuth } from '~/contexts/AuthContext';
+
+// The signed-in user's admin role, null once loaded for users who are not admins
+export function useAdminAccess() {
+  const { user } = useAuth();
+  const [access, setAccess] = useState<AdminAccess | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setAccess(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    AdminAccessService.getAccess()
+      .then(setAccess)
+      .catch(() => setAccess(null))
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  return {
+    access,
+    loading,
+    can: (permission: AdminPermission) => hasPermission(access, permission),
+  };
+}
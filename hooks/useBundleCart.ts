@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BundlesService } from '~/lib/bundles';
+
+// Tracks which items are in the current user's bundle cart and toggles them optimistically
+export function useBundleCart() {
+  const [cartIds, setCartIds] = useState<Set<string>>(new Set());
+
+  const loadCart = useCallback(async () => {
+    const itemIds = await BundlesService.getCartItemIds();
+    setCartIds(new Set(itemIds));
+  }, []);
+
+  useEffect(() => {
+    loadCart();
+  }, [loadCart]);
+
+  const setInCart = (itemId: string, inCart: boolean) => {
+    setCartIds(prev => {
+      const next = new Set(prev);
+      if (inCart) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const toggleCartItem = async (itemId: string) => {
+    const wasInCart = cartIds.has(itemId);
+    setInCart(itemId, !wasInCart);
+
+    try {
+      if (wasInCart) {
+        await BundlesService.removeFromCart([itemId]);
+      } else {
+        await BundlesService.addToCart(itemId);
+      }
+    } catch (error) {
+      // Roll back so the button reflects what is actually saved
+      setInCart(itemId, wasInCart);
+    }
+  };
+
+  return {
+    cartIds,
+    isInCart: (itemId: string) => cartIds.has(itemId),
+    toggleCartItem,
+    reload: loadCart,
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import {
+  CurrencyService,
+  DEFAULT_CURRENCY,
+  ExchangeRates,
+  convertCents,
+  formatMoney,
+} from '~/lib/currency';
+import { formatCents, toCents } from '~/lib/fees';
+
+// Formats prices in the currency they are charged in, with a rough conversion to the viewer's currency
+export function useDisplayCurrency() {
+  const [displayCurrency, setDisplayCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRates>({});
+
+  useEffect(() => {
+    CurrencyService.getUserCurrency().then(setDisplayCurrency);
+    CurrencyService.getRates()
+      .then(setRates)
+      .catch(() => {
+        // Prices still show in their own currency without rates
+      });
+  }, []);
+
+  // The amount in the viewer's currency, null when it already is or the rate is unknown
+  const approximate = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+    if (currency === displayCurrency) return null;
+
+    const cents = convertCents(toCents(amount), currency, displayCurrency, rates);
+    return cents === null ? null : formatCents(cents, displayCurrency);
+  };
+
+  const formatPrice = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+    const converted = approximate(amount, currency);
+    return converted ? `${formatMoney(amount, currency)} (≈ ${converted})` : formatMoney(amount, currency);
+  };
+
+  return {
+    displayCurrency,
+    rates,
+    approximate,
+    formatPrice,
+  };
+}
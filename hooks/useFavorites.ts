@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FavoritesService } from '~/lib/favorites';
+
+// Tracks which items the current user has favorited and toggles them optimistically
+export function useFavorites() {
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+
+  const loadFavorites = useCallback(async () => {
+    const itemIds = await FavoritesService.getFavoriteItemIds();
+    setFavoriteIds(new Set(itemIds));
+  }, []);
+
+  useEffect(() => {
+    loadFavorites();
+  }, [loadFavorites]);
+
+  const setFavorite = (itemId: string, favorited: boolean) => {
+    setFavoriteIds(prev => {
+      const next = new Set(prev);
+      if (favorited) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const toggleFavorite = async (itemId: string) => {
+    const wasFavorite = favoriteIds.has(itemId);
+    setFavorite(itemId, !wasFavorite);
+
+    try {
+      if (wasFavorite) {
+        await FavoritesService.removeFavorite(itemId);
+      } else {
+        await FavoritesService.addFavorite(itemId);
+      }
+    } catch (error) {
+      // Roll back so the heart reflects what is actually saved
+      setFavorite(itemId, wasFavorite);
+    }
+  };
+
+  return {
+    favoriteIds,
+    isFavorite: (itemId: string) => favoriteIds.has(itemId),
+    toggleFavorite,
+    reload: loadFavorites,
+  };
+}
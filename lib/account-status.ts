@@ -0,0 +1,107 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Database } from '../types/database';
+
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected' | 'closed';
+
+// Whether a user may list, message and buy
+export interface AccountStanding {
+  account_status: AccountStatus;
+  suspended_until: string | null;
+  status_reason: string | null;
+}
+
+export interface AccountAppeal {
+  id: string;
+  user_id: string;
+  account_status: Exclude<AccountStatus, 'active'>;
+  message: string;
+  status: AppealStatus;
+  response?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+// Suspensions stop applying at their end date, before the job reinstates the user
+export const isRestricted = (standing: AccountStanding | null | undefined) =>
+  !!standing && (
+    standing.account_status === 'banned' ||
+    (standing.account_status === 'suspended' &&
+      !!standing.suspended_until &&
+      new Date(standing.suspended_until).getTime() > Date.now())
+  );
+
+export const restrictionMessage = (standing: AccountStanding) =>
+  standing.account_status === 'banned'
+    ? 'Your account is banned'
+    : `Your account is suspended until ${new Date(standing.suspended_until!).toLocaleString()}`;
+
+export class AccountStatusService {
+  // Get a user's account status, API routes pass the caller's client
+  static async getStanding(
+    userId: string,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<AccountStanding> {
+    try {
+      const { data, error } = await client
+        .from('profiles')
+        .select('account_status, suspended_until, status_reason')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+      return data as AccountStanding;
+    } catch (error) {
+      console.error('Get account standing error:', error);
+      throw error;
+    }
+  }
+
+  // Throw with the reason shown to the user when they may not list, message or buy
+  static async assertInGoodStanding(
+    userId: string,
+    client: SupabaseClient<Database> = supabase
+  ): Promise<void> {
+    const standing = await this.getStanding(userId, client);
+    if (isRestricted(standing)) {
+      throw new Error(restrictionMessage(standing));
+    }
+  }
+
+  // Get the current user's appeals, newest first
+  static async getMyAppeals(): Promise<AccountAppeal[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('account_appeals')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get appeals error:', error);
+      throw error;
+    }
+  }
+
+  // Appeal the current user's suspension or ban
+  static async submitAppeal(message: string): Promise<AccountAppeal> {
+    try {
+      const { data, error } = await supabase.rpc('submit_account_appeal', {
+        p_message: message.trim(),
+      });
+
+      if (error) throw error;
+      return data as AccountAppeal;
+    } catch (error) {
+      console.error('Submit appeal error:', error);
+      throw error;
+    }
+  }
+}
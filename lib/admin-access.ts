@@ -0,0 +1,221 @@
+import { supabase } from './supabase';
+
+export type AdminRole = 'super_admin' | 'support' | 'finance' | 'moderator';
+
+export type AdminPermission =
+  | 'dashboard.view'
+  | 'users.view'
+  | 'users.manage'
+  | 'items.view'
+  | 'items.moderate'
+  | 'reports.manage'
+  | 'orders.view'
+  | 'orders.manage'
+  | 'orders.refund'
+  | 'disputes.view'
+  | 'disputes.manage'
+  | 'finance.view'
+  | 'analytics.view'
+  | 'settings.view'
+  | 'settings.manage'
+  | 'fee_rules.manage'
+  | 'integrations.manage'
+  | 'admins.manage'
+  | 'audit.view';
+
+// The current user's admin role and everything it grants
+export interface AdminAccess {
+  role: AdminRole;
+  permissions: AdminPermission[];
+}
+
+export interface AdminTeamMember {
+  user_id: string;
+  role: AdminRole;
+  created_at: string;
+  profile: {
+    id: string;
+    nickname: string;
+    email: string;
+    profile_picture?: string;
+  };
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  actor_id?: string;
+  actor_role?: AdminRole;
+  action: string;
+  target_type: string;
+  target_id?: string;
+  details: Record<string, unknown>;
+  created_at: string;
+  actor?: {
+    id: string;
+    nickname: string;
+  };
+}
+
+// Mirrors the admin_roles table
+export const ADMIN_ROLES: { key: AdminRole; name: string; description: string }[] = [
+  { key: 'super_admin', name: 'Super Admin', description: 'Full access, including the admin team and the audit log' },
+  { key: 'support', name: 'Support Agent', description: 'Helps users with their orders and handles disputes' },
+  { key: 'finance', name: 'Finance', description: 'Payments, refunds, fees, payouts and the ledger' },
+  { key: 'moderator', name: 'Moderator', description: 'Reviews users and listings' },
+];
+
+// Permission each admin screen needs, keyed by its route under /admin
+export const ADMIN_SCREEN_PERMISSIONS: Record<string, AdminPermission> = {
+  index: 'dashboard.view',
+  users: 'users.view',
+  items: 'items.view',
+  reports: 'reports.manage',
+  orders: 'orders.view',
+  disputes: 'disputes.view',
+  analytics: 'analytics.view',
+  settings: 'settings.view',
+  'fee-rules': 'fee_rules.manage',
+  'delivery-api': 'integrations.manage',
+  'stripe-events': 'finance.view',
+  'audit-log': 'audit.view',
+  team: 'admins.manage',
+};
+
+export const hasPermission = (access: AdminAccess | null, permission: AdminPermission) =>
+  !!access && access.permissions.includes(permission);
+
+export const adminRoleName = (role?: string) =>
+  ADMIN_ROLES.find(adminRole => adminRole.key === role)?.name || role || 'Admin';
+
+export class AdminAccessService {
+  private static cache: { userId: string; access: AdminAccess | null } | null = null;
+
+  // Get the current user's admin role and permissions, null when they are not an admin
+  static async getAccess(options: { fresh?: boolean } = {}): Promise<AdminAccess | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      if (!options.fresh && this.cache?.userId === user.id) {
+        return this.cache.access;
+      }
+
+      const { data, error } = await supabase.rpc('get_admin_access');
+
+      if (error) throw error;
+
+      this.cache = { userId: user.id, access: data };
+      return data;
+    } catch (error) {
+      console.error('Get admin access error:', error);
+      throw error;
+    }
+  }
+
+  // Get everyone with admin rights and their role
+  static async getTeam(): Promise<AdminTeamMember[]> {
+    try {
+      const { data, error } = await supabase
+        .from('platform_admins')
+        .select(`
+          user_id,
+          role,
+          created_at,
+          profile:profiles(id, nickname, email, profile_picture)
+        `)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as AdminTeamMember[];
+    } catch (error) {
+      console.error('Get admin team error:', error);
+      throw error;
+    }
+  }
+
+  // Give a user an admin role, or change the role they have
+  static async setRole(userId: string, role: AdminRole): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('set_admin_role', {
+        p_user_id: userId,
+        p_role: role,
+      });
+
+      if (error) throw error;
+      this.cache = null;
+    } catch (error) {
+      console.error('Set admin role error:', error);
+      throw error;
+    }
+  }
+
+  // Add an admin by the email they signed up with
+  static async addAdmin(email: string, role: AdminRole): Promise<void> {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', email.trim().toLowerCase())
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!profile) throw new Error('No user with that email');
+
+      await this.setRole(profile.id, role);
+    } catch (error) {
+      console.error('Add admin error:', error);
+      throw error;
+    }
+  }
+
+  // Take away a user's admin rights
+  static async removeAdmin(userId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('remove_admin', {
+        p_user_id: userId,
+      });
+
+      if (error) throw error;
+      this.cache = null;
+    } catch (error) {
+      console.error('Remove admin error:', error);
+      throw error;
+    }
+  }
+
+  // Get a page of the admin audit log, newest first
+  static async getAuditLog(
+    filters: { action?: string; actorId?: string; targetId?: string } = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+    try {
+      let query = supabase
+        .from('admin_audit_log')
+        .select('*, actor:profiles(id, nickname)', { count: 'exact' });
+
+      if (filters.action) {
+        query = query.like('action', `${filters.action}%`);
+      }
+
+      if (filters.actorId) {
+        query = query.eq('actor_id', filters.actorId);
+      }
+
+      if (filters.targetId) {
+        query = query.eq('target_id', filters.targetId);
+      }
+
+      const from = (page - 1) * limit;
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + limit - 1);
+
+      if (error) throw error;
+      return { entries: data || [], total: count || 0 };
+    } catch (error) {
+      console.error('Get audit log error:', error);
+      throw error;
+    }
+  }
+}
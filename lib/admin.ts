@@ -1,4 +1,11 @@
 import { supabase } from './supabase';
+import { AdminSettings, SettingsService, SettingsVersion } from './settings';
+import { DisputeOutcome, DisputeResolution } from './disputes';
+import { AccountAppeal, AccountStatus } from './account-status';
+import { ReportTargetType } from './reports';
+
+export type { AdminSettings, SettingsVersion } from './settings';
+export type { DisputeOutcome, DisputeResolution } from './disputes';
 
 export interface DashboardStats {
   revenue: {
@@ -62,7 +69,10 @@ export interface AdminUser {
   profile_picture?: string;
   first_name?: string;
   last_name?: string;
-  status: 'active' | 'suspended';
+  status: AccountStatus;
+  suspended_until?: string | null;
+  status_reason?: string | null;
+  pending_appeal?: AccountAppeal | null;
   created_at: string;
   updated_at?: string;
   last_login?: string;
@@ -90,7 +100,7 @@ export interface AdminItem {
   brand: string;
   category: string;
   condition: string;
-  status: 'active' | 'sold' | 'removed' | 'flagged';
+  status: 'active' | 'reserved' | 'sold' | 'removed' | 'flagged' | 'pending_review';
   seller: {
     id: string;
     nickname: string;
@@ -99,6 +109,8 @@ export interface AdminItem {
   };
   created_at: string;
   updated_at?: string;
+  risk_score: number;
+  risk_signals: string[];
   reports_count: number;
   views_count?: number;
   likes_count?: number;
@@ -110,6 +122,48 @@ export interface AdminItem {
   };
 }
 
+export type ModerationAction = 'approve' | 'reject' | 'flag' | 'remove';
+
+// Matches the moderation_reasons table, sellers see the longer label there
+export const MODERATION_REASONS: { code: string; label: string }[] = [
+  { code: 'prohibited_item', label: 'Prohibited item' },
+  { code: 'counterfeit', label: 'Counterfeit' },
+  { code: 'misleading_description', label: 'Misleading description' },
+  { code: 'inappropriate_images', label: 'Inappropriate photos' },
+  { code: 'wrong_category', label: 'Wrong category' },
+  { code: 'spam', label: 'Spam or duplicate' },
+  { code: 'other', label: 'Other' },
+];
+
+export interface ModerationDecision {
+  id: string;
+  item_id: string;
+  action: ModerationAction;
+  reason_code: string | null;
+  note: string | null;
+  previous_status: string;
+  new_status: string;
+  moderator?: {
+    id: string;
+    nickname: string;
+  } | null;
+  created_at: string;
+}
+
+export interface AdminReportGroup {
+  target_type: ReportTargetType;
+  target_id: string;
+  report_count: number;
+  reasons: string[];
+  details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+  summary: string | null;
+  owner_id: string | null;
+  owner_nickname: string | null;
+  is_hidden: boolean;
+}
+
 export interface AdminOrder {
   id: string;
   item: {
@@ -155,14 +209,20 @@ export interface AdminDispute {
   id: string;
   order_id: string;
   order: {
+    id?: string;
+    total_amount?: number;
+    status?: string;
+    payment_intent_id?: string;
     item: {
       title: string;
       price: number;
     };
     buyer: {
+      id?: string;
       nickname: string;
     };
     seller: {
+      id?: string;
       nickname: string;
     };
   };
@@ -176,6 +236,9 @@ export interface AdminDispute {
   updated_at?: string;
   resolved_at?: string;
   resolution?: string;
+  resolution_outcome?: DisputeOutcome;
+  refund_amount?: number;
+  seller_amount_released?: number;
   assigned_to?: string;
   evidence?: {
     buyer_evidence: string[];
@@ -184,29 +247,24 @@ export interface AdminDispute {
   resolution_time?: number; // in hours
 }
 
-export interface AdminSettings {
-  platform: {
-    autoModeration: boolean;
-    maintenanceMode: boolean;
-    newUserRegistration: boolean;
-    itemAutoApproval: boolean;
-  };
-  notifications: {
-    emailNotifications: boolean;
-    smsNotifications: boolean;
-    disputeAutoAssignment: boolean;
-  };
-  fees: {
-    transactionFee: number;
-    listingFee: number;
-    payoutFee: number;
-  };
-  delivery: {
-    apiEnabled: boolean;
-    apiKey: string;
-    webhookUrl?: string;
-  };
-}
+const ADMIN_ITEM_SELECT = `
+  *,
+  seller:profiles!items_seller_id_fkey(id, nickname, profile_picture)
+`;
+
+const ADMIN_DISPUTE_SELECT = `
+  *,
+  order:orders(
+    id,
+    total_amount,
+    status,
+    payment_intent_id,
+    item:items(title, price),
+    buyer:profiles!orders_buyer_id_fkey(id, nickname),
+    seller:profiles!orders_seller_id_fkey(id, nickname)
+  ),
+  evidence:dispute_evidence(user_id, evidence_type, content)
+`;
 
 export class AdminService {
   // Get dashboard statistics with time range filter
@@ -545,7 +603,7 @@ export class AdminService {
   // Get all users with admin data
   static async getUsers(
     search?: string,
-    status?: 'active' | 'suspended',
+    status?: AccountStatus,
     sortBy: 'created_at' | 'nickname' | 'orders_count' | 'total_spent' = 'created_at',
     sortOrder: 'asc' | 'desc' = 'desc',
     page: number = 1,
@@ -559,7 +617,8 @@ export class AdminService {
           items:items(count),
           buyer_orders:orders!orders_buyer_id_fkey(count, total_amount),
           seller_orders:orders!orders_seller_id_fkey(count),
-          wallet:wallets(total_earned)
+          wallet:wallets(total_earned),
+          appeals:account_appeals!account_appeals_user_id_fkey(*)
         `, { count: 'exact' });
 
       // Apply search filter
@@ -567,10 +626,9 @@ export class AdminService {
         query = query.or(`nickname.ilike.%${search}%,email.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%`);
       }
 
-      // Apply status filter (in a real app, this would be a column in the profiles table)
+      // Apply status filter
       if (status) {
-        // This is a mock implementation since we don't have a status column
-        // In a real app, you would use: query = query.eq('status', status);
+        query = query.eq('account_status', status);
       }
 
       // Calculate pagination
@@ -601,7 +659,10 @@ export class AdminService {
         profile_picture: user.profile_picture,
         first_name: user.first_name,
         last_name: user.last_name,
-        status: 'active' as 'active', // In real app, this would come from user table
+        status: user.account_status,
+        suspended_until: user.suspended_until,
+        status_reason: user.status_reason,
+        pending_appeal: pendingAppeal(user.appeals),
         created_at: user.created_at,
         updated_at: user.updated_at,
         items_count: user.items?.[0]?.count || 0,
@@ -615,10 +676,15 @@ export class AdminService {
         },
         flags: {
           suspicious_activity: false, // Mock data
-          reported_count: 0, // Mock data
+          reported_count: 0,
         }
       }));
 
+      const reportCounts = await openReportCounts('profile', users.map(user => user.id));
+      users.forEach(user => {
+        user.flags.reported_count = reportCounts[user.id] || 0;
+      });
+
       return { users, total: count || 0 };
     } catch (error) {
       console.error('Get users error:', error);
@@ -636,13 +702,16 @@ export class AdminService {
           items:items(count),
           buyer_orders:orders!orders_buyer_id_fkey(count, total_amount),
           seller_orders:orders!orders_seller_id_fkey(count),
-          wallet:wallets(total_earned)
+          wallet:wallets(total_earned),
+          appeals:account_appeals!account_appeals_user_id_fkey(*)
         `)
         .eq('id', userId)
         .single();
 
       if (error) throw error;
 
+      const reportCounts = await openReportCounts('profile', [data.id]);
+
       return {
         id: data.id,
         email: data.email,
@@ -651,7 +720,10 @@ export class AdminService {
         profile_picture: data.profile_picture,
         first_name: data.first_name,
         last_name: data.last_name,
-        status: 'active', // In real app, this would come from user table
+        status: data.account_status,
+        suspended_until: data.suspended_until,
+        status_reason: data.status_reason,
+        pending_appeal: pendingAppeal(data.appeals),
         created_at: data.created_at,
         updated_at: data.updated_at,
         items_count: data.items?.[0]?.count || 0,
@@ -665,7 +737,7 @@ export class AdminService {
         },
         flags: {
           suspicious_activity: false, // Mock data
-          reported_count: 0, // Mock data
+          reported_count: reportCounts[data.id] || 0,
         }
       };
     } catch (error) {
@@ -674,31 +746,49 @@ export class AdminService {
     }
   }
 
-  // Moderate user (suspend, activate, delete)
-  static async moderateUser(userId: string, action: 'suspend' | 'activate' | 'delete'): Promise<void> {
+  // Suspend a user until a date, ban them, or reinstate them
+  static async moderateUser(
+    userId: string,
+    action: 'suspend' | 'ban' | 'activate',
+    options: { reason?: string; suspendedUntil?: Date } = {}
+  ): Promise<void> {
     try {
-      if (action === 'delete') {
-        const { error } = await supabase
-          .from('profiles')
-          .delete()
-          .eq('id', userId);
-        
-        if (error) throw error;
-      } else {
-        // In a real app, you would update a status field
-        // For now, we'll just simulate the action
-        console.log(`User ${userId} ${action}d`);
-      }
+      const status: AccountStatus = action === 'activate' ? 'active' : action === 'suspend' ? 'suspended' : 'banned';
+
+      const { error } = await supabase.rpc('set_account_status', {
+        p_user_id: userId,
+        p_status: status,
+        p_reason: options.reason?.trim() || null,
+        p_suspended_until: action === 'suspend' ? options.suspendedUntil?.toISOString() ?? null : null,
+      });
+
+      if (error) throw error;
     } catch (error) {
       console.error('Moderate user error:', error);
       throw error;
     }
   }
 
+  // Accept or reject a user's appeal, accepting reinstates them
+  static async reviewAppeal(appealId: string, accept: boolean, response?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('review_account_appeal', {
+        p_appeal_id: appealId,
+        p_accept: accept,
+        p_response: response?.trim() || null,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Review appeal error:', error);
+      throw error;
+    }
+  }
+
   // Get all items with admin data
   static async getItems(
     search?: string,
-    status?: 'active' | 'flagged' | 'removed' | 'sold',
+    status?: 'active' | 'flagged' | 'removed' | 'sold' | 'pending_review',
     category?: string,
     reportedOnly?: boolean,
     sortBy: 'created_at' | 'price' | 'title' | 'reports_count' = 'created_at',
@@ -709,10 +799,7 @@ export class AdminService {
     try {
       let query = supabase
         .from('items')
-        .select(`
-          *,
-          seller:profiles!items_seller_id_fkey(id, nickname, profile_picture)
-        `, { count: 'exact' });
+        .select(ADMIN_ITEM_SELECT, { count: 'exact' });
 
       // Apply search filter
       if (search) {
@@ -729,10 +816,16 @@ export class AdminService {
         query = query.eq('category', category);
       }
 
-      // Apply reported only filter (in a real app)
+      // Apply reported only filter
       if (reportedOnly) {
-        // This would require a reports table in a real app
-        // query = query.gt('reports_count', 0);
+        const { data: reported, error: reportedError } = await supabase
+          .from('reports')
+          .select('target_id')
+          .eq('target_type', 'item')
+          .eq('status', 'open');
+
+        if (reportedError) throw reportedError;
+        query = query.in('id', [...new Set((reported || []).map(report => report.target_id))]);
       }
 
       // Calculate pagination
@@ -746,34 +839,7 @@ export class AdminService {
 
       if (error) throw error;
 
-      const items = (data || []).map(item => ({
-        id: item.id,
-        title: item.title,
-        description: item.description,
-        price: item.price,
-        images: item.images || [],
-        brand: item.brand,
-        category: item.category,
-        condition: item.condition,
-        status: item.status,
-        seller: {
-          id: item.seller.id,
-          nickname: item.seller.nickname,
-          profile_picture: item.seller.profile_picture,
-          rating: 4.5, // Mock data
-        },
-        created_at: item.created_at,
-        updated_at: item.updated_at,
-        reports_count: Math.floor(Math.random() * 5), // Mock data
-        views_count: Math.floor(Math.random() * 100), // Mock data
-        likes_count: Math.floor(Math.random() * 20), // Mock data
-        flags: {
-          prohibited_item: false,
-          counterfeit: false,
-          inappropriate: false,
-          misleading: false,
-        }
-      }));
+      const items = await withReportCounts((data || []).map(mapAdminItem));
 
       return { items, total: count || 0 };
     } catch (error) {
@@ -787,79 +853,127 @@ export class AdminService {
     try {
       const { data, error } = await supabase
         .from('items')
-        .select(`
-          *,
-          seller:profiles!items_seller_id_fkey(id, nickname, profile_picture)
-        `)
+        .select(ADMIN_ITEM_SELECT)
         .eq('id', itemId)
         .single();
 
       if (error) throw error;
 
-      return {
-        id: data.id,
-        title: data.title,
-        description: data.description,
-        price: data.price,
-        images: data.images || [],
-        brand: data.brand,
-        category: data.category,
-        condition: data.condition,
-        status: data.status,
-        seller: {
-          id: data.seller.id,
-          nickname: data.seller.nickname,
-          profile_picture: data.seller.profile_picture,
-          rating: 4.5, // Mock data
-        },
-        created_at: data.created_at,
-        updated_at: data.updated_at,
-        reports_count: Math.floor(Math.random() * 5), // Mock data
-        views_count: Math.floor(Math.random() * 100), // Mock data
-        likes_count: Math.floor(Math.random() * 20), // Mock data
-        flags: {
-          prohibited_item: false,
-          counterfeit: false,
-          inappropriate: false,
-          misleading: false,
-        }
-      };
+      const [item] = await withReportCounts([mapAdminItem(data)]);
+      return item;
     } catch (error) {
       console.error('Get item details error:', error);
       throw error;
     }
   }
 
-  // Moderate item (approve, flag, remove)
-  static async moderateItem(itemId: string, action: 'approve' | 'flag' | 'remove'): Promise<void> {
+  // Get listings waiting for a moderator, riskiest first and oldest first within the same risk
+  static async getModerationQueue(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ items: AdminItem[], total: number }> {
     try {
-      const status = action === 'approve' ? 'active' : action === 'flag' ? 'flagged' : 'removed';
-      
-      const { error } = await supabase
+      const from = (page - 1) * limit;
+      const to = from + limit - 1;
+
+      const { data, error, count } = await supabase
         .from('items')
-        .update({ 
-          status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', itemId);
+        .select(ADMIN_ITEM_SELECT, { count: 'exact' })
+        .in('status', ['pending_review', 'flagged'])
+        .order('risk_score', { ascending: false })
+        .order('created_at', { ascending: true })
+        .range(from, to);
+
+      if (error) throw error;
+
+      return { items: await withReportCounts((data || []).map(mapAdminItem)), total: count || 0 };
+    } catch (error) {
+      console.error('Get moderation queue error:', error);
+      throw error;
+    }
+  }
+
+  // Get the moderation decisions on a listing, newest first
+  static async getModerationHistory(itemId: string): Promise<ModerationDecision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('moderation_history')
+        .select(`
+          *,
+          moderator:profiles!moderation_history_moderator_id_fkey(id, nickname)
+        `)
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get moderation history error:', error);
+      throw error;
+    }
+  }
+
+  // Moderate item, every action but approve needs a reason code
+  static async moderateItem(
+    itemId: string,
+    action: ModerationAction,
+    reasonCode?: string,
+    note?: string
+  ): Promise<ModerationDecision> {
+    try {
+      const { data, error } = await supabase.rpc('moderate_item', {
+        p_item_id: itemId,
+        p_action: action,
+        p_reason_code: reasonCode ?? null,
+        p_note: note?.trim() || null,
+      });
 
-      // Add to moderation history (in a real app)
-      // await supabase
-      //   .from('moderation_history')
-      //   .insert({
-      //     item_id: itemId,
-      //     action,
-      //     moderator_id: 'admin', // This would be the actual admin user ID
-      //     created_at: new Date().toISOString()
-      //   });
+      if (error) throw error;
+      return data as ModerationDecision;
     } catch (error) {
       console.error('Moderate item error:', error);
       throw error;
     }
   }
 
+  // Get open reports grouped by what was reported, most reported first
+  static async getReportQueue(targetType?: ReportTargetType): Promise<AdminReportGroup[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_report_queue', {
+        p_target_type: targetType ?? null,
+      });
+
+      if (error) throw error;
+      return (data || []) as AdminReportGroup[];
+    } catch (error) {
+      console.error('Get report queue error:', error);
+      throw error;
+    }
+  }
+
+  // Close every open report on a target, dismissing brings back anything the reports hid
+  static async resolveReports(
+    targetType: ReportTargetType,
+    targetId: string,
+    resolution: 'actioned' | 'dismissed',
+    note?: string
+  ): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('resolve_reports', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_resolution: resolution,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data as number;
+    } catch (error) {
+      console.error('Resolve reports error:', error);
+      throw error;
+    }
+  }
+
   // Get all orders with admin data
   static async getOrders(
     search?: string,
@@ -1022,29 +1136,16 @@ export class AdminService {
     }
   }
 
-  // Update order status
+  // Update order status, checked against the order state machine
   static async updateOrderStatus(orderId: string, status: string, notes?: string): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId);
+      const { error } = await supabase.rpc('transition_order_status', {
+        p_order_id: orderId,
+        p_status: status,
+        p_notes: notes ?? null,
+      });
 
       if (error) throw error;
-
-      // Add to order history (in a real app)
-      // await supabase
-      //   .from('order_history')
-      //   .insert({
-      //     order_id: orderId,
-      //     status,
-      //     notes,
-      //     created_by: 'admin', // This would be the actual admin user ID
-      //     created_at: new Date().toISOString()
-      //   });
     } catch (error) {
       console.error('Update order status error:', error);
       throw error;
@@ -1062,196 +1163,45 @@ export class AdminService {
     limit: number = 20
   ): Promise<{ disputes: AdminDispute[], total: number }> {
     try {
-      // In a real app, this would query the disputes table
-      // For now, we'll return mock data
-      const mockDisputes: AdminDispute[] = [
-        {
-          id: '1',
-          order_id: 'order-1',
-          order: {
-            item: {
-              title: 'Vintage Denim Jacket',
-              price: 45,
-            },
-            buyer: {
-              nickname: 'john_doe',
-            },
-            seller: {
-              nickname: 'sarah_style',
-            },
-          },
-          reporter_id: 'user-1',
-          reported_id: 'user-2',
-          type: 'item_not_as_described',
-          description: 'Item has significant wear not mentioned in description',
-          status: 'open',
-          priority: 'medium',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          assigned_to: 'admin-1',
-          evidence: {
-            buyer_evidence: ['https://example.com/evidence1.jpg'],
-            seller_evidence: [],
-          },
-        },
-        {
-          id: '2',
-          order_id: 'order-2',
-          order: {
-            item: {
-              title: 'Designer Handbag',
-              price: 125,
-            },
-            buyer: {
-              nickname: 'emma_k',
-            },
-            seller: {
-              nickname: 'lisa_r',
-            },
-          },
-          reporter_id: 'user-3',
-          reported_id: 'user-4',
-          type: 'item_not_received',
-          description: 'Item was never delivered despite payment',
-          status: 'investigating',
-          priority: 'high',
-          created_at: new Date(Date.now() - 86400000).toISOString(),
-          updated_at: new Date(Date.now() - 43200000).toISOString(),
-          assigned_to: 'admin-2',
-          evidence: {
-            buyer_evidence: ['https://example.com/evidence2.jpg'],
-            seller_evidence: ['https://example.com/evidence3.jpg'],
-          },
-        },
-        {
-          id: '3',
-          order_id: 'order-3',
-          order: {
-            item: {
-              title: 'Leather Boots',
-              price: 85,
-            },
-            buyer: {
-              nickname: 'mike_j',
-            },
-            seller: {
-              nickname: 'footwear_pro',
-            },
-          },
-          reporter_id: 'user-5',
-          reported_id: 'user-6',
-          type: 'payment_issue',
-          description: 'Payment was processed but order shows as pending',
-          status: 'resolved',
-          priority: 'medium',
-          created_at: new Date(Date.now() - 172800000).toISOString(),
-          updated_at: new Date(Date.now() - 86400000).toISOString(),
-          resolved_at: new Date(Date.now() - 86400000).toISOString(),
-          resolution: 'Payment confirmed and order status updated',
-          assigned_to: 'admin-1',
-          resolution_time: 24,
-        },
-        {
-          id: '4',
-          order_id: 'order-4',
-          order: {
-            item: {
-              title: 'Summer Dress',
-              price: 38,
-            },
-            buyer: {
-              nickname: 'fashion_lover',
-            },
-            seller: {
-              nickname: 'summer_styles',
-            },
-          },
-          reporter_id: 'user-7',
-          reported_id: 'user-8',
-          type: 'other',
-          description: 'Seller is not responding to messages',
-          status: 'open',
-          priority: 'low',
-          created_at: new Date(Date.now() - 43200000).toISOString(),
-          updated_at: new Date(Date.now() - 43200000).toISOString(),
-          assigned_to: 'admin-3',
-        },
-        {
-          id: '5',
-          order_id: 'order-5',
-          order: {
-            item: {
-              title: 'Vintage Watch',
-              price: 150,
-            },
-            buyer: {
-              nickname: 'collector123',
-            },
-            seller: {
-              nickname: 'vintage_finds',
-            },
-          },
-          reporter_id: 'user-9',
-          reported_id: 'user-10',
-          type: 'item_not_as_described',
-          description: 'Watch is not authentic as claimed in the listing',
-          status: 'investigating',
-          priority: 'high',
-          created_at: new Date(Date.now() - 129600000).toISOString(),
-          updated_at: new Date(Date.now() - 86400000).toISOString(),
-          assigned_to: 'admin-2',
-          evidence: {
-            buyer_evidence: ['https://example.com/evidence4.jpg', 'https://example.com/evidence5.jpg'],
-            seller_evidence: ['https://example.com/evidence6.jpg'],
-          },
-        },
-      ];
+      let query = supabase
+        .from('disputes')
+        .select(ADMIN_DISPUTE_SELECT, { count: 'exact' });
 
-      // Filter disputes based on search, status, and priority
-      let filteredDisputes = [...mockDisputes];
-      
+      // Apply search filter
       if (search) {
-        const searchLower = search.toLowerCase();
-        filteredDisputes = filteredDisputes.filter(dispute => 
-          dispute.order.item.title.toLowerCase().includes(searchLower) ||
-          dispute.order.buyer.nickname.toLowerCase().includes(searchLower) ||
-          dispute.order.seller.nickname.toLowerCase().includes(searchLower) ||
-          dispute.id.toLowerCase().includes(searchLower)
-        );
+        query = query.ilike('description', `%${search}%`);
       }
-      
+
+      // Apply status and priority filters
       if (status) {
-        filteredDisputes = filteredDisputes.filter(dispute => dispute.status === status);
+        query = query.eq('status', status);
       }
-      
+
       if (priority) {
-        filteredDisputes = filteredDisputes.filter(dispute => dispute.priority === priority);
+        query = query.eq('priority', priority);
       }
 
-      // Sort disputes
-      filteredDisputes.sort((a, b) => {
-        if (sortBy === 'created_at') {
-          return sortOrder === 'asc' 
-            ? new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-            : new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-        } else if (sortBy === 'priority') {
-          const priorityOrder = { high: 0, medium: 1, low: 2 };
-          return sortOrder === 'asc'
-            ? priorityOrder[a.priority] - priorityOrder[b.priority]
-            : priorityOrder[b.priority] - priorityOrder[a.priority];
-        } else if (sortBy === 'status') {
-          const statusOrder = { open: 0, investigating: 1, resolved: 2, closed: 3 };
-          return sortOrder === 'asc'
-            ? statusOrder[a.status as keyof typeof statusOrder] - statusOrder[b.status as keyof typeof statusOrder]
-            : statusOrder[b.status as keyof typeof statusOrder] - statusOrder[a.status as keyof typeof statusOrder];
-        }
-        return 0;
-      });
+      // Calculate pagination
+      const from = (page - 1) * limit;
+      const to = from + limit - 1;
 
-      // Apply pagination
-      const paginatedDisputes = filteredDisputes.slice((page - 1) * limit, page * limit);
+      // Priority is stored as text, so it is ordered after fetching
+      const { data, error, count } = await query
+        .order(sortBy === 'priority' ? 'created_at' : sortBy, { ascending: sortOrder === 'asc' })
+        .range(from, to);
+
+      if (error) throw error;
+
+      const disputes: AdminDispute[] = (data || []).map(mapAdminDispute);
 
-      return { disputes: paginatedDisputes, total: filteredDisputes.length };
+      if (sortBy === 'priority') {
+        const priorityOrder = { high: 0, medium: 1, low: 2 };
+        disputes.sort((a, b) => sortOrder === 'asc'
+          ? priorityOrder[a.priority] - priorityOrder[b.priority]
+          : priorityOrder[b.priority] - priorityOrder[a.priority]);
+      }
+
+      return { disputes, total: count || 0 };
     } catch (error) {
       console.error('Get disputes error:', error);
       throw error;
@@ -1261,60 +1211,49 @@ export class AdminService {
   // Get dispute details
   static async getDisputeDetails(disputeId: string): Promise<AdminDispute> {
     try {
-      // In a real app, this would query the disputes table
-      // For now, we'll return mock data
-      const mockDispute: AdminDispute = {
-        id: disputeId,
-        order_id: 'order-1',
-        order: {
-          item: {
-            title: 'Vintage Denim Jacket',
-            price: 45,
-          },
-          buyer: {
-            nickname: 'john_doe',
-          },
-          seller: {
-            nickname: 'sarah_style',
-          },
-        },
-        reporter_id: 'user-1',
-        reported_id: 'user-2',
-        type: 'item_not_as_described',
-        description: 'Item has significant wear not mentioned in description. The jacket has several tears and stains that were not disclosed in the listing. The seller claimed it was in "good" condition but its barely wearable. Ive attached photos showing the damage.',
-        status: 'open',
-        priority: 'medium',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        assigned_to: 'admin-1',
-        evidence: {
-          buyer_evidence: [
-            'https://images.pexels.com/photos/1598508/pexels-photo-1598508.jpeg?auto=compress&cs=tinysrgb&w=600&h=800&dpr=2',
-            'https://images.pexels.com/photos/1598507/pexels-photo-1598507.jpeg?auto=compress&cs=tinysrgb&w=600&h=800&dpr=2'
-          ],
-          seller_evidence: [
-            'https://images.pexels.com/photos/1598509/pexels-photo-1598509.jpeg?auto=compress&cs=tinysrgb&w=600&h=800&dpr=2'
-          ],
-        },
-      };
+      const { data, error } = await supabase
+        .from('disputes')
+        .select(ADMIN_DISPUTE_SELECT)
+        .eq('id', disputeId)
+        .single();
+
+      if (error) throw error;
 
-      return mockDispute;
+      return mapAdminDispute(data);
     } catch (error) {
       console.error('Get dispute details error:', error);
       throw error;
     }
   }
 
-  // Resolve dispute
-  static async resolveDispute(disputeId: string, resolution: string, refundAmount?: number): Promise<void> {
+  // Resolve dispute, refunding the buyer and/or releasing escrow to the seller
+  static async resolveDispute(
+    disputeId: string,
+    outcome: DisputeOutcome,
+    resolution: string,
+    refundAmount?: number
+  ): Promise<DisputeResolution> {
     try {
-      // In a real app, this would update the dispute in the database
-      console.log(`Dispute ${disputeId} resolved: ${resolution}`);
-      
-      if (refundAmount) {
-        console.log(`Refund amount: $${refundAmount}`);
-        // Process refund logic would go here
+      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/disputes/${disputeId}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+        body: JSON.stringify({
+          outcome,
+          resolution,
+          refund_amount: refundAmount,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to resolve dispute');
       }
+
+      return result;
     } catch (error) {
       console.error('Resolve dispute error:', error);
       throw error;
@@ -1324,8 +1263,12 @@ export class AdminService {
   // Assign dispute to admin
   static async assignDispute(disputeId: string, adminId: string): Promise<void> {
     try {
-      // In a real app, this would update the dispute in the database
-      console.log(`Dispute ${disputeId} assigned to admin ${adminId}`);
+      const { error } = await supabase.rpc('assign_dispute', {
+        p_dispute_id: disputeId,
+        p_admin_id: adminId,
+      });
+
+      if (error) throw error;
     } catch (error) {
       console.error('Assign dispute error:', error);
       throw error;
@@ -1335,8 +1278,12 @@ export class AdminService {
   // Update dispute priority
   static async updateDisputePriority(disputeId: string, priority: 'low' | 'medium' | 'high'): Promise<void> {
     try {
-      // In a real app, this would update the dispute in the database
-      console.log(`Dispute ${disputeId} priority updated to ${priority}`);
+      const { error } = await supabase.rpc('set_dispute_priority', {
+        p_dispute_id: disputeId,
+        p_priority: priority,
+      });
+
+      if (error) throw error;
     } catch (error) {
       console.error('Update dispute priority error:', error);
       throw error;
@@ -1346,31 +1293,7 @@ export class AdminService {
   // Get admin settings
   static async getAdminSettings(): Promise<AdminSettings> {
     try {
-      // In a real app, this would query the settings table
-      // For now, we'll return mock data
-      return {
-        platform: {
-          autoModeration: true,
-          maintenanceMode: false,
-          newUserRegistration: true,
-          itemAutoApproval: false,
-        },
-        notifications: {
-          emailNotifications: true,
-          smsNotifications: false,
-          disputeAutoAssignment: true,
-        },
-        fees: {
-          transactionFee: 5.0, // 5%
-          listingFee: 2.99, // $2.99
-          payoutFee: 1.5, // 1.5%
-        },
-        delivery: {
-          apiEnabled: true,
-          apiKey: "RIDER_API_KEY",
-          webhookUrl: "https://rider-app.example.com/webhook",
-        }
-      };
+      return await SettingsService.getSettings({ fresh: true });
     } catch (error) {
       console.error('Get admin settings error:', error);
       throw error;
@@ -1378,25 +1301,31 @@ export class AdminService {
   }
 
   // Update admin settings
-  static async updateAdminSettings(settings: Partial<AdminSettings>): Promise<void> {
+  static async updateAdminSettings(settings: Partial<AdminSettings>, notes?: string): Promise<number> {
     try {
-      // In a real app, this would update the settings in the database
-      console.log('Settings updated:', settings);
+      return await SettingsService.updateSettings(settings, notes);
     } catch (error) {
       console.error('Update admin settings error:', error);
       throw error;
     }
   }
 
-  // Generate new API key for delivery API
-  static async generateDeliveryApiKey(): Promise<string> {
+  // Get settings change history
+  static async getSettingsHistory(limit: number = 20): Promise<SettingsVersion[]> {
     try {
-      // In a real app, this would generate and store a new API key
-      const newApiKey = `RIDER_API_KEY_${Math.random().toString(36).substring(2, 10)}`;
-      console.log('New API key generated:', newApiKey);
-      return newApiKey;
+      return await SettingsService.getSettingsHistory(limit);
     } catch (error) {
-      console.error('Generate API key error:', error);
+      console.error('Get settings history error:', error);
+      throw error;
+    }
+  }
+
+  // Roll settings back to a previous version
+  static async rollbackSettings(version: number): Promise<number> {
+    try {
+      return await SettingsService.rollbackToVersion(version);
+    } catch (error) {
+      console.error('Rollback settings error:', error);
       throw error;
     }
   }
@@ -1617,6 +1546,7 @@ function getOrderStatusColor(status: string): string {
 function getItemStatusColor(status: string): string {
   switch (status) {
     case 'active': return '#10B981';
+    case 'reserved': return '#8B5CF6';
     case 'sold': return '#3B82F6';
     case 'removed': return '#EF4444';
     case 'flagged': return '#F59E0B';
@@ -1655,6 +1585,92 @@ function getDeliveryStatus(orderStatus: string): string {
   }
 }
 
+function mapAdminItem(item: any): AdminItem {
+  return {
+    id: item.id,
+    title: item.title,
+    description: item.description,
+    price: item.price,
+    images: item.images || [],
+    brand: item.brand,
+    category: item.category,
+    condition: item.condition,
+    status: item.status,
+    seller: {
+      id: item.seller.id,
+      nickname: item.seller.nickname,
+      profile_picture: item.seller.profile_picture,
+      rating: 4.5, // Mock data
+    },
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+    risk_score: item.risk_score || 0,
+    risk_signals: item.risk_signals || [],
+    reports_count: 0,
+    views_count: Math.floor(Math.random() * 100), // Mock data
+    likes_count: Math.floor(Math.random() * 20), // Mock data
+    flags: {
+      prohibited_item: false,
+      counterfeit: false,
+      inappropriate: false,
+      misleading: false,
+    }
+  };
+}
+
+async function openReportCounts(targetType: ReportTargetType, targetIds: string[]): Promise<Record<string, number>> {
+  if (targetIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('reports')
+    .select('target_id')
+    .eq('target_type', targetType)
+    .eq('status', 'open')
+    .in('target_id', targetIds);
+
+  if (error) throw error;
+
+  return (data || []).reduce((counts: Record<string, number>, report: { target_id: string }) => {
+    counts[report.target_id] = (counts[report.target_id] || 0) + 1;
+    return counts;
+  }, {});
+}
+
+async function withReportCounts(items: AdminItem[]): Promise<AdminItem[]> {
+  const reportCounts = await openReportCounts('item', items.map(item => item.id));
+  return items.map(item => ({ ...item, reports_count: reportCounts[item.id] || 0 }));
+}
+
+function mapAdminDispute(dispute: any): AdminDispute {
+  const evidence = dispute.evidence || [];
+  const buyerId = dispute.order?.buyer?.id;
+
+  return {
+    ...dispute,
+    order: {
+      ...dispute.order,
+      item: dispute.order?.item || { title: 'Unknown item', price: 0 },
+      buyer: dispute.order?.buyer || { nickname: 'Unknown' },
+      seller: dispute.order?.seller || { nickname: 'Unknown' },
+    },
+    evidence: {
+      buyer_evidence: evidence
+        .filter((e: any) => e.user_id === buyerId)
+        .map((e: any) => e.content),
+      seller_evidence: evidence
+        .filter((e: any) => e.user_id !== buyerId)
+        .map((e: any) => e.content),
+    },
+    resolution_time: dispute.resolved_at
+      ? Math.round((new Date(dispute.resolved_at).getTime() - new Date(dispute.created_at).getTime()) / (1000 * 60 * 60))
+      : undefined,
+  };
+}
+
+function pendingAppeal(appeals: AccountAppeal[] | null | undefined): AccountAppeal | null {
+  return (appeals || []).find(appeal => appeal.status === 'pending') || null;
+}
+
 function generateChartData(data: any[], timeRange: '7d' | '30d' | '90d' | '1y'): { date: string; value: number }[] {
   // Group data by date
   const groupedData: Record<string, number> = {};
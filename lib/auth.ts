@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { SettingsService } from './settings';
 import * as AppleAuthentication from 'expo-apple-authentication';
 import { Platform } from 'react-native';
 
@@ -44,6 +45,15 @@ export class AuthService {
   // Sign up with email and password
   static async signUpWithEmail(userData: SignUpData) {
     try {
+      // Registration can be switched off from the admin settings, the database refuses the sign up as well
+      const { platform } = await SettingsService.getSettings();
+      if (platform.maintenanceMode) {
+        throw new Error('Remore is under maintenance, please try again later');
+      }
+      if (!platform.newUserRegistration) {
+        throw new Error('New user registration is currently disabled');
+      }
+
       // First check if nickname is available
       const isNicknameAvailable = await this.checkNicknameAvailability(userData.nickname);
       if (!isNicknameAvailable) {
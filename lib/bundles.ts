@@ -0,0 +1,271 @@
+import { supabase } from './supabase';
+import { fromCents, toCents } from './fees';
+
+export interface BundleSettings {
+  bundle_discount_percent: number;
+  bundle_min_items: number;
+}
+
+export interface BundleItem {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  images: string[];
+  brand?: string;
+  size?: string;
+  category?: string | null;
+  status: string;
+  seller_id: string;
+}
+
+export interface BundleLine {
+  item_id: string;
+  list_price_cents: number;
+  price_cents: number;
+}
+
+// What a set of items from one seller costs together, in cents
+export interface BundlePrice {
+  seller_id: string;
+  currency: string;
+  category: string | null;
+  subtotal_cents: number;
+  discount_percent: number;
+  discount_cents: number;
+  price_cents: number;
+  lines: BundleLine[];
+}
+
+// A seller's items in the buyer's bundle cart
+export interface BundleCart {
+  seller: {
+    id: string;
+    nickname: string;
+    profile_picture?: string;
+  } & BundleSettings;
+  items: BundleItem[];
+  price: BundlePrice;
+}
+
+export const MIN_BUNDLE_ITEMS = 2;
+export const MAX_BUNDLE_DISCOUNT_PERCENT = 50;
+
+// Bundle price with the seller's discount, spread over the items in proportion to their price
+export const calculateBundlePrice = (items: BundleItem[], settings: BundleSettings): BundlePrice => {
+  if (items.length === 0) {
+    throw new Error('A bundle needs at least one item');
+  }
+
+  const sellerId = items[0].seller_id;
+  if (items.some(item => item.seller_id !== sellerId)) {
+    throw new Error('Bundle items must all come from one seller');
+  }
+
+  const currency = items[0].currency;
+  if (items.some(item => item.currency !== currency)) {
+    throw new Error('Bundle items must all be priced in one currency');
+  }
+
+  const listPrices = items.map(item => toCents(item.price));
+  const subtotal = listPrices.reduce((sum, cents) => sum + cents, 0);
+
+  const qualifies = items.length >= Math.max(settings.bundle_min_items, MIN_BUNDLE_ITEMS);
+  const percent = qualifies
+    ? Math.min(Math.max(settings.bundle_discount_percent || 0, 0), MAX_BUNDLE_DISCOUNT_PERCENT)
+    : 0;
+  const discount = Math.floor((subtotal * Math.round(percent * 100) + 5000) / 10000);
+
+  // Round each line down, the cents left over go to the priciest item
+  const lineDiscounts = listPrices.map(cents => subtotal > 0 ? Math.floor(cents * discount / subtotal) : 0);
+  const remainder = discount - lineDiscounts.reduce((sum, cents) => sum + cents, 0);
+  const priciest = listPrices.indexOf(Math.max(...listPrices));
+  lineDiscounts[priciest] += remainder;
+
+  // Fee rules can only match a category every item shares
+  const categories = new Set(items.map(item => item.category || null));
+
+  return {
+    seller_id: sellerId,
+    currency,
+    category: categories.size === 1 ? items[0].category || null : null,
+    subtotal_cents: subtotal,
+    discount_percent: percent,
+    discount_cents: discount,
+    price_cents: subtotal - discount,
+    lines: items.map((item, index) => ({
+      item_id: item.id,
+      list_price_cents: listPrices[index],
+      price_cents: listPrices[index] - lineDiscounts[index],
+    })),
+  };
+};
+
+// Bundle lines as the order stores them, in dollars
+export const toOrderLines = (price: BundlePrice) =>
+  price.lines.map(line => ({
+    item_id: line.item_id,
+    list_price: fromCents(line.list_price_cents),
+    price: fromCents(line.price_cents),
+  }));
+
+export class BundlesService {
+  // Get a seller's bundle discount
+  static async getSettings(sellerId: string): Promise<BundleSettings> {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('bundle_discount_percent, bundle_min_items')
+        .eq('id', sellerId)
+        .single();
+
+      if (error) throw error;
+      return {
+        bundle_discount_percent: Number(data.bundle_discount_percent) || 0,
+        bundle_min_items: data.bundle_min_items || MIN_BUNDLE_ITEMS,
+      };
+    } catch (error) {
+      console.error('Get bundle settings error:', error);
+      throw error;
+    }
+  }
+
+  // Update the current seller's bundle discount
+  static async updateSettings(settings: BundleSettings): Promise<BundleSettings> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .update(settings)
+        .eq('id', user.id)
+        .select('bundle_discount_percent, bundle_min_items')
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Update bundle settings error:', error);
+      throw error;
+    }
+  }
+
+  // Price items from one seller as a bundle
+  static async quoteBundle(itemIds: string[]): Promise<{ items: BundleItem[]; price: BundlePrice }> {
+    try {
+      const { data, error } = await supabase
+        .from('items')
+        .select('id, title, price, currency, images, brand, size, category, status, seller_id')
+        .in('id', itemIds)
+        .in('status', ['active', 'reserved']);
+
+      if (error) throw error;
+
+      const items = data || [];
+      if (items.length !== new Set(itemIds).size) {
+        throw new Error('Some items in the bundle are no longer available');
+      }
+
+      const settings = await this.getSettings(items[0].seller_id);
+      return { items, price: calculateBundlePrice(items, settings) };
+    } catch (error) {
+      console.error('Quote bundle error:', error);
+      throw error;
+    }
+  }
+
+  // Get ids of all items in the current user's bundle cart
+  static async getCartItemIds(): Promise<string[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('cart_items')
+        .select('item_id')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data || []).map(cartItem => cartItem.item_id);
+    } catch (error) {
+      console.error('Get cart item ids error:', error);
+      return [];
+    }
+  }
+
+  // Get the current user's bundle cart, grouped by seller
+  static async getCart(): Promise<BundleCart[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('cart_items')
+        .select(`
+          item:items(
+            id, title, price, currency, images, brand, size, category, status, seller_id,
+            seller:profiles!items_seller_id_fkey(id, nickname, profile_picture, bundle_discount_percent, bundle_min_items)
+          )
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const groups = new Map<string, Omit<BundleCart, 'price'>>();
+      for (const { item } of (data || []) as any[]) {
+        if (!item || !['active', 'reserved'].includes(item.status)) continue;
+
+        const { seller, ...bundleItem } = item;
+        const group: Omit<BundleCart, 'price'> = groups.get(seller.id) || { seller, items: [] };
+        group.items.push(bundleItem);
+        groups.set(seller.id, group);
+      }
+
+      return Array.from(groups.values()).map(group => ({
+        ...group,
+        price: calculateBundlePrice(group.items, group.seller),
+      }));
+    } catch (error) {
+      console.error('Get cart error:', error);
+      throw error;
+    }
+  }
+
+  // Add an item to the current user's bundle cart
+  static async addToCart(itemId: string): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('cart_items')
+        .upsert({ user_id: user.id, item_id: itemId }, { onConflict: 'user_id,item_id', ignoreDuplicates: true });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Add to cart error:', error);
+      throw error;
+    }
+  }
+
+  // Remove items from the current user's bundle cart
+  static async removeFromCart(itemIds: string[]): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('cart_items')
+        .delete()
+        .eq('user_id', user.id)
+        .in('item_id', itemIds);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Remove from cart error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+
+export interface Currency {
+  code: string;
+  name: string;
+  symbol: string;
+}
+
+// Latest rates from the currencies table, units of each currency per US dollar
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_CURRENCY = 'usd';
+
+// Mirrors the currencies table, all have two decimal places so amounts are always in cents
+export const CURRENCIES: Currency[] = [
+  { code: 'usd', name: 'US Dollar', symbol: '$' },
+  { code: 'eur', name: 'Euro', symbol: '€' },
+  { code: 'gbp', name: 'British Pound', symbol: '£' },
+  { code: 'cad', name: 'Canadian Dollar', symbol: 'CA$' },
+  { code: 'aud', name: 'Australian Dollar', symbol: 'A$' },
+  { code: 'nzd', name: 'New Zealand Dollar', symbol: 'NZ$' },
+  { code: 'chf', name: 'Swiss Franc', symbol: 'CHF ' },
+  { code: 'sek', name: 'Swedish Krona', symbol: 'SEK ' },
+  { code: 'nok', name: 'Norwegian Krone', symbol: 'NOK ' },
+  { code: 'dkk', name: 'Danish Krone', symbol: 'DKK ' },
+  { code: 'pln', name: 'Polish Zloty', symbol: 'PLN ' },
+];
+
+export const isSupportedCurrency = (code: unknown): code is string =>
+  typeof code === 'string' && CURRENCIES.some(currency => currency.code === code);
+
+export const currencySymbol = (code: string = DEFAULT_CURRENCY) =>
+  CURRENCIES.find(currency => currency.code === code)?.symbol ?? `${code.toUpperCase()} `;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY) =>
+  `${amount < 0 ? '-' : ''}${currencySymbol(currency)}${Math.abs(amount).toFixed(2)}`;
+
+// Convert through the dollar rates, null while either rate is unknown
+export const convertCents = (cents: number, from: string, to: string, rates: ExchangeRates): number | null => {
+  if (from === to) return cents;
+  if (!rates[from] || !rates[to]) return null;
+
+  return Math.round(cents * rates[to] / rates[from]);
+};
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+export class CurrencyService {
+  private static cache: { rates: ExchangeRates; fetchedAt: number } | null = null;
+
+  // Get the cached exchange rates, refetched at most once an hour
+  static async getRates(): Promise<ExchangeRates> {
+    try {
+      if (this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) {
+        return this.cache.rates;
+      }
+
+      const { data, error } = await supabase
+        .from('currencies')
+        .select('code, rate_per_usd')
+        .not('rate_per_usd', 'is', null);
+
+      if (error) throw error;
+
+      const rates: ExchangeRates = {};
+      (data || []).forEach((row: { code: string; rate_per_usd: number }) => {
+        rates[row.code] = Number(row.rate_per_usd);
+      });
+
+      this.cache = { rates, fetchedAt: Date.now() };
+      return rates;
+    } catch (error) {
+      console.error('Get exchange rates error:', error);
+      throw error;
+    }
+  }
+
+  // Get the currency the current user shops and sells in
+  static async getUserCurrency(): Promise<string> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return DEFAULT_CURRENCY;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('currency')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      return data?.currency || DEFAULT_CURRENCY;
+    } catch (error) {
+      console.error('Get user currency error:', error);
+      return DEFAULT_CURRENCY;
+    }
+  }
+
+  // Set the currency new listings are priced in and prices are shown in
+  static async setUserCurrency(currency: string): Promise<void> {
+    try {
+      if (!isSupportedCurrency(currency)) {
+        throw new Error('Currency is not supported');
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ currency })
+        .eq('id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Set user currency error:', error);
+      throw error;
+    }
+  }
+}
@@ -358,13 +358,13 @@ export class DeliveryService {
       if (error) throw error;
 
       // Update order status
-      await supabase
-        .from('orders')
-        .update({ 
-          status: 'pickup_scheduled',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
+      const { error: statusError } = await supabase.rpc('transition_order_status', {
+        p_order_id: orderId,
+        p_status: 'pickup_scheduled',
+        p_notes: `Pickup scheduled for ${timeSlot}`,
+      });
+
+      if (statusError) throw statusError;
 
       return true;
     } catch (error) {
@@ -389,13 +389,13 @@ export class DeliveryService {
       if (error) throw error;
 
       // Update order status
-      await supabase
-        .from('orders')
-        .update({ 
-          status: 'delivery_scheduled',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
+      const { error: statusError } = await supabase.rpc('transition_order_status', {
+        p_order_id: orderId,
+        p_status: 'delivery_scheduled',
+        p_notes: `Delivery scheduled for ${timeSlot}`,
+      });
+
+      if (statusError) throw statusError;
 
       return true;
     } catch (error) {
@@ -433,13 +433,13 @@ export class DeliveryService {
 
       // Update order status
       const newStatus = parsedData.type === 'pickup' ? 'picked_up' : 'delivered';
-      await supabase
-        .from('orders')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', parsedData.orderId);
+      const { error: statusError } = await supabase.rpc('transition_order_status', {
+        p_order_id: parsedData.orderId,
+        p_status: newStatus,
+        p_notes: `${parsedData.type === 'pickup' ? 'Pickup' : 'Delivery'} QR code scanned`,
+      });
+
+      if (statusError) throw statusError;
 
       return true;
     } catch (error) {
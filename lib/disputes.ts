@@ -3,6 +3,7 @@ import { supabase } from './supabase';
 export interface Dispute {
   id: string;
   order_id: string;
+  order_item_id?: string;
   reporter_id: string;
   reported_id: string;
   type: 'item_not_received' | 'item_not_as_described' | 'payment_issue' | 'other';
@@ -10,8 +11,12 @@ export interface Dispute {
   status: 'open' | 'investigating' | 'resolved' | 'closed';
   priority: 'low' | 'medium' | 'high';
   resolution?: string;
+  resolution_outcome?: DisputeOutcome;
+  refund_amount?: number;
+  seller_amount_released?: number;
   resolved_at?: string;
   resolved_by?: string;
+  assigned_to?: string;
   created_at: string;
   updated_at: string;
   order?: {
@@ -39,6 +44,17 @@ export interface Dispute {
   unread_count?: number;
 }
 
+export type DisputeOutcome = 'full_refund' | 'partial_refund' | 'release_to_seller' | 'split';
+
+export interface DisputeResolution {
+  dispute_id: string;
+  order_id: string;
+  outcome: DisputeOutcome;
+  refund_amount: number;
+  seller_amount_released: number;
+  order_status: 'refunded' | 'completed';
+}
+
 export interface DisputeEvidence {
   id: string;
   dispute_id: string;
@@ -65,6 +81,8 @@ export interface DisputeMessage {
 
 export interface CreateDisputeData {
   order_id: string;
+  // Item of a bundle order the dispute is about
+  order_item_id?: string;
   type: 'item_not_received' | 'item_not_as_described' | 'payment_issue' | 'other';
   description: string;
   evidence?: {
@@ -73,6 +91,24 @@ export interface CreateDisputeData {
   }[];
 }
 
+// Amount returned to the buyer for an outcome, mirrors resolve_dispute in the database.
+// `refundableAmount` is the order total minus anything refunded before the dispute.
+export function getDisputeRefundAmount(outcome: DisputeOutcome, refundableAmount: number, requestedAmount?: number): number {
+  switch (outcome) {
+    case 'full_refund':
+      return refundableAmount;
+    case 'release_to_seller':
+      return 0;
+    case 'split':
+      return Math.round(Math.round(refundableAmount * 100) / 2) / 100;
+    case 'partial_refund':
+      if (!requestedAmount || requestedAmount <= 0 || requestedAmount >= refundableAmount) {
+        throw new Error(`Partial refund must be between 0 and ${refundableAmount}`);
+      }
+      return Math.round(requestedAmount * 100) / 100;
+  }
+}
+
 export class DisputeService {
   // Create a new dispute
   static async createDispute(data: CreateDisputeData): Promise<Dispute> {
@@ -98,6 +134,7 @@ export class DisputeService {
         .from('disputes')
         .insert({
           order_id: data.order_id,
+          order_item_id: data.order_item_id,
           reporter_id: reporterId,
           reported_id: reportedId,
           type: data.type,
@@ -0,0 +1,179 @@
+import { supabase } from './supabase';
+
+export interface FavoriteItem {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  images: string[];
+  brand: string;
+  size: string;
+  status: string;
+  seller_id: string;
+  favorites_count: number;
+  seller?: {
+    nickname: string;
+    profile_picture?: string;
+  };
+}
+
+export interface Favorite {
+  id: string;
+  user_id: string;
+  item_id: string;
+  is_watching: boolean;
+  created_at: string;
+  item?: FavoriteItem;
+}
+
+export class FavoritesService {
+  // Get current user's favorites with their items
+  static async getFavorites(): Promise<Favorite[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .select(`
+          *,
+          item:items(
+            id, title, price, currency, images, brand, size, status, seller_id, favorites_count,
+            seller:profiles!items_seller_id_fkey(nickname, profile_picture)
+          )
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as unknown as Favorite[];
+    } catch (error) {
+      console.error('Get favorites error:', error);
+      throw error;
+    }
+  }
+
+  // Get ids of all items the current user has favorited
+  static async getFavoriteItemIds(): Promise<string[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .select('item_id')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data || []).map(favorite => favorite.item_id);
+    } catch (error) {
+      console.error('Get favorite item ids error:', error);
+      return [];
+    }
+  }
+
+  // Get the current user's favorite for an item, if any
+  static async getFavorite(itemId: string): Promise<Favorite | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('item_id', itemId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get favorite error:', error);
+      return null;
+    }
+  }
+
+  // Add an item to favorites
+  static async addFavorite(itemId: string, watch: boolean = false): Promise<Favorite> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .upsert({
+          user_id: user.id,
+          item_id: itemId,
+          is_watching: watch,
+        }, {
+          onConflict: 'user_id,item_id',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Add favorite error:', error);
+      throw error;
+    }
+  }
+
+  // Remove an item from favorites
+  static async removeFavorite(itemId: string): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('favorites')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('item_id', itemId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Remove favorite error:', error);
+      throw error;
+    }
+  }
+
+  // Watch or unwatch a favorite for price drops
+  static async setWatching(itemId: string, watching: boolean): Promise<Favorite> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('favorites')
+        .update({ is_watching: watching })
+        .eq('user_id', user.id)
+        .eq('item_id', itemId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Set watching error:', error);
+      throw error;
+    }
+  }
+
+  // Get how many users favorited an item
+  static async getFavoriteCount(itemId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .from('items')
+        .select('favorites_count')
+        .eq('id', itemId)
+        .single();
+
+      if (error) throw error;
+      return data?.favorites_count || 0;
+    } catch (error) {
+      console.error('Get favorite count error:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,346 @@
+import { supabase } from './supabase';
+import { AdminSettings, SettingsService } from './settings';
+import { DEFAULT_CURRENCY, formatMoney } from './currency';
+
+export type FeeType = 'buyer_protection' | 'commission' | 'payout' | 'discount';
+export type SellerTier = 'new' | 'established' | 'top';
+
+export const FEE_TYPES: { id: FeeType; label: string; description: string }[] = [
+  { id: 'buyer_protection', label: 'Buyer protection', description: 'Added to the price the buyer pays' },
+  { id: 'commission', label: 'Seller commission', description: 'Taken from the seller\'s proceeds' },
+  { id: 'payout', label: 'Payout fee', description: 'Taken when a seller withdraws to their bank' },
+  { id: 'discount', label: 'Promotion', description: 'Taken off the buyer\'s total, paid by the platform' },
+];
+
+export const SELLER_TIERS: { id: SellerTier; label: string }[] = [
+  { id: 'new', label: 'New (under 5 sales)' },
+  { id: 'established', label: 'Established (5-49 sales)' },
+  { id: 'top', label: 'Top (50+ sales)' },
+];
+
+export interface FeeRule {
+  id: string;
+  name: string;
+  fee_type: FeeType;
+  rate_bps: number;
+  fixed_cents: number;
+  min_cents: number | null;
+  max_cents: number | null;
+  category: string | null;
+  seller_tier: SellerTier | null;
+  min_price_cents: number | null;
+  max_price_cents: number | null;
+  priority: number;
+  is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type FeeRuleInput = Omit<FeeRule, 'id' | 'created_at' | 'updated_at'>;
+
+export interface FeeLine {
+  type: FeeType;
+  label: string;
+  amount_cents: number;
+  rule_id: string | null;
+}
+
+// Everything the buyer, seller and platform get from one sale, in cents of the item's currency
+export interface FeeBreakdown {
+  currency: string;
+  item_price_cents: number;
+  buyer_protection_cents: number;
+  discount_cents: number;
+  buyer_total_cents: number;
+  seller_commission_cents: number;
+  seller_payout_cents: number;
+  platform_fee_cents: number;
+  seller_tier: SellerTier;
+  lines: FeeLine[];
+}
+
+export interface PayoutFee {
+  amount_cents: number;
+  fee_cents: number;
+  net_cents: number;
+  rule_id: string | null;
+}
+
+export interface FeeContext {
+  priceCents: number;
+  currency?: string;
+  category?: string | null;
+  sellerTier: SellerTier;
+  at?: Date;
+}
+
+export interface FeeItem {
+  price: number;
+  currency?: string;
+  category?: string | null;
+  seller_id: string;
+}
+
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const formatCents = (cents: number, currency: string = DEFAULT_CURRENCY) =>
+  formatMoney(cents / 100, currency);
+
+// Settings hold percentages, rules hold basis points
+const percentToBps = (percent: number) => Math.round(percent * 100);
+
+// Rounds half up, all amounts here are non-negative
+const applyRate = (cents: number, bps: number) => Math.floor((cents * bps + 5000) / 10000);
+
+const ruleMatches = (rule: FeeRule, type: FeeType, context: FeeContext) => {
+  const at = (context.at || new Date()).getTime();
+
+  return rule.is_active
+    && rule.fee_type === type
+    && (!rule.category || rule.category === context.category)
+    && (!rule.seller_tier || rule.seller_tier === context.sellerTier)
+    && (rule.min_price_cents === null || context.priceCents >= rule.min_price_cents)
+    && (rule.max_price_cents === null || context.priceCents <= rule.max_price_cents)
+    && (!rule.starts_at || new Date(rule.starts_at).getTime() <= at)
+    && (!rule.ends_at || new Date(rule.ends_at).getTime() > at);
+};
+
+// Rules that name more conditions win ties on priority
+const specificity = (rule: FeeRule) =>
+  [rule.category, rule.seller_tier, rule.min_price_cents, rule.max_price_cents]
+    .filter(value => value !== null && value !== undefined).length;
+
+// The single rule that applies for a fee type, if any
+export const selectFeeRule = (rules: FeeRule[], type: FeeType, context: FeeContext): FeeRule | null => {
+  const matching = rules
+    .filter(rule => ruleMatches(rule, type, context))
+    .sort((a, b) => b.priority - a.priority || specificity(b) - specificity(a) || a.id.localeCompare(b.id));
+
+  return matching[0] || null;
+};
+
+const ruleAmount = (rule: FeeRule, baseCents: number) => {
+  let amount = applyRate(baseCents, rule.rate_bps) + rule.fixed_cents;
+  if (rule.min_cents !== null) amount = Math.max(amount, rule.min_cents);
+  if (rule.max_cents !== null) amount = Math.min(amount, rule.max_cents);
+  return amount;
+};
+
+// Itemized fees for selling an item at a price, falling back to the fee settings
+export const calculateFees = (
+  context: FeeContext,
+  rules: FeeRule[],
+  fees: AdminSettings['fees']
+): FeeBreakdown => {
+  const price = context.priceCents;
+  if (!Number.isInteger(price) || price < 0) {
+    throw new Error('Price must be a whole number of cents');
+  }
+
+  const protectionRule = selectFeeRule(rules, 'buyer_protection', context);
+  const buyerProtection = protectionRule
+    ? ruleAmount(protectionRule, price)
+    : applyRate(price, percentToBps(fees.buyerProtectionFee));
+
+  const commissionRule = selectFeeRule(rules, 'commission', context);
+  const commission = Math.min(
+    commissionRule
+      ? ruleAmount(commissionRule, price)
+      : applyRate(price, percentToBps(fees.transactionFee)),
+    price
+  );
+
+  // Promotions are paid from the platform's share, never the seller's
+  const discountRule = selectFeeRule(rules, 'discount', context);
+  const discount = discountRule
+    ? Math.min(ruleAmount(discountRule, price), buyerProtection + commission)
+    : 0;
+
+  const lines: FeeLine[] = [
+    { type: 'buyer_protection', label: 'Buyer protection', amount_cents: buyerProtection, rule_id: protectionRule?.id || null },
+    { type: 'commission', label: 'Seller commission', amount_cents: commission, rule_id: commissionRule?.id || null },
+  ];
+  if (discount > 0) {
+    lines.push({ type: 'discount', label: discountRule!.name, amount_cents: -discount, rule_id: discountRule!.id });
+  }
+
+  return {
+    currency: context.currency || DEFAULT_CURRENCY,
+    item_price_cents: price,
+    buyer_protection_cents: buyerProtection,
+    discount_cents: discount,
+    buyer_total_cents: price + buyerProtection - discount,
+    seller_commission_cents: commission,
+    seller_payout_cents: price - commission,
+    platform_fee_cents: buyerProtection + commission - discount,
+    seller_tier: context.sellerTier,
+    lines,
+  };
+};
+
+// Fee for withdrawing an amount to a bank account
+export const calculatePayoutFee = (
+  amountCents: number,
+  sellerTier: SellerTier,
+  rules: FeeRule[],
+  fees: AdminSettings['fees']
+): PayoutFee => {
+  if (!Number.isInteger(amountCents) || amountCents < 0) {
+    throw new Error('Amount must be a whole number of cents');
+  }
+
+  const rule = selectFeeRule(rules, 'payout', { priceCents: amountCents, sellerTier });
+  const fee = Math.min(
+    rule ? ruleAmount(rule, amountCents) : applyRate(amountCents, percentToBps(fees.payoutFee)),
+    amountCents
+  );
+
+  return {
+    amount_cents: amountCents,
+    fee_cents: fee,
+    net_cents: amountCents - fee,
+    rule_id: rule?.id || null,
+  };
+};
+
+export class FeesService {
+  // Get fee rules that are switched on
+  static async getActiveRules(): Promise<FeeRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('fee_rules')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get active fee rules error:', error);
+      throw error;
+    }
+  }
+
+  // Get a seller's tier for matching fee rules
+  static async getSellerTier(sellerId: string): Promise<SellerTier> {
+    try {
+      const { data, error } = await supabase.rpc('get_seller_tier', {
+        p_seller_id: sellerId,
+      });
+
+      if (error) throw error;
+      return data as SellerTier;
+    } catch (error) {
+      console.error('Get seller tier error:', error);
+      throw error;
+    }
+  }
+
+  // Quote what a purchase costs the buyer and pays the seller
+  static async quoteItem(item: FeeItem): Promise<FeeBreakdown> {
+    try {
+      const [rules, settings, sellerTier] = await Promise.all([
+        this.getActiveRules(),
+        SettingsService.getSettings(),
+        this.getSellerTier(item.seller_id),
+      ]);
+
+      return calculateFees(
+        { priceCents: toCents(item.price), currency: item.currency, category: item.category, sellerTier },
+        rules,
+        settings.fees
+      );
+    } catch (error) {
+      console.error('Quote item fees error:', error);
+      throw error;
+    }
+  }
+
+  // Quote the fee for a payout
+  static async quotePayout(userId: string, amountCents: number): Promise<PayoutFee> {
+    try {
+      const [rules, settings, sellerTier] = await Promise.all([
+        this.getActiveRules(),
+        SettingsService.getSettings(),
+        this.getSellerTier(userId),
+      ]);
+
+      return calculatePayoutFee(amountCents, sellerTier, rules, settings.fees);
+    } catch (error) {
+      console.error('Quote payout fee error:', error);
+      throw error;
+    }
+  }
+
+  // Get all fee rules (admin only)
+  static async getRules(): Promise<FeeRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('fee_rules')
+        .select('*')
+        .order('fee_type', { ascending: true })
+        .order('priority', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get fee rules error:', error);
+      throw error;
+    }
+  }
+
+  // Create a fee rule (admin only)
+  static async createRule(rule: FeeRuleInput): Promise<FeeRule> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('fee_rules')
+        .insert({ ...rule, created_by: user?.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create fee rule error:', error);
+      throw error;
+    }
+  }
+
+  // Update a fee rule (admin only)
+  static async updateRule(ruleId: string, updates: Partial<FeeRuleInput>): Promise<FeeRule> {
+    try {
+      const { data, error } = await supabase
+        .from('fee_rules')
+        .update(updates)
+        .eq('id', ruleId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Update fee rule error:', error);
+      throw error;
+    }
+  }
+
+  // Delete a fee rule (admin only)
+  static async deleteRule(ruleId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('fee_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Delete fee rule error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,7 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { Database } from '../types/database';
+import { AccountStatusService } from './account-status';
 import * as ImagePicker from 'expo-image-picker';
 
 export interface CreateItemData {
@@ -17,17 +20,129 @@ export interface Item {
   title: string;
   description: string;
   price: number;
+  currency: string;
   images: string[];
   brand: string;
   size: string;
   condition: string;
   category: string;
   seller_id: string;
-  status: 'active' | 'sold' | 'removed';
+  status: 'active' | 'reserved' | 'sold' | 'removed' | 'flagged' | 'pending_review';
+  reserved_by?: string;
+  reserved_until?: string;
+  favorites_count?: number;
+  published_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type PriceBucket = 'under_20' | '20_50' | '50_100' | '100_200' | 'over_200';
+
+// Matches item_price_bucket() in the database; max is exclusive
+export const PRICE_BUCKETS: { id: PriceBucket; label: string; min: number | null; max: number | null }[] = [
+  { id: 'under_20', label: 'Under $20', min: null, max: 20 },
+  { id: '20_50', label: '$20-50', min: 20, max: 50 },
+  { id: '50_100', label: '$50-100', min: 50, max: 100 },
+  { id: '100_200', label: '$100-200', min: 100, max: 200 },
+  { id: 'over_200', label: 'Over $200', min: 200, max: null },
+];
+
+export interface SearchFilters {
+  categories?: string[];
+  brands?: string[];
+  sizes?: string[];
+  conditions?: string[];
+  priceBucket?: PriceBucket;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  category: FacetCount[];
+  brand: FacetCount[];
+  size: FacetCount[];
+  condition: FacetCount[];
+  price: FacetCount[];
+}
+
+// Opaque position of the last result, passed back to fetch the next page
+export interface SearchCursor {
+  score: number;
+  created_at: string;
+  id: string;
+}
+
+export interface SearchResultItem extends Item {
+  score: number;
+  seller?: {
+    nickname: string;
+    profile_picture?: string;
+  };
+}
+
+export interface SearchResult {
+  items: SearchResultItem[];
+  facets: SearchFacets;
+  next_cursor: SearchCursor | null;
+}
+
+export const ITEM_CATEGORIES = ['women', 'men', 'kids', 'shoes', 'bags', 'accessories'];
+export const ITEM_CONDITIONS = ['new-with-tags', 'like-new', 'very-good', 'good', 'fair'];
+
+type ItemFieldRule =
+  | { type: 'string'; minLength: number; maxLength: number; values?: string[] }
+  | { type: 'price'; min: number; max: number }
+  | { type: 'images'; minItems: number; maxItems: number };
+
+// Same limits as the sell form
+const ITEM_SCHEMA: { [K in keyof CreateItemData]-?: ItemFieldRule } = {
+  title: { type: 'string', minLength: 3, maxLength: 100 },
+  description: { type: 'string', minLength: 10, maxLength: 1000 },
+  price: { type: 'price', min: 0.01, max: 10000 },
+  brand: { type: 'string', minLength: 1, maxLength: 100 },
+  size: { type: 'string', minLength: 1, maxLength: 20 },
+  condition: { type: 'string', minLength: 1, maxLength: 20, values: ITEM_CONDITIONS },
+  category: { type: 'string', minLength: 1, maxLength: 20, values: ITEM_CATEGORIES },
+  images: { type: 'images', minItems: 1, maxItems: 8 },
+};
+
+export type ItemSort = 'newest' | 'price_asc' | 'price_desc' | 'promoted';
+
+export const ITEM_SORTS: ItemSort[] = ['newest', 'price_asc', 'price_desc', 'promoted'];
+
+// Sort keys of the last item on a page, passed back to fetch the next page
+export interface ItemListCursor {
+  created_at: string;
+  price: number;
+  is_promoted: boolean;
+  id: string;
+}
+
+export interface ListItemsOptions {
+  sort?: ItemSort;
+  query?: string;
+  category?: string;
+  sellerId?: string;
+  limit?: number;
+  cursor?: ItemListCursor | null;
+}
+
+export interface ListedItem extends Item {
+  is_promoted: boolean;
+  seller?: {
+    nickname: string;
+    profile_picture?: string;
+  };
+}
+
+export interface ItemList {
+  items: ListedItem[];
+  next_cursor: ItemListCursor | null;
+}
+
 export class ItemsService {
   // Upload image to Supabase Storage
   static async uploadImage(uri: string, fileName: string): Promise<string> {
@@ -80,7 +195,23 @@ export class ItemsService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      const { data, error } = await supabase
+      await AccountStatusService.assertInGoodStanding(user.id);
+
+      return await this.insertItem(supabase, user.id, itemData);
+    } catch (error) {
+      console.error('Create item error:', error);
+      throw error;
+    }
+  }
+
+  // Insert an item for a seller through the given client (API routes pass the caller's client)
+  static async insertItem(
+    client: SupabaseClient<Database>,
+    sellerId: string,
+    itemData: CreateItemData
+  ): Promise<Item> {
+    try {
+      const { data, error } = await client
         .from('items')
         .insert({
           title: itemData.title,
@@ -91,7 +222,7 @@ export class ItemsService {
           condition: itemData.condition,
           category: itemData.category,
           images: itemData.images,
-          seller_id: user.id,
+          seller_id: sellerId,
           status: 'active',
         })
         .select()
@@ -100,7 +231,7 @@ export class ItemsService {
       if (error) throw error;
       return data;
     } catch (error) {
-      console.error('Create item error:', error);
+      console.error('Insert item error:', error);
       throw error;
     }
   }
@@ -190,54 +321,106 @@ export class ItemsService {
     }
   }
 
-  // Search items
-  static async searchItems(query: string, filters?: {
-    category?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    condition?: string;
-    brand?: string;
-  }): Promise<Item[]> {
+  // List active items in the given order, one page at a time
+  static async listItems(options: ListItemsOptions = {}): Promise<ItemList> {
     try {
-      let queryBuilder = supabase
-        .from('items')
-        .select(`
-          *,
-          seller:profiles!items_seller_id_fkey(nickname, profile_picture)
-        `)
-        .eq('status', 'active');
-
-      // Text search
-      if (query) {
-        queryBuilder = queryBuilder.or(`title.ilike.%${query}%,description.ilike.%${query}%,brand.ilike.%${query}%`);
-      }
-
-      // Apply filters
-      if (filters?.category) {
-        queryBuilder = queryBuilder.eq('category', filters.category);
-      }
-      if (filters?.minPrice) {
-        queryBuilder = queryBuilder.gte('price', filters.minPrice);
-      }
-      if (filters?.maxPrice) {
-        queryBuilder = queryBuilder.lte('price', filters.maxPrice);
-      }
-      if (filters?.condition) {
-        queryBuilder = queryBuilder.eq('condition', filters.condition);
-      }
-      if (filters?.brand) {
-        queryBuilder = queryBuilder.ilike('brand', `%${filters.brand}%`);
-      }
-
-      const { data, error } = await queryBuilder
-        .order('created_at', { ascending: false })
-        .limit(50);
+      const { data, error } = await supabase.rpc('list_items', {
+        p_sort: options.sort ?? 'newest',
+        p_query: options.query?.trim() || null,
+        p_category: options.category || null,
+        p_seller_id: options.sellerId || null,
+        p_limit: options.limit ?? 20,
+        p_cursor: options.cursor ?? null,
+      });
 
       if (error) throw error;
-      return data || [];
+      return data as ItemList;
+    } catch (error) {
+      console.error('List items error:', error);
+      throw error;
+    }
+  }
+
+  // Search active items with ranking, facet counts and cursor pagination
+  static async searchItems(
+    query: string,
+    filters: SearchFilters = {},
+    options: { limit?: number; cursor?: SearchCursor | null } = {}
+  ): Promise<SearchResult> {
+    try {
+      const priceBucket = PRICE_BUCKETS.find(bucket => bucket.id === filters.priceBucket);
+
+      const { data, error } = await supabase.rpc('search_items', {
+        p_query: query.trim() || null,
+        p_categories: filters.categories?.length ? filters.categories : null,
+        p_brands: filters.brands?.length ? filters.brands : null,
+        p_sizes: filters.sizes?.length ? filters.sizes : null,
+        p_conditions: filters.conditions?.length ? filters.conditions : null,
+        p_min_price: priceBucket?.min ?? null,
+        p_max_price: priceBucket?.max ?? null,
+        p_limit: options.limit ?? 20,
+        p_cursor: options.cursor ?? null,
+      });
+
+      if (error) throw error;
+      return data as SearchResult;
     } catch (error) {
       console.error('Search items error:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+// Check an item body against the CreateItemData schema
+export function validateItemData(body: unknown): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['Item must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const values = body as Record<string, unknown>;
+
+  Object.keys(values).forEach(key => {
+    if (!(key in ITEM_SCHEMA)) errors.push(`Unknown field: ${key}`);
+  });
+
+  (Object.keys(ITEM_SCHEMA) as (keyof CreateItemData)[]).forEach(field => {
+    const rule = ITEM_SCHEMA[field];
+    const value = values[field];
+
+    if (value === undefined || value === null || value === '') {
+      errors.push(`${field} is required`);
+      return;
+    }
+
+    switch (rule.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          errors.push(`${field} must be text`);
+        } else if (value.trim().length < rule.minLength || value.length > rule.maxLength) {
+          errors.push(`${field} must be between ${rule.minLength} and ${rule.maxLength} characters`);
+        } else if (rule.values && !rule.values.includes(value)) {
+          errors.push(`${field} must be one of: ${rule.values.join(', ')}`);
+        }
+        break;
+      case 'price':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          errors.push(`${field} must be a number`);
+        } else if (value < rule.min || value > rule.max) {
+          errors.push(`${field} must be between ${rule.min} and ${rule.max}`);
+        } else if (Math.abs(value * 100 - Math.round(value * 100)) > 1e-6) {
+          errors.push(`${field} can have at most 2 decimal places`);
+        }
+        break;
+      case 'images':
+        if (!Array.isArray(value) || value.some(url => typeof url !== 'string' || !/^https:\/\/\S+$/.test(url))) {
+          errors.push(`${field} must be a list of https:// URLs`);
+        } else if (value.length < rule.minItems || value.length > rule.maxItems) {
+          errors.push(`${field} must have between ${rule.minItems} and ${rule.maxItems} photos`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
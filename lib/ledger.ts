@@ -0,0 +1,192 @@
+import { supabase } from './supabase';
+
+export type LedgerAccountKind =
+  | 'user_available'
+  | 'user_escrow'
+  | 'platform_fees'
+  | 'stripe_clearing'
+  | 'payouts_in_transit'
+  | 'opening_balances';
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'order_payment'
+  | 'escrow_release'
+  | 'order_refund'
+  | 'wallet_topup'
+  | 'payout'
+  | 'payout_settled'
+  | 'payout_failed';
+
+// A line on the Stripe clearing account, positive when money came into Stripe
+export interface LedgerMovement {
+  entry_id: string;
+  entry_type: LedgerEntryType;
+  external_id: string | null;
+  reference_id: string;
+  amount_cents: number;
+  currency: string;
+  created_at: string;
+}
+
+// A Stripe balance transaction, keyed by the payment intent, refund or transfer it belongs to,
+// in the currency the ledger booked it in
+export interface StripeMovement {
+  id: string;
+  type: string;
+  source_id: string | null;
+  amount_cents: number;
+  currency: string;
+  created_at: string;
+}
+
+export type ReconciliationIssueType = 'missing_in_ledger' | 'missing_in_stripe' | 'amount_mismatch';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  external_id: string | null;
+  currency: string;
+  stripe_amount_cents: number | null;
+  ledger_amount_cents: number | null;
+}
+
+export interface WalletDrift {
+  user_id: string;
+  currency: string;
+  available_balance: number;
+  pending_balance: number;
+  ledger_available_cents: number;
+  ledger_escrow_cents: number;
+}
+
+export interface LedgerHealth {
+  unbalanced_entries: number;
+  trial_balance: { kind: LedgerAccountKind; currency: string; balance_cents: number }[];
+  wallet_drift: WalletDrift[];
+}
+
+// Money never converts between currencies, so each is totalled on its own
+export interface ReconciliationTotal {
+  currency: string;
+  stripe_total_cents: number;
+  ledger_total_cents: number;
+  drift_cents: number;
+}
+
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  totals: ReconciliationTotal[];
+  matched: number;
+  issues: ReconciliationIssue[];
+  health: LedgerHealth;
+}
+
+const sumBy = <T>(rows: T[], key: (row: T) => string, amount: (row: T) => number) => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    totals.set(key(row), (totals.get(key(row)) || 0) + amount(row));
+  });
+  return totals;
+};
+
+// Match Stripe balance transactions to ledger movements by currency and payment intent, refund or transfer id
+export const reconcileMovements = (ledger: LedgerMovement[], stripe: StripeMovement[]) => {
+  const issues: ReconciliationIssue[] = [];
+  let matched = 0;
+
+  // Movements without an id can never be matched
+  ledger.filter(row => !row.external_id).forEach(row => {
+    issues.push({
+      type: 'missing_in_stripe',
+      external_id: null,
+      currency: row.currency,
+      stripe_amount_cents: null,
+      ledger_amount_cents: row.amount_cents,
+    });
+  });
+  stripe.filter(row => !row.source_id).forEach(row => {
+    issues.push({
+      type: 'missing_in_ledger',
+      external_id: row.id,
+      currency: row.currency,
+      stripe_amount_cents: row.amount_cents,
+      ledger_amount_cents: null,
+    });
+  });
+
+  const movementKey = (currency: string, externalId: string) => `${currency}:${externalId}`;
+  const ledgerTotals = sumBy(
+    ledger.filter(row => row.external_id),
+    row => movementKey(row.currency, row.external_id!),
+    row => row.amount_cents
+  );
+  const stripeTotals = sumBy(
+    stripe.filter(row => row.source_id),
+    row => movementKey(row.currency, row.source_id!),
+    row => row.amount_cents
+  );
+
+  new Set([...ledgerTotals.keys(), ...stripeTotals.keys()]).forEach(key => {
+    const separator = key.indexOf(':');
+    const currency = key.slice(0, separator);
+    const externalId = key.slice(separator + 1);
+    const ledgerAmount = ledgerTotals.get(key);
+    const stripeAmount = stripeTotals.get(key);
+
+    // A transfer reversed before it was booked nets to zero in Stripe and never reaches the ledger
+    if ((ledgerAmount || 0) === (stripeAmount || 0)) {
+      matched++;
+    } else if (ledgerAmount === undefined) {
+      issues.push({ type: 'missing_in_ledger', external_id: externalId, currency, stripe_amount_cents: stripeAmount!, ledger_amount_cents: null });
+    } else if (stripeAmount === undefined) {
+      issues.push({ type: 'missing_in_stripe', external_id: externalId, currency, stripe_amount_cents: null, ledger_amount_cents: ledgerAmount });
+    } else {
+      issues.push({ type: 'amount_mismatch', external_id: externalId, currency, stripe_amount_cents: stripeAmount, ledger_amount_cents: ledgerAmount });
+    }
+  });
+
+  const stripeCurrencyTotals = sumBy(stripe, row => row.currency, row => row.amount_cents);
+  const ledgerCurrencyTotals = sumBy(ledger, row => row.currency, row => row.amount_cents);
+  const totals: ReconciliationTotal[] = Array.from(new Set([...stripeCurrencyTotals.keys(), ...ledgerCurrencyTotals.keys()]))
+    .sort()
+    .map(currency => {
+      const stripeTotal = stripeCurrencyTotals.get(currency) || 0;
+      const ledgerTotal = ledgerCurrencyTotals.get(currency) || 0;
+      return {
+        currency,
+        stripe_total_cents: stripeTotal,
+        ledger_total_cents: ledgerTotal,
+        drift_cents: stripeTotal - ledgerTotal,
+      };
+    });
+
+  return { totals, matched, issues };
+};
+
+export class LedgerService {
+  private static baseUrl = process.env.EXPO_PUBLIC_API_URL;
+
+  // Compare the ledger with Stripe balance transactions for a period (admin only)
+  static async getReconciliation(from: Date, to: Date = new Date()): Promise<ReconciliationReport> {
+    try {
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+
+      const response = await fetch(`${this.baseUrl}/api/payments/reconciliation?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to load reconciliation');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get reconciliation error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { AccountStatusService } from './account-status';
 
 export interface Conversation {
   id: string;
@@ -13,6 +14,8 @@ export interface Conversation {
     id: string;
     title: string;
     price: number;
+    currency: string;
+    category?: string;
     images: string[];
     status: string;
   };
@@ -42,7 +45,9 @@ export interface Message {
   content: string;
   message_type: 'text' | 'image' | 'offer' | 'system';
   offer_amount?: number;
+  offer_id?: string;
   read_at?: string;
+  is_hidden?: boolean;
   created_at: string;
   updated_at: string;
   sender?: {
@@ -52,6 +57,26 @@ export interface Message {
   };
 }
 
+export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'expired';
+
+export interface Offer {
+  id: string;
+  conversation_id: string;
+  item_id: string;
+  buyer_id: string;
+  seller_id: string;
+  created_by: string;
+  parent_offer_id?: string;
+  amount: number;
+  status: OfferStatus;
+  expires_at: string;
+  responded_at?: string;
+  reserved_until?: string;
+  order_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SendMessageData {
   conversation_id: string;
   content: string;
@@ -72,7 +97,7 @@ export class MessagingService {
         .from('conversations')
         .select(`
           *,
-          item:items(id, title, price, images, status),
+          item:items(id, title, price, currency, category, images, status),
           buyer:profiles!conversations_buyer_id_fkey(id, nickname, profile_picture),
           seller:profiles!conversations_seller_id_fkey(id, nickname, profile_picture),
           last_message:messages(content, message_type, sender_id, created_at)
@@ -181,6 +206,8 @@ export class MessagingService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      await AccountStatusService.assertInGoodStanding(user.id);
+
       const { data, error } = await supabase
         .from('messages')
         .insert({
@@ -225,46 +252,87 @@ export class MessagingService {
     }
   }
 
-  // Send an offer
-  static async sendOffer(conversationId: string, amount: number): Promise<Message> {
+  // Get the offers made in a conversation, oldest first
+  static async getOffers(conversationId: string): Promise<Offer[]> {
     try {
-      return await this.sendMessage({
-        conversation_id: conversationId,
-        content: `Offered $${amount}`,
-        message_type: 'offer',
-        offer_amount: amount,
+      const { data, error } = await supabase
+        .from('offers')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get offers error:', error);
+      throw error;
+    }
+  }
+
+  // Send an offer (by buyer), it expires after 48 hours
+  static async sendOffer(conversationId: string, amount: number): Promise<Offer> {
+    try {
+      const { data, error } = await supabase.rpc('make_offer', {
+        p_conversation_id: conversationId,
+        p_amount: amount,
       });
+
+      if (error) throw error;
+      return data;
     } catch (error) {
       console.error('Send offer error:', error);
       throw error;
     }
   }
 
-  // Accept an offer
-  static async acceptOffer(messageId: string): Promise<void> {
+  // Answer a buyer's offer with a higher price (by seller)
+  static async counterOffer(offerId: string, amount: number): Promise<Offer> {
     try {
-      const { data: message } = await supabase
-        .from('messages')
-        .select('conversation_id, offer_amount')
-        .eq('id', messageId)
-        .single();
+      const { data, error } = await supabase.rpc('counter_offer', {
+        p_offer_id: offerId,
+        p_amount: amount,
+      });
 
-      if (!message) throw new Error('Message not found');
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Counter offer error:', error);
+      throw error;
+    }
+  }
 
-      // Send acceptance message
-      await this.sendMessage({
-        conversation_id: message.conversation_id,
-        content: `Offer of $${message.offer_amount} accepted! Proceeding to payment.`,
-        message_type: 'system',
+  // Accept an offer, the buyer then has 24 hours to check out at its price
+  static async acceptOffer(offerId: string): Promise<Offer> {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_offer', {
+        p_offer_id: offerId,
+        p_accept: true,
       });
 
-      // Here you would typically redirect to payment flow
+      if (error) throw error;
+      return data;
     } catch (error) {
       console.error('Accept offer error:', error);
       throw error;
     }
   }
 
+  // Decline an offer
+  static async declineOffer(offerId: string): Promise<Offer> {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_offer', {
+        p_offer_id: offerId,
+        p_accept: false,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Decline offer error:', error);
+      throw error;
+    }
+  }
+
   // Get unread message count for current user
   static async getUnreadCount(): Promise<number> {
     try {
@@ -357,7 +425,7 @@ export class MessagingService {
         .from('conversations')
         .select(`
           *,
-          item:items(id, title, price, images, status),
+          item:items(id, title, price, currency, images, status),
           buyer:profiles!conversations_buyer_id_fkey(id, nickname, profile_picture),
           seller:profiles!conversations_seller_id_fkey(id, nickname, profile_picture)
         `)
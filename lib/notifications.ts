@@ -1,17 +1,6 @@
 import { supabase } from './supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
-export interface Notification {
-  id: string;
-  user_id: string;
-  type: NotificationType;
-  title: string;
-  message: string;
-  data?: any;
-  is_read: boolean;
-  created_at: string;
-}
-
 export type NotificationType = 
   | 'message' 
   | 'order_update' 
@@ -22,8 +11,93 @@ export type NotificationType =
   | 'price_drop' 
   | 'item_sold' 
   | 'payment' 
+  | 'saved_search'
+  | 'offer'
+  | 'moderation'
   | 'system';
 
+// Payload stored in `data` for each notification type
+export interface NotificationDataMap {
+  message: {
+    conversation_id: string;
+  };
+  order_update: {
+    order_id: string;
+    item_id: string;
+    status: string;
+    previous_status: string | null;
+  };
+  review: {
+    review_id: string;
+    order_id: string;
+    reviewer_id: string;
+    reviewee_id: string;
+    rating: number;
+  };
+  dispute: {
+    dispute_id: string;
+    order_id: string;
+    message_id?: string;
+    outcome?: string;
+    refund_amount?: number;
+  };
+  promotion: {
+    promotion_id: string;
+  };
+  follow: {
+    user_id: string;
+  };
+  price_drop: {
+    item_id: string;
+    old_price: number;
+    new_price: number;
+  };
+  item_sold: {
+    item_id: string;
+    order_id: string;
+    amount: number;
+  };
+  payment: {
+    transaction_id: string;
+    transaction_type: string;
+    amount: number;
+    status: string;
+    reference_id: string | null;
+    reference_type: string | null;
+  };
+  saved_search: {
+    saved_search_id: string;
+    item_ids: string[];
+    count: number;
+  };
+  offer: {
+    offer_id: string;
+    conversation_id: string;
+    item_id: string;
+  };
+  moderation: {
+    item_id: string;
+    action: 'approve' | 'reject' | 'flag' | 'remove';
+    reason_code: string | null;
+  };
+  system: Record<string, unknown>;
+}
+
+interface NotificationBase<T extends NotificationType> {
+  id: string;
+  user_id: string;
+  type: T;
+  title: string;
+  message: string;
+  data?: NotificationDataMap[T] | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+export type Notification = {
+  [T in NotificationType]: NotificationBase<T>;
+}[NotificationType];
+
 export class NotificationService {
   private static realtimeChannel: RealtimeChannel | null = null;
 
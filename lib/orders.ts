@@ -1,4 +1,19 @@
 import { supabase } from './supabase';
+import { FeeBreakdown } from './fees';
+
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'pickup_scheduled'
+  | 'picked_up'
+  | 'delivery_scheduled'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded'
+  | 'disputed';
+
+export type OrderActor = 'buyer' | 'seller' | 'rider' | 'admin' | 'system';
 
 export interface Order {
   id: string;
@@ -9,9 +24,16 @@ export interface Order {
   total_amount: number;
   platform_fee: number;
   seller_amount: number;
+  fee_breakdown?: FeeBreakdown;
   status: string;
   payment_intent_id?: string;
+  refunded_amount?: number;
   conversation_id?: string;
+  delivered_at?: string;
+  inspection_ends_at?: string;
+  inspection_paused_at?: string;
+  is_bundle?: boolean;
+  bundle_discount?: number;
   created_at: string;
   updated_at: string;
   item: {
@@ -41,6 +63,31 @@ export interface Order {
     nickname: string;
     profile_picture?: string;
   };
+  order_items?: OrderItem[];
+}
+
+// One item of an order, bundles have several
+export interface OrderItem {
+  id: string;
+  item_id: string;
+  list_price: number;
+  price: number;
+  item?: {
+    id: string;
+    title: string;
+    images: string[];
+    brand: string;
+    size: string;
+  };
+}
+
+export interface OrderRefund {
+  refund_id: string;
+  order_id: string;
+  amount: number;
+  method: 'card' | 'wallet';
+  refunded_amount: number;
+  order_status: string;
 }
 
 export class OrderService {
@@ -57,7 +104,8 @@ export class OrderService {
           item:items(*),
           buyer:profiles!orders_buyer_id_fkey(id, nickname, profile_picture, created_at),
           seller:profiles!orders_seller_id_fkey(id, nickname, profile_picture, created_at),
-          rider:profiles(id, nickname, profile_picture)
+          rider:profiles(id, nickname, profile_picture),
+          order_items(id, item_id, list_price, price, item:items(id, title, images, brand, size))
         `)
         .eq('id', orderId)
         .or(`buyer_id.eq.${user.id},seller_id.eq.${user.id}`)
@@ -121,38 +169,56 @@ export class OrderService {
       if (orderError) throw orderError;
       if (!order) throw new Error('Order not found');
 
-      // Only allow cancellation of pending or paid orders
-      if (!['pending', 'paid'].includes(order.status)) {
-        throw new Error('Order cannot be cancelled at this stage');
+      // Paid orders are cancelled together with a full refund to the buyer
+      if (order.status === 'paid') {
+        await this.refundOrder(orderId, undefined, reason, { cancel: true });
+        return;
       }
 
-      // Update order status
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-          status: 'cancelled',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
-
-      if (updateError) throw updateError;
-
-      // Add cancellation reason to order history
-      await supabase
-        .from('order_history')
-        .insert({
+      // The database decides whether the order can still be cancelled
+      await this.transitionStatus(orderId, 'cancelled', reason);
+    } catch (error) {
+      console.error('Cancel order error:', error);
+      throw error;
+    }
+  }
+
+  // Refund all or part of a paid order (amount in dollars, defaults to the remaining balance)
+  static async refundOrder(
+    orderId: string,
+    amount?: number,
+    reason?: string,
+    options: { cancel?: boolean; idempotencyKey?: string } = {}
+  ): Promise<OrderRefund> {
+    try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      };
+      if (options.idempotencyKey) {
+        headers['Idempotency-Key'] = options.idempotencyKey;
+      }
+
+      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/payments/refund`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
           order_id: orderId,
-          action: 'cancelled',
-          notes: reason,
-          created_by: user.id,
-        });
+          amount: amount !== undefined ? Math.round(amount * 100) : undefined, // Convert to cents
+          reason,
+          cancel: options.cancel ?? false,
+        }),
+      });
 
-      // If order was paid, refund the buyer
-      if (order.status === 'paid') {
-        // Refund logic would go here
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to refund order');
       }
+
+      return result;
     } catch (error) {
-      console.error('Cancel order error:', error);
+      console.error('Refund order error:', error);
       throw error;
     }
   }
@@ -163,45 +229,10 @@ export class OrderService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Check if order exists and user is the buyer
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .select('id, status, buyer_id')
-        .eq('id', orderId)
-        .eq('buyer_id', user.id)
-        .single();
+      // Completes the delivered order and releases escrow funds to the seller
+      const { error } = await supabase.rpc('release_escrow_funds', { p_order_id: orderId });
 
-      if (orderError) throw orderError;
-      if (!order) throw new Error('Order not found');
-
-      // Only allow completion of delivered orders
-      if (order.status !== 'delivered') {
-        throw new Error('Order cannot be marked as completed at this stage');
-      }
-
-      // Update order status
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-          status: 'completed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
-
-      if (updateError) throw updateError;
-
-      // Add completion to order history
-      await supabase
-        .from('order_history')
-        .insert({
-          order_id: orderId,
-          action: 'completed',
-          notes: 'Order marked as completed by buyer',
-          created_by: user.id,
-        });
-
-      // Release escrow funds to seller
-      await supabase.rpc('release_escrow_funds', { p_order_id: orderId });
+      if (error) throw error;
     } catch (error) {
       console.error('Complete order error:', error);
       throw error;
@@ -211,62 +242,46 @@ export class OrderService {
   // Request refund (by buyer)
   static async requestRefund(orderId: string, reason: string): Promise<void> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      // Disputes the order and opens the dispute together, the database rejects requests at the wrong stage
+      const { error } = await supabase.rpc('request_order_refund', {
+        p_order_id: orderId,
+        p_reason: reason,
+      });
 
-      // Check if order exists and user is the buyer
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .select('id, status, buyer_id')
-        .eq('id', orderId)
-        .eq('buyer_id', user.id)
-        .single();
+      if (error) throw error;
+    } catch (error) {
+      console.error('Request refund error:', error);
+      throw error;
+    }
+  }
 
-      if (orderError) throw orderError;
-      if (!order) throw new Error('Order not found');
+  // Move an order to a new status, checked against the state machine in the database
+  static async transitionStatus(orderId: string, status: OrderStatus, notes?: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('transition_order_status', {
+        p_order_id: orderId,
+        p_status: status,
+        p_notes: notes ?? null,
+      });
 
-      // Only allow refund requests for paid, picked_up, or delivered orders
-      if (!['paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered'].includes(order.status)) {
-        throw new Error('Refund cannot be requested at this stage');
-      }
+      if (error) throw error;
+    } catch (error) {
+      console.error('Transition order status error:', error);
+      throw error;
+    }
+  }
 
-      // Create dispute
-      const { error: disputeError } = await supabase
-        .from('disputes')
-        .insert({
-          order_id: orderId,
-          reporter_id: user.id,
-          reported_id: null, // Will be set by admin
-          type: 'refund_request',
-          description: reason,
-          status: 'open',
-          priority: 'medium',
-        });
-
-      if (disputeError) throw disputeError;
-
-      // Update order status
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-          status: 'disputed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
-
-      if (updateError) throw updateError;
-
-      // Add refund request to order history
-      await supabase
-        .from('order_history')
-        .insert({
-          order_id: orderId,
-          action: 'refund_requested',
-          notes: reason,
-          created_by: user.id,
-        });
+  // Get the statuses the current user may move an order to
+  static async getAllowedTransitions(orderId: string): Promise<{ to_status: OrderStatus; actor: OrderActor }[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_allowed_order_transitions', {
+        p_order_id: orderId,
+      });
+
+      if (error) throw error;
+      return data || [];
     } catch (error) {
-      console.error('Request refund error:', error);
+      console.error('Get allowed transitions error:', error);
       throw error;
     }
   }
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { StripeService } from './stripe';
+import { toCents } from './fees';
 
 export interface PromotionPlan {
   id: string;
@@ -161,10 +162,10 @@ export class PromotionService {
       let paymentResult;
       if (paymentMethod === 'wallet') {
         // Pay with wallet
-        paymentResult = await StripeService.payWithWallet(itemId, plan.price);
+        paymentResult = await StripeService.payWithWallet(itemId, toCents(plan.price));
       } else if (paymentMethod === 'card') {
         // Create payment intent for card payment
-        paymentResult = await StripeService.createPaymentIntent(itemId, plan.price);
+        paymentResult = await StripeService.createPaymentIntent(itemId, toCents(plan.price));
       } else {
         // Credits payment would be handled here
         throw new Error('Credits payment method not implemented');
@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+
+export type ReportTargetType = 'item' | 'profile' | 'message' | 'review';
+
+export type ReportStatus = 'open' | 'actioned' | 'dismissed';
+
+export interface Report {
+  id: string;
+  reporter_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason_code: string;
+  details?: string | null;
+  status: ReportStatus;
+  resolution_note?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+// Matches the report_reasons table
+export const REPORT_REASONS: Record<ReportTargetType, { code: string; label: string }[]> = {
+  item: [
+    { code: 'counterfeit', label: 'Counterfeit' },
+    { code: 'prohibited_item', label: 'Prohibited item' },
+    { code: 'misleading_description', label: 'Misleading description or price' },
+    { code: 'inappropriate_images', label: 'Inappropriate photos' },
+    { code: 'spam', label: 'Spam or duplicate' },
+    { code: 'other', label: 'Something else' },
+  ],
+  profile: [
+    { code: 'fake_account', label: 'Fake account' },
+    { code: 'impersonation', label: 'Pretending to be someone else' },
+    { code: 'scam', label: 'Scam or fraud' },
+    { code: 'harassment', label: 'Harassment' },
+    { code: 'other', label: 'Something else' },
+  ],
+  message: [
+    { code: 'harassment', label: 'Harassment or hate' },
+    { code: 'scam', label: 'Scam or fraud' },
+    { code: 'off_platform_payment', label: 'Asks to pay outside the app' },
+    { code: 'spam', label: 'Spam' },
+    { code: 'other', label: 'Something else' },
+  ],
+  review: [
+    { code: 'fake_review', label: 'Fake review' },
+    { code: 'abusive', label: 'Abusive or hateful' },
+    { code: 'irrelevant', label: 'Not about the order' },
+    { code: 'other', label: 'Something else' },
+  ],
+};
+
+export const reportReasonLabel = (targetType: ReportTargetType, code: string) =>
+  REPORT_REASONS[targetType].find(reason => reason.code === code)?.label || code;
+
+export class ReportsService {
+  // Report a listing, profile, message or review
+  static async submitReport(
+    targetType: ReportTargetType,
+    targetId: string,
+    reasonCode: string,
+    details?: string
+  ): Promise<Report> {
+    try {
+      const { data, error } = await supabase.rpc('submit_report', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_reason_code: reasonCode,
+        p_details: details?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data as Report;
+    } catch (error) {
+      console.error('Submit report error:', error);
+      throw error;
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { supabase } from './supabase';
 export interface Review {
   id: string;
   order_id: string;
+  order_item_id?: string;
   reviewer_id: string;
   reviewee_id: string;
   rating: number;
@@ -53,6 +54,8 @@ export interface ReviewResponse {
 
 export interface CreateReviewData {
   order_id: string;
+  // Line of a bundle order the review is about
+  order_item_id?: string;
   reviewee_id: string;
   rating: number;
   content?: string;
@@ -210,22 +213,31 @@ export class ReviewsService {
       const isSeller = order.seller_id === user.id;
 
       if (!isBuyer && !isSeller) throw new Error('You can only review orders you participated in');
+      if (reviewData.order_item_id && !isBuyer) throw new Error('Only the buyer can review individual items');
 
-      // Check if a review already exists for this order by this user
-      const { data: existingReview } = await supabase
+      // Check if a review already exists for this order, or this item of a bundle, by this user
+      let existingQuery = supabase
         .from('reviews')
         .select('id')
         .eq('order_id', reviewData.order_id)
-        .eq('reviewer_id', user.id)
-        .maybeSingle();
+        .eq('reviewer_id', user.id);
+
+      existingQuery = reviewData.order_item_id
+        ? existingQuery.eq('order_item_id', reviewData.order_item_id)
+        : existingQuery.is('order_item_id', null);
 
-      if (existingReview) throw new Error('You have already reviewed this order');
+      const { data: existingReview } = await existingQuery.maybeSingle();
+
+      if (existingReview) {
+        throw new Error(reviewData.order_item_id ? 'You have already reviewed this item' : 'You have already reviewed this order');
+      }
 
       // Create the review
       const { data, error } = await supabase
         .from('reviews')
         .insert({
           order_id: reviewData.order_id,
+          order_item_id: reviewData.order_item_id,
           reviewer_id: user.id,
           reviewee_id: reviewData.reviewee_id,
           rating: reviewData.rating,
@@ -484,7 +496,7 @@ export class ReviewsService {
   }
 
   // Check if a user can review an order
-  static async canReviewOrder(orderId: string): Promise<{ canReview: boolean; revieweeId?: string }> {
+  static async canReviewOrder(orderId: string): Promise<{ canReview: boolean; revieweeId?: string; orderItemIds?: string[] }> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -492,7 +504,7 @@ export class ReviewsService {
       // Check if the order exists and is completed
       const { data: order, error: orderError } = await supabase
         .from('orders')
-        .select('id, status, buyer_id, seller_id')
+        .select('id, status, buyer_id, seller_id, is_bundle, order_items(id)')
         .eq('id', orderId)
         .single();
 
@@ -505,20 +517,26 @@ export class ReviewsService {
 
       if (!isBuyer && !isSeller) return { canReview: false };
 
-      // Check if a review already exists for this order by this user
-      const { data: existingReview } = await supabase
+      // Check which reviews this user already left on the order and its items
+      const { data: existingReviews } = await supabase
         .from('reviews')
-        .select('id')
+        .select('order_item_id')
         .eq('order_id', orderId)
-        .eq('reviewer_id', user.id)
-        .maybeSingle();
+        .eq('reviewer_id', user.id);
+
+      const reviewed = new Set((existingReviews || []).map(review => review.order_item_id ?? null));
+
+      // Buyers of a bundle can also review each item on its own
+      const orderItemIds = isBuyer && order.is_bundle
+        ? (order.order_items || []).map((line: { id: string }) => line.id).filter((id: string) => !reviewed.has(id))
+        : [];
 
-      if (existingReview) return { canReview: false };
+      if (reviewed.has(null) && orderItemIds.length === 0) return { canReview: false };
 
       // Determine who can be reviewed
       const revieweeId = isBuyer ? order.seller_id : order.buyer_id;
 
-      return { canReview: true, revieweeId };
+      return { canReview: true, revieweeId, orderItemIds };
     } catch (error) {
       console.error('Can review order error:', error);
       throw error;
@@ -0,0 +1,95 @@
+import { supabase } from './supabase';
+
+export type RiderApiScope = 'deliveries:read' | 'deliveries:write';
+
+export const RIDER_API_SCOPES: { id: RiderApiScope; label: string; description: string }[] = [
+  { id: 'deliveries:read', label: 'Read', description: 'View pending, assigned and delivery details' },
+  { id: 'deliveries:write', label: 'Status updates', description: 'Assign deliveries and update their status' },
+];
+
+export interface Rider {
+  id: string;
+  profile_id: string;
+  vehicle_type?: string;
+  license_plate?: string;
+  is_active: boolean;
+  api_key_prefix: string | null;
+  api_key_scopes: RiderApiScope[];
+  api_key_created_at: string | null;
+  api_key_revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profile?: {
+    id: string;
+    nickname: string;
+    profile_picture?: string;
+  };
+}
+
+export class RidersService {
+  // Get all riders with their API key status (admin only)
+  static async getRiders(): Promise<Rider[]> {
+    try {
+      const { data, error } = await supabase
+        .from('riders')
+        .select(`
+          id, profile_id, vehicle_type, license_plate, is_active,
+          api_key_prefix, api_key_scopes, api_key_created_at, api_key_revoked_at, last_used_at,
+          created_at, updated_at,
+          profile:profiles(id, nickname, profile_picture)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as unknown as Rider[];
+    } catch (error) {
+      console.error('Get riders error:', error);
+      throw error;
+    }
+  }
+
+  // Issue a new API key for a rider, the old key stops working. Returns the key, which is only shown once
+  static async rotateApiKey(riderId: string): Promise<string> {
+    try {
+      const { data, error } = await supabase.rpc('rotate_rider_api_key', {
+        p_rider_id: riderId,
+      });
+
+      if (error) throw error;
+      return data.api_key;
+    } catch (error) {
+      console.error('Rotate rider API key error:', error);
+      throw error;
+    }
+  }
+
+  // Revoke a rider's API key
+  static async revokeApiKey(riderId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('revoke_rider_api_key', {
+        p_rider_id: riderId,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Revoke rider API key error:', error);
+      throw error;
+    }
+  }
+
+  // Change what a rider's API key is allowed to do
+  static async setApiKeyScopes(riderId: string, scopes: RiderApiScope[]): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('set_rider_api_key_scopes', {
+        p_rider_id: riderId,
+        p_scopes: scopes,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Set rider API key scopes error:', error);
+      throw error;
+    }
+  }
+}
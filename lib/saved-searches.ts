@@ -0,0 +1,129 @@
+import { supabase } from './supabase';
+import { SearchFilters } from './items';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null;
+  filters: SearchFilters;
+  is_muted: boolean;
+  last_checked_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SavedSearchesService {
+  // Get current user's saved searches
+  static async getSavedSearches(): Promise<SavedSearch[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get saved searches error:', error);
+      throw error;
+    }
+  }
+
+  // Get a single saved search
+  static async getSavedSearch(savedSearchId: string): Promise<SavedSearch | null> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('id', savedSearchId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get saved search error:', error);
+      return null;
+    }
+  }
+
+  // Save the current query and filters under a name
+  static async createSavedSearch(name: string, query: string, filters: SearchFilters): Promise<SavedSearch> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          query: query.trim() || null,
+          filters,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create saved search error:', error);
+      throw error;
+    }
+  }
+
+  // Rename a saved search
+  static async renameSavedSearch(savedSearchId: string, name: string): Promise<SavedSearch> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .update({ name: name.trim() })
+        .eq('id', savedSearchId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Rename saved search error:', error);
+      throw error;
+    }
+  }
+
+  // Mute or unmute new listing alerts for a saved search
+  static async setMuted(savedSearchId: string, muted: boolean): Promise<SavedSearch> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .update({ is_muted: muted })
+        .eq('id', savedSearchId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Set saved search muted error:', error);
+      throw error;
+    }
+  }
+
+  // Delete a saved search
+  static async deleteSavedSearch(savedSearchId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Delete saved search error:', error);
+      throw error;
+    }
+  }
+}
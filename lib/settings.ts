@@ -0,0 +1,360 @@
+import { supabase } from './supabase';
+
+export interface AdminSettings {
+  platform: {
+    autoModeration: boolean;
+    maintenanceMode: boolean;
+    newUserRegistration: boolean;
+    itemAutoApproval: boolean;
+    reportAutoHideThreshold: number;
+    reportDailyLimit: number;
+  };
+  notifications: {
+    emailNotifications: boolean;
+    smsNotifications: boolean;
+    disputeAutoAssignment: boolean;
+  };
+  fees: {
+    transactionFee: number;
+    buyerProtectionFee: number;
+    payoutFee: number;
+  };
+  delivery: {
+    apiEnabled: boolean;
+    inspectionWindowHours: number;
+  };
+  // Listing risk rules, applied when platform.autoModeration is on
+  moderation: {
+    reviewThreshold: number;
+    prohibitedKeywords: string[];
+    prohibitedKeywordScore: number;
+    replicaKeywords: string[];
+    replicaKeywordScore: number;
+    contactDetailsScore: number;
+    luxuryBrands: string[];
+    luxuryPriceRatio: number;
+    luxuryPriceScore: number;
+    newSellerDays: number;
+    newSellerScore: number;
+    noSalesScore: number;
+    recentTakedownScore: number;
+    duplicateImageScore: number;
+  };
+}
+
+export interface SettingsChange {
+  id: string;
+  version: number;
+  key: string;
+  previous_value: unknown;
+  new_value: unknown;
+  changed_by?: string;
+  notes?: string;
+  created_at: string;
+  changed_by_profile?: {
+    id: string;
+    nickname: string;
+  };
+}
+
+export interface SettingsVersion {
+  version: number;
+  created_at: string;
+  changed_by?: string;
+  changed_by_nickname?: string;
+  notes?: string;
+  changes: SettingsChange[];
+}
+
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max: number }
+  | { type: 'string'; optional?: boolean; url?: boolean }
+  | { type: 'list'; maxItems: number; maxLength: number };
+
+type SettingsSchema = {
+  [S in keyof AdminSettings]: { [K in keyof AdminSettings[S]]-?: SettingRule };
+};
+
+// Used when a key is missing from the platform_settings table
+export const DEFAULT_SETTINGS: AdminSettings = {
+  platform: {
+    autoModeration: true,
+    maintenanceMode: false,
+    newUserRegistration: true,
+    itemAutoApproval: false,
+    reportAutoHideThreshold: 3, // reporters
+    reportDailyLimit: 10, // reports per user
+  },
+  notifications: {
+    emailNotifications: true,
+    smsNotifications: false,
+    disputeAutoAssignment: true,
+  },
+  fees: {
+    transactionFee: 5.0, // 5%
+    buyerProtectionFee: 0, // 0%
+    payoutFee: 1.5, // 1.5%
+  },
+  delivery: {
+    apiEnabled: true,
+    inspectionWindowHours: 48,
+  },
+  moderation: {
+    reviewThreshold: 50,
+    prohibitedKeywords: ['weapon', 'knife', 'ivory', 'fur trim', 'prescription', 'vape'],
+    prohibitedKeywordScore: 60,
+    replicaKeywords: ['replica', 'fake', 'inspired by', 'mirror quality', '1:1', 'aaa grade', 'dupe'],
+    replicaKeywordScore: 50,
+    contactDetailsScore: 30,
+    luxuryBrands: ['chanel', 'louis vuitton', 'gucci', 'hermes', 'hermès', 'prada', 'dior', 'balenciaga', 'rolex', 'cartier', 'saint laurent', 'fendi'],
+    luxuryPriceRatio: 30, // % of the category median
+    luxuryPriceScore: 40,
+    newSellerDays: 7,
+    newSellerScore: 20,
+    noSalesScore: 10,
+    recentTakedownScore: 40,
+    duplicateImageScore: 40,
+  },
+};
+
+const SETTINGS_SCHEMA: SettingsSchema = {
+  platform: {
+    autoModeration: { type: 'boolean' },
+    maintenanceMode: { type: 'boolean' },
+    newUserRegistration: { type: 'boolean' },
+    itemAutoApproval: { type: 'boolean' },
+    reportAutoHideThreshold: { type: 'number', min: 1, max: 50 },
+    reportDailyLimit: { type: 'number', min: 1, max: 100 },
+  },
+  notifications: {
+    emailNotifications: { type: 'boolean' },
+    smsNotifications: { type: 'boolean' },
+    disputeAutoAssignment: { type: 'boolean' },
+  },
+  fees: {
+    transactionFee: { type: 'number', min: 0, max: 100 },
+    buyerProtectionFee: { type: 'number', min: 0, max: 100 },
+    payoutFee: { type: 'number', min: 0, max: 100 },
+  },
+  delivery: {
+    apiEnabled: { type: 'boolean' },
+    inspectionWindowHours: { type: 'number', min: 0, max: 720 },
+  },
+  moderation: {
+    reviewThreshold: { type: 'number', min: 1, max: 1000 },
+    prohibitedKeywords: { type: 'list', maxItems: 200, maxLength: 50 },
+    prohibitedKeywordScore: { type: 'number', min: 0, max: 100 },
+    replicaKeywords: { type: 'list', maxItems: 200, maxLength: 50 },
+    replicaKeywordScore: { type: 'number', min: 0, max: 100 },
+    contactDetailsScore: { type: 'number', min: 0, max: 100 },
+    luxuryBrands: { type: 'list', maxItems: 200, maxLength: 50 },
+    luxuryPriceRatio: { type: 'number', min: 1, max: 100 },
+    luxuryPriceScore: { type: 'number', min: 0, max: 100 },
+    newSellerDays: { type: 'number', min: 0, max: 365 },
+    newSellerScore: { type: 'number', min: 0, max: 100 },
+    noSalesScore: { type: 'number', min: 0, max: 100 },
+    recentTakedownScore: { type: 'number', min: 0, max: 100 },
+    duplicateImageScore: { type: 'number', min: 0, max: 100 },
+  },
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+
+function isSettingsSection(section: string): section is keyof AdminSettings {
+  return Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, section);
+}
+
+// Rule for a setting, undefined for unknown or retired keys
+function getSettingRule(section: string, key: string): SettingRule | undefined {
+  if (!isSettingsSection(section)) return undefined;
+  const rules: Record<string, SettingRule> = SETTINGS_SCHEMA[section];
+  return Object.prototype.hasOwnProperty.call(rules, key) ? rules[key] : undefined;
+}
+
+export class SettingsService {
+  private static cache: { settings: AdminSettings; fetchedAt: number } | null = null;
+
+  // Get current platform settings, merged over the defaults
+  static async getSettings(options: { fresh?: boolean } = {}): Promise<AdminSettings> {
+    try {
+      if (!options.fresh && this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) {
+        return this.cache.settings;
+      }
+
+      const { data, error } = await supabase
+        .from('platform_settings')
+        .select('key, value');
+
+      if (error) throw error;
+
+      const settings: AdminSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+      (data || []).forEach((row: { key: string; value: unknown }) => {
+        const [section, key] = row.key.split('.');
+        // Skip retired keys so they are never saved back
+        if (isSettingsSection(section) && getSettingRule(section, key) && row.value !== null) {
+          const values: Record<string, unknown> = settings[section];
+          values[key] = row.value;
+        }
+      });
+
+      this.cache = { settings, fetchedAt: Date.now() };
+      return settings;
+    } catch (error) {
+      console.error('Get settings error:', error);
+      throw error;
+    }
+  }
+
+  // Save changed settings as a new version, returns the version number
+  static async updateSettings(settings: Partial<AdminSettings>, notes?: string): Promise<number> {
+    try {
+      const errors = validateSettings(settings);
+      if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
+      }
+
+      const { data, error } = await supabase.rpc('update_platform_settings', {
+        p_settings: flattenSettings(settings),
+        p_notes: notes ?? null,
+      });
+
+      if (error) throw error;
+
+      this.cache = null;
+      return data;
+    } catch (error) {
+      console.error('Update settings error:', error);
+      throw error;
+    }
+  }
+
+  // Get the audit trail grouped by version, newest first
+  static async getSettingsHistory(limit: number = 20): Promise<SettingsVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('platform_settings_audit')
+        .select(`
+          *,
+          changed_by_profile:profiles(id, nickname)
+        `)
+        .order('version', { ascending: false })
+        .limit(limit * 10);
+
+      if (error) throw error;
+
+      const versions: SettingsVersion[] = [];
+      (data || []).forEach((change: SettingsChange) => {
+        let entry = versions.find(v => v.version === change.version);
+        if (!entry) {
+          if (versions.length >= limit) return;
+          entry = {
+            version: change.version,
+            created_at: change.created_at,
+            changed_by: change.changed_by,
+            changed_by_nickname: change.changed_by_profile?.nickname,
+            notes: change.notes,
+            changes: [],
+          };
+          versions.push(entry);
+        }
+        entry.changes.push(change);
+      });
+
+      return versions;
+    } catch (error) {
+      console.error('Get settings history error:', error);
+      throw error;
+    }
+  }
+
+  // Restore all settings to the state they had at a previous version
+  static async rollbackToVersion(version: number): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('rollback_platform_settings', {
+        p_version: version,
+      });
+
+      if (error) throw error;
+
+      this.cache = null;
+      return data;
+    } catch (error) {
+      console.error('Rollback settings error:', error);
+      throw error;
+    }
+  }
+}
+
+// Check a (partial) settings object against the AdminSettings schema
+export function validateSettings(settings: Partial<AdminSettings>): string[] {
+  const errors: string[] = [];
+
+  Object.entries(settings).forEach(([section, values]) => {
+    if (!isSettingsSection(section)) {
+      errors.push(`Unknown settings section: ${section}`);
+      return;
+    }
+
+    Object.entries(values || {}).forEach(([key, value]: [string, unknown]) => {
+      const rule = getSettingRule(section, key);
+      const path = `${section}.${key}`;
+
+      if (!rule) {
+        errors.push(`Unknown setting: ${path}`);
+        return;
+      }
+
+      switch (rule.type) {
+        case 'boolean':
+          if (typeof value !== 'boolean') errors.push(`${path} must be true or false`);
+          break;
+        case 'number':
+          if (typeof value !== 'number' || isNaN(value)) {
+            errors.push(`${path} must be a number`);
+          } else if (value < rule.min || value > rule.max) {
+            errors.push(`${path} must be between ${rule.min} and ${rule.max}`);
+          }
+          break;
+        case 'string':
+          if (value === undefined || value === null || value === '') {
+            if (!rule.optional) errors.push(`${path} is required`);
+          } else if (typeof value !== 'string') {
+            errors.push(`${path} must be text`);
+          } else if (rule.url && !/^https:\/\/\S+$/.test(value)) {
+            errors.push(`${path} must be an https:// URL`);
+          }
+          break;
+        case 'list':
+          if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+            errors.push(`${path} must be a list of words`);
+          } else if (value.length > rule.maxItems) {
+            errors.push(`${path} can have at most ${rule.maxItems} entries`);
+          } else if (value.some(entry => entry.trim().length > rule.maxLength)) {
+            errors.push(`${path} entries must be at most ${rule.maxLength} characters`);
+          }
+          break;
+      }
+    });
+  });
+
+  return errors;
+}
+
+// Convert nested settings into the "section.key" map stored in platform_settings
+function flattenSettings(settings: Partial<AdminSettings>): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  Object.entries(settings).forEach(([section, values]) => {
+    Object.entries(values || {}).forEach(([key, value]: [string, unknown]) => {
+      if (Array.isArray(value)) {
+        // Lists are edited one entry per line, drop the blank lines
+        flat[`${section}.${key}`] = value.map(entry => String(entry).trim().toLowerCase()).filter(Boolean);
+        return;
+      }
+      flat[`${section}.${key}`] = value === undefined || value === '' ? null : value;
+    });
+  });
+
+  return flat;
+}
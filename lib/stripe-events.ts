@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+
+export type StripeEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export const STRIPE_EVENT_STATUSES: { id: StripeEventStatus; label: string }[] = [
+  { id: 'failed', label: 'Failed' },
+  { id: 'processed', label: 'Processed' },
+  { id: 'ignored', label: 'Ignored' },
+  { id: 'processing', label: 'Processing' },
+];
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  object_id?: string;
+  account_id?: string;
+  livemode: boolean;
+  status: StripeEventStatus;
+  attempts: number;
+  result?: string;
+  last_error?: string;
+  stripe_created_at: string;
+  received_at: string;
+  processed_at?: string;
+}
+
+export class StripeEventsService {
+  // Get the most recent Stripe webhook events and how they were processed (admin only)
+  static async getEvents(status?: StripeEventStatus, limit = 50): Promise<StripeEvent[]> {
+    try {
+      let query = supabase
+        .from('stripe_events')
+        .select('id, type, object_id, account_id, livemode, status, attempts, result, last_error, stripe_created_at, received_at, processed_at')
+        .order('received_at', { ascending: false })
+        .limit(limit);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get Stripe events error:', error);
+      throw error;
+    }
+  }
+}
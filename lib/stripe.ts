@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { FeeBreakdown, toCents } from './fees';
+import { DEFAULT_CURRENCY } from './currency';
 
 export interface PaymentIntent {
   id: string;
@@ -6,28 +8,44 @@ export interface PaymentIntent {
   amount: number;
   currency: string;
   status: string;
+  fee_breakdown?: FeeBreakdown;
+  reserved_until?: string;
 }
 
 export interface WalletTransaction {
   id: string;
   user_id: string;
-  type: 'credit' | 'debit' | 'escrow_hold' | 'escrow_release' | 'payout';
+  type: 'credit' | 'debit' | 'escrow_hold' | 'escrow_release' | 'escrow_reversal' | 'refund' | 'payout';
   amount: number;
+  currency: string;
   description: string;
   reference_id?: string;
   reference_type?: 'order' | 'payout' | 'refund';
   status: 'pending' | 'completed' | 'failed';
+  journal_entry_id?: string;
   created_at: string;
 }
 
+// Balances held in one currency, a wallet has one per currency it has been paid in
+export interface WalletBalance {
+  currency: string;
+  available_balance: number;
+  pending_balance: number;
+  total_earned: number;
+  total_spent: number;
+}
+
+// The wallet row mirrors the balance in its payout currency
 export interface UserWallet {
   id: string;
   user_id: string;
+  currency: string;
   available_balance: number;
   pending_balance: number;
   total_earned: number;
   total_spent: number;
   stripe_account_id?: string;
+  balances?: WalletBalance[];
   created_at: string;
   updated_at: string;
 }
@@ -35,8 +53,13 @@ export interface UserWallet {
 export class StripeService {
   private static baseUrl = process.env.EXPO_PUBLIC_API_URL;
 
-  // Create payment intent for item purchase
-  static async createPaymentIntent(itemId: string, amount: number): Promise<PaymentIntent> {
+  // Create payment intent for item purchase, the amount is the quoted buyer total in cents
+  static async createPaymentIntent(
+    itemId: string,
+    amountCents: number,
+    offerId?: string,
+    currency?: string
+  ): Promise<PaymentIntent> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -49,14 +72,15 @@ export class StripeService {
         },
         body: JSON.stringify({
           item_id: itemId,
-          amount: amount * 100, // Convert to cents
-          currency: 'usd',
+          amount: amountCents,
+          currency,
+          offer_id: offerId,
         }),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to create payment intent');
+        throw new Error(error.error || error.message || 'Failed to create payment intent');
       }
 
       return await response.json();
@@ -66,6 +90,34 @@ export class StripeService {
     }
   }
 
+  // Create payment intent for a bundle of items from one seller
+  static async createBundlePaymentIntent(itemIds: string[], amountCents: number, currency?: string): Promise<PaymentIntent> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/payments/create-intent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+        body: JSON.stringify({
+          item_ids: itemIds,
+          amount: amountCents,
+          currency,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || error.message || 'Failed to create payment intent');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Create bundle payment intent error:', error);
+      throw error;
+    }
+  }
+
   // Confirm payment and create order
   static async confirmPayment(paymentIntentId: string, itemId: string): Promise<any> {
     try {
@@ -83,7 +135,7 @@ export class StripeService {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to confirm payment');
+        throw new Error(error.error || error.message || 'Failed to confirm payment');
       }
 
       return await response.json();
@@ -93,7 +145,7 @@ export class StripeService {
     }
   }
 
-  // Get user wallet
+  // Get user wallet with its balance in every currency
   static async getUserWallet(): Promise<UserWallet> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -122,10 +174,17 @@ export class StripeService {
           .single();
 
         if (createError) throw createError;
-        return newWallet;
+        return { ...newWallet, balances: [] };
       }
 
-      return data;
+      const { data: balances, error: balancesError } = await supabase
+        .from('wallet_balances')
+        .select('currency, available_balance, pending_balance, total_earned, total_spent')
+        .eq('user_id', user.id)
+        .order('currency', { ascending: true });
+
+      if (balancesError) throw balancesError;
+      return { ...data, balances: balances || [] };
     } catch (error) {
       console.error('Get user wallet error:', error);
       throw error;
@@ -154,7 +213,7 @@ export class StripeService {
   }
 
   // Add funds to wallet
-  static async addFundsToWallet(amount: number): Promise<PaymentIntent> {
+  static async addFundsToWallet(amount: number, currency: string = DEFAULT_CURRENCY): Promise<PaymentIntent> {
     try {
       const response = await fetch(`${this.baseUrl}/api/payments/add-funds`, {
         method: 'POST',
@@ -163,7 +222,8 @@ export class StripeService {
           'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
         },
         body: JSON.stringify({
-          amount: amount * 100, // Convert to cents
+          amount: toCents(amount),
+          currency,
         }),
       });
 
@@ -189,7 +249,7 @@ export class StripeService {
           'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
         },
         body: JSON.stringify({
-          amount: amount * 100, // Convert to cents
+          amount: toCents(amount),
         }),
       });
 
@@ -205,8 +265,8 @@ export class StripeService {
     }
   }
 
-  // Pay with wallet balance
-  static async payWithWallet(itemId: string, amount: number): Promise<any> {
+  // Pay with wallet balance, the amount is the quoted buyer total in cents
+  static async payWithWallet(itemId: string, amountCents: number, offerId?: string): Promise<any> {
     try {
       const response = await fetch(`${this.baseUrl}/api/payments/pay-with-wallet`, {
         method: 'POST',
@@ -216,13 +276,14 @@ export class StripeService {
         },
         body: JSON.stringify({
           item_id: itemId,
-          amount: amount * 100, // Convert to cents
+          amount: amountCents,
+          offer_id: offerId,
         }),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to pay with wallet');
+        throw new Error(error.error || error.message || 'Failed to pay with wallet');
       }
 
       return await response.json();
@@ -231,4 +292,31 @@ export class StripeService {
       throw error;
     }
   }
+
+  // Pay for a bundle of items from one seller with wallet balance
+  static async payBundleWithWallet(itemIds: string[], amountCents: number): Promise<any> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/payments/pay-with-wallet`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+        body: JSON.stringify({
+          item_ids: itemIds,
+          amount: amountCents,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || error.message || 'Failed to pay with wallet');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Pay bundle with wallet error:', error);
+      throw error;
+    }
+  }
 }
\ No newline at end of file
@@ -14,7 +14,26 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// Client that acts as the caller of an API route, so RLS and auth.uid() apply
+export const createUserClient = (accessToken: string) =>
+  createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
 
+// Client for server-side jobs such as webhooks, bypasses RLS so never ship it to the app
+export const createServiceClient = () =>
+  createClient<Database>(supabaseUrl, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
 
 // Twilio configuration
 export const twilioConfig = {
@@ -0,0 +1,178 @@
+import { supabase } from './supabase';
+
+export type WebhookEventType =
+  | 'delivery.assigned'
+  | 'delivery.status_changed'
+  | 'order.ready_for_pickup'
+  | 'order.cancelled';
+
+export const WEBHOOK_EVENTS: { id: WebhookEventType; description: string }[] = [
+  { id: 'delivery.assigned', description: 'A rider was assigned to an order' },
+  { id: 'delivery.status_changed', description: 'A delivery moved to a new status' },
+  { id: 'order.ready_for_pickup', description: 'The seller scheduled a pickup' },
+  { id: 'order.cancelled', description: 'An order was cancelled' },
+];
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description?: string;
+  secret: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event_id: string;
+  endpoint_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'sending' | 'delivered' | 'dead';
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at?: string;
+  last_response_status?: number;
+  last_error?: string;
+  delivered_at?: string;
+  created_at: string;
+}
+
+export interface DeadLetter {
+  id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  attempts: number;
+  last_attempt_at?: string;
+  last_response_status?: number;
+  last_error?: string;
+  created_at: string;
+  endpoint_id: string;
+  endpoint_url: string;
+}
+
+export class WebhooksService {
+  // Get all partner endpoints (admin only)
+  static async getEndpoints(): Promise<WebhookEndpoint[]> {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get webhook endpoints error:', error);
+      throw error;
+    }
+  }
+
+  // Register a partner endpoint, a signing secret is generated for it
+  static async createEndpoint(url: string, description?: string): Promise<WebhookEndpoint> {
+    try {
+      if (!/^https:\/\/\S+$/.test(url.trim())) {
+        throw new Error('Webhook URL must be an https:// URL');
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert({
+          url: url.trim(),
+          description: description || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create webhook endpoint error:', error);
+      throw error;
+    }
+  }
+
+  // Pause or resume sending to an endpoint
+  static async setEndpointActive(endpointId: string, active: boolean): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .update({ is_active: active })
+        .eq('id', endpointId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Set webhook endpoint active error:', error);
+      throw error;
+    }
+  }
+
+  // Remove an endpoint and its delivery history
+  static async deleteEndpoint(endpointId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', endpointId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Delete webhook endpoint error:', error);
+      throw error;
+    }
+  }
+
+  // Get the most recent deliveries across all endpoints
+  static async getRecentDeliveries(limit: number = 20): Promise<WebhookDelivery[]> {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+      throw error;
+    }
+  }
+
+  // Get deliveries that ran out of retries
+  static async getDeadLetters(limit: number = 50): Promise<DeadLetter[]> {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_dead_letters')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get webhook dead letters error:', error);
+      throw error;
+    }
+  }
+
+  // Queue a delivered or dead event to be sent again
+  static async replayDelivery(deliveryId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('replay_webhook_delivery', {
+        p_delivery_id: deliveryId,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Replay webhook delivery error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,236 +1 @@
-import React, { useState } from 'react';
-import {
-  View,
-  Text,
-  FlatList,
-  TouchableOpacity,
-  Image,
-  StyleSheet,
-  SafeAreaView,
-  Dimensions,
-} from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
-
-const { width } = Dimensions.get('window');
-const itemWidth = (width - 45) / 2;
-
-interface FavoriteItem {
-  id: string;
-  title: string;
-  price: number;
-  image: string;
-  brand: string;
-  size: string;
-}
-
-const mockFavorites: FavoriteItem[] = [
-  {
-    id: '1',
-    title: 'Vintage Denim Jacket',
-    price: 45,
-    image: 'https://images.pexels.com/photos/1598507/pexels-photo-1598507.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-    brand: 'Levi\'s',
-    size: 'M',
-  },
-  {
-    id: '3',
-    title: 'Designer Handbag',
-    price: 125,
-    image: 'https://images.pexels.com/photos/1152077/pexels-photo-1152077.jpeg?auto=compress&cs=tinysrgb&w=400&h=600&dpr=2',
-    brand: 'Coach',
-    size: 'One Size',
-  },
-];
-
-export default function FavoritesScreen() {
-  const [favorites, setFavorites] = useState<FavoriteItem[]>(mockFavorites);
-
-  const removeFavorite = (itemId: string) => {
-    setFavorites(prevFavorites => 
-      prevFavorites.filter(item => item.id !== itemId)
-    );
-  };
-
-  const renderItem = ({ item }: { item: FavoriteItem }) => (
-    <TouchableOpacity style={styles.itemContainer}>
-      <View style={styles.imageContainer}>
-        <Image source={{ uri: item.image }} style={styles.itemImage} />
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => removeFavorite(item.id)}
-        >
-          <Ionicons name="heart" size={20} color="#FF6B6B" />
-        </TouchableOpacity>
-      </View>
-      
-      <View style={styles.itemInfo}>
-        <Text style={styles.itemPrice}>${item.price}</Text>
-        <Text style={styles.itemTitle} numberOfLines={2}>
-          {item.title}
-        </Text>
-        <Text style={styles.itemBrand}>{item.brand} • {item.size}</Text>
-      </View>
-    </TouchableOpacity>
-  );
-
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Ionicons name="heart-outline" size={80} color="#E5E7EB" />
-      <Text style={styles.emptyTitle}>No favorites yet</Text>
-      <Text style={styles.emptySubtitle}>
-        Items you heart will appear here so you can easily find them later
-      </Text>
-      <TouchableOpacity style={styles.browseButton}>
-        <Text style={styles.browseButtonText}>Start Browsing</Text>
-      </TouchableOpacity>
-    </View>
-  );
-
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>Favorites</Text>
-        {favorites.length > 0 && (
-          <Text style={styles.itemCount}>{favorites.length} items</Text>
-        )}
-      </View>
-
-      {favorites.length === 0 ? (
-        renderEmptyState()
-      ) : (
-        <FlatList
-          data={favorites}
-          renderItem={renderItem}
-          keyExtractor={(item) => item.id}
-          numColumns={2}
-          contentContainerStyle={styles.listContainer}
-          columnWrapperStyle={styles.row}
-          showsVerticalScrollIndicator={false}
-        />
-      )}
-    </SafeAreaView>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#ffffff',
-  },
-  header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: '#F3F4F6',
-  },
-  headerTitle: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: '#111827',
-  },
-  itemCount: {
-    fontSize: 16,
-    color: '#6B7280',
-  },
-  listContainer: {
-    padding: 15,
-  },
-  row: {
-    justifyContent: 'space-between',
-  },
-  itemContainer: {
-    width: itemWidth,
-    backgroundColor: '#ffffff',
-    borderRadius: 12,
-    marginBottom: 20,
-    shadowColor: '#000',
-    shadowOffset: {
-      width: 0,
-      height: 2,
-    },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
-  },
-  imageContainer: {
-    position: 'relative',
-  },
-  itemImage: {
-    width: '100%',
-    height: itemWidth * 1.3,
-    borderTopLeftRadius: 12,
-    borderTopRightRadius: 12,
-  },
-  removeButton: {
-    position: 'absolute',
-    top: 8,
-    right: 8,
-    backgroundColor: '#ffffff',
-    borderRadius: 20,
-    width: 36,
-    height: 36,
-    justifyContent: 'center',
-    alignItems: 'center',
-    shadowColor: '#000',
-    shadowOffset: {
-      width: 0,
-      height: 2,
-    },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
-  },
-  itemInfo: {
-    padding: 12,
-  },
-  itemPrice: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#14B8A6',
-    marginBottom: 4,
-  },
-  itemTitle: {
-    fontSize: 14,
-    color: '#374151',
-    marginBottom: 4,
-    lineHeight: 18,
-  },
-  itemBrand: {
-    fontSize: 12,
-    color: '#9CA3AF',
-  },
-  emptyState: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 40,
-  },
-  emptyTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#111827',
-    marginTop: 24,
-    marginBottom: 12,
-  },
-  emptySubtitle: {
-    fontSize: 16,
-    color: '#6B7280',
-    textAlign: 'center',
-    lineHeight: 24,
-    marginBottom: 32,
-  },
-  browseButton: {
-    backgroundColor: '#14B8A6',
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 12,
-  },
-  browseButtonText: {
-    color: '#ffffff',
-    fontSize: 16,
-    fontWeight: '600',
-  },
-});
\ No newline at end of file
+export { default } from '../../app/(tabs)/favorites';
@@ -79,8 +79,27 @@ const DeliveryUpdateSchema = z.object({
   }).optional(),
 });
 
-// Authentication middleware
-const authenticate = async (request: Request) => {
+type RiderScope = "deliveries:read" | "deliveries:write";
+
+interface RiderIdentity {
+  riderId: string;
+  profileId: string;
+  scopes: RiderScope[];
+}
+
+// Hex SHA-256 of an API key, matches how keys are stored in riders.api_key_hash
+const hashApiKey = async (key: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Authentication middleware, resolves the caller to a rider holding the required scope
+const authenticate = async (
+  request: Request,
+  scope: RiderScope
+): Promise<RiderIdentity | Response> => {
   const authHeader = request.headers.get("Authorization");
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return new Response(
@@ -93,10 +112,86 @@ const authenticate = async (request: Request) => {
   }
 
   const token = authHeader.replace("Bearer ", "");
-  
-  // In a real implementation, you would validate the token
-  // For now, we'll use a simple check for demo purposes
-  if (token !== "RIDER_API_KEY" && !token.startsWith("eyJ")) {
+
+  // API access is managed from the admin settings
+  const { data: setting, error: settingsError } = await supabase
+    .from("platform_settings")
+    .select("value")
+    .eq("key", "delivery.apiEnabled")
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error("Error loading delivery API settings:", settingsError);
+    return new Response(
+      JSON.stringify({ error: "Failed to authenticate request" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (setting?.value === false) {
+    return new Response(
+      JSON.stringify({ error: "Delivery API is disabled" }),
+      {
+        status: 503,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  let rider: RiderIdentity | null = null;
+
+  if (token.split(".").length === 3) {
+    // Session token of a signed-in rider, verified by Supabase Auth. Revoking a
+    // rider's key cuts off their session access too
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (user) {
+      const { data: riderRecord } = await supabase
+        .from("riders")
+        .select("id, profile_id, api_key_scopes")
+        .eq("profile_id", user.id)
+        .eq("is_active", true)
+        .is("api_key_revoked_at", null)
+        .maybeSingle();
+
+      if (riderRecord) {
+        rider = {
+          riderId: riderRecord.id,
+          profileId: riderRecord.profile_id,
+          scopes: riderRecord.api_key_scopes,
+        };
+      }
+    }
+  } else {
+    // Rider API key, only its hash is stored
+    const { data, error } = await supabase.rpc("authenticate_rider_api_key", {
+      p_key_hash: await hashApiKey(token),
+    });
+
+    if (error) {
+      console.error("Error authenticating rider API key:", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to authenticate request" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (data) {
+      rider = {
+        riderId: data.rider_id,
+        profileId: data.profile_id,
+        scopes: data.scopes,
+      };
+    }
+  }
+
+  if (!rider) {
     return new Response(
       JSON.stringify({ error: "Invalid API key or token" }),
       {
@@ -106,7 +201,17 @@ const authenticate = async (request: Request) => {
     );
   }
 
-  return null; // Authentication successful
+  if (!rider.scopes.includes(scope)) {
+    return new Response(
+      JSON.stringify({ error: `API key does not have the ${scope} scope` }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return rider;
 };
 
 // API Routes
@@ -126,8 +231,8 @@ router.get("/deliveries/pending", {
     },
   },
 }, async (request: Request) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:read");
+  if (rider instanceof Response) return rider;
 
   try {
     // Get orders with delivery_scheduled status and their delivery details
@@ -184,12 +289,12 @@ router.get("/deliveries/assigned", {
     },
   },
 }, async (request: Request) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:read");
+  if (rider instanceof Response) return rider;
 
   try {
-    // Get rider ID from token (in a real implementation)
-    const riderId = "sample-rider-id"; // This would come from the token
+    // Orders and history reference the rider's profile
+    const riderId = rider.profileId;
 
     // Get orders assigned to this rider
     const { data, error } = await supabase
@@ -253,8 +358,8 @@ router.get("/deliveries/:id", {
     },
   },
 }, async (request: Request, { id }: { id: string }) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:read");
+  if (rider instanceof Response) return rider;
 
   try {
     // Get order details
@@ -325,6 +430,9 @@ router.post("/deliveries/:id/assign", {
     "401": {
       description: "Unauthorized",
     },
+    "403": {
+      description: "API key lacks the deliveries:write scope",
+    },
     "404": {
       description: "Delivery not found",
     },
@@ -333,12 +441,12 @@ router.post("/deliveries/:id/assign", {
     },
   },
 }, async (request: Request, { id }: { id: string }) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:write");
+  if (rider instanceof Response) return rider;
 
   try {
-    // Get rider ID from token (in a real implementation)
-    const riderId = "sample-rider-id"; // This would come from the token
+    // Orders and history reference the rider's profile
+    const riderId = rider.profileId;
 
     // Check if order exists and is available
     const { data: order, error: orderError } = await supabase
@@ -443,6 +551,9 @@ router.put("/deliveries/:id/status", {
     "401": {
       description: "Unauthorized",
     },
+    "403": {
+      description: "API key lacks the deliveries:write scope",
+    },
     "404": {
       description: "Delivery not found",
     },
@@ -451,15 +562,15 @@ router.put("/deliveries/:id/status", {
     },
   },
 }, async (request: Request, { id }: { id: string }) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:write");
+  if (rider instanceof Response) return rider;
 
   try {
     const body = await request.json();
     const { status, notes, verification_code, location } = body;
 
-    // Get rider ID from token (in a real implementation)
-    const riderId = "sample-rider-id"; // This would come from the token
+    // Orders and history reference the rider's profile
+    const riderId = rider.profileId;
 
     // Check if order exists and is assigned to this rider
     const { data: order, error: orderError } = await supabase
@@ -533,16 +644,25 @@ router.put("/deliveries/:id/status", {
       orderStatus = "delivered";
     }
 
-    // Update order
-    const { error: updateOrderError } = await supabase
-      .from("orders")
-      .update({ 
-        status: orderStatus,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id);
+    // Update order, the state machine rejects illegal jumps for the rider
+    if (orderStatus !== order.status) {
+      const { error: updateOrderError } = await supabase.rpc("transition_order_status", {
+        p_order_id: id,
+        p_status: orderStatus,
+        p_notes: notes || `Rider marked order as ${orderStatus}`,
+        p_actor: "rider",
+      });
 
-    if (updateOrderError) throw updateOrderError;
+      if (updateOrderError) {
+        return new Response(
+          JSON.stringify({ error: updateOrderError.message }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
 
     // Update delivery schedule
     const { error: updateDeliveryError } = await supabase
@@ -566,10 +686,7 @@ router.put("/deliveries/:id/status", {
         created_by: riderId,
       });
 
-    // If delivered, release escrow funds
-    if (status === "delivered") {
-      await supabase.rpc("release_escrow_funds", { p_order_id: id });
-    }
+    // Delivering starts the buyer's inspection window, escrow is released when it ends
 
     return new Response(
       JSON.stringify({ success: true, message: "Delivery status updated successfully" }),
@@ -613,8 +730,8 @@ router.get("/deliveries/:id/history", {
     },
   },
 }, async (request: Request, { id }: { id: string }) => {
-  const authError = await authenticate(request);
-  if (authError) return authError;
+  const rider = await authenticate(request, "deliveries:read");
+  if (rider instanceof Response) return rider;
 
   try {
     // Check if order exists
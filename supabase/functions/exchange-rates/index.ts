@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { corsHeaders } from "../_shared/cors.ts";
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Any provider answering with units of each currency per US dollar, e.g. { "rates": { "EUR": 0.92 } }
+const ratesUrl = Deno.env.get("EXCHANGE_RATES_URL") || "";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Fetch the latest rates per US dollar, keyed by lower-case currency code
+const fetchRates = async (): Promise<Record<string, number>> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(ratesUrl, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Rates provider responded with ${response.status}`);
+    }
+
+    const { rates } = await response.json();
+    const normalized: Record<string, number> = {};
+    Object.entries(rates || {}).forEach(([code, rate]) => {
+      if (typeof rate === "number" && rate > 0) {
+        normalized[code.toLowerCase()] = rate;
+      }
+    });
+
+    return normalized;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Refresh the display rates of every supported currency, called on a schedule with the service role key
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token || token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    if (!ratesUrl) throw new Error("EXCHANGE_RATES_URL is not set");
+
+    const rates = await fetchRates();
+
+    const { data: currencies, error } = await supabase
+      .from("currencies")
+      .select("code")
+      .neq("code", "usd");
+
+    if (error) throw error;
+
+    const updatedAt = new Date().toISOString();
+    const missing: string[] = [];
+    let updated = 0;
+
+    for (const { code } of currencies || []) {
+      // Keep the last known rate when the provider has none
+      if (!rates[code]) {
+        missing.push(code);
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("currencies")
+        .update({ rate_per_usd: rates[code], rate_updated_at: updatedAt })
+        .eq("code", code);
+
+      if (updateError) {
+        console.error("Error updating exchange rate:", code, updateError);
+        missing.push(code);
+      } else {
+        updated++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ updated, missing }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error refreshing exchange rates:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to refresh exchange rates" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
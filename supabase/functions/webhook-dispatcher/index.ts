@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { corsHeaders } from "../_shared/cors.ts";
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface WebhookDelivery {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>" with the endpoint secret
+const sign = async (secret: string, timestamp: number, body: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// POST one delivery to its endpoint, any 2xx response counts as delivered
+const send = async (delivery: WebhookDelivery) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await sign(delivery.secret, timestamp, body);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Remore-Webhooks/1.0",
+        "X-Remore-Event": delivery.event_type,
+        "X-Remore-Delivery": delivery.id,
+        "X-Remore-Signature": `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    return {
+      success: response.ok,
+      status: response.status,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      status: null,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Send every due delivery in the outbox, called on a schedule with the service role key
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token || token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    const { data: deliveries, error } = await supabase.rpc("claim_webhook_deliveries", {
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) throw error;
+
+    const results = await Promise.all(
+      (deliveries as WebhookDelivery[] || []).map(async (delivery) => {
+        const result = await send(delivery);
+
+        const { error: recordError } = await supabase.rpc("record_webhook_attempt", {
+          p_delivery_id: delivery.id,
+          p_success: result.success,
+          p_response_status: result.status,
+          p_error: result.error,
+        });
+
+        if (recordError) {
+          console.error("Error recording webhook attempt:", recordError);
+        }
+
+        return result.success;
+      })
+    );
+
+    return new Response(
+      JSON.stringify({
+        sent: results.length,
+        delivered: results.filter(Boolean).length,
+        failed: results.filter((success) => !success).length,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error dispatching webhooks:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to dispatch webhooks" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
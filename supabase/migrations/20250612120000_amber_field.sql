@@ -0,0 +1,125 @@
+/*
+  # Delivery Scheduling and QR Codes
+
+  1. New Tables
+    - `delivery_schedules` - Pickup and delivery slots, addresses and instructions per order
+    - `delivery_qr_codes` - Pickup and delivery QR codes with their verification codes
+
+  2. Security
+    - Enable RLS on new tables
+    - Buyers and sellers can view and schedule delivery for their orders
+    - QR codes are only visible to the user who has to show them
+
+  3. Notes
+    - Runs before the delivery API migration, which adds `status` to `delivery_schedules`
+    - Rider access is granted once `orders.rider_id` exists
+*/
+
+-- Create delivery_schedules table (one schedule per order)
+CREATE TABLE IF NOT EXISTS delivery_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid UNIQUE NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  pickup_time_slot text,
+  delivery_time_slot text,
+  pickup_address text,
+  delivery_address text,
+  pickup_instructions text,
+  delivery_instructions text,
+  pickup_scheduled_at timestamptz,
+  delivery_scheduled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create delivery_qr_codes table
+CREATE TABLE IF NOT EXISTS delivery_qr_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('pickup', 'delivery')),
+  qr_code text NOT NULL,
+  verification_code text NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  scanned_at timestamptz,
+  scanned_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(order_id, type)
+);
+
+-- Enable RLS
+ALTER TABLE delivery_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_qr_codes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for delivery_schedules
+CREATE POLICY "Users can view delivery schedules for their orders"
+  ON delivery_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_schedules.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can create delivery schedules for their orders"
+  ON delivery_schedules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_schedules.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update delivery schedules for their orders"
+  ON delivery_schedules
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_schedules.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+-- RLS Policies for delivery_qr_codes
+CREATE POLICY "Users can view their own QR codes"
+  ON delivery_qr_codes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create QR codes for their orders"
+  ON delivery_qr_codes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_qr_codes.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_delivery_qr_codes_order_id ON delivery_qr_codes(order_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_qr_codes_user_id ON delivery_qr_codes(user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_delivery_schedule_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_delivery_schedule_updated_at_trigger ON delivery_schedules;
+CREATE TRIGGER update_delivery_schedule_updated_at_trigger
+  BEFORE UPDATE ON delivery_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_delivery_schedule_updated_at();
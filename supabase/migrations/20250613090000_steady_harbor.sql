@@ -0,0 +1,249 @@
+/*
+  # Platform Settings
+
+  1. New Tables
+    - `platform_admins` - Users allowed to manage platform settings
+    - `platform_settings` - Current value of every admin-configurable setting
+    - `platform_settings_audit` - Who changed which setting, when, and in which version
+
+  2. Functions
+    - `is_admin` - Checks whether the current user is a platform admin
+    - `update_platform_settings` - Applies a batch of setting changes as a new version
+    - `rollback_platform_settings` - Restores all settings to the state of a previous version
+    - `regenerate_delivery_api_key` - Rotates the delivery API key
+    - `check_registration_open` - Refuses new accounts during maintenance or while registration is off
+
+  3. Security
+    - Enable RLS on all new tables
+    - Non-secret settings are readable by everyone, secret ones by admins only
+    - Settings can only be written through the functions above
+    - Secret values are never copied into the audit trail, so rollbacks leave them alone
+    - Registration and maintenance mode are enforced on `auth.users`, not only in the app
+*/
+
+-- Create platform_admins table
+CREATE TABLE IF NOT EXISTS platform_admins (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create platform_settings table
+CREATE TABLE IF NOT EXISTS platform_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  is_secret boolean DEFAULT false,
+  version bigint NOT NULL DEFAULT 1,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create platform_settings_audit table
+CREATE TABLE IF NOT EXISTS platform_settings_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version bigint NOT NULL,
+  key text NOT NULL REFERENCES platform_settings(key) ON DELETE CASCADE,
+  previous_value jsonb,
+  new_value jsonb,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Every batch of changes shares one version number
+CREATE SEQUENCE IF NOT EXISTS platform_settings_version_seq;
+
+-- Enable RLS
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE platform_settings_audit ENABLE ROW LEVEL SECURITY;
+
+-- Function to check if the current user is a platform admin
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM platform_admins
+    WHERE user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- RLS Policies for platform_admins
+CREATE POLICY "Admins can view platform admins"
+  ON platform_admins
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for platform_settings
+CREATE POLICY "Anyone can view public settings"
+  ON platform_settings
+  FOR SELECT
+  TO anon, authenticated
+  USING (NOT is_secret);
+
+CREATE POLICY "Admins can view all settings"
+  ON platform_settings
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for platform_settings_audit
+CREATE POLICY "Admins can view settings audit trail"
+  ON platform_settings_audit
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_platform_settings_audit_version ON platform_settings_audit(version DESC);
+CREATE INDEX IF NOT EXISTS idx_platform_settings_audit_key ON platform_settings_audit(key);
+CREATE INDEX IF NOT EXISTS idx_platform_settings_audit_created_at ON platform_settings_audit(created_at DESC);
+
+-- Function to apply a batch of setting changes as one new version
+CREATE OR REPLACE FUNCTION update_platform_settings(
+  p_settings jsonb,
+  p_notes text DEFAULT NULL
+) RETURNS bigint AS $$
+DECLARE
+  new_version bigint;
+  setting record;
+  current_value jsonb;
+  secret boolean;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update platform settings';
+  END IF;
+
+  new_version := nextval('platform_settings_version_seq');
+
+  FOR setting IN SELECT * FROM jsonb_each(p_settings) LOOP
+    SELECT value, is_secret INTO current_value, secret FROM platform_settings WHERE key = setting.key;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown platform setting: %', setting.key;
+    END IF;
+
+    IF current_value IS DISTINCT FROM setting.value THEN
+      UPDATE platform_settings
+      SET
+        value = setting.value,
+        version = new_version,
+        updated_by = auth.uid(),
+        updated_at = now()
+      WHERE key = setting.key;
+
+      -- Secret values are only recorded as changed
+      INSERT INTO platform_settings_audit (
+        version, key, previous_value, new_value, changed_by, notes
+      ) VALUES (
+        new_version, setting.key,
+        CASE WHEN secret THEN NULL ELSE current_value END,
+        CASE WHEN secret THEN NULL ELSE setting.value END,
+        auth.uid(), p_notes
+      );
+    END IF;
+  END LOOP;
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to restore every setting to its value as of a previous version
+CREATE OR REPLACE FUNCTION rollback_platform_settings(p_version bigint)
+RETURNS bigint AS $$
+DECLARE
+  snapshot jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back platform settings';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE version = p_version) THEN
+    RAISE EXCEPTION 'Settings version % not found', p_version;
+  END IF;
+
+  -- Latest value of each key at or before the requested version, secrets have none to restore
+  SELECT jsonb_object_agg(key, new_value) INTO snapshot
+  FROM (
+    SELECT DISTINCT ON (key) key, new_value
+    FROM platform_settings_audit
+    WHERE version <= p_version
+    AND key IN (SELECT key FROM platform_settings WHERE NOT is_secret)
+    ORDER BY key, version DESC
+  ) AS versioned;
+
+  RETURN update_platform_settings(snapshot, 'Rollback to version ' || p_version);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to rotate the delivery API key
+CREATE OR REPLACE FUNCTION regenerate_delivery_api_key()
+RETURNS text AS $$
+DECLARE
+  new_key text;
+BEGIN
+  new_key := encode(gen_random_bytes(24), 'base64');
+
+  PERFORM update_platform_settings(
+    jsonb_build_object('delivery.apiKey', to_jsonb(new_key)),
+    'Delivery API key regenerated'
+  );
+
+  RETURN new_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to refuse sign ups while registration is closed, runs as the auth service so names are qualified
+CREATE OR REPLACE FUNCTION check_registration_open()
+RETURNS trigger AS $$
+BEGIN
+  IF (SELECT (value #>> '{}')::boolean FROM public.platform_settings WHERE key = 'platform.maintenanceMode') THEN
+    RAISE EXCEPTION 'Remore is under maintenance, please try again later';
+  END IF;
+
+  IF (SELECT (value #>> '{}')::boolean FROM public.platform_settings WHERE key = 'platform.newUserRegistration') = false THEN
+    RAISE EXCEPTION 'New user registration is currently disabled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION check_registration_open() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS check_registration_open_trigger ON auth.users;
+CREATE TRIGGER check_registration_open_trigger
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION check_registration_open();
+
+-- =====================
+-- INITIAL DATA
+-- =====================
+
+-- Insert default settings as version 1
+INSERT INTO platform_settings (key, value, is_secret, version)
+VALUES
+  ('platform.autoModeration', 'true', false, 1),
+  ('platform.maintenanceMode', 'false', false, 1),
+  ('platform.newUserRegistration', 'true', false, 1),
+  ('platform.itemAutoApproval', 'false', false, 1),
+  ('notifications.emailNotifications', 'true', false, 1),
+  ('notifications.smsNotifications', 'false', false, 1),
+  ('notifications.disputeAutoAssignment', 'true', false, 1),
+  ('fees.transactionFee', '5.0', false, 1),
+  ('fees.listingFee', '2.99', false, 1),
+  ('fees.payoutFee', '1.5', false, 1),
+  ('delivery.apiEnabled', 'true', false, 1),
+  ('delivery.apiKey', to_jsonb(encode(gen_random_bytes(24), 'base64')), true, 1),
+  ('delivery.webhookUrl', 'null', true, 1)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT 1, key, NULL, CASE WHEN is_secret THEN NULL ELSE value END, 'Initial defaults'
+FROM platform_settings
+WHERE NOT EXISTS (SELECT 1 FROM platform_settings_audit);
+
+SELECT setval('platform_settings_version_seq', GREATEST((SELECT MAX(version) FROM platform_settings), 1));
@@ -0,0 +1,497 @@
+/*
+  # Dispute Resolution
+
+  1. New Tables
+    - `notifications` - In-app notifications shown to users
+
+  2. Schema Changes
+    - `disputes` gains `assigned_to`, `resolution_outcome`, `refund_amount`, `seller_amount_released` and `stripe_refund_id`
+    - `disputes` gains `pending_outcome`, `pending_resolution`, `pending_refund_amount` and `pending_by`
+    - `wallet_transactions` gains the `refund` and `escrow_reversal` types
+
+  3. Functions
+    - `add_wallet_transaction` - Handles refunds to buyers and escrow reversals for sellers
+    - `begin_dispute_resolution` - Records the chosen resolution before the buyer is refunded
+    - `resolve_dispute` - Settles a dispute and moves the held funds in one transaction
+    - `assign_dispute` - Assigns a dispute to an admin
+    - `set_dispute_priority` - Changes the priority of a dispute
+    - `log_dispute_status_change` - Records the outcome when a dispute is resolved
+
+  4. Security
+    - Enable RLS on notifications
+    - Admins can view all disputes, evidence, messages, status history and the related orders
+    - Disputes can only be settled through the functions above
+    - Only those functions can change a pending resolution
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  data jsonb,
+  is_read boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Add resolution fields to disputes
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS resolution_outcome text CHECK (resolution_outcome IN ('full_refund', 'partial_refund', 'release_to_seller', 'split'));
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS refund_amount decimal(10,2) CHECK (refund_amount >= 0);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS seller_amount_released decimal(10,2) CHECK (seller_amount_released >= 0);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS stripe_refund_id text;
+
+-- The resolution an admin chose, kept until it is settled in case the refund goes through first
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS pending_outcome text CHECK (pending_outcome IN ('full_refund', 'partial_refund', 'release_to_seller', 'split'));
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS pending_resolution text;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS pending_refund_amount decimal(10,2) CHECK (pending_refund_amount >= 0);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS pending_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Allow refund and escrow reversal wallet transactions
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('credit', 'debit', 'escrow_hold', 'escrow_release', 'escrow_reversal', 'refund', 'payout'));
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Admin read access for dispute handling
+CREATE POLICY "Admins can view all disputes"
+  ON disputes
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all dispute evidence"
+  ON dispute_evidence
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all dispute messages"
+  ON dispute_messages
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all dispute status history"
+  ON dispute_status_history
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all items"
+  ON items
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_disputes_assigned_to ON disputes(assigned_to);
+
+-- Function to add wallet transaction and update balance
+CREATE OR REPLACE FUNCTION add_wallet_transaction(
+  p_user_id uuid,
+  p_type text,
+  p_amount decimal,
+  p_description text,
+  p_reference_id text DEFAULT NULL,
+  p_reference_type text DEFAULT NULL
+) RETURNS uuid AS $$
+DECLARE
+  transaction_id uuid;
+  current_wallet wallets%ROWTYPE;
+BEGIN
+  -- Get or create wallet
+  SELECT * INTO current_wallet FROM wallets WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO wallets (user_id, available_balance, pending_balance, total_earned, total_spent)
+    VALUES (p_user_id, 0, 0, 0, 0)
+    RETURNING * INTO current_wallet;
+  END IF;
+
+  -- Insert transaction
+  INSERT INTO wallet_transactions (
+    user_id, type, amount, description, reference_id, reference_type
+  ) VALUES (
+    p_user_id, p_type, p_amount, p_description, p_reference_id, p_reference_type
+  ) RETURNING id INTO transaction_id;
+
+  -- Update wallet balance based on transaction type
+  CASE p_type
+    WHEN 'credit' THEN
+      UPDATE wallets SET
+        available_balance = available_balance + p_amount,
+        total_earned = total_earned + p_amount,
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'debit' THEN
+      UPDATE wallets SET
+        available_balance = available_balance - p_amount,
+        total_spent = total_spent + p_amount,
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'escrow_hold' THEN
+      UPDATE wallets SET
+        pending_balance = pending_balance + p_amount,
+        total_earned = total_earned + p_amount,
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'escrow_release' THEN
+      UPDATE wallets SET
+        available_balance = available_balance + p_amount,
+        pending_balance = pending_balance - p_amount,
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'escrow_reversal' THEN
+      UPDATE wallets SET
+        pending_balance = pending_balance - p_amount,
+        total_earned = total_earned - p_amount,
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'refund' THEN
+      UPDATE wallets SET
+        available_balance = available_balance + p_amount,
+        total_spent = GREATEST(total_spent - p_amount, 0),
+        updated_at = now()
+      WHERE user_id = p_user_id;
+
+    WHEN 'payout' THEN
+      UPDATE wallets SET
+        available_balance = available_balance + p_amount, -- p_amount is negative for payouts
+        updated_at = now()
+      WHERE user_id = p_user_id;
+  END CASE;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to keep the parties from changing a pending resolution
+CREATE OR REPLACE FUNCTION protect_pending_resolution()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.pending_outcome := OLD.pending_outcome;
+  NEW.pending_resolution := OLD.pending_resolution;
+  NEW.pending_refund_amount := OLD.pending_refund_amount;
+  NEW.pending_by := OLD.pending_by;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_pending_resolution_trigger ON disputes;
+CREATE TRIGGER protect_pending_resolution_trigger
+  BEFORE UPDATE ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_pending_resolution();
+
+-- Function to record the resolution an admin chose before the buyer is refunded,
+-- so it is kept if the refund goes through and resolve_dispute() does not
+CREATE OR REPLACE FUNCTION begin_dispute_resolution(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal
+) RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes';
+  END IF;
+
+  UPDATE disputes
+  SET
+    pending_outcome = p_outcome,
+    pending_resolution = p_resolution,
+    pending_refund_amount = p_refund_amount,
+    pending_by = auth.uid(),
+    updated_at = now()
+  WHERE id = p_dispute_id AND status NOT IN ('resolved', 'closed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found or already settled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to settle a dispute and move the funds held in escrow
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  dispute_record disputes%ROWTYPE;
+  order_record orders%ROWTYPE;
+  buyer_refund decimal(10,2);
+  seller_release decimal(10,2);
+  seller_reversal decimal(10,2);
+  new_order_status text;
+  item_title text;
+  outcome_message text;
+BEGIN
+  -- The server settles disputes whose refund went through but were never resolved
+  IF NOT (auth.role() = 'service_role' OR is_admin()) THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute_record FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  -- Settling the same refund again gets the earlier result
+  IF dispute_record.status = 'resolved' AND p_stripe_refund_id IS NOT NULL AND dispute_record.stripe_refund_id = p_stripe_refund_id THEN
+    RETURN json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', dispute_record.order_id,
+      'outcome', dispute_record.resolution_outcome,
+      'refund_amount', dispute_record.refund_amount,
+      'seller_amount_released', dispute_record.seller_amount_released,
+      'order_status', (SELECT status FROM orders WHERE id = dispute_record.order_id)
+    );
+  END IF;
+
+  IF dispute_record.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute_record.status;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE id = dispute_record.order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Funds are only still in escrow while the order is disputed
+  IF order_record.status != 'disputed' THEN
+    RAISE EXCEPTION 'Order is % and no longer holds funds in escrow', order_record.status;
+  END IF;
+
+  -- Work out how much goes back to the buyer
+  CASE p_outcome
+    WHEN 'full_refund' THEN
+      buyer_refund := order_record.total_amount;
+    WHEN 'release_to_seller' THEN
+      buyer_refund := 0;
+    WHEN 'split' THEN
+      buyer_refund := round(order_record.total_amount / 2, 2);
+    WHEN 'partial_refund' THEN
+      buyer_refund := p_refund_amount;
+      IF buyer_refund IS NULL OR buyer_refund <= 0 OR buyer_refund >= order_record.total_amount THEN
+        RAISE EXCEPTION 'Partial refund must be between 0 and %', order_record.total_amount;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown dispute outcome: %', p_outcome;
+  END CASE;
+
+  IF p_refund_amount IS NOT NULL AND p_refund_amount != buyer_refund THEN
+    RAISE EXCEPTION 'Refund amount % does not match outcome % (expected %)', p_refund_amount, p_outcome, buyer_refund;
+  END IF;
+
+  -- Card payments are refunded through Stripe before the dispute is settled
+  IF buyer_refund > 0 AND order_record.payment_intent_id IS NOT NULL AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller keeps the share of their proceeds that was not refunded
+  seller_release := round(
+    COALESCE(order_record.seller_amount, 0) * (order_record.total_amount - buyer_refund) / order_record.total_amount,
+    2
+  );
+  seller_reversal := COALESCE(order_record.seller_amount, 0) - seller_release;
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_transaction(
+      order_record.seller_id, 'escrow_reversal', seller_reversal,
+      'Dispute resolved - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF seller_release > 0 THEN
+    PERFORM add_wallet_transaction(
+      order_record.seller_id, 'escrow_release', seller_release,
+      'Dispute resolved - funds released', order_record.id::text, 'order'
+    );
+  END IF;
+
+  -- Wallet payments are refunded to the buyer's wallet
+  IF buyer_refund > 0 AND order_record.payment_intent_id IS NULL THEN
+    PERFORM add_wallet_transaction(
+      order_record.buyer_id, 'refund', buyer_refund,
+      'Dispute refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  new_order_status := CASE WHEN p_outcome = 'full_refund' THEN 'refunded' ELSE 'completed' END;
+
+  UPDATE orders SET status = new_order_status, updated_at = now() WHERE id = order_record.id;
+
+  UPDATE disputes
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    resolution_outcome = p_outcome,
+    refund_amount = buyer_refund,
+    seller_amount_released = seller_release,
+    stripe_refund_id = p_stripe_refund_id,
+    resolved_at = now(),
+    resolved_by = COALESCE(auth.uid(), dispute_record.pending_by),
+    pending_outcome = NULL,
+    pending_resolution = NULL,
+    pending_refund_amount = NULL,
+    pending_by = NULL,
+    updated_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO dispute_messages (dispute_id, sender_id, content, is_admin_message)
+  VALUES (p_dispute_id, COALESCE(auth.uid(), dispute_record.pending_by), 'This dispute has been resolved: ' || p_resolution, true);
+
+  -- Notify both parties
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  outcome_message := CASE
+    WHEN buyer_refund > 0 THEN 'A refund of ' || buyer_refund || ' USD has been issued to the buyer.'
+    ELSE 'The payment has been released to the seller.'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    party.user_id,
+    'dispute',
+    'Dispute resolved',
+    'The dispute for "' || COALESCE(item_title, 'your order') || '" has been resolved. ' || outcome_message,
+    json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', order_record.id,
+      'outcome', p_outcome,
+      'refund_amount', buyer_refund
+    )
+  FROM (VALUES (order_record.buyer_id), (order_record.seller_id)) AS party(user_id);
+
+  RETURN json_build_object(
+    'dispute_id', p_dispute_id,
+    'order_id', order_record.id,
+    'outcome', p_outcome,
+    'refund_amount', buyer_refund,
+    'seller_amount_released', seller_release,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to assign a dispute to an admin
+CREATE OR REPLACE FUNCTION assign_dispute(p_dispute_id uuid, p_admin_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can assign disputes';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM platform_admins WHERE user_id = p_admin_id) THEN
+    RAISE EXCEPTION 'Disputes can only be assigned to admins';
+  END IF;
+
+  -- Picking up an open dispute starts the investigation
+  UPDATE disputes
+  SET
+    assigned_to = p_admin_id,
+    status = CASE WHEN status = 'open' THEN 'investigating' ELSE status END,
+    updated_at = now()
+  WHERE id = p_dispute_id AND status NOT IN ('resolved', 'closed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found or already settled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to change the priority of a dispute
+CREATE OR REPLACE FUNCTION set_dispute_priority(p_dispute_id uuid, p_priority text)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change dispute priority';
+  END IF;
+
+  UPDATE disputes
+  SET priority = p_priority, updated_at = now()
+  WHERE id = p_dispute_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to create a dispute status history entry
+CREATE OR REPLACE FUNCTION log_dispute_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO dispute_status_history (
+      dispute_id,
+      previous_status,
+      new_status,
+      changed_by,
+      notes,
+      created_at
+    ) VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      CASE
+        WHEN NEW.status = 'resolved' AND NEW.resolution_outcome IS NOT NULL THEN
+          'Resolved with ' || replace(NEW.resolution_outcome, '_', ' ') ||
+          ' (refund ' || COALESCE(NEW.refund_amount, 0) || ' USD): ' || COALESCE(NEW.resolution, '')
+        ELSE
+          'Status changed from ' || OLD.status || ' to ' || NEW.status
+      END,
+      now()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
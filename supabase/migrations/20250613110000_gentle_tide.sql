@@ -0,0 +1,438 @@
+/*
+  # Order Refunds
+
+  1. New Tables
+    - `order_history` - Timeline of actions taken on an order
+    - `refunds` - Every refund issued against an order, keyed by an idempotency key
+
+  2. Schema Changes
+    - `orders` gains `refunded_amount`
+
+  3. Functions
+    - `record_order_refund` - Returns money to the buyer, reverses the seller's escrow and
+      optionally cancels the order, all in one transaction
+    - `resolve_dispute` - Refunds through `record_order_refund` and accounts for earlier refunds
+
+  4. Security
+    - Enable RLS on all new tables
+    - Buyers and sellers can view the history and refunds of their orders, admins can view all
+    - Sellers and admins can view the payment intent an order was paid with
+    - Refunds can only be recorded through `record_order_refund`
+*/
+
+-- Create order_history table
+CREATE TABLE IF NOT EXISTS order_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  action text NOT NULL,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create refunds table
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  seller_amount_reversed decimal(10,2) NOT NULL DEFAULT 0,
+  method text NOT NULL CHECK (method IN ('card', 'wallet')),
+  reason text,
+  idempotency_key text UNIQUE NOT NULL,
+  payment_intent_id text,
+  stripe_refund_id text,
+  requested_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Track how much of each order has been refunded
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount decimal(10,2) DEFAULT 0.00 CHECK (refunded_amount >= 0);
+
+-- Enable RLS
+ALTER TABLE order_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for order_history
+CREATE POLICY "Users can view history of their orders"
+  ON order_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_history.order_id AND
+      (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can add history to their orders"
+  ON order_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_history.order_id AND
+      (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all order history"
+  ON order_history
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for refunds
+CREATE POLICY "Users can view refunds for their orders"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = refunds.order_id AND
+      (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for payment_intents
+CREATE POLICY "Sellers can view payment intents for their orders"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.payment_intent_id = payment_intents.id AND
+      orders.seller_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all payment intents"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_order_history_order_id ON order_history(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_history_created_at ON order_history(created_at);
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+
+-- Function to refund an order and reverse the matching share of the seller's escrow
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount decimal,
+  p_idempotency_key text,
+  p_reason text DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL,
+  p_cancel boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  existing_refund refunds%ROWTYPE;
+  refund_id uuid;
+  refund_method text;
+  seller_reversal decimal(10,2);
+  already_reversed decimal(10,2);
+  new_refunded_amount decimal(10,2);
+  new_order_status text;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Sellers and admins may refund, buyers only by cancelling an order that has not shipped (or retrying that cancellation)
+  IF NOT (
+    is_admin() OR
+    order_record.seller_id = auth.uid() OR
+    (order_record.buyer_id = auth.uid() AND p_cancel AND order_record.status IN ('paid', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to refund this order';
+  END IF;
+
+  -- A retried request returns the refund that was already recorded
+  SELECT * INTO existing_refund FROM refunds WHERE order_id = order_record.id AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN json_build_object(
+      'refund_id', existing_refund.id,
+      'order_id', existing_refund.order_id,
+      'amount', existing_refund.amount,
+      'method', existing_refund.method,
+      'refunded_amount', order_record.refunded_amount,
+      'order_status', order_record.status
+    );
+  END IF;
+
+  -- Funds are only still in escrow until the order completes
+  IF order_record.status NOT IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed') THEN
+    RAISE EXCEPTION 'Order is % and can no longer be refunded', order_record.status;
+  END IF;
+
+  IF p_cancel AND order_record.status != 'paid' THEN
+    RAISE EXCEPTION 'Order cannot be cancelled at this stage';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than 0';
+  END IF;
+
+  new_refunded_amount := COALESCE(order_record.refunded_amount, 0) + p_amount;
+
+  IF new_refunded_amount > order_record.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the remaining order amount of %',
+      order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+  END IF;
+
+  IF p_cancel AND new_refunded_amount != order_record.total_amount THEN
+    RAISE EXCEPTION 'Cancelled orders must be refunded in full';
+  END IF;
+
+  refund_method := CASE WHEN order_record.payment_intent_id IS NULL THEN 'wallet' ELSE 'card' END;
+
+  -- Card payments are refunded through Stripe before they are recorded here
+  IF refund_method = 'card' AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller gives up the same share of their proceeds as the buyer gets back,
+  -- the last refund takes whatever rounding left in escrow
+  IF new_refunded_amount = order_record.total_amount THEN
+    SELECT COALESCE(SUM(seller_amount_reversed), 0) INTO already_reversed
+    FROM refunds
+    WHERE order_id = order_record.id;
+
+    seller_reversal := COALESCE(order_record.seller_amount, 0) - already_reversed;
+  ELSE
+    seller_reversal := round(COALESCE(order_record.seller_amount, 0) * p_amount / order_record.total_amount, 2);
+  END IF;
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_transaction(
+      order_record.seller_id, 'escrow_reversal', seller_reversal,
+      'Order refunded - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF refund_method = 'wallet' THEN
+    PERFORM add_wallet_transaction(
+      order_record.buyer_id, 'refund', p_amount,
+      'Order refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  INSERT INTO refunds (
+    order_id, amount, seller_amount_reversed, method, reason,
+    idempotency_key, payment_intent_id, stripe_refund_id, requested_by
+  ) VALUES (
+    order_record.id, p_amount, seller_reversal, refund_method, p_reason,
+    p_idempotency_key, order_record.payment_intent_id, p_stripe_refund_id, auth.uid()
+  ) RETURNING id INTO refund_id;
+
+  new_order_status := CASE
+    WHEN p_cancel THEN 'cancelled'
+    WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+    ELSE order_record.status
+  END;
+
+  UPDATE orders
+  SET
+    refunded_amount = new_refunded_amount,
+    status = new_order_status,
+    updated_at = now()
+  WHERE id = order_record.id;
+
+  -- A cancelled sale goes back on the market
+  IF p_cancel THEN
+    UPDATE items SET status = 'active', updated_at = now() WHERE id = order_record.item_id AND status = 'sold';
+  END IF;
+
+  INSERT INTO order_history (order_id, action, notes, created_by)
+  VALUES (
+    order_record.id,
+    CASE
+      WHEN p_cancel THEN 'cancelled'
+      WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+      ELSE 'partially_refunded'
+    END,
+    p_amount || ' USD refunded to ' || refund_method ||
+      CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END,
+    auth.uid()
+  );
+
+  RETURN json_build_object(
+    'refund_id', refund_id,
+    'order_id', order_record.id,
+    'amount', p_amount,
+    'method', refund_method,
+    'refunded_amount', new_refunded_amount,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to settle a dispute and move the funds held in escrow
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  dispute_record disputes%ROWTYPE;
+  order_record orders%ROWTYPE;
+  remaining_amount decimal(10,2);
+  buyer_refund decimal(10,2);
+  seller_release decimal(10,2);
+  new_order_status text;
+  item_title text;
+  outcome_message text;
+BEGIN
+  -- The server settles disputes whose refund went through but were never resolved
+  IF NOT (auth.role() = 'service_role' OR is_admin()) THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute_record FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  -- Settling the same refund again gets the earlier result
+  IF dispute_record.status = 'resolved' AND p_stripe_refund_id IS NOT NULL AND dispute_record.stripe_refund_id = p_stripe_refund_id THEN
+    RETURN json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', dispute_record.order_id,
+      'outcome', dispute_record.resolution_outcome,
+      'refund_amount', dispute_record.refund_amount,
+      'seller_amount_released', dispute_record.seller_amount_released,
+      'order_status', (SELECT status FROM orders WHERE id = dispute_record.order_id)
+    );
+  END IF;
+
+  IF dispute_record.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute_record.status;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE id = dispute_record.order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Funds are only still in escrow while the order is disputed
+  IF order_record.status != 'disputed' THEN
+    RAISE EXCEPTION 'Order is % and no longer holds funds in escrow', order_record.status;
+  END IF;
+
+  -- Outcomes apply to whatever has not been refunded already
+  remaining_amount := order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+
+  CASE p_outcome
+    WHEN 'full_refund' THEN
+      buyer_refund := remaining_amount;
+    WHEN 'release_to_seller' THEN
+      buyer_refund := 0;
+    WHEN 'split' THEN
+      buyer_refund := round(remaining_amount / 2, 2);
+    WHEN 'partial_refund' THEN
+      buyer_refund := p_refund_amount;
+      IF buyer_refund IS NULL OR buyer_refund <= 0 OR buyer_refund >= remaining_amount THEN
+        RAISE EXCEPTION 'Partial refund must be between 0 and %', remaining_amount;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown dispute outcome: %', p_outcome;
+  END CASE;
+
+  IF p_refund_amount IS NOT NULL AND p_refund_amount != buyer_refund THEN
+    RAISE EXCEPTION 'Refund amount % does not match outcome % (expected %)', p_refund_amount, p_outcome, buyer_refund;
+  END IF;
+
+  IF buyer_refund > 0 THEN
+    PERFORM record_order_refund(
+      order_record.id, buyer_refund, 'dispute-' || p_dispute_id,
+      'Dispute resolved with ' || replace(p_outcome, '_', ' '), p_stripe_refund_id
+    );
+  END IF;
+
+  -- The seller receives whatever is left of their proceeds
+  seller_release := COALESCE(order_record.seller_amount, 0) - COALESCE((
+    SELECT SUM(seller_amount_reversed) FROM refunds WHERE order_id = order_record.id
+  ), 0);
+
+  IF seller_release > 0 THEN
+    PERFORM add_wallet_transaction(
+      order_record.seller_id, 'escrow_release', seller_release,
+      'Dispute resolved - funds released', order_record.id::text, 'order'
+    );
+  END IF;
+
+  new_order_status := CASE WHEN p_outcome = 'full_refund' THEN 'refunded' ELSE 'completed' END;
+
+  UPDATE orders SET status = new_order_status, updated_at = now() WHERE id = order_record.id;
+
+  UPDATE disputes
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    resolution_outcome = p_outcome,
+    refund_amount = buyer_refund,
+    seller_amount_released = seller_release,
+    stripe_refund_id = p_stripe_refund_id,
+    resolved_at = now(),
+    resolved_by = COALESCE(auth.uid(), dispute_record.pending_by),
+    pending_outcome = NULL,
+    pending_resolution = NULL,
+    pending_refund_amount = NULL,
+    pending_by = NULL,
+    updated_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO dispute_messages (dispute_id, sender_id, content, is_admin_message)
+  VALUES (p_dispute_id, COALESCE(auth.uid(), dispute_record.pending_by), 'This dispute has been resolved: ' || p_resolution, true);
+
+  -- Notify both parties
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  outcome_message := CASE
+    WHEN buyer_refund > 0 THEN 'A refund of ' || buyer_refund || ' USD has been issued to the buyer.'
+    ELSE 'The payment has been released to the seller.'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    party.user_id,
+    'dispute',
+    'Dispute resolved',
+    'The dispute for "' || COALESCE(item_title, 'your order') || '" has been resolved. ' || outcome_message,
+    json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', order_record.id,
+      'outcome', p_outcome,
+      'refund_amount', buyer_refund
+    )
+  FROM (VALUES (order_record.buyer_id), (order_record.seller_id)) AS party(user_id);
+
+  RETURN json_build_object(
+    'dispute_id', p_dispute_id,
+    'order_id', order_record.id,
+    'outcome', p_outcome,
+    'refund_amount', buyer_refund,
+    'seller_amount_released', seller_release,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,353 @@
+/*
+  # Order State Machine
+
+  1. New Tables
+    - `order_status_transitions` - Every allowed status change and who may make it
+
+  2. Schema Changes
+    - `order_history` gains `previous_status`, `new_status` and `actor`
+
+  3. Functions & Triggers
+    - `order_actors` - Roles the current caller holds on an order (buyer, seller, rider, admin, system)
+    - `order_transition_actor` - Which of those roles allows a given status change
+    - `enforce_order_status_transition` - Rejects illegal status changes
+    - `log_order_status_change` - Writes every status change to the order history
+    - `transition_order_status` - Changes an order's status with notes, optionally on behalf of a rider
+    - `request_order_refund` - Disputes an order and opens the buyer's refund request in one transaction
+    - `get_allowed_order_transitions` - Statuses the current user may move an order to
+    - `release_escrow_funds` - Only completes orders that have been delivered
+
+  4. Security
+    - Enable RLS on order_status_transitions, readable by everyone
+    - Status changes are checked for every writer, including direct updates
+*/
+
+-- Create order_status_transitions table
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor text NOT NULL CHECK (actor IN ('buyer', 'seller', 'rider', 'admin', 'system')),
+  PRIMARY KEY (from_status, to_status, actor)
+);
+
+-- Record transitions in the order timeline
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS previous_status text;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS new_status text;
+ALTER TABLE order_history ADD COLUMN IF NOT EXISTS actor text;
+
+-- Enable RLS
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for order_status_transitions
+CREATE POLICY "Anyone can view order status transitions"
+  ON order_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Function to list the roles the current caller holds on an order
+CREATE OR REPLACE FUNCTION order_actors(p_order orders)
+RETURNS text[] AS $$
+DECLARE
+  actors text[] := '{}';
+  declared_actor text;
+BEGIN
+  -- Service role and scheduled jobs act as the system, and may declare
+  -- who they act for through transition_order_status
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    declared_actor := NULLIF(current_setting('app.order_actor', true), '');
+    IF declared_actor IS NOT NULL THEN
+      actors := array_append(actors, declared_actor);
+    END IF;
+    RETURN array_append(actors, 'system');
+  END IF;
+
+  IF auth.uid() = p_order.buyer_id THEN
+    actors := array_append(actors, 'buyer');
+  END IF;
+
+  IF auth.uid() = p_order.seller_id THEN
+    actors := array_append(actors, 'seller');
+  END IF;
+
+  IF auth.uid() = p_order.rider_id THEN
+    actors := array_append(actors, 'rider');
+  END IF;
+
+  IF is_admin() THEN
+    actors := array_append(actors, 'admin');
+  END IF;
+
+  RETURN actors;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to find which of the caller's roles allows a status change
+CREATE OR REPLACE FUNCTION order_transition_actor(p_order orders, p_from_status text, p_to_status text)
+RETURNS text AS $$
+DECLARE
+  actors text[];
+  matched_actor text;
+BEGIN
+  actors := order_actors(p_order);
+
+  SELECT actor INTO matched_actor
+  FROM order_status_transitions
+  WHERE from_status = p_from_status
+    AND to_status = p_to_status
+    AND actor = ANY(actors)
+  ORDER BY array_position(actors, actor)
+  LIMIT 1;
+
+  RETURN matched_actor;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to reject illegal status changes
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  allowed_actors text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'paid') THEN
+      RAISE EXCEPTION 'New orders must start as pending or paid, not %', NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF order_transition_actor(OLD, OLD.status, NEW.status) IS NULL THEN
+    SELECT string_agg(actor, ', ' ORDER BY actor) INTO allowed_actors
+    FROM order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status;
+
+    IF allowed_actors IS NULL THEN
+      RAISE EXCEPTION 'Order cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+
+    RAISE EXCEPTION 'Only % can move an order from % to %', allowed_actors, OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record every status change in the order history
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO order_history (order_id, action, new_status, actor, notes, created_by)
+    VALUES (NEW.id, 'created', NEW.status, (order_actors(NEW))[1], 'Order created', auth.uid());
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO order_history (order_id, action, previous_status, new_status, actor, notes, created_by)
+    VALUES (
+      NEW.id,
+      'status_changed',
+      OLD.status,
+      NEW.status,
+      order_transition_actor(OLD, OLD.status, NEW.status),
+      COALESCE(
+        NULLIF(current_setting('app.order_notes', true), ''),
+        'Status changed from ' || OLD.status || ' to ' || NEW.status
+      ),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers for order status changes
+CREATE TRIGGER enforce_order_status_transition_trigger
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+CREATE TRIGGER log_order_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_order_status_change();
+
+-- Function to change an order's status, with notes for the order history
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_notes text DEFAULT NULL,
+  p_actor text DEFAULT NULL
+) RETURNS void AS $$
+BEGIN
+  -- Only trusted services (e.g. the delivery API) may act on behalf of someone else
+  IF p_actor IS NOT NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can set the acting party';
+  END IF;
+
+  PERFORM set_config('app.order_actor', COALESCE(p_actor, ''), true);
+  PERFORM set_config('app.order_notes', COALESCE(p_notes, ''), true);
+
+  UPDATE orders
+  SET status = p_status, updated_at = now()
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_actor', '', true);
+  PERFORM set_config('app.order_notes', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to let a buyer ask for a refund, the order is disputed and the dispute opened together
+CREATE OR REPLACE FUNCTION request_order_refund(p_order_id uuid, p_reason text)
+RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  dispute_id uuid;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR order_record.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- The state machine rejects requests at the wrong stage
+  PERFORM transition_order_status(p_order_id, 'disputed', 'Refund requested: ' || p_reason);
+
+  INSERT INTO disputes (order_id, reporter_id, reported_id, type, description, status, priority)
+  VALUES (p_order_id, order_record.buyer_id, NULL, 'refund_request', p_reason, 'open', 'medium')
+  RETURNING id INTO dispute_id;
+
+  RETURN dispute_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to list the statuses the current user may move an order to
+CREATE OR REPLACE FUNCTION get_allowed_order_transitions(p_order_id uuid)
+RETURNS TABLE (to_status text, actor text) AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (t.to_status) t.to_status, t.actor
+  FROM order_status_transitions t
+  WHERE t.from_status = order_record.status
+    AND t.actor = ANY(order_actors(order_record))
+  ORDER BY t.to_status, t.actor;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to release escrow funds
+CREATE OR REPLACE FUNCTION release_escrow_funds(p_order_id uuid) RETURNS boolean AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+BEGIN
+  -- Get order details
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Releasing twice would pay the seller twice
+  IF order_record.status != 'delivered' THEN
+    RAISE EXCEPTION 'Order is % and cannot be completed', order_record.status;
+  END IF;
+
+  -- Update order status first so the state machine checks who is completing it
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+
+  -- Release escrow funds to seller
+  PERFORM add_wallet_transaction(
+    order_record.seller_id, 'escrow_release', order_record.seller_amount,
+    'Sale completed - funds released', p_order_id::text, 'order'
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================
+-- INITIAL DATA
+-- =====================
+
+-- Insert allowed transitions
+INSERT INTO order_status_transitions (from_status, to_status, actor)
+VALUES
+  -- Payment
+  ('pending', 'paid', 'system'),
+  ('pending', 'paid', 'admin'),
+  ('pending', 'cancelled', 'buyer'),
+  ('pending', 'cancelled', 'seller'),
+  ('pending', 'cancelled', 'admin'),
+  ('pending', 'cancelled', 'system'),
+  ('paid', 'cancelled', 'buyer'),
+  ('paid', 'cancelled', 'seller'),
+  ('paid', 'cancelled', 'admin'),
+
+  -- Pickup
+  ('paid', 'pickup_scheduled', 'seller'),
+  ('paid', 'pickup_scheduled', 'admin'),
+  ('paid', 'pickup_scheduled', 'system'),
+  ('pickup_scheduled', 'picked_up', 'rider'),
+  ('pickup_scheduled', 'picked_up', 'admin'),
+  ('pickup_scheduled', 'picked_up', 'system'),
+
+  -- Delivery
+  ('picked_up', 'delivery_scheduled', 'buyer'),
+  ('picked_up', 'delivery_scheduled', 'rider'),
+  ('picked_up', 'delivery_scheduled', 'admin'),
+  ('picked_up', 'delivery_scheduled', 'system'),
+  ('picked_up', 'delivered', 'rider'),
+  ('picked_up', 'delivered', 'admin'),
+  ('picked_up', 'delivered', 'system'),
+  ('delivery_scheduled', 'delivered', 'rider'),
+  ('delivery_scheduled', 'delivered', 'admin'),
+  ('delivery_scheduled', 'delivered', 'system'),
+
+  -- Completion
+  ('delivered', 'completed', 'buyer'),
+  ('delivered', 'completed', 'admin'),
+  ('delivered', 'completed', 'system'),
+
+  -- Disputes
+  ('paid', 'disputed', 'buyer'),
+  ('paid', 'disputed', 'seller'),
+  ('paid', 'disputed', 'admin'),
+  ('pickup_scheduled', 'disputed', 'buyer'),
+  ('pickup_scheduled', 'disputed', 'seller'),
+  ('pickup_scheduled', 'disputed', 'admin'),
+  ('picked_up', 'disputed', 'buyer'),
+  ('picked_up', 'disputed', 'seller'),
+  ('picked_up', 'disputed', 'admin'),
+  ('delivery_scheduled', 'disputed', 'buyer'),
+  ('delivery_scheduled', 'disputed', 'seller'),
+  ('delivery_scheduled', 'disputed', 'admin'),
+  ('delivered', 'disputed', 'buyer'),
+  ('delivered', 'disputed', 'seller'),
+  ('delivered', 'disputed', 'admin'),
+  ('disputed', 'completed', 'admin'),
+  ('disputed', 'refunded', 'admin'),
+
+  -- Refunds
+  ('paid', 'refunded', 'seller'),
+  ('paid', 'refunded', 'admin'),
+  ('pickup_scheduled', 'refunded', 'seller'),
+  ('pickup_scheduled', 'refunded', 'admin'),
+  ('picked_up', 'refunded', 'seller'),
+  ('picked_up', 'refunded', 'admin'),
+  ('delivery_scheduled', 'refunded', 'seller'),
+  ('delivery_scheduled', 'refunded', 'admin'),
+  ('delivered', 'refunded', 'seller'),
+  ('delivered', 'refunded', 'admin')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,134 @@
+/*
+  # Favorites, Notification Realtime and Delivery Access
+
+  1. New Tables
+    - `favorites` - Items a user has saved
+
+  2. Security
+    - Users can view, add and remove their own favorites
+    - Users can create notifications for themselves
+    - Assigned riders can view and update delivery schedules and scan QR codes for their orders
+    - Admins can view delivery schedules, QR codes and favorites
+
+  3. Real-time
+    - Enable real-time subscriptions for notifications
+
+  4. Notes
+    - `notifications` and `order_history` are created in earlier migrations
+*/
+
+-- Create favorites table
+CREATE TABLE IF NOT EXISTS favorites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, item_id)
+);
+
+-- Enable RLS
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for favorites
+CREATE POLICY "Users can view their own favorites"
+  ON favorites
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add their own favorites"
+  ON favorites
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their own favorites"
+  ON favorites
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all favorites"
+  ON favorites
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can create their own notifications"
+  ON notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- RLS Policies for rider access to delivery data
+CREATE POLICY "Riders can view delivery schedules for assigned orders"
+  ON delivery_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_schedules.order_id
+      AND orders.rider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Riders can update delivery schedules for assigned orders"
+  ON delivery_schedules
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_schedules.order_id
+      AND orders.rider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Riders can view QR codes for assigned orders"
+  ON delivery_qr_codes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_qr_codes.order_id
+      AND orders.rider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Riders can scan QR codes for assigned orders"
+  ON delivery_qr_codes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_qr_codes.order_id
+      AND orders.rider_id = auth.uid()
+    )
+  )
+  WITH CHECK (scanned_by = auth.uid());
+
+-- Admin access to delivery data
+CREATE POLICY "Admins can view all delivery schedules"
+  ON delivery_schedules
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view all QR codes"
+  ON delivery_qr_codes
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_favorites_user_id ON favorites(user_id);
+CREATE INDEX IF NOT EXISTS idx_favorites_item_id ON favorites(item_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE is_read = false;
+CREATE INDEX IF NOT EXISTS idx_delivery_schedules_status ON delivery_schedules(status);
+
+-- Enable realtime for notifications
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
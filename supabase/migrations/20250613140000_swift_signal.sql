@@ -0,0 +1,300 @@
+/*
+  # Notification Fan-out
+
+  1. Functions
+    - `create_notification()` - Insert a notification for a user (trigger use only)
+
+  2. Triggers
+    - Paid orders and order status changes notify the buyer and seller (`order_update`, `item_sold`)
+    - New reviews notify the reviewee (`review`)
+    - New followers notify the followed user (`follow`)
+    - Dispute messages notify the other participants (`dispute`)
+    - Price drops notify users who favorited the item (`price_drop`)
+    - Released escrow and settled payouts notify the wallet owner (`payment`)
+
+  3. Notes
+    - Every notification carries the ids its screen needs in `data`
+    - The user who caused an event is never notified about it
+*/
+
+-- Insert a notification, bypassing RLS so triggers can notify other users
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_message text,
+  p_data jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  notification_id uuid;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (p_user_id, p_type, p_title, p_message, p_data)
+  RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only triggers may notify arbitrary users
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Notify buyer and seller when an order is paid for or changes status
+CREATE OR REPLACE FUNCTION notify_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  item_title text;
+  status_message text;
+  order_data jsonb;
+BEGIN
+  -- Orders are created pending or already paid, only a paid one is news
+  IF TG_OP = 'INSERT' AND NEW.status != 'paid' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO item_title FROM items WHERE id = NEW.item_id;
+  item_title := COALESCE(item_title, 'your item');
+
+  order_data := jsonb_build_object(
+    'order_id', NEW.id,
+    'item_id', NEW.item_id,
+    'status', NEW.status,
+    'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END
+  );
+
+  -- A paid order is a sale for the seller
+  IF NEW.status = 'paid' THEN
+    IF NEW.seller_id IS DISTINCT FROM auth.uid() THEN
+      PERFORM create_notification(
+        NEW.seller_id,
+        'item_sold',
+        'Item sold',
+        '"' || item_title || '" has been sold for ' || NEW.total_amount || ' USD.',
+        jsonb_build_object('item_id', NEW.item_id, 'order_id', NEW.id, 'amount', NEW.total_amount)
+      );
+    END IF;
+  END IF;
+
+  status_message := CASE NEW.status
+    WHEN 'paid' THEN 'Payment for "' || item_title || '" was received.'
+    WHEN 'pickup_scheduled' THEN 'Pickup for "' || item_title || '" has been scheduled.'
+    WHEN 'picked_up' THEN '"' || item_title || '" has been picked up.'
+    WHEN 'delivery_scheduled' THEN 'Delivery for "' || item_title || '" has been scheduled.'
+    WHEN 'delivered' THEN '"' || item_title || '" has been delivered.'
+    WHEN 'completed' THEN 'The order for "' || item_title || '" is complete.'
+    WHEN 'cancelled' THEN 'The order for "' || item_title || '" was cancelled.'
+    WHEN 'refunded' THEN 'The order for "' || item_title || '" was refunded.'
+    WHEN 'disputed' THEN 'A dispute was opened for "' || item_title || '".'
+    ELSE 'The order for "' || item_title || '" is now ' || replace(NEW.status, '_', ' ') || '.'
+  END;
+
+  IF NEW.buyer_id IS DISTINCT FROM auth.uid() THEN
+    PERFORM create_notification(NEW.buyer_id, 'order_update', 'Order updated', status_message, order_data);
+  END IF;
+
+  -- The seller already got an item_sold notification for payment
+  IF NEW.status != 'paid' AND NEW.seller_id IS DISTINCT FROM auth.uid() THEN
+    PERFORM create_notification(NEW.seller_id, 'order_update', 'Order updated', status_message, order_data);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_order_status_change_trigger ON orders;
+CREATE TRIGGER notify_order_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_order_status_change();
+
+-- Notify the reviewee about a new review
+CREATE OR REPLACE FUNCTION notify_new_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  reviewer_name text;
+BEGIN
+  IF NEW.reviewee_id IS NOT DISTINCT FROM NEW.reviewer_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT nickname INTO reviewer_name FROM profiles WHERE id = NEW.reviewer_id;
+
+  PERFORM create_notification(
+    NEW.reviewee_id,
+    'review',
+    'New review',
+    COALESCE(reviewer_name, 'Someone') || ' left you a ' || NEW.rating || '-star review.',
+    jsonb_build_object(
+      'review_id', NEW.id,
+      'order_id', NEW.order_id,
+      'reviewer_id', NEW.reviewer_id,
+      'reviewee_id', NEW.reviewee_id,
+      'rating', NEW.rating
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_new_review_trigger ON reviews;
+CREATE TRIGGER notify_new_review_trigger
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_review();
+
+-- Notify a user about a new follower
+CREATE OR REPLACE FUNCTION notify_new_follower()
+RETURNS TRIGGER AS $$
+DECLARE
+  follower_name text;
+BEGIN
+  SELECT nickname INTO follower_name FROM profiles WHERE id = NEW.follower_id;
+
+  PERFORM create_notification(
+    NEW.followed_id,
+    'follow',
+    'New follower',
+    COALESCE(follower_name, 'Someone') || ' started following you.',
+    jsonb_build_object('user_id', NEW.follower_id)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_new_follower_trigger ON followers;
+CREATE TRIGGER notify_new_follower_trigger
+  AFTER INSERT ON followers
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_follower();
+
+-- Notify dispute participants about a new message
+CREATE OR REPLACE FUNCTION notify_dispute_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  dispute_record RECORD;
+BEGIN
+  SELECT id, order_id, reporter_id, reported_id, status INTO dispute_record
+  FROM disputes
+  WHERE id = NEW.dispute_id;
+
+  -- resolve_dispute sends its own notification with the outcome
+  IF dispute_record.id IS NULL OR dispute_record.status IN ('resolved', 'closed') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    party.user_id,
+    'dispute',
+    CASE WHEN NEW.is_admin_message THEN 'Message from support' ELSE 'New dispute message' END,
+    left(NEW.content, 140),
+    jsonb_build_object(
+      'dispute_id', dispute_record.id,
+      'order_id', dispute_record.order_id,
+      'message_id', NEW.id
+    )
+  )
+  FROM (VALUES (dispute_record.reporter_id), (dispute_record.reported_id)) AS party(user_id)
+  WHERE party.user_id IS DISTINCT FROM NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_dispute_message_trigger ON dispute_messages;
+CREATE TRIGGER notify_dispute_message_trigger
+  AFTER INSERT ON dispute_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_dispute_message();
+
+-- Notify users who favorited an item when its price drops
+CREATE OR REPLACE FUNCTION notify_price_drop()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status != 'active' OR NEW.price >= OLD.price THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    favorites.user_id,
+    'price_drop',
+    'Price drop',
+    '"' || NEW.title || '" dropped from ' || OLD.price || ' to ' || NEW.price || ' USD.',
+    jsonb_build_object(
+      'item_id', NEW.id,
+      'old_price', OLD.price,
+      'new_price', NEW.price
+    )
+  )
+  FROM favorites
+  WHERE favorites.item_id = NEW.id
+  AND favorites.user_id != NEW.seller_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_price_drop_trigger ON items;
+CREATE TRIGGER notify_price_drop_trigger
+  AFTER UPDATE OF price ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_price_drop();
+
+-- Notify wallet owners when escrow is released or a payout settles
+CREATE OR REPLACE FUNCTION notify_wallet_settlement()
+RETURNS TRIGGER AS $$
+DECLARE
+  notification_title text;
+  notification_message text;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.type = 'escrow_release' THEN
+    notification_title := 'Funds available';
+    notification_message := NEW.amount || ' USD has been released to your wallet.';
+  ELSIF TG_OP = 'UPDATE' AND NEW.type = 'payout' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'completed' THEN
+      notification_title := 'Payout sent';
+      notification_message := 'Your payout of ' || abs(NEW.amount) || ' USD is on its way to your bank.';
+    ELSIF NEW.status = 'failed' THEN
+      notification_title := 'Payout failed';
+      notification_message := 'Your payout of ' || abs(NEW.amount) || ' USD failed and was returned to your wallet.';
+    ELSE
+      RETURN NEW;
+    END IF;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    NEW.user_id,
+    'payment',
+    notification_title,
+    notification_message,
+    jsonb_build_object(
+      'transaction_id', NEW.id,
+      'transaction_type', NEW.type,
+      'amount', abs(NEW.amount),
+      'status', NEW.status,
+      'reference_id', NEW.reference_id,
+      'reference_type', NEW.reference_type
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_wallet_settlement_trigger ON wallet_transactions;
+CREATE TRIGGER notify_wallet_settlement_trigger
+  AFTER INSERT OR UPDATE OF status ON wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_wallet_settlement();
@@ -0,0 +1,95 @@
+/*
+  # Favorite Counts and Price Watches
+
+  1. Schema Updates
+    - Add `favorites_count` to items
+    - Add `is_watching` to favorites
+
+  2. Functions & Triggers
+    - Keep `items.favorites_count` in sync with favorites
+    - Only watched favorites receive price drop notifications
+
+  3. Security
+    - Users can update their own favorites to start or stop watching
+*/
+
+-- Add favorite count to items
+ALTER TABLE items ADD COLUMN IF NOT EXISTS favorites_count integer DEFAULT 0;
+
+-- Add price watch flag to favorites
+ALTER TABLE favorites ADD COLUMN IF NOT EXISTS is_watching boolean DEFAULT false;
+
+CREATE POLICY "Users can update their own favorites"
+  ON favorites
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_favorites_watching ON favorites(item_id) WHERE is_watching = true;
+
+-- Function to update item favorite counts
+CREATE OR REPLACE FUNCTION update_item_favorites_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE items
+    SET favorites_count = favorites_count + 1
+    WHERE id = NEW.item_id;
+
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE items
+    SET favorites_count = GREATEST(0, favorites_count - 1)
+    WHERE id = OLD.item_id;
+
+    RETURN OLD;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_item_favorites_count_trigger ON favorites;
+CREATE TRIGGER update_item_favorites_count_trigger
+  AFTER INSERT OR DELETE ON favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_item_favorites_count();
+
+-- Backfill counts for existing favorites
+UPDATE items
+SET favorites_count = counts.total
+FROM (
+  SELECT item_id, COUNT(*) AS total
+  FROM favorites
+  GROUP BY item_id
+) AS counts
+WHERE items.id = counts.item_id;
+
+-- Notify users watching an item when its price drops
+CREATE OR REPLACE FUNCTION notify_price_drop()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status != 'active' OR NEW.price >= OLD.price THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    favorites.user_id,
+    'price_drop',
+    'Price drop',
+    '"' || NEW.title || '" dropped from ' || OLD.price || ' to ' || NEW.price || ' USD.',
+    jsonb_build_object(
+      'item_id', NEW.id,
+      'old_price', OLD.price,
+      'new_price', NEW.price
+    )
+  )
+  FROM favorites
+  WHERE favorites.item_id = NEW.id
+  AND favorites.is_watching = true
+  AND favorites.user_id != NEW.seller_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,197 @@
+/*
+  # Full-text and Faceted Item Search
+
+  1. Extensions
+    - `pg_trgm` for typo tolerant matching
+
+  2. Schema Updates
+    - Add generated `search_vector` to items (title, brand, description)
+    - GIN indexes for full-text and trigram search
+
+  3. Functions
+    - `search_items()` - Ranked search with filters, facet counts and cursor pagination
+
+  4. Notes
+    - Facet counts for a dimension ignore that dimension's own filter so
+      alternative values stay visible
+    - Price buckets: under_20, 20_50, 50_100, 100_200, over_200 (upper bound exclusive)
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weighted document: title matters most, then brand, then description
+ALTER TABLE items ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(brand, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_items_search_vector ON items USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_items_title_trgm ON items USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_items_brand_trgm ON items USING gin(brand gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_items_status_created_at ON items(status, created_at DESC);
+
+-- Price bucket an item falls into
+CREATE OR REPLACE FUNCTION item_price_bucket(p_price decimal)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_price < 20 THEN 'under_20'
+    WHEN p_price < 50 THEN '20_50'
+    WHEN p_price < 100 THEN '50_100'
+    WHEN p_price < 200 THEN '100_200'
+    ELSE 'over_200'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked, faceted search over active items
+CREATE OR REPLACE FUNCTION search_items(
+  p_query text DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_brands text[] DEFAULT NULL,
+  p_sizes text[] DEFAULT NULL,
+  p_conditions text[] DEFAULT NULL,
+  p_min_price decimal DEFAULT NULL,
+  p_max_price decimal DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_cursor jsonb DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  search_query text := NULLIF(trim(p_query), '');
+  ts_query tsquery;
+  page_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  result json;
+BEGIN
+  IF search_query IS NOT NULL THEN
+    ts_query := websearch_to_tsquery('english', search_query);
+  END IF;
+
+  WITH matches AS (
+    SELECT
+      i.id, i.title, i.description, i.price, i.images, i.brand, i.size, i.condition,
+      i.category, i.seller_id, i.status, i.favorites_count, i.created_at, i.updated_at,
+      (
+        CASE WHEN ts_query IS NULL THEN 0 ELSE ts_rank(i.search_vector, ts_query) END +
+        CASE WHEN search_query IS NULL THEN 0
+          ELSE GREATEST(word_similarity(search_query, i.title), word_similarity(search_query, i.brand)) * 0.5
+        END
+      )::real AS score,
+      item_price_bucket(i.price) AS price_bucket
+    FROM items i
+    WHERE i.status = 'active'
+    AND (
+      search_query IS NULL OR
+      i.search_vector @@ ts_query OR
+      search_query <% i.title OR
+      search_query <% i.brand
+    )
+  ),
+  -- Each filter as a flag so facets can leave out their own dimension
+  flagged AS (
+    SELECT
+      m.*,
+      (p_categories IS NULL OR m.category = ANY(p_categories)) AS category_ok,
+      (p_brands IS NULL OR m.brand = ANY(p_brands)) AS brand_ok,
+      (p_sizes IS NULL OR m.size = ANY(p_sizes)) AS size_ok,
+      (p_conditions IS NULL OR m.condition = ANY(p_conditions)) AS condition_ok,
+      ((p_min_price IS NULL OR m.price >= p_min_price) AND (p_max_price IS NULL OR m.price < p_max_price)) AS price_ok
+    FROM matches m
+  ),
+  -- One page plus one row to tell whether another page exists
+  page AS (
+    SELECT
+      f.*,
+      row_number() OVER (ORDER BY f.score DESC, f.created_at DESC, f.id DESC) AS position
+    FROM flagged f
+    WHERE f.category_ok AND f.brand_ok AND f.size_ok AND f.condition_ok AND f.price_ok
+    AND (
+      p_cursor IS NULL OR
+      (f.score, f.created_at, f.id) < (
+        (p_cursor->>'score')::real,
+        (p_cursor->>'created_at')::timestamptz,
+        (p_cursor->>'id')::uuid
+      )
+    )
+    ORDER BY f.score DESC, f.created_at DESC, f.id DESC
+    LIMIT page_limit + 1
+  )
+  SELECT json_build_object(
+    'items', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'id', pg.id,
+        'title', pg.title,
+        'description', pg.description,
+        'price', pg.price,
+        'images', pg.images,
+        'brand', pg.brand,
+        'size', pg.size,
+        'condition', pg.condition,
+        'category', pg.category,
+        'seller_id', pg.seller_id,
+        'status', pg.status,
+        'favorites_count', pg.favorites_count,
+        'created_at', pg.created_at,
+        'updated_at', pg.updated_at,
+        'score', pg.score,
+        'seller', json_build_object('nickname', pr.nickname, 'profile_picture', pr.profile_picture)
+      ) ORDER BY pg.position), '[]'::json)
+      FROM page pg
+      LEFT JOIN profiles pr ON pr.id = pg.seller_id
+      WHERE pg.position <= page_limit
+    ),
+    'next_cursor', (
+      SELECT json_build_object('score', final_row.score, 'created_at', final_row.created_at, 'id', final_row.id)
+      FROM page final_row
+      WHERE final_row.position = page_limit
+      AND EXISTS (SELECT 1 FROM page extra WHERE extra.position = page_limit + 1)
+    ),
+    'facets', json_build_object(
+      'category', (
+        SELECT COALESCE(json_agg(json_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::json)
+        FROM (
+          SELECT category AS value, COUNT(*) AS total FROM flagged
+          WHERE brand_ok AND size_ok AND condition_ok AND price_ok
+          GROUP BY category
+        ) counts
+      ),
+      'brand', (
+        SELECT COALESCE(json_agg(json_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::json)
+        FROM (
+          SELECT brand AS value, COUNT(*) AS total FROM flagged
+          WHERE category_ok AND size_ok AND condition_ok AND price_ok
+          GROUP BY brand
+          ORDER BY total DESC, brand
+          LIMIT 20
+        ) counts
+      ),
+      'size', (
+        SELECT COALESCE(json_agg(json_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::json)
+        FROM (
+          SELECT size AS value, COUNT(*) AS total FROM flagged
+          WHERE category_ok AND brand_ok AND condition_ok AND price_ok
+          GROUP BY size
+        ) counts
+      ),
+      'condition', (
+        SELECT COALESCE(json_agg(json_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::json)
+        FROM (
+          SELECT condition AS value, COUNT(*) AS total FROM flagged
+          WHERE category_ok AND brand_ok AND size_ok AND price_ok
+          GROUP BY condition
+        ) counts
+      ),
+      'price', (
+        SELECT COALESCE(json_agg(json_build_object('value', value, 'count', total) ORDER BY min_price), '[]'::json)
+        FROM (
+          SELECT price_bucket AS value, COUNT(*) AS total, MIN(price) AS min_price FROM flagged
+          WHERE category_ok AND brand_ok AND size_ok AND condition_ok
+          GROUP BY price_bucket
+        ) counts
+      )
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,208 @@
+/*
+  # Saved Searches and New Listing Alerts
+
+  1. New Tables
+    - `saved_searches` - Named search query and filters saved by a user
+
+  2. Functions
+    - `item_matches_search()` - Whether an item matches a query and filters
+    - `process_saved_search_alerts()` - Notify users about new items matching their saved searches
+
+  3. Security
+    - Users can view, create, update and delete their own saved searches
+
+  4. Notes
+    - Filters use the same shape as the app: categories, brands, sizes, conditions, priceBucket
+    - More than 3 new matches are sent as a single digest notification
+    - Alerts run every 15 minutes when pg_cron is available
+    - Unmuting a search does not replay items listed while it was muted
+*/
+
+-- Create saved_searches table
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  query text,
+  filters jsonb NOT NULL DEFAULT '{}',
+  is_muted boolean DEFAULT false,
+  last_checked_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for saved_searches
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own saved searches"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active ON saved_searches(last_checked_at) WHERE is_muted = false;
+CREATE INDEX IF NOT EXISTS idx_items_created_at ON items(created_at);
+
+-- Whether an item matches a search query and filters (same rules as search_items)
+CREATE OR REPLACE FUNCTION item_matches_search(p_item items, p_query text, p_filters jsonb)
+RETURNS boolean AS $$
+DECLARE
+  search_query text := NULLIF(trim(p_query), '');
+  filters jsonb := COALESCE(p_filters, '{}');
+BEGIN
+  IF search_query IS NOT NULL AND NOT (
+    p_item.search_vector @@ websearch_to_tsquery('english', search_query) OR
+    search_query <% p_item.title OR
+    search_query <% p_item.brand
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(filters->'categories', '[]')) > 0
+    AND NOT (filters->'categories') ? p_item.category THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(filters->'brands', '[]')) > 0
+    AND NOT (filters->'brands') ? p_item.brand THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(filters->'sizes', '[]')) > 0
+    AND NOT (filters->'sizes') ? p_item.size THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(filters->'conditions', '[]')) > 0
+    AND NOT (filters->'conditions') ? p_item.condition THEN
+    RETURN false;
+  END IF;
+
+  IF filters->>'priceBucket' IS NOT NULL
+    AND filters->>'priceBucket' != item_price_bucket(p_item.price) THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Notify users about items listed since their saved searches were last checked
+CREATE OR REPLACE FUNCTION process_saved_search_alerts()
+RETURNS integer AS $$
+DECLARE
+  saved_search RECORD;
+  run_started_at timestamptz := now();
+  match_ids uuid[];
+  match_count integer;
+  notifications_sent integer := 0;
+BEGIN
+  FOR saved_search IN
+    SELECT * FROM saved_searches
+    WHERE is_muted = false
+    ORDER BY last_checked_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT
+      array_agg(i.id ORDER BY i.created_at DESC),
+      COUNT(*)
+    INTO match_ids, match_count
+    FROM items i
+    WHERE i.status = 'active'
+    AND i.created_at > saved_search.last_checked_at
+    AND i.created_at <= run_started_at
+    AND i.seller_id != saved_search.user_id
+    AND item_matches_search(i, saved_search.query, saved_search.filters);
+
+    IF match_count BETWEEN 1 AND 3 THEN
+      -- A few matches are sent individually
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        'New match for "' || saved_search.name || '"',
+        '"' || i.title || '" was just listed.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', jsonb_build_array(i.id),
+          'count', 1
+        )
+      )
+      FROM items i
+      WHERE i.id = ANY(match_ids);
+      notifications_sent := notifications_sent + match_count;
+    ELSIF match_count > 3 THEN
+      -- Many matches are batched into one digest
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        match_count || ' new matches for "' || saved_search.name || '"',
+        'Tap to see the latest listings matching your saved search.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', to_jsonb(match_ids[1:20]),
+          'count', match_count
+        )
+      );
+      notifications_sent := notifications_sent + 1;
+    END IF;
+
+    UPDATE saved_searches
+    SET last_checked_at = run_started_at
+    WHERE id = saved_search.id;
+  END LOOP;
+
+  RETURN notifications_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION process_saved_search_alerts() FROM PUBLIC, anon, authenticated;
+
+-- Unmuting starts from now instead of replaying everything listed while muted
+CREATE OR REPLACE FUNCTION update_saved_search_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+
+  IF OLD.is_muted AND NOT NEW.is_muted THEN
+    NEW.last_checked_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_saved_search_timestamps_trigger ON saved_searches;
+CREATE TRIGGER update_saved_search_timestamps_trigger
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_saved_search_timestamps();
+
+-- Run alerts every 15 minutes (requires pg_cron)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('saved-search-alerts', '*/15 * * * *', 'SELECT process_saved_search_alerts();');
+  END IF;
+END $$;
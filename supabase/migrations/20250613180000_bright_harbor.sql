@@ -0,0 +1,124 @@
+/*
+  # Paginated Item Listing
+
+  1. Functions
+    - `list_items()` - Active items with sort options and cursor pagination
+
+  2. Indexes
+    - Price and promoted orderings over active items
+
+  3. Notes
+    - Sorts: newest, price_asc, price_desc, promoted (promoted first, then newest)
+    - The cursor is the last row's sort keys: created_at, price, is_promoted, id
+    - Text matching follows the same rules as search_items, without ranking
+*/
+
+CREATE INDEX IF NOT EXISTS idx_items_active_price ON items(price, id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_items_active_promoted ON items(is_promoted DESC, created_at DESC, id DESC) WHERE status = 'active';
+
+-- Active items in the requested order, one page at a time
+CREATE OR REPLACE FUNCTION list_items(
+  p_sort text DEFAULT 'newest',
+  p_query text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_seller_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_cursor jsonb DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  search_query text := NULLIF(trim(p_query), '');
+  sort_order text := COALESCE(p_sort, 'newest');
+  page_limit integer := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  cursor_created_at timestamptz := (p_cursor->>'created_at')::timestamptz;
+  cursor_price decimal := (p_cursor->>'price')::decimal;
+  cursor_promoted boolean := COALESCE((p_cursor->>'is_promoted')::boolean, false);
+  cursor_id uuid := (p_cursor->>'id')::uuid;
+  result json;
+BEGIN
+  IF sort_order NOT IN ('newest', 'price_asc', 'price_desc', 'promoted') THEN
+    RAISE EXCEPTION 'Unknown sort: %', sort_order;
+  END IF;
+
+  WITH page AS (
+    SELECT
+      i.*,
+      COALESCE(i.is_promoted, false) AS promoted,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_order = 'price_asc' THEN i.price END ASC,
+          CASE WHEN sort_order = 'price_asc' THEN i.id END ASC,
+          CASE WHEN sort_order = 'price_desc' THEN i.price END DESC,
+          CASE WHEN sort_order = 'promoted' THEN COALESCE(i.is_promoted, false) END DESC,
+          i.created_at DESC,
+          i.id DESC
+      ) AS position
+    FROM items i
+    WHERE i.status = 'active'
+    AND (p_category IS NULL OR i.category = p_category)
+    AND (p_seller_id IS NULL OR i.seller_id = p_seller_id)
+    AND (
+      search_query IS NULL OR
+      i.search_vector @@ websearch_to_tsquery('english', search_query) OR
+      search_query <% i.title OR
+      search_query <% i.brand
+    )
+    -- Keyset comparison matching each ORDER BY above
+    AND (
+      p_cursor IS NULL OR
+      CASE sort_order
+        WHEN 'price_asc' THEN (i.price, i.id) > (cursor_price, cursor_id)
+        WHEN 'price_desc' THEN (i.price, i.created_at, i.id) < (cursor_price, cursor_created_at, cursor_id)
+        WHEN 'promoted' THEN (COALESCE(i.is_promoted, false), i.created_at, i.id) < (cursor_promoted, cursor_created_at, cursor_id)
+        ELSE (i.created_at, i.id) < (cursor_created_at, cursor_id)
+      END
+    )
+    ORDER BY
+      CASE WHEN sort_order = 'price_asc' THEN i.price END ASC,
+      CASE WHEN sort_order = 'price_asc' THEN i.id END ASC,
+      CASE WHEN sort_order = 'price_desc' THEN i.price END DESC,
+      CASE WHEN sort_order = 'promoted' THEN COALESCE(i.is_promoted, false) END DESC,
+      i.created_at DESC,
+      i.id DESC
+    LIMIT page_limit + 1
+  )
+  SELECT json_build_object(
+    'items', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'id', pg.id,
+        'title', pg.title,
+        'description', pg.description,
+        'price', pg.price,
+        'images', pg.images,
+        'brand', pg.brand,
+        'size', pg.size,
+        'condition', pg.condition,
+        'category', pg.category,
+        'seller_id', pg.seller_id,
+        'status', pg.status,
+        'is_promoted', pg.promoted,
+        'favorites_count', pg.favorites_count,
+        'created_at', pg.created_at,
+        'updated_at', pg.updated_at,
+        'seller', json_build_object('nickname', pr.nickname, 'profile_picture', pr.profile_picture)
+      ) ORDER BY pg.position), '[]'::json)
+      FROM page pg
+      LEFT JOIN profiles pr ON pr.id = pg.seller_id
+      WHERE pg.position <= page_limit
+    ),
+    'next_cursor', (
+      SELECT json_build_object(
+        'created_at', final_row.created_at,
+        'price', final_row.price,
+        'is_promoted', final_row.promoted,
+        'id', final_row.id
+      )
+      FROM page final_row
+      WHERE final_row.position = page_limit
+      AND EXISTS (SELECT 1 FROM page extra WHERE extra.position = page_limit + 1)
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
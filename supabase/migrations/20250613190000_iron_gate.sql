@@ -0,0 +1,306 @@
+/*
+  # Per-rider Delivery API Keys
+
+  1. Schema Updates
+    - Riders store a SHA-256 hash of their API key instead of the key itself
+    - `api_key_prefix` keeps the first characters of the key for display
+    - `api_key_scopes` limits a key to reading deliveries or also updating them
+    - `api_key_revoked_at` and `last_used_at` for revocation and usage tracking
+
+  2. Functions
+    - `generate_rider_api_key()` - New random key in the `rk_` format
+    - `register_rider()` - Registers a rider and returns their first key once
+    - `rotate_rider_api_key()` - Replaces a rider's key, returns the new key once
+    - `revoke_rider_api_key()` - Disables a rider's key
+    - `set_rider_api_key_scopes()` - Changes what a rider's key may do
+    - `authenticate_rider_api_key()` - Resolves a key hash to a rider (service role only)
+
+  3. Security
+    - Admins can view all riders
+    - Users can only register themselves as riders
+    - Only admins can rotate, revoke or rescope keys, riders cannot edit them directly
+    - Only admins can activate or deactivate riders
+
+  4. Notes
+    - Existing plaintext keys are hashed in place and keep working
+    - The shared `delivery.apiKey` platform setting is retired, its row is kept as null for the audit history
+    - Plaintext keys are only ever returned by register and rotate
+*/
+
+-- Add key metadata to riders
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS api_key_hash text UNIQUE;
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS api_key_prefix text;
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS api_key_scopes text[] NOT NULL DEFAULT ARRAY['deliveries:read']
+  CHECK (api_key_scopes <@ ARRAY['deliveries:read', 'deliveries:write']);
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS api_key_created_at timestamptz;
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS api_key_revoked_at timestamptz;
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
+
+-- Hash existing keys; riders registered so far could already update deliveries
+UPDATE riders
+SET
+  api_key_hash = encode(digest(api_key, 'sha256'), 'hex'),
+  api_key_prefix = left(api_key, 8),
+  api_key_scopes = ARRAY['deliveries:read', 'deliveries:write'],
+  api_key_created_at = created_at
+WHERE api_key IS NOT NULL
+AND api_key_hash IS NULL;
+
+DROP INDEX IF EXISTS idx_riders_api_key;
+ALTER TABLE riders DROP COLUMN IF EXISTS api_key;
+
+-- RLS Policies for riders
+CREATE POLICY "Admins can view all riders"
+  ON riders
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Retire the shared delivery API key, the row stays as null so its audit history is kept
+WITH retired AS (
+  UPDATE platform_settings
+  SET
+    value = 'null',
+    version = nextval('platform_settings_version_seq'),
+    updated_by = NULL,
+    updated_at = now()
+  WHERE key = 'delivery.apiKey'
+  AND value <> 'null'
+  RETURNING key, version
+)
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT version, key, NULL, 'null', 'Retired, riders use their own API keys'
+FROM retired;
+DROP FUNCTION IF EXISTS regenerate_delivery_api_key();
+
+-- Rollbacks skip settings that no longer exist, were retired or are secret
+CREATE OR REPLACE FUNCTION rollback_platform_settings(p_version bigint)
+RETURNS bigint AS $$
+DECLARE
+  snapshot jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back platform settings';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE version = p_version) THEN
+    RAISE EXCEPTION 'Settings version % not found', p_version;
+  END IF;
+
+  -- Latest value of each key at or before the requested version, secrets have none to restore
+  SELECT jsonb_object_agg(key, new_value) INTO snapshot
+  FROM (
+    SELECT DISTINCT ON (key) key, new_value
+    FROM platform_settings_audit
+    WHERE version <= p_version
+    AND key IN (SELECT key FROM platform_settings WHERE value <> 'null' AND NOT is_secret)
+    ORDER BY key, version DESC
+  ) AS versioned;
+
+  RETURN update_platform_settings(COALESCE(snapshot, '{}'), 'Rollback to version ' || p_version);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to generate API key for riders
+CREATE OR REPLACE FUNCTION generate_rider_api_key()
+RETURNS text AS $$
+DECLARE
+  key text;
+  key_exists boolean;
+BEGIN
+  LOOP
+    -- Hex keeps the key safe to paste into headers and URLs
+    key := 'rk_' || encode(gen_random_bytes(24), 'hex');
+
+    SELECT EXISTS(
+      SELECT 1 FROM riders WHERE api_key_hash = encode(digest(key, 'sha256'), 'hex')
+    ) INTO key_exists;
+
+    EXIT WHEN NOT key_exists;
+  END LOOP;
+
+  RETURN key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION generate_rider_api_key() FROM PUBLIC, anon, authenticated;
+
+-- Function to register a new rider
+CREATE OR REPLACE FUNCTION register_rider(
+  p_profile_id uuid,
+  p_vehicle_type text,
+  p_license_plate text
+)
+RETURNS json AS $$
+DECLARE
+  api_key text;
+  rider_id uuid;
+BEGIN
+  IF p_profile_id != auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'You can only register yourself as a rider';
+  END IF;
+
+  api_key := generate_rider_api_key();
+
+  -- New keys can only read until an admin allows status updates
+  INSERT INTO riders (
+    profile_id,
+    api_key_hash,
+    api_key_prefix,
+    api_key_created_at,
+    vehicle_type,
+    license_plate
+  ) VALUES (
+    p_profile_id,
+    encode(digest(api_key, 'sha256'), 'hex'),
+    left(api_key, 11),
+    now(),
+    p_vehicle_type,
+    p_license_plate
+  ) RETURNING id INTO rider_id;
+
+  RETURN json_build_object(
+    'rider_id', rider_id,
+    'api_key', api_key
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to replace a rider's API key, the old key stops working immediately
+CREATE OR REPLACE FUNCTION rotate_rider_api_key(p_rider_id uuid)
+RETURNS json AS $$
+DECLARE
+  api_key text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can rotate rider API keys';
+  END IF;
+
+  api_key := generate_rider_api_key();
+
+  UPDATE riders
+  SET
+    api_key_hash = encode(digest(api_key, 'sha256'), 'hex'),
+    api_key_prefix = left(api_key, 11),
+    api_key_created_at = now(),
+    api_key_revoked_at = NULL,
+    last_used_at = NULL,
+    updated_at = now()
+  WHERE id = p_rider_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  RETURN json_build_object(
+    'rider_id', p_rider_id,
+    'api_key', api_key
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to disable a rider's API key
+CREATE OR REPLACE FUNCTION revoke_rider_api_key(p_rider_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can revoke rider API keys';
+  END IF;
+
+  UPDATE riders
+  SET
+    api_key_revoked_at = now(),
+    updated_at = now()
+  WHERE id = p_rider_id
+  AND api_key_revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found or key already revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to change what a rider's API key may do
+CREATE OR REPLACE FUNCTION set_rider_api_key_scopes(p_rider_id uuid, p_scopes text[])
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change rider API key scopes';
+  END IF;
+
+  IF NOT ('deliveries:read' = ANY(p_scopes)) THEN
+    RAISE EXCEPTION 'Rider API keys always need the deliveries:read scope';
+  END IF;
+
+  UPDATE riders
+  SET
+    api_key_scopes = p_scopes,
+    updated_at = now()
+  WHERE id = p_rider_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resolve an API key hash to an active rider and record the use
+CREATE OR REPLACE FUNCTION authenticate_rider_api_key(p_key_hash text)
+RETURNS json AS $$
+DECLARE
+  rider_record riders%ROWTYPE;
+BEGIN
+  SELECT * INTO rider_record
+  FROM riders
+  WHERE api_key_hash = p_key_hash
+  AND api_key_revoked_at IS NULL
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- At most one write a minute per rider
+  UPDATE riders
+  SET last_used_at = now()
+  WHERE id = rider_record.id
+  AND (last_used_at IS NULL OR last_used_at < now() - interval '1 minute');
+
+  RETURN json_build_object(
+    'rider_id', rider_record.id,
+    'profile_id', rider_record.profile_id,
+    'scopes', rider_record.api_key_scopes
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION authenticate_rider_api_key(text) FROM PUBLIC, anon, authenticated;
+
+-- Riders may update their own profile, but not their key, its scopes or whether they are active
+CREATE OR REPLACE FUNCTION protect_rider_api_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() AND NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    RAISE EXCEPTION 'Riders can only be activated or deactivated by an admin';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT is_admin() AND (
+    NEW.api_key_hash IS DISTINCT FROM OLD.api_key_hash OR
+    NEW.api_key_prefix IS DISTINCT FROM OLD.api_key_prefix OR
+    NEW.api_key_scopes IS DISTINCT FROM OLD.api_key_scopes OR
+    NEW.api_key_created_at IS DISTINCT FROM OLD.api_key_created_at OR
+    NEW.api_key_revoked_at IS DISTINCT FROM OLD.api_key_revoked_at OR
+    NEW.last_used_at IS DISTINCT FROM OLD.last_used_at
+  ) THEN
+    RAISE EXCEPTION 'Rider API keys can only be changed by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_rider_api_key_trigger ON riders;
+CREATE TRIGGER protect_rider_api_key_trigger
+  BEFORE UPDATE ON riders
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_rider_api_key();
@@ -0,0 +1,373 @@
+/*
+  # Signed Outbound Webhooks
+
+  1. New Tables
+    - `webhook_endpoints` - Partner URLs that receive delivery events, each with a signing secret
+    - `webhook_deliveries` - Outbox of events to send, one row per endpoint and event
+
+  2. Views
+    - `webhook_dead_letters` - Deliveries that ran out of retries
+
+  3. Functions
+    - `enqueue_webhook_event()` - Queue an event for every subscribed endpoint
+    - `claim_webhook_deliveries()` - Lock a batch of due deliveries for the dispatcher
+    - `record_webhook_attempt()` - Mark a delivery sent, or schedule a retry with backoff
+    - `replay_webhook_delivery()` - Send a delivery again (admin only)
+
+  4. Triggers
+    - `delivery.assigned` when a rider is assigned to an order
+    - `delivery.status_changed` when a delivery schedule changes status
+    - `order.ready_for_pickup` when an order's pickup is scheduled
+    - `order.cancelled` when an order is cancelled
+
+  5. Security
+    - Only admins can manage endpoints and view deliveries
+
+  6. Notes
+    - The `webhook-dispatcher` edge function sends due deliveries with an
+      `X-Remore-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>">` header
+    - Retries back off exponentially from 30 seconds up to 6 hours; after 8 attempts
+      a delivery is dead
+    - The `delivery.webhookUrl` setting becomes the first registered endpoint
+    - The dispatcher runs every minute when pg_cron and pg_net are available, it needs the
+      `project_url` and `service_role_key` Vault secrets (see the README)
+*/
+
+-- Create webhook_endpoints table
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url text NOT NULL CHECK (url ~ '^https://\S+$'),
+  description text,
+  secret text NOT NULL DEFAULT 'whsec_' || encode(gen_random_bytes(24), 'hex'),
+  events text[] NOT NULL DEFAULT ARRAY[
+    'delivery.assigned', 'delivery.status_changed', 'order.ready_for_pickup', 'order.cancelled'
+  ] CHECK (events <@ ARRAY[
+    'delivery.assigned', 'delivery.status_changed', 'order.ready_for_pickup', 'order.cancelled'
+  ]),
+  is_active boolean DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL,
+  endpoint_id uuid NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'delivered', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz DEFAULT now(),
+  last_attempt_at timestamptz,
+  last_response_status integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for webhook_endpoints
+CREATE POLICY "Admins can view webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create webhook endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for webhook_deliveries
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event_id ON webhook_deliveries(event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status, created_at DESC);
+
+-- Deliveries that ran out of retries
+CREATE OR REPLACE VIEW webhook_dead_letters
+WITH (security_invoker = true) AS
+SELECT
+  d.id,
+  d.event_id,
+  d.event_type,
+  d.payload,
+  d.attempts,
+  d.last_attempt_at,
+  d.last_response_status,
+  d.last_error,
+  d.created_at,
+  e.id AS endpoint_id,
+  e.url AS endpoint_url
+FROM webhook_deliveries d
+JOIN webhook_endpoints e ON e.id = d.endpoint_id
+WHERE d.status = 'dead';
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_webhook_endpoint_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_webhook_endpoint_updated_at_trigger ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoint_updated_at_trigger
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_webhook_endpoint_updated_at();
+
+-- Queue an event for every active endpoint subscribed to it
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_event_type text, p_data jsonb)
+RETURNS uuid AS $$
+DECLARE
+  new_event_id uuid := gen_random_uuid();
+BEGIN
+  INSERT INTO webhook_deliveries (event_id, endpoint_id, event_type, payload)
+  SELECT
+    new_event_id,
+    e.id,
+    p_event_type,
+    jsonb_build_object(
+      'id', new_event_id,
+      'type', p_event_type,
+      'created_at', now(),
+      'data', p_data
+    )
+  FROM webhook_endpoints e
+  WHERE e.is_active = true
+  AND p_event_type = ANY(e.events);
+
+  RETURN new_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Lock a batch of due deliveries so concurrent dispatchers never send one twice
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  event_type text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text
+) AS $$
+BEGIN
+  -- Deliveries stuck in sending (dispatcher crashed) become due again after 5 minutes
+  UPDATE webhook_deliveries wd
+  SET status = 'pending'
+  WHERE wd.status = 'sending'
+  AND wd.last_attempt_at < now() - interval '5 minutes';
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT wd.id
+    FROM webhook_deliveries wd
+    WHERE wd.status = 'pending'
+    AND wd.next_attempt_at <= now()
+    ORDER BY wd.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE webhook_deliveries wd
+  SET
+    status = 'sending',
+    attempts = wd.attempts + 1,
+    last_attempt_at = now()
+  FROM due, webhook_endpoints e
+  WHERE wd.id = due.id
+  AND e.id = wd.endpoint_id
+  RETURNING wd.id, wd.event_type, wd.payload, wd.attempts, e.url, e.secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
+
+-- Mark a delivery as sent, or schedule the next retry
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+  p_delivery_id uuid,
+  p_success boolean,
+  p_response_status integer DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  max_attempts CONSTANT integer := 8;
+BEGIN
+  IF p_success THEN
+    UPDATE webhook_deliveries
+    SET
+      status = 'delivered',
+      delivered_at = now(),
+      last_response_status = p_response_status,
+      last_error = NULL
+    WHERE id = p_delivery_id;
+  ELSE
+    -- 30s, 1m, 2m, 4m ... capped at 6 hours
+    UPDATE webhook_deliveries
+    SET
+      status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+      next_attempt_at = now() + LEAST(interval '30 seconds' * power(2, attempts - 1), interval '6 hours'),
+      last_response_status = p_response_status,
+      last_error = left(p_error, 1000)
+    WHERE id = p_delivery_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(uuid, boolean, integer, text) FROM PUBLIC, anon, authenticated;
+
+-- Send a delivery again from the first attempt
+CREATE OR REPLACE FUNCTION replay_webhook_delivery(p_delivery_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can replay webhook events';
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET
+    status = 'pending',
+    attempts = 0,
+    next_attempt_at = now(),
+    delivered_at = NULL
+  WHERE id = p_delivery_id
+  AND status IN ('delivered', 'dead');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook delivery not found or still in progress';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Order events for delivery partners
+CREATE OR REPLACE FUNCTION enqueue_order_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.rider_id IS NOT NULL AND OLD.rider_id IS DISTINCT FROM NEW.rider_id THEN
+    PERFORM enqueue_webhook_event('delivery.assigned', jsonb_build_object(
+      'order_id', NEW.id,
+      'rider_id', NEW.rider_id,
+      'status', NEW.status
+    ));
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'pickup_scheduled' THEN
+      PERFORM enqueue_webhook_event('order.ready_for_pickup', jsonb_build_object(
+        'order_id', NEW.id,
+        'item_id', NEW.item_id,
+        'seller_id', NEW.seller_id
+      ));
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM enqueue_webhook_event('order.cancelled', jsonb_build_object(
+        'order_id', NEW.id,
+        'rider_id', NEW.rider_id,
+        'previous_status', OLD.status
+      ));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_order_webhooks_trigger ON orders;
+CREATE TRIGGER enqueue_order_webhooks_trigger
+  AFTER UPDATE OF status, rider_id ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_order_webhooks();
+
+CREATE OR REPLACE FUNCTION enqueue_delivery_status_webhook()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM enqueue_webhook_event('delivery.status_changed', jsonb_build_object(
+      'order_id', NEW.order_id,
+      'delivery_id', NEW.id,
+      'status', NEW.status,
+      'previous_status', OLD.status
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_delivery_status_webhook_trigger ON delivery_schedules;
+CREATE TRIGGER enqueue_delivery_status_webhook_trigger
+  AFTER UPDATE OF status ON delivery_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_delivery_status_webhook();
+
+-- Move the single webhook URL setting into the endpoint registry
+INSERT INTO webhook_endpoints (url, description)
+SELECT value #>> '{}', 'Migrated from delivery settings'
+FROM platform_settings
+WHERE key = 'delivery.webhookUrl'
+AND jsonb_typeof(value) = 'string'
+AND value #>> '{}' ~ '^https://\S+$';
+
+-- The setting is retired as null rather than deleted, deleting it would take its audit history along
+WITH retired AS (
+  UPDATE platform_settings
+  SET
+    value = 'null',
+    version = nextval('platform_settings_version_seq'),
+    updated_by = NULL,
+    updated_at = now()
+  WHERE key = 'delivery.webhookUrl'
+  AND value <> 'null'
+  RETURNING key, version
+)
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT version, key, NULL, 'null', 'Retired, moved to the webhook endpoint registry'
+FROM retired;
+
+-- Dispatch due deliveries every minute (requires pg_cron and pg_net), the project URL and
+-- service role key are read from Vault on every run so they never live in the schedule
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+  AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule('webhook-dispatch', '* * * * *', $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/webhook-dispatcher',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+    $job$);
+  END IF;
+END $$;
@@ -0,0 +1,208 @@
+/*
+  # Configurable Fee Rules
+
+  1. New Tables
+    - `fee_rules` - Admin-managed rules for buyer protection fees, seller commission,
+      payout fees and promotional discounts, scoped by category, price tier and seller tier
+
+  2. Schema Updates
+    - `orders.fee_breakdown` - Itemized fees the order was charged with, in cents
+    - `payment_intents.fee_breakdown` - Quote the card payment was created for
+
+  3. Functions
+    - `get_seller_tier()` - new, established or top, from a seller's completed sales
+    - `process_wallet_payment()` - Stores the fee breakdown on the order
+
+  4. Security
+    - Anyone can view active fee rules, so buyers see the same quote the server charges
+    - Only admins can create, change or remove rules
+
+  5. Notes
+    - Rates are stored in basis points and amounts in cents
+    - When no rule matches, the platform fee settings apply
+    - New `fees.buyerProtectionFee` setting defaults to 0% so totals are unchanged until configured
+    - The unused `fees.listingFee` setting is retired
+*/
+
+-- Create fee_rules table
+CREATE TABLE IF NOT EXISTS fee_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  fee_type text NOT NULL CHECK (fee_type IN ('buyer_protection', 'commission', 'payout', 'discount')),
+  rate_bps integer NOT NULL DEFAULT 0 CHECK (rate_bps BETWEEN 0 AND 10000),
+  fixed_cents integer NOT NULL DEFAULT 0 CHECK (fixed_cents >= 0),
+  min_cents integer CHECK (min_cents >= 0),
+  max_cents integer CHECK (max_cents >= 0),
+  category text,
+  seller_tier text CHECK (seller_tier IN ('new', 'established', 'top')),
+  min_price_cents integer CHECK (min_price_cents >= 0),
+  max_price_cents integer CHECK (max_price_cents >= 0),
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_cents IS NULL OR min_cents IS NULL OR max_cents >= min_cents),
+  CHECK (max_price_cents IS NULL OR min_price_cents IS NULL OR max_price_cents >= min_price_cents),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fee_breakdown jsonb;
+ALTER TABLE payment_intents ADD COLUMN IF NOT EXISTS fee_breakdown jsonb;
+
+-- Enable RLS
+ALTER TABLE fee_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for fee_rules
+CREATE POLICY "Anyone can view active fee rules"
+  ON fee_rules
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Admins can view all fee rules"
+  ON fee_rules
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can create fee rules"
+  ON fee_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update fee rules"
+  ON fee_rules
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete fee rules"
+  ON fee_rules
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_fee_rules_active_type ON fee_rules(fee_type, priority DESC) WHERE is_active = true;
+
+-- Function to keep updated_at current
+CREATE OR REPLACE FUNCTION update_fee_rule_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_fee_rule_updated_at_trigger ON fee_rules;
+CREATE TRIGGER update_fee_rule_updated_at_trigger
+  BEFORE UPDATE ON fee_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fee_rule_updated_at();
+
+-- Seller tier used to match fee rules
+CREATE OR REPLACE FUNCTION get_seller_tier(p_seller_id uuid)
+RETURNS text AS $$
+DECLARE
+  completed_sales integer;
+BEGIN
+  SELECT count(*) INTO completed_sales
+  FROM orders
+  WHERE seller_id = p_seller_id
+  AND status = 'completed';
+
+  RETURN CASE
+    WHEN completed_sales >= 50 THEN 'top'
+    WHEN completed_sales >= 5 THEN 'established'
+    ELSE 'new'
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Store the fee breakdown with wallet purchases
+DROP FUNCTION IF EXISTS process_wallet_payment(uuid, uuid, uuid, decimal, decimal, decimal);
+
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_total_amount decimal,
+  p_platform_fee decimal,
+  p_seller_amount decimal,
+  p_fee_breakdown jsonb DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  buyer_wallet wallets%ROWTYPE;
+BEGIN
+  -- Get buyer wallet
+  SELECT * INTO buyer_wallet FROM wallets WHERE user_id = p_buyer_id;
+
+  IF NOT FOUND OR buyer_wallet.available_balance < p_total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, status
+    ) VALUES (
+      p_item_id, p_buyer_id, p_seller_id, p_total_amount, p_platform_fee, p_seller_amount, p_fee_breakdown, 'paid'
+    ) RETURNING id INTO order_id;
+
+    -- Update item status
+    UPDATE items SET status = 'sold' WHERE id = p_item_id;
+
+    -- Debit buyer wallet
+    PERFORM add_wallet_transaction(
+      p_buyer_id, 'debit', p_total_amount,
+      'Purchase payment', order_id::text, 'order'
+    );
+
+    -- Credit seller wallet (in escrow)
+    PERFORM add_wallet_transaction(
+      p_seller_id, 'escrow_hold', p_seller_amount,
+      'Sale proceeds (in escrow)', order_id::text, 'order'
+    );
+
+    RETURN json_build_object('order_id', order_id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Buyer protection fee falls back to this rate when no rule matches
+INSERT INTO platform_settings (key, value, is_secret, version)
+VALUES ('fees.buyerProtectionFee', '0', false, 1)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT 1, 'fees.buyerProtectionFee', NULL, '0'::jsonb, 'Initial defaults'
+WHERE NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE key = 'fees.buyerProtectionFee');
+
+-- The listing fee was never charged, retire it as null so its audit history is kept
+WITH previous AS (
+  SELECT key, value FROM platform_settings
+  WHERE key = 'fees.listingFee'
+  AND value <> 'null'
+), retired AS (
+  UPDATE platform_settings
+  SET
+    value = 'null',
+    version = nextval('platform_settings_version_seq'),
+    updated_by = NULL,
+    updated_at = now()
+  WHERE key IN (SELECT key FROM previous)
+  RETURNING key, version
+)
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT retired.version, retired.key, previous.value, 'null', 'Retired, listings are free'
+FROM retired
+JOIN previous USING (key);
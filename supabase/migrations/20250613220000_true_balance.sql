@@ -0,0 +1,1175 @@
+/*
+  # Double-Entry Ledger
+
+  1. New Tables
+    - `ledger_accounts` - Each user's available and escrow balances, plus the platform's fee
+      revenue, Stripe clearing, payouts in transit and opening balance accounts
+    - `ledger_entries` - One journal entry per money movement: orders, top-ups, refunds, escrow
+      releases and payouts
+    - `ledger_lines` - The debits (positive) and credits (negative) of an entry, in cents
+
+  2. Schema Updates
+    - `wallet_transactions.journal_entry_id` - Entry a statement line was written for
+
+  3. Functions
+    - `post_journal_entry()` - Posts lines that sum to zero and refreshes the wallets they touch
+    - `post_order_payment()` - Books a card or wallet payment into the seller's escrow and platform fees
+    - `post_wallet_topup()`, `post_payout()`, `settle_payout()`, `fail_payout()` - Stripe money movements
+    - `process_wallet_payment()`, `release_escrow_funds()`, `record_order_refund()` and
+      `resolve_dispute()` post journal entries instead of changing wallet balances
+    - `get_ledger_stripe_movements()`, `get_ledger_health()` - Reconciliation data for admins
+    - `add_wallet_transaction()` is removed
+
+  4. Security
+    - Users can view their own accounts and lines, admins can view everything
+    - The journal is append-only and is only written by the posting functions
+    - Users can no longer update their wallet or insert wallet transactions directly
+
+  5. Notes
+    - `wallets` balances are a cache of the ledger, rebuilt from it on every posting
+    - `wallet_transactions` stays as the user-facing statement, amounts are signed from the user's side
+    - Existing balances are carried over with one opening entry per wallet
+*/
+
+-- Create ledger_accounts table
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN (
+    'user_available', 'user_escrow', 'platform_fees', 'stripe_clearing', 'payouts_in_transit', 'opening_balances'
+  )),
+  user_id uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((kind IN ('user_available', 'user_escrow')) = (user_id IS NOT NULL))
+);
+
+-- Create ledger_entries table
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_type text NOT NULL CHECK (entry_type IN (
+    'opening_balance', 'order_payment', 'escrow_release', 'order_refund',
+    'wallet_topup', 'payout', 'payout_settled', 'payout_failed'
+  )),
+  description text NOT NULL,
+  reference_type text NOT NULL,
+  reference_id text NOT NULL,
+  external_id text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (entry_type, reference_id)
+);
+
+-- Create ledger_lines table
+CREATE TABLE IF NOT EXISTS ledger_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES ledger_entries(id),
+  account_id uuid NOT NULL REFERENCES ledger_accounts(id),
+  amount_cents bigint NOT NULL CHECK (amount_cents != 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE wallet_transactions ADD COLUMN IF NOT EXISTS journal_entry_id uuid REFERENCES ledger_entries(id);
+
+-- Enable RLS
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ledger_accounts
+CREATE POLICY "Users can view their own ledger accounts"
+  ON ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all ledger accounts"
+  ON ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for ledger_entries
+CREATE POLICY "Users can view entries on their accounts"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_lines
+      JOIN ledger_accounts ON ledger_accounts.id = ledger_lines.account_id
+      WHERE ledger_lines.entry_id = ledger_entries.id AND
+      ledger_accounts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all ledger entries"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for ledger_lines
+CREATE POLICY "Users can view lines on their accounts"
+  ON ledger_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_accounts
+      WHERE ledger_accounts.id = ledger_lines.account_id AND
+      ledger_accounts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all ledger lines"
+  ON ledger_lines
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Balances and statements are only written by the ledger
+DROP POLICY IF EXISTS "Users can update their own wallet" ON wallets;
+DROP POLICY IF EXISTS "System can insert transactions" ON wallet_transactions;
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_kind_user
+  ON ledger_accounts(kind, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_ledger_accounts_user_id ON ledger_accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_external_id ON ledger_entries(external_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_created_at ON ledger_entries(created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry_id ON ledger_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account_id ON ledger_lines(account_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_journal_entry_id ON wallet_transactions(journal_entry_id);
+
+-- Mistakes are fixed with a correcting entry, never by editing history
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The ledger is append-only, post a correcting entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_ledger_entry_changes_trigger ON ledger_entries;
+CREATE TRIGGER prevent_ledger_entry_changes_trigger
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_changes();
+
+DROP TRIGGER IF EXISTS prevent_ledger_line_changes_trigger ON ledger_lines;
+CREATE TRIGGER prevent_ledger_line_changes_trigger
+  BEFORE UPDATE OR DELETE ON ledger_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Every entry must balance by the end of the transaction that posted it
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  entry_total bigint;
+  line_count integer;
+BEGIN
+  SELECT COALESCE(SUM(amount_cents), 0), count(*) INTO entry_total, line_count
+  FROM ledger_lines
+  WHERE entry_id = NEW.entry_id;
+
+  IF entry_total != 0 OR line_count < 2 THEN
+    RAISE EXCEPTION 'Journal entry % does not balance (off by % cents)', NEW.entry_id, entry_total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_ledger_entry_balanced_trigger ON ledger_lines;
+CREATE CONSTRAINT TRIGGER check_ledger_entry_balanced_trigger
+  AFTER INSERT ON ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ledger_entry_balanced();
+
+-- Convert a dollar amount to cents
+CREATE OR REPLACE FUNCTION to_cents(p_amount decimal)
+RETURNS bigint AS $$
+BEGIN
+  RETURN round(COALESCE(p_amount, 0) * 100)::bigint;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Get or open a ledger account
+CREATE OR REPLACE FUNCTION ledger_account(p_kind text, p_user_id uuid DEFAULT NULL)
+RETURNS uuid AS $$
+DECLARE
+  account_id uuid;
+BEGIN
+  SELECT id INTO account_id
+  FROM ledger_accounts
+  WHERE kind = p_kind AND user_id IS NOT DISTINCT FROM p_user_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO ledger_accounts (kind, user_id)
+    VALUES (p_kind, p_user_id)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO account_id;
+
+    -- Another transaction opened it first
+    IF account_id IS NULL THEN
+      SELECT id INTO account_id
+      FROM ledger_accounts
+      WHERE kind = p_kind AND user_id IS NOT DISTINCT FROM p_user_id;
+    END IF;
+  END IF;
+
+  RETURN account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One line of a journal entry, debits are positive and credits negative
+CREATE OR REPLACE FUNCTION ledger_line(p_kind text, p_user_id uuid, p_amount_cents bigint)
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'account_id', ledger_account(p_kind, p_user_id),
+    'amount_cents', p_amount_cents
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A user's balances as the ledger has them
+CREATE OR REPLACE FUNCTION ledger_wallet_balance(p_user_id uuid)
+RETURNS TABLE (available_cents bigint, escrow_cents bigint) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0)::bigint,
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_escrow'), 0)::bigint
+  FROM ledger_accounts a
+  JOIN ledger_lines l ON l.account_id = a.id
+  WHERE a.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Rebuild a wallet's cached balances after an entry touched it
+CREATE OR REPLACE FUNCTION refresh_wallet(p_user_id uuid, p_entry_id uuid)
+RETURNS void AS $$
+DECLARE
+  balance record;
+  earned_cents bigint;
+  spent_cents bigint;
+BEGIN
+  SELECT * INTO balance FROM ledger_wallet_balance(p_user_id);
+
+  -- Lifetime totals only count sales and purchases
+  SELECT
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_escrow'), 0),
+    COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0)
+  INTO earned_cents, spent_cents
+  FROM ledger_lines l
+  JOIN ledger_accounts a ON a.id = l.account_id
+  JOIN ledger_entries e ON e.id = l.entry_id
+  WHERE l.entry_id = p_entry_id
+  AND a.user_id = p_user_id
+  AND e.entry_type IN ('order_payment', 'order_refund');
+
+  -- The wallet checks reject a balance the ledger would take below zero
+  INSERT INTO wallets (user_id, available_balance, pending_balance, total_earned, total_spent)
+  VALUES (
+    p_user_id,
+    balance.available_cents / 100.0,
+    balance.escrow_cents / 100.0,
+    GREATEST(earned_cents, 0) / 100.0,
+    GREATEST(spent_cents, 0) / 100.0
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    available_balance = EXCLUDED.available_balance,
+    pending_balance = EXCLUDED.pending_balance,
+    total_earned = GREATEST(wallets.total_earned + earned_cents / 100.0, 0),
+    total_spent = GREATEST(wallets.total_spent + spent_cents / 100.0, 0),
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to post a balanced journal entry
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_entry_type text,
+  p_description text,
+  p_reference_type text,
+  p_reference_id text,
+  p_external_id text,
+  p_lines jsonb
+) RETURNS uuid AS $$
+DECLARE
+  new_entry_id uuid;
+  entry_total bigint;
+  line_count integer;
+  line_user_id uuid;
+BEGIN
+  SELECT COALESCE(SUM((line->>'amount_cents')::bigint), 0), count(*)
+  INTO entry_total, line_count
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount_cents')::bigint != 0;
+
+  IF line_count < 2 OR entry_total != 0 THEN
+    RAISE EXCEPTION 'Journal entry for % % does not balance (off by % cents)',
+      p_entry_type, p_reference_id, entry_total;
+  END IF;
+
+  INSERT INTO ledger_entries (entry_type, description, reference_type, reference_id, external_id, created_by)
+  VALUES (p_entry_type, p_description, p_reference_type, p_reference_id, p_external_id, auth.uid())
+  RETURNING id INTO new_entry_id;
+
+  INSERT INTO ledger_lines (entry_id, account_id, amount_cents)
+  SELECT new_entry_id, (line->>'account_id')::uuid, (line->>'amount_cents')::bigint
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount_cents')::bigint != 0;
+
+  FOR line_user_id IN
+    SELECT DISTINCT a.user_id
+    FROM ledger_lines l
+    JOIN ledger_accounts a ON a.id = l.account_id
+    WHERE l.entry_id = new_entry_id
+    AND a.user_id IS NOT NULL
+  LOOP
+    PERFORM refresh_wallet(line_user_id, new_entry_id);
+  END LOOP;
+
+  RETURN new_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Write the line a user sees on their wallet statement
+CREATE OR REPLACE FUNCTION add_wallet_statement(
+  p_user_id uuid,
+  p_entry_id uuid,
+  p_type text,
+  p_amount decimal,
+  p_description text,
+  p_reference_id text,
+  p_reference_type text,
+  p_status text DEFAULT 'completed'
+) RETURNS uuid AS $$
+DECLARE
+  transaction_id uuid;
+BEGIN
+  INSERT INTO wallet_transactions (
+    user_id, type, amount, description, reference_id, reference_type, status, journal_entry_id
+  ) VALUES (
+    p_user_id, p_type, p_amount, p_description, p_reference_id, p_reference_type, p_status, p_entry_id
+  ) RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to book a paid order: the buyer's payment splits into seller escrow and platform fees
+CREATE OR REPLACE FUNCTION post_order_payment(p_order_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  entry_id uuid;
+  total_cents bigint;
+  seller_cents bigint;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Confirming a payment twice books it once
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'order_payment' AND reference_id = p_order_id::text;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  IF order_record.status IN ('pending', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is % and has not been paid', order_record.status;
+  END IF;
+
+  total_cents := to_cents(order_record.total_amount);
+  seller_cents := to_cents(order_record.seller_amount);
+
+  -- Card payments land in the platform's Stripe balance, wallet payments come out of the buyer's wallet
+  entry_id := post_journal_entry(
+    'order_payment', 'Order payment', 'order', order_record.id::text, order_record.payment_intent_id,
+    jsonb_build_array(
+      CASE WHEN order_record.payment_intent_id IS NULL
+        THEN ledger_line('user_available', order_record.buyer_id, total_cents)
+        ELSE ledger_line('stripe_clearing', NULL, total_cents)
+      END,
+      ledger_line('user_escrow', order_record.seller_id, -seller_cents),
+      ledger_line('platform_fees', NULL, seller_cents - total_cents)
+    )
+  );
+
+  IF order_record.payment_intent_id IS NULL THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'debit', -order_record.total_amount,
+      'Purchase payment', order_record.id::text, 'order'
+    );
+  END IF;
+
+  IF seller_cents > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_hold', order_record.seller_amount,
+      'Sale proceeds (in escrow)', order_record.id::text, 'order'
+    );
+  END IF;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a seller's proceeds out of escrow into their available balance
+CREATE OR REPLACE FUNCTION post_escrow_release(
+  p_order_id uuid,
+  p_amount decimal,
+  p_description text
+) RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'escrow_release', p_description, 'order', order_record.id::text, NULL,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(p_amount)),
+      ledger_line('user_available', order_record.seller_id, -to_cents(p_amount))
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    order_record.seller_id, entry_id, 'escrow_release', p_amount,
+    p_description, order_record.id::text, 'order'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to credit a wallet top-up once Stripe confirms the payment, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION post_wallet_topup(p_payment_intent_id text, p_amount_cents bigint)
+RETURNS uuid AS $$
+DECLARE
+  intent_record payment_intents%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  -- Stripe retries webhooks, a top-up is only credited once
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'wallet_topup' AND reference_id = p_payment_intent_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT * INTO intent_record
+  FROM payment_intents
+  WHERE id = p_payment_intent_id AND type = 'wallet_topup';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Top-up not found';
+  END IF;
+
+  IF to_cents(intent_record.amount) != p_amount_cents THEN
+    RAISE EXCEPTION 'Top-up amount does not match the payment';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment', p_payment_intent_id, p_payment_intent_id,
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, p_amount_cents),
+      ledger_line('user_available', intent_record.user_id, -p_amount_cents)
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    intent_record.user_id, entry_id, 'credit', p_amount_cents / 100.0,
+    'Wallet top-up', p_payment_intent_id, 'payment'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to debit the signed-in user's wallet for a payout, the fee stays with the platform
+CREATE OR REPLACE FUNCTION post_payout(
+  p_transfer_id text,
+  p_amount_cents bigint,
+  p_fee_cents bigint
+) RETURNS uuid AS $$
+DECLARE
+  wallet_record wallets%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'payout' AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be greater than 0';
+  END IF;
+
+  IF p_fee_cents IS NULL OR p_fee_cents < 0 OR p_fee_cents > p_amount_cents THEN
+    RAISE EXCEPTION 'Payout fee must be between 0 and the payout amount';
+  END IF;
+
+  SELECT * INTO wallet_record FROM wallets WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND OR to_cents(wallet_record.available_balance) < p_amount_cents THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'payout', 'Payout to bank account', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line('user_available', auth.uid(), p_amount_cents),
+      ledger_line('payouts_in_transit', NULL, p_fee_cents - p_amount_cents),
+      ledger_line('platform_fees', NULL, -p_fee_cents)
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    auth.uid(), entry_id, 'payout', -(p_amount_cents / 100.0),
+    'Payout to bank account', p_transfer_id, 'payout', 'pending'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to book a payout's transfer leaving the platform's Stripe balance, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION settle_payout(p_transfer_id text)
+RETURNS uuid AS $$
+DECLARE
+  payout_entry_id uuid;
+  in_transit_cents bigint;
+  entry_id uuid;
+BEGIN
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type IN ('payout_settled', 'payout_failed') AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT e.id, -SUM(l.amount_cents) INTO payout_entry_id, in_transit_cents
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE e.entry_type = 'payout'
+  AND e.reference_id = p_transfer_id
+  AND a.kind = 'payouts_in_transit'
+  GROUP BY e.id;
+
+  IF payout_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'payout_settled', 'Payout transferred', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line('payouts_in_transit', NULL, in_transit_cents),
+      ledger_line('stripe_clearing', NULL, -in_transit_cents)
+    )
+  );
+
+  UPDATE wallet_transactions
+  SET status = 'completed'
+  WHERE journal_entry_id = payout_entry_id
+  AND status = 'pending';
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to return a failed payout to the user's wallet, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION fail_payout(p_transfer_id text)
+RETURNS uuid AS $$
+DECLARE
+  payout_entry_id uuid;
+  payout_user_id uuid;
+  amount_cents bigint;
+  fee_cents bigint;
+  in_transit_cents bigint;
+  was_settled boolean;
+  entry_id uuid;
+BEGIN
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'payout_failed' AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT
+    e.id,
+    MAX(a.user_id::text)::uuid,
+    COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0),
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'platform_fees'), 0),
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'payouts_in_transit'), 0)
+  INTO payout_entry_id, payout_user_id, amount_cents, fee_cents, in_transit_cents
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE e.entry_type = 'payout'
+  AND e.reference_id = p_transfer_id
+  GROUP BY e.id;
+
+  IF payout_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  -- Money that already left the Stripe balance comes back to it
+  was_settled := EXISTS (
+    SELECT 1 FROM ledger_entries
+    WHERE entry_type = 'payout_settled' AND reference_id = p_transfer_id
+  );
+
+  entry_id := post_journal_entry(
+    'payout_failed', 'Payout failed', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line(CASE WHEN was_settled THEN 'stripe_clearing' ELSE 'payouts_in_transit' END, NULL, in_transit_cents),
+      ledger_line('platform_fees', NULL, fee_cents),
+      ledger_line('user_available', payout_user_id, -amount_cents)
+    )
+  );
+
+  UPDATE wallet_transactions
+  SET status = 'failed'
+  WHERE journal_entry_id = payout_entry_id;
+
+  PERFORM add_wallet_statement(
+    payout_user_id, entry_id, 'credit', amount_cents / 100.0,
+    'Payout failed - refund', p_transfer_id, 'refund'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book wallet purchases in the ledger
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_total_amount decimal,
+  p_platform_fee decimal,
+  p_seller_amount decimal,
+  p_fee_breakdown jsonb DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  buyer_wallet wallets%ROWTYPE;
+BEGIN
+  -- Lock the buyer wallet so two purchases cannot spend the same balance
+  SELECT * INTO buyer_wallet FROM wallets WHERE user_id = p_buyer_id FOR UPDATE;
+
+  IF NOT FOUND OR buyer_wallet.available_balance < p_total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, status
+    ) VALUES (
+      p_item_id, p_buyer_id, p_seller_id, p_total_amount, p_platform_fee, p_seller_amount, p_fee_breakdown, 'paid'
+    ) RETURNING id INTO order_id;
+
+    -- Update item status
+    UPDATE items SET status = 'sold' WHERE id = p_item_id;
+
+    -- Debit the buyer and hold the seller's proceeds in escrow
+    PERFORM post_order_payment(order_id);
+
+    RETURN json_build_object('order_id', order_id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to release escrow funds
+CREATE OR REPLACE FUNCTION release_escrow_funds(p_order_id uuid) RETURNS boolean AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  seller_release decimal(10,2);
+BEGIN
+  -- Get order details
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Releasing twice would pay the seller twice
+  IF order_record.status != 'delivered' THEN
+    RAISE EXCEPTION 'Order is % and cannot be completed', order_record.status;
+  END IF;
+
+  -- Update order status first so the state machine checks who is completing it
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+
+  -- Release escrow funds to seller, less anything already refunded
+  seller_release := COALESCE(order_record.seller_amount, 0) - COALESCE((
+    SELECT SUM(seller_amount_reversed) FROM refunds WHERE order_id = p_order_id
+  ), 0);
+
+  IF seller_release > 0 THEN
+    PERFORM post_escrow_release(p_order_id, seller_release, 'Sale completed - funds released');
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to refund an order and reverse the matching share of the seller's escrow
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount decimal,
+  p_idempotency_key text,
+  p_reason text DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL,
+  p_cancel boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  existing_refund refunds%ROWTYPE;
+  refund_id uuid;
+  entry_id uuid;
+  refund_method text;
+  seller_reversal decimal(10,2);
+  already_reversed decimal(10,2);
+  new_refunded_amount decimal(10,2);
+  new_order_status text;
+  refund_notes text;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Sellers and admins may refund, buyers only by cancelling an order that has not shipped (or retrying that cancellation)
+  IF NOT (
+    is_admin() OR
+    order_record.seller_id = auth.uid() OR
+    (order_record.buyer_id = auth.uid() AND p_cancel AND order_record.status IN ('paid', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to refund this order';
+  END IF;
+
+  -- A retried request returns the refund that was already recorded
+  SELECT * INTO existing_refund FROM refunds WHERE order_id = order_record.id AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN json_build_object(
+      'refund_id', existing_refund.id,
+      'order_id', existing_refund.order_id,
+      'amount', existing_refund.amount,
+      'method', existing_refund.method,
+      'refunded_amount', order_record.refunded_amount,
+      'order_status', order_record.status
+    );
+  END IF;
+
+  -- Funds are only still in escrow until the order completes
+  IF order_record.status NOT IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed') THEN
+    RAISE EXCEPTION 'Order is % and can no longer be refunded', order_record.status;
+  END IF;
+
+  IF p_cancel AND order_record.status != 'paid' THEN
+    RAISE EXCEPTION 'Order cannot be cancelled at this stage';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than 0';
+  END IF;
+
+  new_refunded_amount := COALESCE(order_record.refunded_amount, 0) + p_amount;
+
+  IF new_refunded_amount > order_record.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the remaining order amount of %',
+      order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+  END IF;
+
+  IF p_cancel AND new_refunded_amount != order_record.total_amount THEN
+    RAISE EXCEPTION 'Cancelled orders must be refunded in full';
+  END IF;
+
+  refund_method := CASE WHEN order_record.payment_intent_id IS NULL THEN 'wallet' ELSE 'card' END;
+
+  -- Card payments are refunded through Stripe before they are recorded here
+  IF refund_method = 'card' AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller gives up the same share of their proceeds as the buyer gets back,
+  -- the last refund takes whatever rounding left in escrow
+  IF new_refunded_amount = order_record.total_amount THEN
+    SELECT COALESCE(SUM(seller_amount_reversed), 0) INTO already_reversed
+    FROM refunds
+    WHERE order_id = order_record.id;
+
+    seller_reversal := COALESCE(order_record.seller_amount, 0) - already_reversed;
+  ELSE
+    seller_reversal := round(COALESCE(order_record.seller_amount, 0) * p_amount / order_record.total_amount, 2);
+  END IF;
+
+  INSERT INTO refunds (
+    order_id, amount, seller_amount_reversed, method, reason,
+    idempotency_key, payment_intent_id, stripe_refund_id, requested_by
+  ) VALUES (
+    order_record.id, p_amount, seller_reversal, refund_method, p_reason,
+    p_idempotency_key, order_record.payment_intent_id, p_stripe_refund_id, auth.uid()
+  ) RETURNING id INTO refund_id;
+
+  -- The platform returns its share of the fees along with the seller's escrow
+  entry_id := post_journal_entry(
+    'order_refund', 'Order refund', 'refund', refund_id::text, p_stripe_refund_id,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(seller_reversal)),
+      ledger_line('platform_fees', NULL, to_cents(p_amount) - to_cents(seller_reversal)),
+      CASE WHEN refund_method = 'wallet'
+        THEN ledger_line('user_available', order_record.buyer_id, -to_cents(p_amount))
+        ELSE ledger_line('stripe_clearing', NULL, -to_cents(p_amount))
+      END
+    )
+  );
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_reversal', -seller_reversal,
+      'Order refunded - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF refund_method = 'wallet' THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'refund', p_amount,
+      'Order refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  new_order_status := CASE
+    WHEN p_cancel THEN 'cancelled'
+    WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+    ELSE order_record.status
+  END;
+
+  refund_notes := p_amount || ' USD refunded to ' || refund_method ||
+    CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END;
+
+  -- The status change is logged with the refund as its note
+  PERFORM set_config('app.order_notes', refund_notes, true);
+
+  UPDATE orders
+  SET
+    refunded_amount = new_refunded_amount,
+    status = new_order_status,
+    updated_at = now()
+  WHERE id = order_record.id;
+
+  PERFORM set_config('app.order_notes', '', true);
+
+  -- A cancelled sale goes back on the market
+  IF p_cancel THEN
+    UPDATE items SET status = 'active', updated_at = now() WHERE id = order_record.item_id AND status = 'sold';
+  END IF;
+
+  -- A refund that leaves the status as it is gets no entry from log_order_status_change()
+  IF new_order_status = order_record.status THEN
+    INSERT INTO order_history (order_id, action, notes, created_by)
+    VALUES (order_record.id, 'partially_refunded', refund_notes, auth.uid());
+  END IF;
+
+  RETURN json_build_object(
+    'refund_id', refund_id,
+    'order_id', order_record.id,
+    'amount', p_amount,
+    'method', refund_method,
+    'refunded_amount', new_refunded_amount,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to settle a dispute and move the funds held in escrow
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  dispute_record disputes%ROWTYPE;
+  order_record orders%ROWTYPE;
+  remaining_amount decimal(10,2);
+  buyer_refund decimal(10,2);
+  seller_release decimal(10,2);
+  new_order_status text;
+  item_title text;
+  outcome_message text;
+BEGIN
+  -- The server settles disputes whose refund went through but were never resolved
+  IF NOT (auth.role() = 'service_role' OR is_admin()) THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute_record FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  -- Settling the same refund again gets the earlier result
+  IF dispute_record.status = 'resolved' AND p_stripe_refund_id IS NOT NULL AND dispute_record.stripe_refund_id = p_stripe_refund_id THEN
+    RETURN json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', dispute_record.order_id,
+      'outcome', dispute_record.resolution_outcome,
+      'refund_amount', dispute_record.refund_amount,
+      'seller_amount_released', dispute_record.seller_amount_released,
+      'order_status', (SELECT status FROM orders WHERE id = dispute_record.order_id)
+    );
+  END IF;
+
+  IF dispute_record.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute_record.status;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE id = dispute_record.order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Funds are only still in escrow while the order is disputed
+  IF order_record.status != 'disputed' THEN
+    RAISE EXCEPTION 'Order is % and no longer holds funds in escrow', order_record.status;
+  END IF;
+
+  -- Outcomes apply to whatever has not been refunded already
+  remaining_amount := order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+
+  CASE p_outcome
+    WHEN 'full_refund' THEN
+      buyer_refund := remaining_amount;
+    WHEN 'release_to_seller' THEN
+      buyer_refund := 0;
+    WHEN 'split' THEN
+      buyer_refund := round(remaining_amount / 2, 2);
+    WHEN 'partial_refund' THEN
+      buyer_refund := p_refund_amount;
+      IF buyer_refund IS NULL OR buyer_refund <= 0 OR buyer_refund >= remaining_amount THEN
+        RAISE EXCEPTION 'Partial refund must be between 0 and %', remaining_amount;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown dispute outcome: %', p_outcome;
+  END CASE;
+
+  IF p_refund_amount IS NOT NULL AND p_refund_amount != buyer_refund THEN
+    RAISE EXCEPTION 'Refund amount % does not match outcome % (expected %)', p_refund_amount, p_outcome, buyer_refund;
+  END IF;
+
+  IF buyer_refund > 0 THEN
+    PERFORM record_order_refund(
+      order_record.id, buyer_refund, 'dispute-' || p_dispute_id,
+      'Dispute resolved with ' || replace(p_outcome, '_', ' '), p_stripe_refund_id
+    );
+  END IF;
+
+  -- The seller receives whatever is left of their proceeds
+  seller_release := COALESCE(order_record.seller_amount, 0) - COALESCE((
+    SELECT SUM(seller_amount_reversed) FROM refunds WHERE order_id = order_record.id
+  ), 0);
+
+  IF seller_release > 0 THEN
+    PERFORM post_escrow_release(order_record.id, seller_release, 'Dispute resolved - funds released');
+  END IF;
+
+  new_order_status := CASE WHEN p_outcome = 'full_refund' THEN 'refunded' ELSE 'completed' END;
+
+  UPDATE orders SET status = new_order_status, updated_at = now() WHERE id = order_record.id;
+
+  UPDATE disputes
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    resolution_outcome = p_outcome,
+    refund_amount = buyer_refund,
+    seller_amount_released = seller_release,
+    stripe_refund_id = p_stripe_refund_id,
+    resolved_at = now(),
+    resolved_by = COALESCE(auth.uid(), dispute_record.pending_by),
+    pending_outcome = NULL,
+    pending_resolution = NULL,
+    pending_refund_amount = NULL,
+    pending_by = NULL,
+    updated_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO dispute_messages (dispute_id, sender_id, content, is_admin_message)
+  VALUES (p_dispute_id, COALESCE(auth.uid(), dispute_record.pending_by), 'This dispute has been resolved: ' || p_resolution, true);
+
+  -- Notify both parties
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  outcome_message := CASE
+    WHEN buyer_refund > 0 THEN 'A refund of ' || buyer_refund || ' USD has been issued to the buyer.'
+    ELSE 'The payment has been released to the seller.'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    party.user_id,
+    'dispute',
+    'Dispute resolved',
+    'The dispute for "' || COALESCE(item_title, 'your order') || '" has been resolved. ' || outcome_message,
+    json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', order_record.id,
+      'outcome', p_outcome,
+      'refund_amount', buyer_refund
+    )
+  FROM (VALUES (order_record.buyer_id), (order_record.seller_id)) AS party(user_id);
+
+  RETURN json_build_object(
+    'dispute_id', p_dispute_id,
+    'order_id', order_record.id,
+    'outcome', p_outcome,
+    'refund_amount', buyer_refund,
+    'seller_amount_released', seller_release,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every movement of the platform's Stripe balance the ledger knows about (admin only)
+CREATE OR REPLACE FUNCTION get_ledger_stripe_movements(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  entry_id uuid,
+  entry_type text,
+  external_id text,
+  reference_id text,
+  amount_cents bigint,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the ledger';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, e.entry_type, e.external_id, e.reference_id, l.amount_cents, e.created_at
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE a.kind = 'stripe_clearing'
+  AND e.created_at >= p_from
+  AND e.created_at < p_to
+  ORDER BY e.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Internal consistency of the ledger and the wallet cache (admin only)
+CREATE OR REPLACE FUNCTION get_ledger_health()
+RETURNS json AS $$
+DECLARE
+  unbalanced_count integer;
+  trial_balance json;
+  wallet_drift json;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the ledger';
+  END IF;
+
+  SELECT count(*) INTO unbalanced_count
+  FROM (
+    SELECT e.id
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    GROUP BY e.id
+    HAVING COALESCE(SUM(l.amount_cents), 0) != 0 OR count(l.id) < 2
+  ) AS unbalanced;
+
+  SELECT COALESCE(json_agg(json_build_object('kind', kind, 'balance_cents', balance_cents) ORDER BY kind), '[]'::json)
+  INTO trial_balance
+  FROM (
+    SELECT a.kind, COALESCE(SUM(l.amount_cents), 0) AS balance_cents
+    FROM ledger_accounts a
+    LEFT JOIN ledger_lines l ON l.account_id = a.id
+    GROUP BY a.kind
+  ) AS balances;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', w.user_id,
+    'available_balance', w.available_balance,
+    'pending_balance', w.pending_balance,
+    'ledger_available_cents', b.available_cents,
+    'ledger_escrow_cents', b.escrow_cents
+  )), '[]'::json)
+  INTO wallet_drift
+  FROM wallets w
+  CROSS JOIN LATERAL ledger_wallet_balance(w.user_id) AS b
+  WHERE to_cents(w.available_balance) != b.available_cents
+  OR to_cents(w.pending_balance) != b.escrow_cents;
+
+  RETURN json_build_object(
+    'unbalanced_entries', unbalanced_count,
+    'trial_balance', trial_balance,
+    'wallet_drift', wallet_drift
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Balances now only change through journal entries
+DROP FUNCTION IF EXISTS add_wallet_transaction(uuid, text, decimal, text, text, text);
+
+REVOKE EXECUTE ON FUNCTION ledger_account(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_line(text, uuid, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_wallet_balance(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_wallet(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_journal_entry(text, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_wallet_statement(uuid, uuid, text, decimal, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_escrow_release(uuid, decimal, text) FROM PUBLIC, anon, authenticated;
+
+-- Carry existing balances over, the ledger is the source of truth from here on
+DO $$
+DECLARE
+  wallet_record wallets%ROWTYPE;
+BEGIN
+  FOR wallet_record IN
+    SELECT * FROM wallets
+    WHERE available_balance > 0 OR pending_balance > 0
+  LOOP
+    PERFORM post_journal_entry(
+      'opening_balance', 'Balance carried over to the ledger', 'wallet', wallet_record.user_id::text, NULL,
+      jsonb_build_array(
+        ledger_line('opening_balances', NULL, to_cents(wallet_record.available_balance) + to_cents(wallet_record.pending_balance)),
+        ledger_line('user_available', wallet_record.user_id, -to_cents(wallet_record.available_balance)),
+        ledger_line('user_escrow', wallet_record.user_id, -to_cents(wallet_record.pending_balance))
+      )
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,397 @@
+/*
+  # Stripe Event Store
+
+  1. New Tables
+    - `stripe_events` - Every Stripe webhook event received, keyed by Stripe's event id,
+      with its processing status, attempts and outcome
+
+  2. Schema Updates
+    - `wallets` gains the Connect account's `stripe_charges_enabled`, `stripe_payouts_enabled`
+      and `stripe_details_submitted` flags, kept current by `account.updated`
+    - `disputes.stripe_dispute_id` - Card chargeback a dispute was opened for
+    - `refunds.stripe_refund_id` is unique, so a refund recorded by the app and by the webhook is booked once
+
+  3. Functions
+    - `begin_stripe_event()` - Claims an event for processing, skipping duplicates and stale snapshots
+    - `finish_stripe_event()` - Records the outcome of processing an event
+    - `open_chargeback_dispute()` - Freezes an order's escrow and opens a dispute for a card chargeback
+    - `record_order_refund()` - Accepts refunds made in the Stripe dashboard from the webhook
+
+  4. Security
+    - Admins can view events, only the service role can record them
+    - Webhook-only ledger functions and order payment booking are no longer callable with the anon key
+*/
+
+-- Create stripe_events table
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  object_id text,
+  account_id text,
+  livemode boolean NOT NULL DEFAULT false,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  result text,
+  last_error text,
+  stripe_created_at timestamptz NOT NULL,
+  locked_until timestamptz,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz
+);
+
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS stripe_charges_enabled boolean DEFAULT false;
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS stripe_payouts_enabled boolean DEFAULT false;
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS stripe_details_submitted boolean DEFAULT false;
+
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS stripe_dispute_id text UNIQUE;
+
+-- Enable RLS
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stripe_events
+CREATE POLICY "Admins can view stripe events"
+  ON stripe_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_stripe_events_received_at ON stripe_events(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_object ON stripe_events(object_id, type, stripe_created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_stripe_refund_id ON refunds(stripe_refund_id) WHERE stripe_refund_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_wallets_stripe_account_id ON wallets(stripe_account_id);
+
+-- Function to claim an event for processing
+CREATE OR REPLACE FUNCTION begin_stripe_event(
+  p_event_id text,
+  p_type text,
+  p_object_id text,
+  p_account_id text,
+  p_livemode boolean,
+  p_payload jsonb,
+  p_created_at timestamptz,
+  p_latest_wins boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  event_record stripe_events%ROWTYPE;
+BEGIN
+  INSERT INTO stripe_events (id, type, object_id, account_id, livemode, payload, stripe_created_at)
+  VALUES (p_event_id, p_type, p_object_id, p_account_id, p_livemode, p_payload, p_created_at)
+  ON CONFLICT (id) DO NOTHING;
+
+  SELECT * INTO event_record FROM stripe_events WHERE id = p_event_id FOR UPDATE;
+
+  -- Stripe redelivers events, each one is only acted on once
+  IF event_record.status IN ('processed', 'ignored') THEN
+    RETURN json_build_object('process', false, 'status', event_record.status);
+  END IF;
+
+  -- Another delivery of the same event is being processed right now
+  IF event_record.status = 'processing' AND event_record.locked_until > now() THEN
+    RETURN json_build_object('process', false, 'status', event_record.status);
+  END IF;
+
+  -- Events that carry a full snapshot of their object must not overwrite a newer one
+  IF p_latest_wins AND p_object_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM stripe_events
+    WHERE object_id = p_object_id
+    AND type = p_type
+    AND status = 'processed'
+    AND stripe_created_at > p_created_at
+  ) THEN
+    UPDATE stripe_events
+    SET
+      status = 'ignored',
+      result = 'Superseded by a newer event',
+      processed_at = now(),
+      locked_until = NULL
+    WHERE id = p_event_id;
+
+    RETURN json_build_object('process', false, 'status', 'ignored');
+  END IF;
+
+  UPDATE stripe_events
+  SET
+    status = 'processing',
+    attempts = attempts + 1,
+    locked_until = now() + interval '2 minutes'
+  WHERE id = p_event_id;
+
+  RETURN json_build_object('process', true, 'status', 'processing', 'attempts', event_record.attempts + 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record how processing an event went
+CREATE OR REPLACE FUNCTION finish_stripe_event(
+  p_event_id text,
+  p_status text,
+  p_result text DEFAULT NULL,
+  p_error text DEFAULT NULL
+) RETURNS void AS $$
+BEGIN
+  IF p_status NOT IN ('processed', 'ignored', 'failed') THEN
+    RAISE EXCEPTION 'Unknown event status: %', p_status;
+  END IF;
+
+  UPDATE stripe_events
+  SET
+    status = p_status,
+    result = p_result,
+    last_error = p_error,
+    processed_at = CASE WHEN p_status IN ('processed', 'ignored') THEN now() ELSE processed_at END,
+    locked_until = NULL
+  WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stripe event not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to hold an order's escrow while the buyer's bank disputes the card payment
+CREATE OR REPLACE FUNCTION open_chargeback_dispute(
+  p_payment_intent_id text,
+  p_stripe_dispute_id text,
+  p_amount_cents bigint,
+  p_reason text
+) RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  dispute_id uuid;
+  item_title text;
+BEGIN
+  SELECT id INTO dispute_id FROM disputes WHERE stripe_dispute_id = p_stripe_dispute_id;
+
+  IF FOUND THEN
+    RETURN dispute_id;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE payment_intent_id = p_payment_intent_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Keep the seller's proceeds in escrow until the chargeback is settled
+  IF order_record.status IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered') THEN
+    PERFORM transition_order_status(
+      order_record.id, 'disputed', 'Card payment disputed with the bank', 'admin'
+    );
+  END IF;
+
+  INSERT INTO disputes (
+    order_id, reporter_id, reported_id, type, description, priority, stripe_dispute_id
+  ) VALUES (
+    order_record.id,
+    order_record.buyer_id,
+    order_record.seller_id,
+    'payment_issue',
+    'The buyer''s bank opened a chargeback for ' || (p_amount_cents / 100.0) || ' USD' ||
+      ' (' || replace(COALESCE(p_reason, 'general'), '_', ' ') || ').',
+    'high',
+    p_stripe_dispute_id
+  ) RETURNING id INTO dispute_id;
+
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  PERFORM create_notification(
+    order_record.seller_id,
+    'dispute',
+    'Payment disputed',
+    'The buyer''s bank disputed the payment for "' || COALESCE(item_title, 'your order') ||
+      '". Your funds are held until the dispute is settled.',
+    jsonb_build_object('dispute_id', dispute_id, 'order_id', order_record.id)
+  );
+
+  RETURN dispute_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accept refunds recorded by the Stripe webhook, and book each Stripe refund once
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount decimal,
+  p_idempotency_key text,
+  p_reason text DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL,
+  p_cancel boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  existing_refund refunds%ROWTYPE;
+  refund_id uuid;
+  entry_id uuid;
+  refund_method text;
+  seller_reversal decimal(10,2);
+  already_reversed decimal(10,2);
+  new_refunded_amount decimal(10,2);
+  new_order_status text;
+  refund_notes text;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Sellers and admins may refund, buyers only by cancelling an order that has not shipped (or retrying that cancellation),
+  -- and the Stripe webhook books refunds made in the Stripe dashboard
+  IF NOT (
+    auth.role() = 'service_role' OR
+    is_admin() OR
+    order_record.seller_id = auth.uid() OR
+    (order_record.buyer_id = auth.uid() AND p_cancel AND order_record.status IN ('paid', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to refund this order';
+  END IF;
+
+  -- A retried request, or a refund the webhook already booked, returns the refund that was recorded
+  SELECT * INTO existing_refund
+  FROM refunds
+  WHERE order_id = order_record.id
+  AND (idempotency_key = p_idempotency_key OR (p_stripe_refund_id IS NOT NULL AND stripe_refund_id = p_stripe_refund_id))
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN json_build_object(
+      'refund_id', existing_refund.id,
+      'order_id', existing_refund.order_id,
+      'amount', existing_refund.amount,
+      'method', existing_refund.method,
+      'refunded_amount', order_record.refunded_amount,
+      'order_status', order_record.status
+    );
+  END IF;
+
+  -- Funds are only still in escrow until the order completes
+  IF order_record.status NOT IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed') THEN
+    RAISE EXCEPTION 'Order is % and can no longer be refunded', order_record.status;
+  END IF;
+
+  IF p_cancel AND order_record.status != 'paid' THEN
+    RAISE EXCEPTION 'Order cannot be cancelled at this stage';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than 0';
+  END IF;
+
+  new_refunded_amount := COALESCE(order_record.refunded_amount, 0) + p_amount;
+
+  IF new_refunded_amount > order_record.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the remaining order amount of %',
+      order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+  END IF;
+
+  IF p_cancel AND new_refunded_amount != order_record.total_amount THEN
+    RAISE EXCEPTION 'Cancelled orders must be refunded in full';
+  END IF;
+
+  refund_method := CASE WHEN order_record.payment_intent_id IS NULL THEN 'wallet' ELSE 'card' END;
+
+  -- Card payments are refunded through Stripe before they are recorded here
+  IF refund_method = 'card' AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller gives up the same share of their proceeds as the buyer gets back,
+  -- the last refund takes whatever rounding left in escrow
+  IF new_refunded_amount = order_record.total_amount THEN
+    SELECT COALESCE(SUM(seller_amount_reversed), 0) INTO already_reversed
+    FROM refunds
+    WHERE order_id = order_record.id;
+
+    seller_reversal := COALESCE(order_record.seller_amount, 0) - already_reversed;
+  ELSE
+    seller_reversal := round(COALESCE(order_record.seller_amount, 0) * p_amount / order_record.total_amount, 2);
+  END IF;
+
+  INSERT INTO refunds (
+    order_id, amount, seller_amount_reversed, method, reason,
+    idempotency_key, payment_intent_id, stripe_refund_id, requested_by
+  ) VALUES (
+    order_record.id, p_amount, seller_reversal, refund_method, p_reason,
+    p_idempotency_key, order_record.payment_intent_id, p_stripe_refund_id, auth.uid()
+  ) RETURNING id INTO refund_id;
+
+  -- The platform returns its share of the fees along with the seller's escrow
+  entry_id := post_journal_entry(
+    'order_refund', 'Order refund', 'refund', refund_id::text, p_stripe_refund_id,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(seller_reversal)),
+      ledger_line('platform_fees', NULL, to_cents(p_amount) - to_cents(seller_reversal)),
+      CASE WHEN refund_method = 'wallet'
+        THEN ledger_line('user_available', order_record.buyer_id, -to_cents(p_amount))
+        ELSE ledger_line('stripe_clearing', NULL, -to_cents(p_amount))
+      END
+    )
+  );
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_reversal', -seller_reversal,
+      'Order refunded - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF refund_method = 'wallet' THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'refund', p_amount,
+      'Order refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  new_order_status := CASE
+    WHEN p_cancel THEN 'cancelled'
+    WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+    ELSE order_record.status
+  END;
+
+  refund_notes := p_amount || ' USD refunded to ' || refund_method ||
+    CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END;
+
+  -- The status change is logged with the refund as its note
+  PERFORM set_config('app.order_notes', refund_notes, true);
+
+  UPDATE orders
+  SET
+    refunded_amount = new_refunded_amount,
+    status = new_order_status,
+    updated_at = now()
+  WHERE id = order_record.id;
+
+  PERFORM set_config('app.order_notes', '', true);
+
+  -- A cancelled sale goes back on the market
+  IF p_cancel THEN
+    UPDATE items SET status = 'active', updated_at = now() WHERE id = order_record.item_id AND status = 'sold';
+  END IF;
+
+  -- A refund that leaves the status as it is gets no entry from log_order_status_change()
+  IF new_order_status = order_record.status THEN
+    INSERT INTO order_history (order_id, action, notes, created_by)
+    VALUES (order_record.id, 'partially_refunded', refund_notes, auth.uid());
+  END IF;
+
+  RETURN json_build_object(
+    'refund_id', refund_id,
+    'order_id', order_record.id,
+    'amount', p_amount,
+    'method', refund_method,
+    'refunded_amount', new_refunded_amount,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION begin_stripe_event(text, text, text, text, boolean, jsonb, timestamptz, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_stripe_event(text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION open_chargeback_dispute(text, text, bigint, text) FROM PUBLIC, anon, authenticated;
+
+-- The webhook and payment confirmation now use the service role key, so these are no longer open to the anon key
+REVOKE EXECUTE ON FUNCTION post_order_payment(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_wallet_topup(text, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_payout(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_payout(text) FROM PUBLIC, anon, authenticated;
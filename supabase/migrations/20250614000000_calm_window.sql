@@ -0,0 +1,172 @@
+/*
+  # Buyer Inspection Window
+
+  1. Schema Updates
+    - `orders.delivered_at` - When the order was delivered
+    - `orders.inspection_ends_at` - When escrow is released if the buyer has not completed or disputed the order
+    - `orders.inspection_paused_at` - When an open dispute paused the window
+    - `delivery.inspectionWindowHours` setting, 48 hours by default
+
+  2. Functions
+    - `start_inspection_window()` - Starts the window when an order is delivered
+    - `pause_inspection_window()` - Pauses the window while a dispute is open and adds the paused time
+      to it once the last one closes
+    - `auto_complete_inspected_orders()` - Completes delivered orders whose window ended and releases escrow
+
+  3. Notes
+    - Riders marking an order delivered no longer release escrow immediately
+    - An open dispute pauses the window, the order is then settled through `resolve_dispute()` or the buyer
+      gets the rest of the window back when the dispute is closed
+    - Orders already delivered get a full window from now
+    - The job runs every 15 minutes when pg_cron is available
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS inspection_ends_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS inspection_paused_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_inspection_ends_at ON orders(inspection_ends_at) WHERE status = 'delivered';
+
+-- Hours the buyer has to inspect a delivered item before escrow is released
+INSERT INTO platform_settings (key, value, is_secret, version)
+VALUES ('delivery.inspectionWindowHours', '48', false, 1)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT 1, 'delivery.inspectionWindowHours', NULL, '48'::jsonb, 'Initial defaults'
+WHERE NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE key = 'delivery.inspectionWindowHours');
+
+-- Function to get the inspection window from the platform settings
+CREATE OR REPLACE FUNCTION inspection_window() RETURNS interval AS $$
+DECLARE
+  window_hours numeric;
+BEGIN
+  SELECT (value #>> '{}')::numeric INTO window_hours
+  FROM platform_settings
+  WHERE key = 'delivery.inspectionWindowHours';
+
+  RETURN make_interval(secs => GREATEST(COALESCE(window_hours, 48), 0) * 3600);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to start the buyer's inspection window when an order is delivered
+CREATE OR REPLACE FUNCTION start_inspection_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' THEN
+    NEW.delivered_at := now();
+    NEW.inspection_ends_at := now() + inspection_window();
+    NEW.inspection_paused_at := CASE WHEN EXISTS (
+      SELECT 1 FROM disputes
+      WHERE order_id = NEW.id
+      AND status IN ('open', 'investigating')
+    ) THEN now() END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS start_inspection_window_trigger ON orders;
+CREATE TRIGGER start_inspection_window_trigger
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION start_inspection_window();
+
+-- Function to pause the inspection window while a dispute is open, the buyer gets the paused time back
+CREATE OR REPLACE FUNCTION pause_inspection_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('open', 'investigating') THEN
+    UPDATE orders
+    SET inspection_paused_at = now()
+    WHERE id = NEW.order_id
+    AND inspection_ends_at IS NOT NULL
+    AND inspection_paused_at IS NULL;
+  ELSIF TG_OP = 'UPDATE' AND OLD.status IN ('open', 'investigating') THEN
+    UPDATE orders
+    SET
+      inspection_ends_at = inspection_ends_at + (now() - inspection_paused_at),
+      inspection_paused_at = NULL
+    WHERE id = NEW.order_id
+    AND inspection_paused_at IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM disputes
+      WHERE order_id = NEW.order_id
+      AND id <> NEW.id
+      AND status IN ('open', 'investigating')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS pause_inspection_window_trigger ON disputes;
+CREATE TRIGGER pause_inspection_window_trigger
+  AFTER INSERT OR UPDATE OF status ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION pause_inspection_window();
+
+-- Function to complete delivered orders once the buyer's inspection window has ended
+CREATE OR REPLACE FUNCTION auto_complete_inspected_orders()
+RETURNS integer AS $$
+DECLARE
+  order_record RECORD;
+  completed_count integer := 0;
+BEGIN
+  FOR order_record IN
+    SELECT o.id
+    FROM orders o
+    WHERE o.status = 'delivered'
+    AND o.inspection_ends_at <= now()
+    -- A dispute pauses the window even if the order did not move to disputed
+    AND NOT EXISTS (
+      SELECT 1 FROM disputes d
+      WHERE d.order_id = o.id
+      AND d.status IN ('open', 'investigating')
+    )
+    ORDER BY o.inspection_ends_at
+    LIMIT 500
+  LOOP
+    -- One order failing must not hold up the others
+    BEGIN
+      PERFORM set_config('app.order_notes', 'Inspection window ended', true);
+      PERFORM release_escrow_funds(order_record.id);
+      PERFORM set_config('app.order_notes', '', true);
+      completed_count := completed_count + 1;
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE WARNING 'Auto-complete failed for order %: %', order_record.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN completed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION auto_complete_inspected_orders() FROM PUBLIC, anon, authenticated;
+
+-- Orders already delivered get a full window from now
+UPDATE orders
+SET
+  delivered_at = COALESCE(delivered_at, updated_at),
+  inspection_ends_at = now() + inspection_window()
+WHERE status = 'delivered'
+AND inspection_ends_at IS NULL;
+
+UPDATE orders
+SET inspection_paused_at = now()
+WHERE inspection_ends_at IS NOT NULL
+AND inspection_paused_at IS NULL
+AND EXISTS (
+  SELECT 1 FROM disputes
+  WHERE disputes.order_id = orders.id
+  AND disputes.status IN ('open', 'investigating')
+);
+
+-- Complete inspected orders every 15 minutes (requires pg_cron)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('auto-complete-orders', '*/15 * * * *', 'SELECT auto_complete_inspected_orders();');
+  END IF;
+END $$;
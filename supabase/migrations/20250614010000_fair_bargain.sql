@@ -0,0 +1,405 @@
+/*
+  # Structured Offers
+
+  1. New Tables
+    - `offers` - Price offers on an item, made by the buyer or countered by the seller in a conversation
+
+  2. Schema Updates
+    - `messages.offer_id` - The offer an offer message shows
+    - `payment_intents.offer_id`, `orders.offer_id` - The accepted offer a purchase was made at
+
+  3. Functions
+    - `make_offer()` - Buyer offers a price, limited to one open offer per item and five overall
+    - `counter_offer()` - Seller answers a buyer's offer with a price of their own
+    - `respond_to_offer()` - The other party accepts or declines an offer
+    - `get_checkout_offer()` - The accepted offer a buyer can still check out at
+    - `expire_offers()` - Expires offers nobody answered and accepted offers nobody paid for
+    - `process_wallet_payment()` - Takes the accepted offer a wallet purchase is made at
+
+  4. Security
+    - Users can view offers they made or received, offers are only changed through the functions
+
+  5. Notes
+    - Offers are open for 48 hours, an accepted offer reserves its price for 24 hours
+    - Selling the item expires every other offer on it
+*/
+
+-- Create offers table
+CREATE TABLE IF NOT EXISTS offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  buyer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seller_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_offer_id uuid REFERENCES offers(id) ON DELETE SET NULL,
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'expired')),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  reserved_until timestamptz,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES offers(id) ON DELETE SET NULL;
+ALTER TABLE payment_intents ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES offers(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES offers(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE offers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for offers
+CREATE POLICY "Users can view their own offers"
+  ON offers
+  FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid() OR seller_id = auth.uid());
+
+CREATE POLICY "Admins can view all offers"
+  ON offers
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_offers_conversation_id ON offers(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_offers_item_id ON offers(item_id, status);
+CREATE INDEX IF NOT EXISTS idx_offers_buyer_status ON offers(buyer_id, status);
+CREATE INDEX IF NOT EXISTS idx_offers_expires_at ON offers(expires_at) WHERE status = 'pending';
+
+-- Function to update offers timestamp
+CREATE OR REPLACE FUNCTION update_offers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_offers_updated_at_trigger ON offers;
+CREATE TRIGGER update_offers_updated_at_trigger
+  BEFORE UPDATE ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_offers_updated_at();
+
+-- Function to expire offers nobody answered and accepted offers nobody paid for
+CREATE OR REPLACE FUNCTION expire_offers()
+RETURNS integer AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE offers
+  SET status = 'expired'
+  WHERE (status = 'pending' AND expires_at <= now())
+  OR (status = 'accepted' AND order_id IS NULL AND reserved_until <= now());
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to post an offer in its conversation and notify the other party
+CREATE OR REPLACE FUNCTION post_offer_message(p_offer offers, p_content text, p_message_type message_type)
+RETURNS void AS $$
+DECLARE
+  recipient_id uuid;
+BEGIN
+  INSERT INTO messages (conversation_id, sender_id, content, message_type, offer_amount, offer_id)
+  VALUES (
+    p_offer.conversation_id,
+    auth.uid(),
+    p_content,
+    p_message_type,
+    CASE WHEN p_message_type = 'offer' THEN p_offer.amount END,
+    p_offer.id
+  );
+
+  recipient_id := CASE WHEN auth.uid() = p_offer.buyer_id THEN p_offer.seller_id ELSE p_offer.buyer_id END;
+
+  PERFORM create_notification(
+    recipient_id,
+    'offer',
+    'Offer update',
+    p_content,
+    jsonb_build_object('offer_id', p_offer.id, 'conversation_id', p_offer.conversation_id, 'item_id', p_offer.item_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the buyer to offer a price for the item of a conversation
+CREATE OR REPLACE FUNCTION make_offer(p_conversation_id uuid, p_amount decimal)
+RETURNS offers AS $$
+DECLARE
+  max_open_offers constant integer := 5;
+  conversation_record conversations%ROWTYPE;
+  item_record items%ROWTYPE;
+  new_offer offers%ROWTYPE;
+BEGIN
+  SELECT * INTO conversation_record FROM conversations WHERE id = p_conversation_id;
+
+  IF NOT FOUND OR conversation_record.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer can make an offer in this conversation';
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = conversation_record.item_id FOR UPDATE;
+
+  IF NOT FOUND OR item_record.status != 'active' THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount >= item_record.price THEN
+    RAISE EXCEPTION 'Offer must be more than 0 and less than the asking price of % USD', item_record.price;
+  END IF;
+
+  PERFORM expire_offers();
+
+  -- One open negotiation per item, so the seller always answers the latest price
+  IF EXISTS (
+    SELECT 1 FROM offers
+    WHERE item_id = item_record.id
+    AND buyer_id = auth.uid()
+    AND (status = 'pending' OR (status = 'accepted' AND order_id IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'You already have an open offer on this item';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM offers
+    WHERE buyer_id = auth.uid()
+    AND (status = 'pending' OR (status = 'accepted' AND order_id IS NULL))
+  ) >= max_open_offers THEN
+    RAISE EXCEPTION 'You can have at most % open offers at a time', max_open_offers;
+  END IF;
+
+  INSERT INTO offers (
+    conversation_id, item_id, buyer_id, seller_id, created_by, amount, expires_at
+  ) VALUES (
+    conversation_record.id,
+    item_record.id,
+    conversation_record.buyer_id,
+    item_record.seller_id,
+    auth.uid(),
+    round(p_amount, 2),
+    now() + interval '48 hours'
+  ) RETURNING * INTO new_offer;
+
+  PERFORM post_offer_message(new_offer, 'Offered ' || new_offer.amount || ' USD', 'offer');
+
+  RETURN new_offer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the seller to answer a buyer's offer with their own price
+CREATE OR REPLACE FUNCTION counter_offer(p_offer_id uuid, p_amount decimal)
+RETURNS offers AS $$
+DECLARE
+  offer_record offers%ROWTYPE;
+  item_price decimal(10,2);
+  new_offer offers%ROWTYPE;
+BEGIN
+  PERFORM expire_offers();
+
+  SELECT * INTO offer_record FROM offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR offer_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can counter this offer';
+  END IF;
+
+  IF offer_record.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot counter your own offer';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'Offer is % and can no longer be countered', offer_record.status;
+  END IF;
+
+  SELECT price INTO item_price FROM items WHERE id = offer_record.item_id AND status = 'active';
+
+  IF item_price IS NULL THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= offer_record.amount OR p_amount >= item_price THEN
+    RAISE EXCEPTION 'Counter-offer must be more than the offer of % USD and less than the asking price of % USD', offer_record.amount, item_price;
+  END IF;
+
+  UPDATE offers
+  SET status = 'countered', responded_at = now()
+  WHERE id = offer_record.id;
+
+  INSERT INTO offers (
+    conversation_id, item_id, buyer_id, seller_id, created_by, parent_offer_id, amount, expires_at
+  ) VALUES (
+    offer_record.conversation_id,
+    offer_record.item_id,
+    offer_record.buyer_id,
+    offer_record.seller_id,
+    auth.uid(),
+    offer_record.id,
+    round(p_amount, 2),
+    now() + interval '48 hours'
+  ) RETURNING * INTO new_offer;
+
+  PERFORM post_offer_message(new_offer, 'Countered with ' || new_offer.amount || ' USD', 'offer');
+
+  RETURN new_offer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the party who received an offer to accept or decline it
+CREATE OR REPLACE FUNCTION respond_to_offer(p_offer_id uuid, p_accept boolean)
+RETURNS offers AS $$
+DECLARE
+  offer_record offers%ROWTYPE;
+BEGIN
+  PERFORM expire_offers();
+
+  SELECT * INTO offer_record FROM offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (offer_record.buyer_id, offer_record.seller_id) THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF offer_record.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot respond to your own offer';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'Offer is % and can no longer be answered', offer_record.status;
+  END IF;
+
+  IF p_accept AND NOT EXISTS (SELECT 1 FROM items WHERE id = offer_record.item_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  UPDATE offers
+  SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = now(),
+    reserved_until = CASE WHEN p_accept THEN now() + interval '24 hours' END
+  WHERE id = offer_record.id
+  RETURNING * INTO offer_record;
+
+  PERFORM post_offer_message(
+    offer_record,
+    CASE
+      WHEN p_accept THEN 'Offer of ' || offer_record.amount || ' USD accepted. The buyer has 24 hours to check out at this price.'
+      ELSE 'Offer of ' || offer_record.amount || ' USD declined.'
+    END,
+    'system'
+  );
+
+  RETURN offer_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to find the accepted offer a buyer can still check out at
+CREATE OR REPLACE FUNCTION get_checkout_offer(p_offer_id uuid, p_buyer_id uuid, p_item_id uuid)
+RETURNS offers AS $$
+DECLARE
+  offer_record offers%ROWTYPE;
+BEGIN
+  SELECT * INTO offer_record
+  FROM offers
+  WHERE id = p_offer_id
+  AND buyer_id = p_buyer_id
+  AND item_id = p_item_id
+  AND status = 'accepted'
+  AND order_id IS NULL
+  AND reserved_until > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer is no longer available';
+  END IF;
+
+  RETURN offer_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to close the offers on an item once it is sold
+CREATE OR REPLACE FUNCTION close_offers_on_sale()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.offer_id IS NOT NULL THEN
+    UPDATE offers SET order_id = NEW.id WHERE id = NEW.offer_id;
+  END IF;
+
+  UPDATE offers
+  SET status = 'expired'
+  WHERE item_id = NEW.item_id
+  AND id IS DISTINCT FROM NEW.offer_id
+  AND (status = 'pending' OR (status = 'accepted' AND order_id IS NULL));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS close_offers_on_sale_trigger ON orders;
+CREATE TRIGGER close_offers_on_sale_trigger
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION close_offers_on_sale();
+
+-- Book wallet purchases at an accepted offer's price
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_total_amount decimal,
+  p_platform_fee decimal,
+  p_seller_amount decimal,
+  p_fee_breakdown jsonb DEFAULT NULL,
+  p_offer_id uuid DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  buyer_wallet wallets%ROWTYPE;
+BEGIN
+  -- Lock the buyer wallet so two purchases cannot spend the same balance
+  SELECT * INTO buyer_wallet FROM wallets WHERE user_id = p_buyer_id FOR UPDATE;
+
+  IF NOT FOUND OR buyer_wallet.available_balance < p_total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  IF p_offer_id IS NOT NULL THEN
+    PERFORM get_checkout_offer(p_offer_id, p_buyer_id, p_item_id);
+  END IF;
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, offer_id, status
+    ) VALUES (
+      p_item_id, p_buyer_id, p_seller_id, p_total_amount, p_platform_fee, p_seller_amount, p_fee_breakdown, p_offer_id, 'paid'
+    ) RETURNING id INTO order_id;
+
+    -- Update item status
+    UPDATE items SET status = 'sold' WHERE id = p_item_id;
+
+    -- Debit the buyer and hold the seller's proceeds in escrow
+    PERFORM post_order_payment(order_id);
+
+    RETURN json_build_object('order_id', order_id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS process_wallet_payment(uuid, uuid, uuid, decimal, decimal, decimal, jsonb);
+
+REVOKE EXECUTE ON FUNCTION post_offer_message(offers, text, message_type) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_offers() FROM PUBLIC, anon, authenticated;
+
+-- Expire offers every 15 minutes (requires pg_cron)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-offers', '*/15 * * * *', 'SELECT expire_offers();');
+  END IF;
+END $$;
@@ -0,0 +1,248 @@
+/*
+  # Checkout Holds
+
+  1. Schema Updates
+    - `items.status` can be `reserved` while a buyer is checking out
+    - `items.reserved_by` - Buyer holding the item
+    - `items.reserved_until` - When the hold runs out
+
+  2. Functions
+    - `item_available_to()` - Whether a buyer may take an item
+    - `reserve_item()` - Holds an item for a buyer while their card payment is pending
+    - `claim_reserved_item()` - Marks an item sold to the buyer whose card payment succeeded
+    - `release_item_reservation()` - Puts an item back on sale when the buyer's payment failed
+    - `expire_item_reservations()` - Puts items back on sale once their hold ran out
+    - `process_wallet_payment()` - Now locks the item and honors other buyers' holds
+
+  3. Notes
+    - Holds last 15 minutes, an expired hold no longer blocks other buyers
+    - A buyer can hold at most 20 items at once and never their own
+    - An accepted offer holds the item for its buyer until the offer runs out
+    - A buyer whose card payment succeeds after the item went to someone else is refunded
+    - The expiry job runs every 5 minutes when pg_cron is available
+*/
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_status_check;
+ALTER TABLE items ADD CONSTRAINT items_status_check CHECK (status IN ('active', 'reserved', 'sold', 'removed'));
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS reserved_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS reserved_until timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_items_reserved_until ON items(reserved_until) WHERE status = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_items_reserved_by ON items(reserved_by) WHERE status = 'reserved';
+
+-- Reserved items stay visible, buyers see they are on hold
+DROP POLICY IF EXISTS "Anyone can view reserved items" ON items;
+CREATE POLICY "Anyone can view reserved items"
+  ON items
+  FOR SELECT
+  TO authenticated
+  USING (status = 'reserved');
+
+-- Function to check whether a buyer may take an item, the caller locks the item row
+CREATE OR REPLACE FUNCTION item_available_to(p_item items, p_buyer_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  IF p_item.status NOT IN ('active', 'reserved') THEN
+    RETURN false;
+  END IF;
+
+  IF p_item.status = 'reserved'
+    AND p_item.reserved_by IS DISTINCT FROM p_buyer_id
+    AND p_item.reserved_until > now() THEN
+    RETURN false;
+  END IF;
+
+  -- An accepted offer holds the item for its buyer until the offer runs out
+  RETURN NOT EXISTS (
+    SELECT 1 FROM offers
+    WHERE item_id = p_item.id
+    AND status = 'accepted'
+    AND order_id IS NULL
+    AND reserved_until > now()
+    AND buyer_id != p_buyer_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to hold an item for a buyer while their card payment is pending
+CREATE OR REPLACE FUNCTION reserve_item(p_item_id uuid, p_buyer_id uuid)
+RETURNS timestamptz AS $$
+DECLARE
+  checkout_hold constant interval := interval '15 minutes';
+  max_holds constant integer := 20;
+  item_record items%ROWTYPE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_buyer_id THEN
+    RAISE EXCEPTION 'You can only reserve items for yourself';
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT item_available_to(item_record, p_buyer_id) THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF item_record.seller_id = p_buyer_id THEN
+    RAISE EXCEPTION 'You cannot buy your own item';
+  END IF;
+
+  -- One buyer cannot take a shop off sale by starting checkouts they never finish
+  IF (
+    SELECT count(*) FROM items
+    WHERE reserved_by = p_buyer_id
+    AND status = 'reserved'
+    AND reserved_until > now()
+    AND id <> p_item_id
+  ) >= max_holds THEN
+    RAISE EXCEPTION 'You are holding too many items, finish or cancel a checkout first';
+  END IF;
+
+  UPDATE items
+  SET
+    status = 'reserved',
+    reserved_by = p_buyer_id,
+    reserved_until = now() + checkout_hold,
+    updated_at = now()
+  WHERE id = p_item_id
+  RETURNING * INTO item_record;
+
+  RETURN item_record.reserved_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to mark an item sold to the buyer whose card payment succeeded, false if someone else got it
+CREATE OR REPLACE FUNCTION claim_reserved_item(p_item_id uuid, p_buyer_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  item_record items%ROWTYPE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_buyer_id THEN
+    RAISE EXCEPTION 'You can only claim items for yourself';
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT item_available_to(item_record, p_buyer_id) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE items
+  SET
+    status = 'sold',
+    reserved_by = NULL,
+    reserved_until = NULL,
+    updated_at = now()
+  WHERE id = p_item_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to put an item back on sale when the buyer holding it did not pay
+CREATE OR REPLACE FUNCTION release_item_reservation(p_item_id uuid, p_buyer_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_buyer_id THEN
+    RAISE EXCEPTION 'You can only release your own reservations';
+  END IF;
+
+  UPDATE items
+  SET
+    status = 'active',
+    reserved_by = NULL,
+    reserved_until = NULL,
+    updated_at = now()
+  WHERE id = p_item_id
+  AND status = 'reserved'
+  AND reserved_by = p_buyer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to put items back on sale once their hold ran out
+CREATE OR REPLACE FUNCTION expire_item_reservations()
+RETURNS integer AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE items
+  SET
+    status = 'active',
+    reserved_by = NULL,
+    reserved_until = NULL,
+    updated_at = now()
+  WHERE status = 'reserved'
+  AND (reserved_until IS NULL OR reserved_until <= now());
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION expire_item_reservations() FROM PUBLIC, anon, authenticated;
+
+-- Book wallet purchases only when no other buyer holds the item
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_total_amount decimal,
+  p_platform_fee decimal,
+  p_seller_amount decimal,
+  p_fee_breakdown jsonb DEFAULT NULL,
+  p_offer_id uuid DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  buyer_wallet wallets%ROWTYPE;
+  item_record items%ROWTYPE;
+BEGIN
+  -- Lock the buyer wallet so two purchases cannot spend the same balance
+  SELECT * INTO buyer_wallet FROM wallets WHERE user_id = p_buyer_id FOR UPDATE;
+
+  IF NOT FOUND OR buyer_wallet.available_balance < p_total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  -- Lock the item so a card payment cannot claim it at the same time
+  SELECT * INTO item_record FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT item_available_to(item_record, p_buyer_id) THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_offer_id IS NOT NULL THEN
+    PERFORM get_checkout_offer(p_offer_id, p_buyer_id, p_item_id);
+  END IF;
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, offer_id, status
+    ) VALUES (
+      p_item_id, p_buyer_id, p_seller_id, p_total_amount, p_platform_fee, p_seller_amount, p_fee_breakdown, p_offer_id, 'paid'
+    ) RETURNING id INTO order_id;
+
+    -- Update item status
+    UPDATE items
+    SET status = 'sold', reserved_by = NULL, reserved_until = NULL
+    WHERE id = p_item_id;
+
+    -- Debit the buyer and hold the seller's proceeds in escrow
+    PERFORM post_order_payment(order_id);
+
+    RETURN json_build_object('order_id', order_id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release expired holds every 5 minutes (requires pg_cron)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-item-reservations', '*/5 * * * *', 'SELECT expire_item_reservations();');
+  END IF;
+END $$;
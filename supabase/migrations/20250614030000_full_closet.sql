@@ -0,0 +1,334 @@
+/*
+  # Bundles
+
+  1. New Tables
+    - `cart_items` - Items a buyer collected to buy together, grouped by seller in the app
+    - `order_items` - The items an order is for, one line per item
+
+  2. Schema Updates
+    - `profiles.bundle_discount_percent` - Discount a seller gives on bundles, 0 to 50
+    - `profiles.bundle_min_items` - How many items a bundle needs for the discount
+    - `orders.is_bundle` - Whether the order is for several items, `orders.item_id` is then the first one
+    - `orders.bundle_discount` - Discount taken off the items' prices
+    - `payment_intents.bundle_lines` - Line prices quoted for a bundle card payment
+    - `reviews.order_item_id` and `disputes.order_item_id` - Optional line an order review or dispute is about
+
+  3. Functions
+    - `add_order_line_item()` - Adds the single line of a one-item order
+    - `reserve_items()` / `claim_reserved_items()` - Hold and take all items of a bundle at once
+    - `reopen_cancelled_bundle()` - Puts every item of a cancelled bundle back on sale
+    - `process_wallet_payment()` - Now books bundles from `p_bundle_lines`
+
+  4. Notes
+    - Bundles are one order, so they share one payment, delivery schedule and escrow release
+    - Existing orders get their single line backfilled
+    - Order lines are only written by the database and the server, buyers and sellers can view them
+*/
+
+-- Seller bundle discount
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS bundle_discount_percent decimal(5,2) NOT NULL DEFAULT 0
+  CHECK (bundle_discount_percent >= 0 AND bundle_discount_percent <= 50);
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS bundle_min_items integer NOT NULL DEFAULT 2
+  CHECK (bundle_min_items >= 2);
+
+-- Create cart_items table
+CREATE TABLE IF NOT EXISTS cart_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, item_id)
+);
+
+-- Create order_items table
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  list_price decimal(10,2) NOT NULL,
+  price decimal(10,2) NOT NULL CHECK (price >= 0 AND price <= list_price),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(order_id, item_id),
+  UNIQUE(id, order_id)
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS is_bundle boolean NOT NULL DEFAULT false;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS bundle_discount decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE payment_intents ADD COLUMN IF NOT EXISTS bundle_lines jsonb;
+
+-- Reviews and disputes can be about one line, which must belong to their order
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS order_item_id uuid;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS order_item_id uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'reviews_order_item_fkey') THEN
+    ALTER TABLE reviews ADD CONSTRAINT reviews_order_item_fkey
+      FOREIGN KEY (order_item_id, order_id) REFERENCES order_items(id, order_id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'disputes_order_item_fkey') THEN
+    ALTER TABLE disputes ADD CONSTRAINT disputes_order_item_fkey
+      FOREIGN KEY (order_item_id, order_id) REFERENCES order_items(id, order_id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for cart_items
+CREATE POLICY "Users can view their own cart"
+  ON cart_items
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to their own cart"
+  ON cart_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM items
+      WHERE items.id = cart_items.item_id
+      AND items.seller_id != auth.uid()
+      AND items.status = 'active'
+    )
+  );
+
+CREATE POLICY "Users can remove from their own cart"
+  ON cart_items
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- RLS Policies for order_items
+CREATE POLICY "Users can view items of their own orders"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.seller_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can view all order items"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_cart_items_user_id ON cart_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_cart_items_item_id ON cart_items(item_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_item_id ON order_items(item_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_order_item_id ON reviews(order_item_id) WHERE order_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_disputes_order_item_id ON disputes(order_item_id) WHERE order_item_id IS NOT NULL;
+
+-- Function to add the single line of a one-item order, bundles add their own lines
+CREATE OR REPLACE FUNCTION add_order_line_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  list_price decimal(10,2);
+  line_price decimal(10,2);
+BEGIN
+  IF NEW.is_bundle OR NEW.item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT price INTO list_price FROM items WHERE id = NEW.item_id;
+
+  -- The quoted price is lower than the listing when bought through an offer
+  line_price := COALESCE((NEW.fee_breakdown->>'item_price_cents')::numeric / 100, list_price, NEW.total_amount);
+  list_price := GREATEST(COALESCE(list_price, line_price), line_price);
+
+  INSERT INTO order_items (order_id, item_id, list_price, price)
+  VALUES (NEW.id, NEW.item_id, list_price, line_price)
+  ON CONFLICT (order_id, item_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_order_line_item_trigger ON orders;
+CREATE TRIGGER add_order_line_item_trigger
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION add_order_line_item();
+
+-- Backfill the line of existing orders
+INSERT INTO order_items (order_id, item_id, list_price, price)
+SELECT
+  o.id,
+  o.item_id,
+  GREATEST(i.price, COALESCE((o.fee_breakdown->>'item_price_cents')::numeric / 100, i.price)),
+  COALESCE((o.fee_breakdown->>'item_price_cents')::numeric / 100, i.price)
+FROM orders o
+JOIN items i ON i.id = o.item_id
+WHERE NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id);
+
+-- Function to hold every item of a bundle for a buyer, fails without holding any if one is taken
+CREATE OR REPLACE FUNCTION reserve_items(p_item_ids uuid[], p_buyer_id uuid)
+RETURNS timestamptz AS $$
+DECLARE
+  item_id uuid;
+  reserved_until timestamptz;
+BEGIN
+  -- Lock in a fixed order so two overlapping bundles cannot deadlock
+  FOR item_id IN SELECT DISTINCT unnest(p_item_ids) ORDER BY 1 LOOP
+    reserved_until := reserve_item(item_id, p_buyer_id);
+  END LOOP;
+
+  RETURN reserved_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to mark every item of a bundle sold to the buyer, false without changes if one went to someone else
+CREATE OR REPLACE FUNCTION claim_reserved_items(p_item_ids uuid[], p_buyer_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  item_record items%ROWTYPE;
+  locked_count integer := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_buyer_id THEN
+    RAISE EXCEPTION 'You can only claim items for yourself';
+  END IF;
+
+  FOR item_record IN
+    SELECT * FROM items WHERE id = ANY(p_item_ids) ORDER BY id FOR UPDATE
+  LOOP
+    IF NOT item_available_to(item_record, p_buyer_id) THEN
+      RETURN false;
+    END IF;
+    locked_count := locked_count + 1;
+  END LOOP;
+
+  IF locked_count != (SELECT count(DISTINCT id) FROM unnest(p_item_ids) AS id) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE items
+  SET
+    status = 'sold',
+    reserved_by = NULL,
+    reserved_until = NULL,
+    updated_at = now()
+  WHERE id = ANY(p_item_ids);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to put every item of a cancelled bundle back on sale
+CREATE OR REPLACE FUNCTION reopen_cancelled_bundle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_bundle AND NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE items
+    SET status = 'active', updated_at = now()
+    WHERE id IN (SELECT item_id FROM order_items WHERE order_id = NEW.id)
+    AND seller_id = NEW.seller_id
+    AND status = 'sold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reopen_cancelled_bundle_trigger ON orders;
+CREATE TRIGGER reopen_cancelled_bundle_trigger
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION reopen_cancelled_bundle();
+
+-- Book wallet purchases of a single item or a bundle
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_total_amount decimal,
+  p_platform_fee decimal,
+  p_seller_amount decimal,
+  p_fee_breakdown jsonb DEFAULT NULL,
+  p_offer_id uuid DEFAULT NULL,
+  p_bundle_lines jsonb DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  buyer_wallet wallets%ROWTYPE;
+  item_record items%ROWTYPE;
+  item_ids uuid[];
+  discount decimal(10,2) := 0;
+BEGIN
+  -- Lock the buyer wallet so two purchases cannot spend the same balance
+  SELECT * INTO buyer_wallet FROM wallets WHERE user_id = p_buyer_id FOR UPDATE;
+
+  IF NOT FOUND OR buyer_wallet.available_balance < p_total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  IF p_bundle_lines IS NOT NULL THEN
+    SELECT array_agg((line->>'item_id')::uuid), COALESCE(sum((line->>'list_price')::numeric - (line->>'price')::numeric), 0)
+    INTO item_ids, discount
+    FROM jsonb_array_elements(p_bundle_lines) AS line;
+  ELSE
+    item_ids := ARRAY[p_item_id];
+  END IF;
+
+  -- Lock the items so a card payment cannot claim them at the same time
+  FOR item_record IN
+    SELECT * FROM items WHERE id = ANY(item_ids) ORDER BY id FOR UPDATE
+  LOOP
+    IF item_record.seller_id != p_seller_id OR NOT item_available_to(item_record, p_buyer_id) THEN
+      RAISE EXCEPTION 'Item is not available';
+    END IF;
+  END LOOP;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_offer_id IS NOT NULL THEN
+    PERFORM get_checkout_offer(p_offer_id, p_buyer_id, p_item_id);
+  END IF;
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, offer_id,
+      is_bundle, bundle_discount, status
+    ) VALUES (
+      item_ids[1], p_buyer_id, p_seller_id, p_total_amount, p_platform_fee, p_seller_amount, p_fee_breakdown, p_offer_id,
+      p_bundle_lines IS NOT NULL, discount, 'paid'
+    ) RETURNING id INTO order_id;
+
+    IF p_bundle_lines IS NOT NULL THEN
+      INSERT INTO order_items (order_id, item_id, list_price, price)
+      SELECT order_id, (line->>'item_id')::uuid, (line->>'list_price')::numeric, (line->>'price')::numeric
+      FROM jsonb_array_elements(p_bundle_lines) AS line;
+    END IF;
+
+    -- Update item status
+    UPDATE items
+    SET status = 'sold', reserved_by = NULL, reserved_until = NULL
+    WHERE id = ANY(item_ids);
+
+    -- Debit the buyer and hold the seller's proceeds in escrow
+    PERFORM post_order_payment(order_id);
+
+    RETURN json_build_object('order_id', order_id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS process_wallet_payment(uuid, uuid, uuid, decimal, decimal, decimal, jsonb, uuid);
@@ -0,0 +1,1639 @@
+/*
+  # Multi-Currency Pricing and Payouts
+
+  1. New Tables
+    - `currencies` - Currencies items can be priced in, with the latest rate per US dollar
+    - `wallet_balances` - A user's available and escrow balances in each currency they hold
+
+  2. Schema Updates
+    - `profiles.currency` - Currency the seller lists new items in
+    - `items.currency` - Currency the item is priced in, taken from the seller when it is listed
+    - `orders.currency` - Currency the order was paid in, taken from its items
+    - `wallets.currency` - Currency the wallet pays out in, the connected Stripe account's default currency
+    - `ledger_accounts.currency` - Every account holds a single currency
+    - `wallet_transactions.currency` - Currency of the statement line, taken from its journal entry
+
+  3. Functions
+    - `ledger_account()`, `ledger_line()` and `ledger_wallet_balance()` take a currency, US dollars by default
+    - Journal entries must balance in every currency they touch
+    - `refresh_wallet()` keeps `wallet_balances` and the wallet's payout currency in sync
+    - `post_order_payment()`, `post_escrow_release()`, `post_wallet_topup()`, `record_order_refund()`
+      and `process_wallet_payment()` book in the order's or payment's currency
+    - `post_payout()` takes the currency paid out, `settle_payout()` and `fail_payout()` follow the payout
+    - `check_order_quote()` - Checks a fee quote adds up and is for the price being paid
+    - `process_wallet_payment()` takes its amounts from the fee quote and only runs for the service role,
+      `post_order_payment()` only books orders whose amounts match their quote
+    - `get_ledger_stripe_movements()` and `get_ledger_health()` report per currency
+    - Notifications, offer messages and dispute notes quote amounts in the currency they are in
+
+  4. Notes
+    - Only currencies with two decimal places are supported, so cents stay cents everywhere
+    - Exchange rates are refreshed daily by the `exchange-rates` edge function when pg_cron and pg_net are
+      available, and are only used for display, money is never converted between currencies
+    - Fee rule amounts and price ranges apply as they are in the currency of the sale
+    - Existing items, orders, wallets and ledger accounts are in US dollars
+*/
+
+-- Create currencies table
+CREATE TABLE IF NOT EXISTS currencies (
+  code text PRIMARY KEY CHECK (code ~ '^[a-z]{3}$'),
+  name text NOT NULL,
+  rate_per_usd numeric(18,8) CHECK (rate_per_usd > 0),
+  rate_updated_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO currencies (code, name, rate_per_usd, rate_updated_at) VALUES
+  ('usd', 'US Dollar', 1, now()),
+  ('eur', 'Euro', NULL, NULL),
+  ('gbp', 'British Pound', NULL, NULL),
+  ('cad', 'Canadian Dollar', NULL, NULL),
+  ('aud', 'Australian Dollar', NULL, NULL),
+  ('nzd', 'New Zealand Dollar', NULL, NULL),
+  ('chf', 'Swiss Franc', NULL, NULL),
+  ('sek', 'Swedish Krona', NULL, NULL),
+  ('nok', 'Norwegian Krone', NULL, NULL),
+  ('dkk', 'Danish Krone', NULL, NULL),
+  ('pln', 'Polish Zloty', NULL, NULL)
+ON CONFLICT (code) DO NOTHING;
+
+-- Create wallet_balances table
+CREATE TABLE IF NOT EXISTS wallet_balances (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  currency text NOT NULL REFERENCES currencies(code),
+  available_balance decimal(10,2) DEFAULT 0.00 CHECK (available_balance >= 0),
+  pending_balance decimal(10,2) DEFAULT 0.00 CHECK (pending_balance >= 0),
+  total_earned decimal(10,2) DEFAULT 0.00 CHECK (total_earned >= 0),
+  total_spent decimal(10,2) DEFAULT 0.00 CHECK (total_spent >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, currency)
+);
+
+-- Add currency columns, everything that exists today is in US dollars
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' REFERENCES currencies(code);
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' REFERENCES currencies(code);
+ALTER TABLE ledger_accounts ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' REFERENCES currencies(code);
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS currency text REFERENCES currencies(code);
+UPDATE items SET currency = 'usd' WHERE currency IS NULL;
+ALTER TABLE items ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency text REFERENCES currencies(code);
+UPDATE orders SET currency = 'usd' WHERE currency IS NULL;
+ALTER TABLE orders ALTER COLUMN currency SET NOT NULL;
+
+UPDATE payment_intents SET currency = 'usd' WHERE currency IS NULL;
+ALTER TABLE payment_intents ALTER COLUMN currency SET NOT NULL;
+ALTER TABLE payment_intents ADD CONSTRAINT payment_intents_currency_fkey FOREIGN KEY (currency) REFERENCES currencies(code);
+
+ALTER TABLE payouts ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' REFERENCES currencies(code);
+ALTER TABLE wallet_transactions ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd' REFERENCES currencies(code);
+
+INSERT INTO wallet_balances (user_id, currency, available_balance, pending_balance, total_earned, total_spent)
+SELECT user_id, 'usd', available_balance, pending_balance, total_earned, total_spent
+FROM wallets
+WHERE user_id IS NOT NULL
+ON CONFLICT (user_id, currency) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_balances ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for currencies
+CREATE POLICY "Anyone can view currencies"
+  ON currencies
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- RLS Policies for wallet_balances
+CREATE POLICY "Users can view their own wallet balances"
+  ON wallet_balances
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all wallet balances"
+  ON wallet_balances
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- An account per kind, user and currency
+DROP INDEX IF EXISTS idx_ledger_accounts_kind_user;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_kind_user_currency
+  ON ledger_accounts(kind, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), currency);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_wallet_balances_user_id ON wallet_balances(user_id);
+CREATE INDEX IF NOT EXISTS idx_items_currency ON items(currency);
+CREATE INDEX IF NOT EXISTS idx_orders_currency ON orders(currency);
+
+-- New listings are priced in the seller's currency
+CREATE OR REPLACE FUNCTION set_item_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT currency INTO NEW.currency FROM profiles WHERE id = NEW.seller_id;
+    NEW.currency := COALESCE(NEW.currency, 'usd');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_item_currency_trigger ON items;
+CREATE TRIGGER set_item_currency_trigger
+  BEFORE INSERT ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_item_currency();
+
+-- Orders are paid in the currency their item is priced in
+CREATE OR REPLACE FUNCTION set_order_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency IS NULL THEN
+    SELECT currency INTO NEW.currency FROM items WHERE id = NEW.item_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_order_currency_trigger ON orders;
+CREATE TRIGGER set_order_currency_trigger
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_currency();
+
+-- Statement lines are in the currency of the user's account their journal entry moved
+CREATE OR REPLACE FUNCTION set_wallet_transaction_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.journal_entry_id IS NOT NULL THEN
+    SELECT COALESCE(
+      (SELECT a.currency
+       FROM ledger_lines l
+       JOIN ledger_accounts a ON a.id = l.account_id
+       WHERE l.entry_id = NEW.journal_entry_id
+       AND a.user_id = NEW.user_id
+       LIMIT 1),
+      NEW.currency
+    ) INTO NEW.currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_wallet_transaction_currency_trigger ON wallet_transactions;
+CREATE TRIGGER set_wallet_transaction_currency_trigger
+  BEFORE INSERT ON wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_wallet_transaction_currency();
+
+-- The wallet row shows the balance in its payout currency, switching currency reloads it
+CREATE OR REPLACE FUNCTION sync_wallet_currency()
+RETURNS TRIGGER AS $$
+DECLARE
+  balance_record wallet_balances%ROWTYPE;
+BEGIN
+  SELECT * INTO balance_record
+  FROM wallet_balances
+  WHERE user_id = NEW.user_id AND currency = NEW.currency;
+
+  NEW.available_balance := COALESCE(balance_record.available_balance, 0);
+  NEW.pending_balance := COALESCE(balance_record.pending_balance, 0);
+  NEW.total_earned := COALESCE(balance_record.total_earned, 0);
+  NEW.total_spent := COALESCE(balance_record.total_spent, 0);
+  NEW.updated_at := now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_wallet_currency_trigger ON wallets;
+CREATE TRIGGER sync_wallet_currency_trigger
+  BEFORE UPDATE OF currency ON wallets
+  FOR EACH ROW
+  WHEN (OLD.currency IS DISTINCT FROM NEW.currency)
+  EXECUTE FUNCTION sync_wallet_currency();
+
+-- Every entry must balance in each currency by the end of the transaction that posted it
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  entry_total bigint;
+  entry_currency text;
+  line_count integer;
+BEGIN
+  SELECT count(*) INTO line_count
+  FROM ledger_lines
+  WHERE entry_id = NEW.entry_id;
+
+  SELECT a.currency, SUM(l.amount_cents) INTO entry_currency, entry_total
+  FROM ledger_lines l
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE l.entry_id = NEW.entry_id
+  GROUP BY a.currency
+  HAVING SUM(l.amount_cents) != 0
+  LIMIT 1;
+
+  IF entry_currency IS NOT NULL OR line_count < 2 THEN
+    RAISE EXCEPTION 'Journal entry % does not balance (off by % % cents)',
+      NEW.entry_id, COALESCE(entry_total, 0), COALESCE(entry_currency, '');
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Plain calls keep booking in US dollars
+DROP FUNCTION IF EXISTS ledger_line(text, uuid, bigint);
+DROP FUNCTION IF EXISTS ledger_account(text, uuid);
+DROP FUNCTION IF EXISTS ledger_wallet_balance(uuid);
+DROP FUNCTION IF EXISTS refresh_wallet(uuid, uuid);
+
+-- Get or open a ledger account
+CREATE OR REPLACE FUNCTION ledger_account(p_kind text, p_user_id uuid DEFAULT NULL, p_currency text DEFAULT 'usd')
+RETURNS uuid AS $$
+DECLARE
+  account_id uuid;
+BEGIN
+  SELECT id INTO account_id
+  FROM ledger_accounts
+  WHERE kind = p_kind AND user_id IS NOT DISTINCT FROM p_user_id AND currency = p_currency;
+
+  IF NOT FOUND THEN
+    INSERT INTO ledger_accounts (kind, user_id, currency)
+    VALUES (p_kind, p_user_id, p_currency)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO account_id;
+
+    -- Another transaction opened it first
+    IF account_id IS NULL THEN
+      SELECT id INTO account_id
+      FROM ledger_accounts
+      WHERE kind = p_kind AND user_id IS NOT DISTINCT FROM p_user_id AND currency = p_currency;
+    END IF;
+  END IF;
+
+  RETURN account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One line of a journal entry, debits are positive and credits negative
+CREATE OR REPLACE FUNCTION ledger_line(p_kind text, p_user_id uuid, p_amount_cents bigint, p_currency text DEFAULT 'usd')
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'account_id', ledger_account(p_kind, p_user_id, p_currency),
+    'amount_cents', p_amount_cents,
+    'currency', p_currency
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A user's balances in one currency as the ledger has them
+CREATE OR REPLACE FUNCTION ledger_wallet_balance(p_user_id uuid, p_currency text DEFAULT 'usd')
+RETURNS TABLE (available_cents bigint, escrow_cents bigint) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0)::bigint,
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_escrow'), 0)::bigint
+  FROM ledger_accounts a
+  JOIN ledger_lines l ON l.account_id = a.id
+  WHERE a.user_id = p_user_id
+  AND a.currency = p_currency;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Rebuild a user's cached balances in one currency after an entry touched them
+CREATE OR REPLACE FUNCTION refresh_wallet(p_user_id uuid, p_currency text, p_entry_id uuid)
+RETURNS void AS $$
+DECLARE
+  balance record;
+  earned_cents bigint;
+  spent_cents bigint;
+BEGIN
+  SELECT * INTO balance FROM ledger_wallet_balance(p_user_id, p_currency);
+
+  -- Lifetime totals only count sales and purchases
+  SELECT
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_escrow'), 0),
+    COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0)
+  INTO earned_cents, spent_cents
+  FROM ledger_lines l
+  JOIN ledger_accounts a ON a.id = l.account_id
+  JOIN ledger_entries e ON e.id = l.entry_id
+  WHERE l.entry_id = p_entry_id
+  AND a.user_id = p_user_id
+  AND a.currency = p_currency
+  AND e.entry_type IN ('order_payment', 'order_refund');
+
+  -- The balance checks reject a balance the ledger would take below zero
+  INSERT INTO wallet_balances (user_id, currency, available_balance, pending_balance, total_earned, total_spent)
+  VALUES (
+    p_user_id,
+    p_currency,
+    balance.available_cents / 100.0,
+    balance.escrow_cents / 100.0,
+    GREATEST(earned_cents, 0) / 100.0,
+    GREATEST(spent_cents, 0) / 100.0
+  )
+  ON CONFLICT (user_id, currency) DO UPDATE SET
+    available_balance = EXCLUDED.available_balance,
+    pending_balance = EXCLUDED.pending_balance,
+    total_earned = GREATEST(wallet_balances.total_earned + earned_cents / 100.0, 0),
+    total_spent = GREATEST(wallet_balances.total_spent + spent_cents / 100.0, 0),
+    updated_at = now();
+
+  -- New wallets pay out in the currency the user sells in
+  INSERT INTO wallets (user_id, currency)
+  SELECT p_user_id, COALESCE((SELECT currency FROM profiles WHERE id = p_user_id), 'usd')
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE wallets w
+  SET
+    available_balance = b.available_balance,
+    pending_balance = b.pending_balance,
+    total_earned = b.total_earned,
+    total_spent = b.total_spent,
+    updated_at = now()
+  FROM wallet_balances b
+  WHERE w.user_id = p_user_id
+  AND w.currency = p_currency
+  AND b.user_id = p_user_id
+  AND b.currency = p_currency;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to post a journal entry that balances in every currency
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_entry_type text,
+  p_description text,
+  p_reference_type text,
+  p_reference_id text,
+  p_external_id text,
+  p_lines jsonb
+) RETURNS uuid AS $$
+DECLARE
+  new_entry_id uuid;
+  entry_total bigint;
+  entry_currency text;
+  line_count integer;
+  line_account record;
+BEGIN
+  SELECT count(*) INTO line_count
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount_cents')::bigint != 0;
+
+  SELECT line->>'currency', SUM((line->>'amount_cents')::bigint)
+  INTO entry_currency, entry_total
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount_cents')::bigint != 0
+  GROUP BY line->>'currency'
+  HAVING SUM((line->>'amount_cents')::bigint) != 0
+  LIMIT 1;
+
+  IF line_count < 2 OR entry_total IS NOT NULL THEN
+    RAISE EXCEPTION 'Journal entry for % % does not balance (off by % % cents)',
+      p_entry_type, p_reference_id, COALESCE(entry_total, 0), COALESCE(entry_currency, '');
+  END IF;
+
+  INSERT INTO ledger_entries (entry_type, description, reference_type, reference_id, external_id, created_by)
+  VALUES (p_entry_type, p_description, p_reference_type, p_reference_id, p_external_id, auth.uid())
+  RETURNING id INTO new_entry_id;
+
+  INSERT INTO ledger_lines (entry_id, account_id, amount_cents)
+  SELECT new_entry_id, (line->>'account_id')::uuid, (line->>'amount_cents')::bigint
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount_cents')::bigint != 0;
+
+  FOR line_account IN
+    SELECT DISTINCT a.user_id, a.currency
+    FROM ledger_lines l
+    JOIN ledger_accounts a ON a.id = l.account_id
+    WHERE l.entry_id = new_entry_id
+    AND a.user_id IS NOT NULL
+  LOOP
+    PERFORM refresh_wallet(line_account.user_id, line_account.currency, new_entry_id);
+  END LOOP;
+
+  RETURN new_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to check a fee quote adds up and is for the price being paid
+CREATE OR REPLACE FUNCTION check_order_quote(p_fee_breakdown jsonb, p_item_price_cents bigint, p_currency text)
+RETURNS void AS $$
+DECLARE
+  price_cents bigint := (p_fee_breakdown->>'item_price_cents')::bigint;
+  protection_cents bigint := (p_fee_breakdown->>'buyer_protection_cents')::bigint;
+  discount_cents bigint := (p_fee_breakdown->>'discount_cents')::bigint;
+  commission_cents bigint := (p_fee_breakdown->>'seller_commission_cents')::bigint;
+BEGIN
+  IF p_fee_breakdown IS NULL
+  OR price_cents IS DISTINCT FROM p_item_price_cents
+  OR p_fee_breakdown->>'currency' IS DISTINCT FROM p_currency
+  OR LEAST(protection_cents, discount_cents, commission_cents) < 0
+  OR commission_cents > price_cents
+  OR discount_cents > protection_cents + commission_cents
+  OR (p_fee_breakdown->>'buyer_total_cents')::bigint IS DISTINCT FROM price_cents + protection_cents - discount_cents
+  OR (p_fee_breakdown->>'seller_payout_cents')::bigint IS DISTINCT FROM price_cents - commission_cents
+  OR (p_fee_breakdown->>'platform_fee_cents')::bigint IS DISTINCT FROM protection_cents + commission_cents - discount_cents
+  THEN
+    RAISE EXCEPTION 'Fee quote does not match the price';
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to book a paid order: the buyer's payment splits into seller escrow and platform fees
+CREATE OR REPLACE FUNCTION post_order_payment(p_order_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  entry_id uuid;
+  total_cents bigint;
+  seller_cents bigint;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Confirming a payment twice books it once
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'order_payment' AND reference_id = p_order_id::text;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  IF order_record.status IN ('pending', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is % and has not been paid', order_record.status;
+  END IF;
+
+  -- Book the amounts the order was quoted at, card payments at the quote the payment was created for
+  PERFORM check_order_quote(
+    order_record.fee_breakdown,
+    (order_record.fee_breakdown->>'item_price_cents')::bigint,
+    order_record.currency
+  );
+
+  IF to_cents(order_record.total_amount) <> (order_record.fee_breakdown->>'buyer_total_cents')::bigint
+  OR to_cents(order_record.seller_amount) <> (order_record.fee_breakdown->>'seller_payout_cents')::bigint
+  OR to_cents(order_record.platform_fee) <> (order_record.fee_breakdown->>'platform_fee_cents')::bigint THEN
+    RAISE EXCEPTION 'Order amounts do not match its quote';
+  END IF;
+
+  IF order_record.payment_intent_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM payment_intents
+    WHERE id = order_record.payment_intent_id
+    AND fee_breakdown IS NOT NULL
+    AND fee_breakdown <> order_record.fee_breakdown
+  ) THEN
+    RAISE EXCEPTION 'Order amounts do not match the payment';
+  END IF;
+
+  total_cents := to_cents(order_record.total_amount);
+  seller_cents := to_cents(order_record.seller_amount);
+
+  -- Card payments land in the platform's Stripe balance, wallet payments come out of the buyer's wallet
+  entry_id := post_journal_entry(
+    'order_payment', 'Order payment', 'order', order_record.id::text, order_record.payment_intent_id,
+    jsonb_build_array(
+      CASE WHEN order_record.payment_intent_id IS NULL
+        THEN ledger_line('user_available', order_record.buyer_id, total_cents, order_record.currency)
+        ELSE ledger_line('stripe_clearing', NULL, total_cents, order_record.currency)
+      END,
+      ledger_line('user_escrow', order_record.seller_id, -seller_cents, order_record.currency),
+      ledger_line('platform_fees', NULL, seller_cents - total_cents, order_record.currency)
+    )
+  );
+
+  IF order_record.payment_intent_id IS NULL THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'debit', -order_record.total_amount,
+      'Purchase payment', order_record.id::text, 'order'
+    );
+  END IF;
+
+  IF seller_cents > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_hold', order_record.seller_amount,
+      'Sale proceeds (in escrow)', order_record.id::text, 'order'
+    );
+  END IF;
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a seller's proceeds out of escrow into their available balance
+CREATE OR REPLACE FUNCTION post_escrow_release(
+  p_order_id uuid,
+  p_amount decimal,
+  p_description text
+) RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'escrow_release', p_description, 'order', order_record.id::text, NULL,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(p_amount), order_record.currency),
+      ledger_line('user_available', order_record.seller_id, -to_cents(p_amount), order_record.currency)
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    order_record.seller_id, entry_id, 'escrow_release', p_amount,
+    p_description, order_record.id::text, 'order'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to credit a wallet top-up once Stripe confirms the payment, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION post_wallet_topup(p_payment_intent_id text, p_amount_cents bigint)
+RETURNS uuid AS $$
+DECLARE
+  intent_record payment_intents%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  -- Stripe retries webhooks, a top-up is only credited once
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'wallet_topup' AND reference_id = p_payment_intent_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT * INTO intent_record
+  FROM payment_intents
+  WHERE id = p_payment_intent_id AND type = 'wallet_topup';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Top-up not found';
+  END IF;
+
+  IF to_cents(intent_record.amount) != p_amount_cents THEN
+    RAISE EXCEPTION 'Top-up amount does not match the payment';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment', p_payment_intent_id, p_payment_intent_id,
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, p_amount_cents, intent_record.currency),
+      ledger_line('user_available', intent_record.user_id, -p_amount_cents, intent_record.currency)
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    intent_record.user_id, entry_id, 'credit', p_amount_cents / 100.0,
+    'Wallet top-up', p_payment_intent_id, 'payment'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS post_payout(text, bigint, bigint);
+
+-- Function to debit the signed-in user's balance in one currency for a payout, the fee stays with the platform
+CREATE OR REPLACE FUNCTION post_payout(
+  p_transfer_id text,
+  p_amount_cents bigint,
+  p_fee_cents bigint,
+  p_currency text
+) RETURNS uuid AS $$
+DECLARE
+  balance_record wallet_balances%ROWTYPE;
+  entry_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'payout' AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be greater than 0';
+  END IF;
+
+  IF p_fee_cents IS NULL OR p_fee_cents < 0 OR p_fee_cents > p_amount_cents THEN
+    RAISE EXCEPTION 'Payout fee must be between 0 and the payout amount';
+  END IF;
+
+  SELECT * INTO balance_record
+  FROM wallet_balances
+  WHERE user_id = auth.uid() AND currency = p_currency
+  FOR UPDATE;
+
+  IF NOT FOUND OR to_cents(balance_record.available_balance) < p_amount_cents THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'payout', 'Payout to bank account', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line('user_available', auth.uid(), p_amount_cents, p_currency),
+      ledger_line('payouts_in_transit', NULL, p_fee_cents - p_amount_cents, p_currency),
+      ledger_line('platform_fees', NULL, -p_fee_cents, p_currency)
+    )
+  );
+
+  PERFORM add_wallet_statement(
+    auth.uid(), entry_id, 'payout', -(p_amount_cents / 100.0),
+    'Payout to bank account', p_transfer_id, 'payout', 'pending'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to book a payout's transfer leaving the platform's Stripe balance, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION settle_payout(p_transfer_id text)
+RETURNS uuid AS $$
+DECLARE
+  payout_entry_id uuid;
+  payout_currency text;
+  in_transit_cents bigint;
+  entry_id uuid;
+BEGIN
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type IN ('payout_settled', 'payout_failed') AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT e.id, a.currency, -SUM(l.amount_cents) INTO payout_entry_id, payout_currency, in_transit_cents
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE e.entry_type = 'payout'
+  AND e.reference_id = p_transfer_id
+  AND a.kind = 'payouts_in_transit'
+  GROUP BY e.id, a.currency;
+
+  IF payout_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  entry_id := post_journal_entry(
+    'payout_settled', 'Payout transferred', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line('payouts_in_transit', NULL, in_transit_cents, payout_currency),
+      ledger_line('stripe_clearing', NULL, -in_transit_cents, payout_currency)
+    )
+  );
+
+  UPDATE wallet_transactions
+  SET status = 'completed'
+  WHERE journal_entry_id = payout_entry_id
+  AND status = 'pending';
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to return a failed payout to the user's wallet, called from the Stripe webhook
+CREATE OR REPLACE FUNCTION fail_payout(p_transfer_id text)
+RETURNS uuid AS $$
+DECLARE
+  payout_entry_id uuid;
+  payout_user_id uuid;
+  payout_currency text;
+  amount_cents bigint;
+  fee_cents bigint;
+  in_transit_cents bigint;
+  was_settled boolean;
+  entry_id uuid;
+BEGIN
+  SELECT id INTO entry_id
+  FROM ledger_entries
+  WHERE entry_type = 'payout_failed' AND reference_id = p_transfer_id;
+
+  IF FOUND THEN
+    RETURN entry_id;
+  END IF;
+
+  SELECT
+    e.id,
+    MAX(a.user_id::text)::uuid,
+    MAX(a.currency),
+    COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'user_available'), 0),
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'platform_fees'), 0),
+    -COALESCE(SUM(l.amount_cents) FILTER (WHERE a.kind = 'payouts_in_transit'), 0)
+  INTO payout_entry_id, payout_user_id, payout_currency, amount_cents, fee_cents, in_transit_cents
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE e.entry_type = 'payout'
+  AND e.reference_id = p_transfer_id
+  GROUP BY e.id;
+
+  IF payout_entry_id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  -- Money that already left the Stripe balance comes back to it
+  was_settled := EXISTS (
+    SELECT 1 FROM ledger_entries
+    WHERE entry_type = 'payout_settled' AND reference_id = p_transfer_id
+  );
+
+  entry_id := post_journal_entry(
+    'payout_failed', 'Payout failed', 'payout', p_transfer_id, p_transfer_id,
+    jsonb_build_array(
+      ledger_line(
+        CASE WHEN was_settled THEN 'stripe_clearing' ELSE 'payouts_in_transit' END,
+        NULL, in_transit_cents, payout_currency
+      ),
+      ledger_line('platform_fees', NULL, fee_cents, payout_currency),
+      ledger_line('user_available', payout_user_id, -amount_cents, payout_currency)
+    )
+  );
+
+  UPDATE wallet_transactions
+  SET status = 'failed'
+  WHERE journal_entry_id = payout_entry_id;
+
+  PERFORM add_wallet_statement(
+    payout_user_id, entry_id, 'credit', amount_cents / 100.0,
+    'Payout failed - refund', p_transfer_id, 'refund'
+  );
+
+  RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accept refunds recorded by the Stripe webhook, and book each Stripe refund once in the order's currency
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount decimal,
+  p_idempotency_key text,
+  p_reason text DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL,
+  p_cancel boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  existing_refund refunds%ROWTYPE;
+  refund_id uuid;
+  entry_id uuid;
+  refund_method text;
+  seller_reversal decimal(10,2);
+  already_reversed decimal(10,2);
+  new_refunded_amount decimal(10,2);
+  new_order_status text;
+  refund_notes text;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Sellers and admins may refund, buyers only by cancelling an order that has not shipped (or retrying that cancellation),
+  -- and the Stripe webhook books refunds made in the Stripe dashboard
+  IF NOT (
+    auth.role() = 'service_role' OR
+    is_admin() OR
+    order_record.seller_id = auth.uid() OR
+    (order_record.buyer_id = auth.uid() AND p_cancel AND order_record.status IN ('paid', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to refund this order';
+  END IF;
+
+  -- A retried request, or a refund the webhook already booked, returns the refund that was recorded
+  SELECT * INTO existing_refund
+  FROM refunds
+  WHERE order_id = order_record.id
+  AND (idempotency_key = p_idempotency_key OR (p_stripe_refund_id IS NOT NULL AND stripe_refund_id = p_stripe_refund_id))
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN json_build_object(
+      'refund_id', existing_refund.id,
+      'order_id', existing_refund.order_id,
+      'amount', existing_refund.amount,
+      'currency', order_record.currency,
+      'method', existing_refund.method,
+      'refunded_amount', order_record.refunded_amount,
+      'order_status', order_record.status
+    );
+  END IF;
+
+  -- Funds are only still in escrow until the order completes
+  IF order_record.status NOT IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed') THEN
+    RAISE EXCEPTION 'Order is % and can no longer be refunded', order_record.status;
+  END IF;
+
+  IF p_cancel AND order_record.status != 'paid' THEN
+    RAISE EXCEPTION 'Order cannot be cancelled at this stage';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than 0';
+  END IF;
+
+  new_refunded_amount := COALESCE(order_record.refunded_amount, 0) + p_amount;
+
+  IF new_refunded_amount > order_record.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the remaining order amount of %',
+      order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+  END IF;
+
+  IF p_cancel AND new_refunded_amount != order_record.total_amount THEN
+    RAISE EXCEPTION 'Cancelled orders must be refunded in full';
+  END IF;
+
+  refund_method := CASE WHEN order_record.payment_intent_id IS NULL THEN 'wallet' ELSE 'card' END;
+
+  -- Card payments are refunded through Stripe before they are recorded here
+  IF refund_method = 'card' AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller gives up the same share of their proceeds as the buyer gets back,
+  -- the last refund takes whatever rounding left in escrow
+  IF new_refunded_amount = order_record.total_amount THEN
+    SELECT COALESCE(SUM(seller_amount_reversed), 0) INTO already_reversed
+    FROM refunds
+    WHERE order_id = order_record.id;
+
+    seller_reversal := COALESCE(order_record.seller_amount, 0) - already_reversed;
+  ELSE
+    seller_reversal := round(COALESCE(order_record.seller_amount, 0) * p_amount / order_record.total_amount, 2);
+  END IF;
+
+  INSERT INTO refunds (
+    order_id, amount, seller_amount_reversed, method, reason,
+    idempotency_key, payment_intent_id, stripe_refund_id, requested_by
+  ) VALUES (
+    order_record.id, p_amount, seller_reversal, refund_method, p_reason,
+    p_idempotency_key, order_record.payment_intent_id, p_stripe_refund_id, auth.uid()
+  ) RETURNING id INTO refund_id;
+
+  -- The platform returns its share of the fees along with the seller's escrow
+  entry_id := post_journal_entry(
+    'order_refund', 'Order refund', 'refund', refund_id::text, p_stripe_refund_id,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(seller_reversal), order_record.currency),
+      ledger_line('platform_fees', NULL, to_cents(p_amount) - to_cents(seller_reversal), order_record.currency),
+      CASE WHEN refund_method = 'wallet'
+        THEN ledger_line('user_available', order_record.buyer_id, -to_cents(p_amount), order_record.currency)
+        ELSE ledger_line('stripe_clearing', NULL, -to_cents(p_amount), order_record.currency)
+      END
+    )
+  );
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_reversal', -seller_reversal,
+      'Order refunded - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF refund_method = 'wallet' THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'refund', p_amount,
+      'Order refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  new_order_status := CASE
+    WHEN p_cancel THEN 'cancelled'
+    WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+    ELSE order_record.status
+  END;
+
+  refund_notes := p_amount || ' ' || upper(order_record.currency) || ' refunded to ' || refund_method ||
+    CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END;
+
+  -- The status change is logged with the refund as its note
+  PERFORM set_config('app.order_notes', refund_notes, true);
+
+  UPDATE orders
+  SET
+    refunded_amount = new_refunded_amount,
+    status = new_order_status,
+    updated_at = now()
+  WHERE id = order_record.id;
+
+  PERFORM set_config('app.order_notes', '', true);
+
+  -- A cancelled sale goes back on the market
+  IF p_cancel THEN
+    UPDATE items SET status = 'active', updated_at = now() WHERE id = order_record.item_id AND status = 'sold';
+  END IF;
+
+  -- A refund that leaves the status as it is gets no entry from log_order_status_change()
+  IF new_order_status = order_record.status THEN
+    INSERT INTO order_history (order_id, action, notes, created_by)
+    VALUES (order_record.id, 'partially_refunded', refund_notes, auth.uid());
+  END IF;
+
+  RETURN json_build_object(
+    'refund_id', refund_id,
+    'order_id', order_record.id,
+    'amount', p_amount,
+    'currency', order_record.currency,
+    'method', refund_method,
+    'refunded_amount', new_refunded_amount,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book wallet purchases of a single item or a bundle, paid from the buyer's balance in the items' currency
+-- at the amounts of the fee quote, which must be for the items' prices
+CREATE OR REPLACE FUNCTION process_wallet_payment(
+  p_buyer_id uuid,
+  p_seller_id uuid,
+  p_item_id uuid,
+  p_fee_breakdown jsonb,
+  p_offer_id uuid DEFAULT NULL,
+  p_bundle_lines jsonb DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  order_id uuid;
+  order_currency text;
+  buyer_balance wallet_balances%ROWTYPE;
+  item_record items%ROWTYPE;
+  offer_record offers%ROWTYPE;
+  seller_record profiles%ROWTYPE;
+  item_ids uuid[];
+  item_count integer := 0;
+  subtotal_cents bigint := 0;
+  price_cents bigint;
+  bundle_percent decimal;
+  discount decimal(10,2) := 0;
+  total_amount decimal(10,2) := (p_fee_breakdown->>'buyer_total_cents')::bigint / 100.0;
+  platform_fee decimal(10,2) := (p_fee_breakdown->>'platform_fee_cents')::bigint / 100.0;
+  seller_amount decimal(10,2) := (p_fee_breakdown->>'seller_payout_cents')::bigint / 100.0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND p_buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized to pay for this order';
+  END IF;
+
+  IF p_buyer_id = p_seller_id THEN
+    RAISE EXCEPTION 'You cannot buy your own item';
+  END IF;
+
+  IF p_bundle_lines IS NOT NULL THEN
+    SELECT array_agg((line->>'item_id')::uuid), COALESCE(sum((line->>'list_price')::numeric - (line->>'price')::numeric), 0)
+    INTO item_ids, discount
+    FROM jsonb_array_elements(p_bundle_lines) AS line;
+  ELSE
+    item_ids := ARRAY[p_item_id];
+  END IF;
+
+  SELECT currency INTO order_currency FROM items WHERE id = item_ids[1];
+
+  -- Lock the buyer's balance so two purchases cannot spend it at the same time
+  SELECT * INTO buyer_balance
+  FROM wallet_balances
+  WHERE user_id = p_buyer_id AND currency = order_currency
+  FOR UPDATE;
+
+  IF NOT FOUND OR buyer_balance.available_balance < total_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  -- Lock the items so a card payment cannot claim them at the same time
+  FOR item_record IN
+    SELECT * FROM items WHERE id = ANY(item_ids) ORDER BY id FOR UPDATE
+  LOOP
+    IF item_record.seller_id != p_seller_id OR NOT item_available_to(item_record, p_buyer_id) THEN
+      RAISE EXCEPTION 'Item is not available';
+    END IF;
+
+    IF item_record.currency != order_currency THEN
+      RAISE EXCEPTION 'Bundle items must be priced in one currency';
+    END IF;
+
+    item_count := item_count + 1;
+    subtotal_cents := subtotal_cents + to_cents(item_record.price);
+  END LOOP;
+
+  IF item_count = 0 OR item_count <> cardinality(item_ids) THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  -- The quote is for the asking price, the accepted offer or the seller's bundle price
+  IF p_bundle_lines IS NOT NULL THEN
+    SELECT * INTO seller_record FROM profiles WHERE id = p_seller_id;
+
+    bundle_percent := CASE WHEN item_count >= GREATEST(seller_record.bundle_min_items, 2)
+      THEN LEAST(GREATEST(seller_record.bundle_discount_percent, 0), 50)
+      ELSE 0
+    END;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_bundle_lines) AS line
+      JOIN items ON items.id = (line->>'item_id')::uuid
+      WHERE to_cents((line->>'list_price')::numeric) <> to_cents(items.price)
+      OR (line->>'price')::numeric NOT BETWEEN 0 AND (line->>'list_price')::numeric
+    ) OR to_cents(discount) <> floor((subtotal_cents * round(bundle_percent * 100) + 5000) / 10000) THEN
+      RAISE EXCEPTION 'Bundle lines do not match the bundle price';
+    END IF;
+
+    price_cents := subtotal_cents - to_cents(discount);
+  ELSIF p_offer_id IS NOT NULL THEN
+    offer_record := get_checkout_offer(p_offer_id, p_buyer_id, p_item_id);
+    price_cents := to_cents(offer_record.amount);
+  ELSE
+    price_cents := subtotal_cents;
+  END IF;
+
+  PERFORM check_order_quote(p_fee_breakdown, price_cents, order_currency);
+
+  BEGIN
+    -- Create order
+    INSERT INTO orders (
+      item_id, buyer_id, seller_id, total_amount, platform_fee, seller_amount, fee_breakdown, offer_id,
+      is_bundle, bundle_discount, currency, status
+    ) VALUES (
+      item_ids[1], p_buyer_id, p_seller_id, total_amount, platform_fee, seller_amount, p_fee_breakdown, p_offer_id,
+      p_bundle_lines IS NOT NULL, discount, order_currency, 'paid'
+    ) RETURNING id INTO order_id;
+
+    IF p_bundle_lines IS NOT NULL THEN
+      INSERT INTO order_items (order_id, item_id, list_price, price)
+      SELECT order_id, (line->>'item_id')::uuid, (line->>'list_price')::numeric, (line->>'price')::numeric
+      FROM jsonb_array_elements(p_bundle_lines) AS line;
+    END IF;
+
+    -- Update item status
+    UPDATE items
+    SET status = 'sold', reserved_by = NULL, reserved_until = NULL
+    WHERE id = ANY(item_ids);
+
+    -- Debit the buyer and hold the seller's proceeds in escrow
+    PERFORM post_order_payment(order_id);
+
+    RETURN json_build_object('order_id', order_id, 'currency', order_currency);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE EXCEPTION 'Payment processing failed: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS process_wallet_payment(uuid, uuid, uuid, decimal, decimal, decimal, jsonb, uuid, jsonb);
+
+-- Function to record dispute status changes, with the refund in the order's currency
+CREATE OR REPLACE FUNCTION log_dispute_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO dispute_status_history (
+      dispute_id,
+      previous_status,
+      new_status,
+      changed_by,
+      notes,
+      created_at
+    ) VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      CASE
+        WHEN NEW.status = 'resolved' AND NEW.resolution_outcome IS NOT NULL THEN
+          'Resolved with ' || replace(NEW.resolution_outcome, '_', ' ') ||
+          ' (refund ' || COALESCE(NEW.refund_amount, 0) || ' ' ||
+          (SELECT upper(currency) FROM orders WHERE id = NEW.order_id) || '): ' || COALESCE(NEW.resolution, '')
+        ELSE
+          'Status changed from ' || OLD.status || ' to ' || NEW.status
+      END,
+      now()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to notify buyers and sellers of order updates, sales quote the order's currency
+CREATE OR REPLACE FUNCTION notify_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  item_title text;
+  status_message text;
+  order_data jsonb;
+BEGIN
+  -- Orders are created pending or already paid, only a paid one is news
+  IF TG_OP = 'INSERT' AND NEW.status != 'paid' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO item_title FROM items WHERE id = NEW.item_id;
+  item_title := COALESCE(item_title, 'your item');
+
+  order_data := jsonb_build_object(
+    'order_id', NEW.id,
+    'item_id', NEW.item_id,
+    'status', NEW.status,
+    'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END
+  );
+
+  -- A paid order is a sale for the seller
+  IF NEW.status = 'paid' THEN
+    IF NEW.seller_id IS DISTINCT FROM auth.uid() THEN
+      PERFORM create_notification(
+        NEW.seller_id,
+        'item_sold',
+        'Item sold',
+        '"' || item_title || '" has been sold for ' || NEW.total_amount || ' ' || upper(NEW.currency) || '.',
+        jsonb_build_object('item_id', NEW.item_id, 'order_id', NEW.id, 'amount', NEW.total_amount)
+      );
+    END IF;
+  END IF;
+
+  status_message := CASE NEW.status
+    WHEN 'paid' THEN 'Payment for "' || item_title || '" was received.'
+    WHEN 'pickup_scheduled' THEN 'Pickup for "' || item_title || '" has been scheduled.'
+    WHEN 'picked_up' THEN '"' || item_title || '" has been picked up.'
+    WHEN 'delivery_scheduled' THEN 'Delivery for "' || item_title || '" has been scheduled.'
+    WHEN 'delivered' THEN '"' || item_title || '" has been delivered.'
+    WHEN 'completed' THEN 'The order for "' || item_title || '" is complete.'
+    WHEN 'cancelled' THEN 'The order for "' || item_title || '" was cancelled.'
+    WHEN 'refunded' THEN 'The order for "' || item_title || '" was refunded.'
+    WHEN 'disputed' THEN 'A dispute was opened for "' || item_title || '".'
+    ELSE 'The order for "' || item_title || '" is now ' || replace(NEW.status, '_', ' ') || '.'
+  END;
+
+  IF NEW.buyer_id IS DISTINCT FROM auth.uid() THEN
+    PERFORM create_notification(NEW.buyer_id, 'order_update', 'Order updated', status_message, order_data);
+  END IF;
+
+  -- The seller already got an item_sold notification for payment
+  IF NEW.status != 'paid' AND NEW.seller_id IS DISTINCT FROM auth.uid() THEN
+    PERFORM create_notification(NEW.seller_id, 'order_update', 'Order updated', status_message, order_data);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to tell watchers about a price drop in the item's currency
+CREATE OR REPLACE FUNCTION notify_price_drop()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status != 'active' OR NEW.price >= OLD.price THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    favorites.user_id,
+    'price_drop',
+    'Price drop',
+    '"' || NEW.title || '" dropped from ' || OLD.price || ' to ' || NEW.price || ' ' || upper(NEW.currency) || '.',
+    jsonb_build_object(
+      'item_id', NEW.id,
+      'old_price', OLD.price,
+      'new_price', NEW.price
+    )
+  )
+  FROM favorites
+  WHERE favorites.item_id = NEW.id
+  AND favorites.is_watching = true
+  AND favorites.user_id != NEW.seller_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Notify wallet owners when escrow is released or a payout settles, in the statement line's currency
+CREATE OR REPLACE FUNCTION notify_wallet_settlement()
+RETURNS TRIGGER AS $$
+DECLARE
+  notification_title text;
+  notification_message text;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.type = 'escrow_release' THEN
+    notification_title := 'Funds available';
+    notification_message := NEW.amount || ' ' || upper(NEW.currency) || ' has been released to your wallet.';
+  ELSIF TG_OP = 'UPDATE' AND NEW.type = 'payout' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'completed' THEN
+      notification_title := 'Payout sent';
+      notification_message := 'Your payout of ' || abs(NEW.amount) || ' ' || upper(NEW.currency) || ' is on its way to your bank.';
+    ELSIF NEW.status = 'failed' THEN
+      notification_title := 'Payout failed';
+      notification_message := 'Your payout of ' || abs(NEW.amount) || ' ' || upper(NEW.currency) || ' failed and was returned to your wallet.';
+    ELSE
+      RETURN NEW;
+    END IF;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_notification(
+    NEW.user_id,
+    'payment',
+    notification_title,
+    notification_message,
+    jsonb_build_object(
+      'transaction_id', NEW.id,
+      'transaction_type', NEW.type,
+      'amount', abs(NEW.amount),
+      'status', NEW.status,
+      'reference_id', NEW.reference_id,
+      'reference_type', NEW.reference_type
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to hold an order's escrow while the buyer's bank disputes the card payment, in the order's currency
+CREATE OR REPLACE FUNCTION open_chargeback_dispute(
+  p_payment_intent_id text,
+  p_stripe_dispute_id text,
+  p_amount_cents bigint,
+  p_reason text
+) RETURNS uuid AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  dispute_id uuid;
+  item_title text;
+BEGIN
+  SELECT id INTO dispute_id FROM disputes WHERE stripe_dispute_id = p_stripe_dispute_id;
+
+  IF FOUND THEN
+    RETURN dispute_id;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE payment_intent_id = p_payment_intent_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Keep the seller's proceeds in escrow until the chargeback is settled
+  IF order_record.status IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered') THEN
+    PERFORM transition_order_status(
+      order_record.id, 'disputed', 'Card payment disputed with the bank', 'admin'
+    );
+  END IF;
+
+  INSERT INTO disputes (
+    order_id, reporter_id, reported_id, type, description, priority, stripe_dispute_id
+  ) VALUES (
+    order_record.id,
+    order_record.buyer_id,
+    order_record.seller_id,
+    'payment_issue',
+    'The buyer''s bank opened a chargeback for ' || (p_amount_cents / 100.0) || ' ' || upper(order_record.currency) ||
+      ' (' || replace(COALESCE(p_reason, 'general'), '_', ' ') || ').',
+    'high',
+    p_stripe_dispute_id
+  ) RETURNING id INTO dispute_id;
+
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  PERFORM create_notification(
+    order_record.seller_id,
+    'dispute',
+    'Payment disputed',
+    'The buyer''s bank disputed the payment for "' || COALESCE(item_title, 'your order') ||
+      '". Your funds are held until the dispute is settled.',
+    jsonb_build_object('dispute_id', dispute_id, 'order_id', order_record.id)
+  );
+
+  RETURN dispute_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the buyer to offer a price for the item of a conversation, in the item's currency
+CREATE OR REPLACE FUNCTION make_offer(p_conversation_id uuid, p_amount decimal)
+RETURNS offers AS $$
+DECLARE
+  max_open_offers constant integer := 5;
+  conversation_record conversations%ROWTYPE;
+  item_record items%ROWTYPE;
+  new_offer offers%ROWTYPE;
+BEGIN
+  SELECT * INTO conversation_record FROM conversations WHERE id = p_conversation_id;
+
+  IF NOT FOUND OR conversation_record.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer can make an offer in this conversation';
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = conversation_record.item_id FOR UPDATE;
+
+  IF NOT FOUND OR item_record.status != 'active' THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount >= item_record.price THEN
+    RAISE EXCEPTION 'Offer must be more than 0 and less than the asking price of % %', item_record.price, upper(item_record.currency);
+  END IF;
+
+  PERFORM expire_offers();
+
+  -- One open negotiation per item, so the seller always answers the latest price
+  IF EXISTS (
+    SELECT 1 FROM offers
+    WHERE item_id = item_record.id
+    AND buyer_id = auth.uid()
+    AND (status = 'pending' OR (status = 'accepted' AND order_id IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'You already have an open offer on this item';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM offers
+    WHERE buyer_id = auth.uid()
+    AND (status = 'pending' OR (status = 'accepted' AND order_id IS NULL))
+  ) >= max_open_offers THEN
+    RAISE EXCEPTION 'You can have at most % open offers at a time', max_open_offers;
+  END IF;
+
+  INSERT INTO offers (
+    conversation_id, item_id, buyer_id, seller_id, created_by, amount, expires_at
+  ) VALUES (
+    conversation_record.id,
+    item_record.id,
+    conversation_record.buyer_id,
+    item_record.seller_id,
+    auth.uid(),
+    round(p_amount, 2),
+    now() + interval '48 hours'
+  ) RETURNING * INTO new_offer;
+
+  PERFORM post_offer_message(new_offer, 'Offered ' || new_offer.amount || ' ' || upper(item_record.currency), 'offer');
+
+  RETURN new_offer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the seller to answer a buyer's offer with their own price, in the item's currency
+CREATE OR REPLACE FUNCTION counter_offer(p_offer_id uuid, p_amount decimal)
+RETURNS offers AS $$
+DECLARE
+  offer_record offers%ROWTYPE;
+  item_price decimal(10,2);
+  item_currency text;
+  new_offer offers%ROWTYPE;
+BEGIN
+  PERFORM expire_offers();
+
+  SELECT * INTO offer_record FROM offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR offer_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can counter this offer';
+  END IF;
+
+  IF offer_record.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot counter your own offer';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'Offer is % and can no longer be countered', offer_record.status;
+  END IF;
+
+  SELECT price, upper(currency) INTO item_price, item_currency FROM items WHERE id = offer_record.item_id AND status = 'active';
+
+  IF item_price IS NULL THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= offer_record.amount OR p_amount >= item_price THEN
+    RAISE EXCEPTION 'Counter-offer must be more than the offer of % % and less than the asking price of % %',
+      offer_record.amount, item_currency, item_price, item_currency;
+  END IF;
+
+  UPDATE offers
+  SET status = 'countered', responded_at = now()
+  WHERE id = offer_record.id;
+
+  INSERT INTO offers (
+    conversation_id, item_id, buyer_id, seller_id, created_by, parent_offer_id, amount, expires_at
+  ) VALUES (
+    offer_record.conversation_id,
+    offer_record.item_id,
+    offer_record.buyer_id,
+    offer_record.seller_id,
+    auth.uid(),
+    offer_record.id,
+    round(p_amount, 2),
+    now() + interval '48 hours'
+  ) RETURNING * INTO new_offer;
+
+  PERFORM post_offer_message(new_offer, 'Countered with ' || new_offer.amount || ' ' || item_currency, 'offer');
+
+  RETURN new_offer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the party who received an offer to accept or decline it, in the item's currency
+CREATE OR REPLACE FUNCTION respond_to_offer(p_offer_id uuid, p_accept boolean)
+RETURNS offers AS $$
+DECLARE
+  offer_record offers%ROWTYPE;
+  item_currency text;
+BEGIN
+  PERFORM expire_offers();
+
+  SELECT * INTO offer_record FROM offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() NOT IN (offer_record.buyer_id, offer_record.seller_id) THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF offer_record.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot respond to your own offer';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'Offer is % and can no longer be answered', offer_record.status;
+  END IF;
+
+  IF p_accept AND NOT EXISTS (SELECT 1 FROM items WHERE id = offer_record.item_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Item is not available';
+  END IF;
+
+  SELECT upper(currency) INTO item_currency FROM items WHERE id = offer_record.item_id;
+
+  UPDATE offers
+  SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = now(),
+    reserved_until = CASE WHEN p_accept THEN now() + interval '24 hours' END
+  WHERE id = offer_record.id
+  RETURNING * INTO offer_record;
+
+  PERFORM post_offer_message(
+    offer_record,
+    CASE
+      WHEN p_accept THEN 'Offer of ' || offer_record.amount || ' ' || item_currency || ' accepted. The buyer has 24 hours to check out at this price.'
+      ELSE 'Offer of ' || offer_record.amount || ' ' || item_currency || ' declined.'
+    END,
+    'system'
+  );
+
+  RETURN offer_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS get_ledger_stripe_movements(timestamptz, timestamptz);
+
+-- Every movement of the platform's Stripe balance the ledger knows about (admin only)
+CREATE OR REPLACE FUNCTION get_ledger_stripe_movements(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  entry_id uuid,
+  entry_type text,
+  external_id text,
+  reference_id text,
+  amount_cents bigint,
+  currency text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the ledger';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, e.entry_type, e.external_id, e.reference_id, l.amount_cents, a.currency, e.created_at
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE a.kind = 'stripe_clearing'
+  AND e.created_at >= p_from
+  AND e.created_at < p_to
+  ORDER BY e.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Internal consistency of the ledger and the balance caches, per currency (admin only)
+CREATE OR REPLACE FUNCTION get_ledger_health()
+RETURNS json AS $$
+DECLARE
+  unbalanced_count integer;
+  trial_balance json;
+  wallet_drift json;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the ledger';
+  END IF;
+
+  SELECT count(DISTINCT entry_id) INTO unbalanced_count
+  FROM (
+    SELECT e.id AS entry_id
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    LEFT JOIN ledger_accounts a ON a.id = l.account_id
+    GROUP BY e.id, a.currency
+    HAVING COALESCE(SUM(l.amount_cents), 0) != 0
+    UNION ALL
+    SELECT e.id
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    GROUP BY e.id
+    HAVING count(l.id) < 2
+  ) AS unbalanced;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'kind', kind,
+    'currency', currency,
+    'balance_cents', balance_cents
+  ) ORDER BY currency, kind), '[]'::json)
+  INTO trial_balance
+  FROM (
+    SELECT a.kind, a.currency, COALESCE(SUM(l.amount_cents), 0) AS balance_cents
+    FROM ledger_accounts a
+    LEFT JOIN ledger_lines l ON l.account_id = a.id
+    GROUP BY a.kind, a.currency
+  ) AS balances;
+
+  -- Both caches are checked: the balance per currency and the wallet row mirroring its payout currency
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', drift.user_id,
+    'currency', drift.currency,
+    'available_balance', drift.available_balance,
+    'pending_balance', drift.pending_balance,
+    'ledger_available_cents', drift.available_cents,
+    'ledger_escrow_cents', drift.escrow_cents
+  )), '[]'::json)
+  INTO wallet_drift
+  FROM (
+    SELECT wb.user_id, wb.currency, wb.available_balance, wb.pending_balance, b.available_cents, b.escrow_cents
+    FROM wallet_balances wb
+    CROSS JOIN LATERAL ledger_wallet_balance(wb.user_id, wb.currency) AS b
+    WHERE to_cents(wb.available_balance) != b.available_cents
+    OR to_cents(wb.pending_balance) != b.escrow_cents
+    UNION ALL
+    SELECT w.user_id, w.currency, w.available_balance, w.pending_balance, b.available_cents, b.escrow_cents
+    FROM wallets w
+    CROSS JOIN LATERAL ledger_wallet_balance(w.user_id, w.currency) AS b
+    WHERE to_cents(w.available_balance) != b.available_cents
+    OR to_cents(w.pending_balance) != b.escrow_cents
+  ) AS drift;
+
+  RETURN json_build_object(
+    'unbalanced_entries', unbalanced_count,
+    'trial_balance', trial_balance,
+    'wallet_drift', wallet_drift
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION ledger_account(text, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_line(text, uuid, bigint, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_wallet_balance(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_wallet(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_journal_entry(text, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_order_quote(jsonb, bigint, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_wallet_payment(uuid, uuid, uuid, jsonb, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Refresh exchange rates daily (requires pg_cron and pg_net), the project URL and service role key
+-- come from Vault like the webhook dispatcher's
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+  AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule('exchange-rates', '0 6 * * *', $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/exchange-rates',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+    $job$);
+  END IF;
+END $$;
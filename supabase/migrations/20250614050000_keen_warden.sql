@@ -0,0 +1,1362 @@
+/*
+  # Admin Roles and Permissions
+
+  1. New Tables
+    - `admin_roles` - Roles an admin can hold: super admin, support agent, finance and moderator
+    - `admin_permissions` - Everything the admin panel and admin APIs gate on
+    - `admin_role_permissions` - Permissions granted to each role
+    - `admin_audit_log` - Every action taken with admin rights, who took it and with which role
+
+  2. Schema Updates
+    - `platform_admins.role` - The admin's role, existing admins become super admins
+    - `items.status` can be `flagged`, which hides a listing until a moderator approves or removes it
+
+  3. Functions
+    - `user_has_admin_permission()` and `has_admin_permission()` - Whether an admin's role grants a permission,
+      super admins hold every permission
+    - `get_admin_access()` - The current user's role and permissions, for the admin panel
+    - `log_admin_action()` - Writes an entry to the audit log
+    - `set_admin_role()` and `remove_admin()` - Manage the admin team, keeping at least one super admin
+    - `moderate_item()` - Approve, flag or remove a listing
+    - Settings, disputes, refunds, order status changes, rider keys, webhook replays and ledger reports
+      check for their permission instead of any admin, and write to the audit log
+
+  4. Security
+    - Admin read policies check the permission for the data instead of any admin role
+    - Support agents handle orders and disputes but do not see settings, payouts or the ledger
+    - Only super admins can view the audit log, and it is written through functions only
+*/
+
+-- Create admin_roles table
+CREATE TABLE IF NOT EXISTS admin_roles (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create admin_permissions table
+CREATE TABLE IF NOT EXISTS admin_permissions (
+  key text PRIMARY KEY,
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create admin_role_permissions table
+CREATE TABLE IF NOT EXISTS admin_role_permissions (
+  role text NOT NULL REFERENCES admin_roles(key) ON DELETE CASCADE,
+  permission text NOT NULL REFERENCES admin_permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+-- Create admin_audit_log table
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_role text,
+  action text NOT NULL,
+  target_type text NOT NULL,
+  target_id text,
+  details jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO admin_roles (key, name, description) VALUES
+  ('super_admin', 'Super Admin', 'Full access, including the admin team and the audit log'),
+  ('support', 'Support Agent', 'Helps users with their orders and handles disputes'),
+  ('finance', 'Finance', 'Payments, refunds, fees, payouts and the ledger'),
+  ('moderator', 'Moderator', 'Reviews users and listings')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO admin_permissions (key, description) VALUES
+  ('dashboard.view', 'View the admin dashboard'),
+  ('users.view', 'View users'),
+  ('users.manage', 'Suspend, reactivate and delete users'),
+  ('items.view', 'View all listings, including removed ones'),
+  ('items.moderate', 'Approve, flag and remove listings'),
+  ('orders.view', 'View all orders, payments, refunds and deliveries'),
+  ('orders.manage', 'Change order status'),
+  ('orders.refund', 'Refund orders'),
+  ('disputes.view', 'View disputes and their evidence'),
+  ('disputes.manage', 'Assign, prioritise and resolve disputes'),
+  ('finance.view', 'View the ledger, reconciliation, wallet balances and Stripe events'),
+  ('analytics.view', 'View platform analytics'),
+  ('settings.view', 'View platform settings, including payout settings'),
+  ('settings.manage', 'Change and roll back platform settings'),
+  ('fee_rules.manage', 'Create, change and delete fee rules'),
+  ('integrations.manage', 'Manage rider API keys and webhook endpoints'),
+  ('admins.manage', 'Add and remove admins and change their roles'),
+  ('audit.view', 'View the admin audit log')
+ON CONFLICT (key) DO NOTHING;
+
+-- Super admins hold every permission without rows of their own
+INSERT INTO admin_role_permissions (role, permission) VALUES
+  ('support', 'dashboard.view'),
+  ('support', 'users.view'),
+  ('support', 'users.manage'),
+  ('support', 'items.view'),
+  ('support', 'orders.view'),
+  ('support', 'orders.manage'),
+  ('support', 'orders.refund'),
+  ('support', 'disputes.view'),
+  ('support', 'disputes.manage'),
+  ('finance', 'dashboard.view'),
+  ('finance', 'orders.view'),
+  ('finance', 'orders.refund'),
+  ('finance', 'disputes.view'),
+  ('finance', 'finance.view'),
+  ('finance', 'analytics.view'),
+  ('finance', 'settings.view'),
+  ('finance', 'fee_rules.manage'),
+  ('moderator', 'dashboard.view'),
+  ('moderator', 'users.view'),
+  ('moderator', 'items.view'),
+  ('moderator', 'items.moderate')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Admins added before roles keep full access
+ALTER TABLE platform_admins ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'super_admin' REFERENCES admin_roles(key);
+
+-- Enable RLS
+ALTER TABLE admin_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Function to check whether a user's admin role grants a permission
+CREATE OR REPLACE FUNCTION user_has_admin_permission(p_user_id uuid, p_permission text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM platform_admins pa
+    LEFT JOIN admin_role_permissions rp ON rp.role = pa.role AND rp.permission = p_permission
+    WHERE pa.user_id = p_user_id
+    AND (pa.role = 'super_admin' OR rp.permission IS NOT NULL)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to check whether the current user's admin role grants a permission
+CREATE OR REPLACE FUNCTION has_admin_permission(p_permission text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN user_has_admin_permission(auth.uid(), p_permission);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to get the current user's admin role and permissions, null for everyone else
+CREATE OR REPLACE FUNCTION get_admin_access()
+RETURNS json AS $$
+DECLARE
+  admin_role text;
+BEGIN
+  SELECT role INTO admin_role FROM platform_admins WHERE user_id = auth.uid();
+
+  IF admin_role IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'role', admin_role,
+    'permissions', COALESCE((
+      SELECT json_agg(p.key ORDER BY p.key)
+      FROM admin_permissions p
+      WHERE admin_role = 'super_admin'
+      OR EXISTS (SELECT 1 FROM admin_role_permissions rp WHERE rp.role = admin_role AND rp.permission = p.key)
+    ), '[]'::json)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to write an action taken with admin rights to the audit log
+CREATE OR REPLACE FUNCTION log_admin_action(
+  p_action text,
+  p_target_type text,
+  p_target_id text,
+  p_details jsonb DEFAULT '{}'
+) RETURNS void AS $$
+BEGIN
+  INSERT INTO admin_audit_log (actor_id, actor_role, action, target_type, target_id, details)
+  VALUES (
+    auth.uid(),
+    (SELECT role FROM platform_admins WHERE user_id = auth.uid()),
+    p_action,
+    p_target_type,
+    p_target_id,
+    COALESCE(p_details, '{}')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS Policies for admin_roles
+CREATE POLICY "Admins can view admin roles"
+  ON admin_roles
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for admin_permissions
+CREATE POLICY "Admins can view admin permissions"
+  ON admin_permissions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for admin_role_permissions
+CREATE POLICY "Admins can view role permissions"
+  ON admin_role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- RLS Policies for admin_audit_log
+CREATE POLICY "Admins can view the audit log"
+  ON admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('audit.view'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_admin_role_permissions_permission ON admin_role_permissions(permission);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor_id ON admin_audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id);
+
+-- Admin policies for settings need the settings.view permission
+DROP POLICY IF EXISTS "Admins can view all settings" ON platform_settings;
+DROP POLICY IF EXISTS "Admins can view settings audit trail" ON platform_settings_audit;
+
+CREATE POLICY "Admins can view all settings"
+  ON platform_settings
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('settings.view'));
+
+CREATE POLICY "Admins can view settings audit trail"
+  ON platform_settings_audit
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('settings.view'));
+
+-- Admin policies for disputes need the disputes.view permission
+DROP POLICY IF EXISTS "Admins can view all disputes" ON disputes;
+DROP POLICY IF EXISTS "Admins can view all dispute evidence" ON dispute_evidence;
+DROP POLICY IF EXISTS "Admins can view all dispute messages" ON dispute_messages;
+DROP POLICY IF EXISTS "Admins can view all dispute status history" ON dispute_status_history;
+
+CREATE POLICY "Admins can view all disputes"
+  ON disputes
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('disputes.view'));
+
+CREATE POLICY "Admins can view all dispute evidence"
+  ON dispute_evidence
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('disputes.view'));
+
+CREATE POLICY "Admins can view all dispute messages"
+  ON dispute_messages
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('disputes.view'));
+
+CREATE POLICY "Admins can view all dispute status history"
+  ON dispute_status_history
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('disputes.view'));
+
+-- Admin policies for orders, payments and deliveries need the orders.view permission
+DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
+DROP POLICY IF EXISTS "Admins can view all order items" ON order_items;
+DROP POLICY IF EXISTS "Admins can view all order history" ON order_history;
+DROP POLICY IF EXISTS "Admins can view all refunds" ON refunds;
+DROP POLICY IF EXISTS "Admins can view all payment intents" ON payment_intents;
+DROP POLICY IF EXISTS "Admins can view all offers" ON offers;
+DROP POLICY IF EXISTS "Admins can view all delivery schedules" ON delivery_schedules;
+DROP POLICY IF EXISTS "Admins can view all QR codes" ON delivery_qr_codes;
+
+CREATE POLICY "Admins can view all orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all order items"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all order history"
+  ON order_history
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all payment intents"
+  ON payment_intents
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all offers"
+  ON offers
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all delivery schedules"
+  ON delivery_schedules
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+CREATE POLICY "Admins can view all QR codes"
+  ON delivery_qr_codes
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('orders.view'));
+
+-- Admin policies for items need the items.view permission
+DROP POLICY IF EXISTS "Admins can view all items" ON items;
+
+CREATE POLICY "Admins can view all items"
+  ON items
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('items.view'));
+
+-- Admin policies for favorites need the users.view permission
+DROP POLICY IF EXISTS "Admins can view all favorites" ON favorites;
+
+CREATE POLICY "Admins can view all favorites"
+  ON favorites
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('users.view'));
+
+-- Admin policies for fee rules need the fee_rules.manage permission
+DROP POLICY IF EXISTS "Admins can view all fee rules" ON fee_rules;
+DROP POLICY IF EXISTS "Admins can create fee rules" ON fee_rules;
+DROP POLICY IF EXISTS "Admins can update fee rules" ON fee_rules;
+DROP POLICY IF EXISTS "Admins can delete fee rules" ON fee_rules;
+
+CREATE POLICY "Admins can view all fee rules"
+  ON fee_rules
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('fee_rules.manage'));
+
+CREATE POLICY "Admins can create fee rules"
+  ON fee_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('fee_rules.manage'));
+
+CREATE POLICY "Admins can update fee rules"
+  ON fee_rules
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('fee_rules.manage'))
+  WITH CHECK (has_admin_permission('fee_rules.manage'));
+
+CREATE POLICY "Admins can delete fee rules"
+  ON fee_rules
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('fee_rules.manage'));
+
+-- Admin policies for riders and webhooks need the integrations.manage permission
+DROP POLICY IF EXISTS "Admins can view all riders" ON riders;
+DROP POLICY IF EXISTS "Admins can view webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can create webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can update webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can delete webhook endpoints" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Admins can view webhook deliveries" ON webhook_deliveries;
+
+CREATE POLICY "Admins can view all riders"
+  ON riders
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('integrations.manage'));
+
+CREATE POLICY "Admins can view webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('integrations.manage'));
+
+CREATE POLICY "Admins can create webhook endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_permission('integrations.manage'));
+
+CREATE POLICY "Admins can update webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO authenticated
+  USING (has_admin_permission('integrations.manage'))
+  WITH CHECK (has_admin_permission('integrations.manage'));
+
+CREATE POLICY "Admins can delete webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO authenticated
+  USING (has_admin_permission('integrations.manage'));
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('integrations.manage'));
+
+-- Admin policies for the ledger and Stripe need the finance.view permission
+DROP POLICY IF EXISTS "Admins can view all ledger accounts" ON ledger_accounts;
+DROP POLICY IF EXISTS "Admins can view all ledger entries" ON ledger_entries;
+DROP POLICY IF EXISTS "Admins can view all ledger lines" ON ledger_lines;
+DROP POLICY IF EXISTS "Admins can view all wallet balances" ON wallet_balances;
+DROP POLICY IF EXISTS "Admins can view stripe events" ON stripe_events;
+
+CREATE POLICY "Admins can view all ledger accounts"
+  ON ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('finance.view'));
+
+CREATE POLICY "Admins can view all ledger entries"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('finance.view'));
+
+CREATE POLICY "Admins can view all ledger lines"
+  ON ledger_lines
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('finance.view'));
+
+CREATE POLICY "Admins can view all wallet balances"
+  ON wallet_balances
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('finance.view'));
+
+CREATE POLICY "Admins can view stripe events"
+  ON stripe_events
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('finance.view'));
+
+-- Function to apply a batch of setting changes as one new version
+CREATE OR REPLACE FUNCTION update_platform_settings(
+  p_settings jsonb,
+  p_notes text DEFAULT NULL
+) RETURNS bigint AS $$
+DECLARE
+  new_version bigint;
+  setting record;
+  current_value jsonb;
+  secret boolean;
+BEGIN
+  IF NOT has_admin_permission('settings.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot change platform settings';
+  END IF;
+
+  new_version := nextval('platform_settings_version_seq');
+
+  FOR setting IN SELECT * FROM jsonb_each(p_settings) LOOP
+    SELECT value, is_secret INTO current_value, secret FROM platform_settings WHERE key = setting.key;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown platform setting: %', setting.key;
+    END IF;
+
+    IF current_value IS DISTINCT FROM setting.value THEN
+      UPDATE platform_settings
+      SET
+        value = setting.value,
+        version = new_version,
+        updated_by = auth.uid(),
+        updated_at = now()
+      WHERE key = setting.key;
+
+      -- Secret values are only recorded as changed
+      INSERT INTO platform_settings_audit (
+        version, key, previous_value, new_value, changed_by, notes
+      ) VALUES (
+        new_version, setting.key,
+        CASE WHEN secret THEN NULL ELSE current_value END,
+        CASE WHEN secret THEN NULL ELSE setting.value END,
+        auth.uid(), p_notes
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM log_admin_action(
+    'settings.update', 'platform_settings', new_version::text,
+    jsonb_build_object('keys', (SELECT jsonb_agg(key) FROM jsonb_object_keys(p_settings) AS key), 'notes', p_notes)
+  );
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record the resolution an admin chose before the buyer is refunded
+CREATE OR REPLACE FUNCTION begin_dispute_resolution(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal
+) RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('disputes.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot resolve disputes';
+  END IF;
+
+  UPDATE disputes
+  SET
+    pending_outcome = p_outcome,
+    pending_resolution = p_resolution,
+    pending_refund_amount = p_refund_amount,
+    pending_by = auth.uid(),
+    updated_at = now()
+  WHERE id = p_dispute_id AND status NOT IN ('resolved', 'closed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found or already settled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to settle a dispute and move the funds held in escrow
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_resolution text,
+  p_refund_amount decimal DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL
+) RETURNS json AS $$
+DECLARE
+  dispute_record disputes%ROWTYPE;
+  order_record orders%ROWTYPE;
+  remaining_amount decimal(10,2);
+  buyer_refund decimal(10,2);
+  seller_release decimal(10,2);
+  new_order_status text;
+  item_title text;
+  outcome_message text;
+BEGIN
+  -- The Stripe webhook settles disputes whose refund went through but were never resolved
+  IF NOT (auth.role() = 'service_role' OR has_admin_permission('disputes.manage')) THEN
+    RAISE EXCEPTION 'Your admin role cannot resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute_record FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  -- The app and the Stripe webhook can both settle the same refund, the later one gets the earlier result
+  IF dispute_record.status = 'resolved' AND p_stripe_refund_id IS NOT NULL AND dispute_record.stripe_refund_id = p_stripe_refund_id THEN
+    RETURN json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', dispute_record.order_id,
+      'outcome', dispute_record.resolution_outcome,
+      'refund_amount', dispute_record.refund_amount,
+      'seller_amount_released', dispute_record.seller_amount_released,
+      'order_status', (SELECT status FROM orders WHERE id = dispute_record.order_id)
+    );
+  END IF;
+
+  IF dispute_record.status IN ('resolved', 'closed') THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute_record.status;
+  END IF;
+
+  SELECT * INTO order_record FROM orders WHERE id = dispute_record.order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Funds are only still in escrow while the order is disputed
+  IF order_record.status != 'disputed' THEN
+    RAISE EXCEPTION 'Order is % and no longer holds funds in escrow', order_record.status;
+  END IF;
+
+  -- Outcomes apply to whatever has not been refunded already
+  remaining_amount := order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+
+  CASE p_outcome
+    WHEN 'full_refund' THEN
+      buyer_refund := remaining_amount;
+    WHEN 'release_to_seller' THEN
+      buyer_refund := 0;
+    WHEN 'split' THEN
+      buyer_refund := round(remaining_amount / 2, 2);
+    WHEN 'partial_refund' THEN
+      buyer_refund := p_refund_amount;
+      IF buyer_refund IS NULL OR buyer_refund <= 0 OR buyer_refund >= remaining_amount THEN
+        RAISE EXCEPTION 'Partial refund must be between 0 and %', remaining_amount;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown dispute outcome: %', p_outcome;
+  END CASE;
+
+  IF p_refund_amount IS NOT NULL AND p_refund_amount != buyer_refund THEN
+    RAISE EXCEPTION 'Refund amount % does not match outcome % (expected %)', p_refund_amount, p_outcome, buyer_refund;
+  END IF;
+
+  IF buyer_refund > 0 THEN
+    PERFORM record_order_refund(
+      order_record.id, buyer_refund, 'dispute-' || p_dispute_id,
+      'Dispute resolved with ' || replace(p_outcome, '_', ' '), p_stripe_refund_id
+    );
+  END IF;
+
+  -- The seller receives whatever is left of their proceeds
+  seller_release := COALESCE(order_record.seller_amount, 0) - COALESCE((
+    SELECT SUM(seller_amount_reversed) FROM refunds WHERE order_id = order_record.id
+  ), 0);
+
+  IF seller_release > 0 THEN
+    PERFORM post_escrow_release(order_record.id, seller_release, 'Dispute resolved - funds released');
+  END IF;
+
+  new_order_status := CASE WHEN p_outcome = 'full_refund' THEN 'refunded' ELSE 'completed' END;
+
+  UPDATE orders SET status = new_order_status, updated_at = now() WHERE id = order_record.id;
+
+  UPDATE disputes
+  SET
+    status = 'resolved',
+    resolution = p_resolution,
+    resolution_outcome = p_outcome,
+    refund_amount = buyer_refund,
+    seller_amount_released = seller_release,
+    stripe_refund_id = p_stripe_refund_id,
+    resolved_at = now(),
+    resolved_by = COALESCE(auth.uid(), dispute_record.pending_by),
+    pending_outcome = NULL,
+    pending_resolution = NULL,
+    pending_refund_amount = NULL,
+    pending_by = NULL,
+    updated_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO dispute_messages (dispute_id, sender_id, content, is_admin_message)
+  VALUES (p_dispute_id, COALESCE(auth.uid(), dispute_record.pending_by), 'This dispute has been resolved: ' || p_resolution, true);
+
+  -- Notify both parties
+  SELECT title INTO item_title FROM items WHERE id = order_record.item_id;
+
+  outcome_message := CASE
+    WHEN buyer_refund > 0 THEN 'A refund of ' || buyer_refund || ' ' || upper(order_record.currency) || ' has been issued to the buyer.'
+    ELSE 'The payment has been released to the seller.'
+  END;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  SELECT
+    party.user_id,
+    'dispute',
+    'Dispute resolved',
+    'The dispute for "' || COALESCE(item_title, 'your order') || '" has been resolved. ' || outcome_message,
+    json_build_object(
+      'dispute_id', p_dispute_id,
+      'order_id', order_record.id,
+      'outcome', p_outcome,
+      'refund_amount', buyer_refund
+    )
+  FROM (VALUES (order_record.buyer_id), (order_record.seller_id)) AS party(user_id);
+
+  PERFORM log_admin_action(
+    'dispute.resolve', 'dispute', p_dispute_id::text,
+    jsonb_build_object(
+      'order_id', order_record.id,
+      'outcome', p_outcome,
+      'refund_amount', buyer_refund,
+      'seller_amount_released', seller_release,
+      'currency', order_record.currency
+    )
+  );
+
+  RETURN json_build_object(
+    'dispute_id', p_dispute_id,
+    'order_id', order_record.id,
+    'outcome', p_outcome,
+    'refund_amount', buyer_refund,
+    'seller_amount_released', seller_release,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to assign a dispute to an admin
+CREATE OR REPLACE FUNCTION assign_dispute(p_dispute_id uuid, p_admin_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('disputes.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot assign disputes';
+  END IF;
+
+  IF NOT user_has_admin_permission(p_admin_id, 'disputes.manage') THEN
+    RAISE EXCEPTION 'Disputes can only be assigned to admins who can handle them';
+  END IF;
+
+  -- Picking up an open dispute starts the investigation
+  UPDATE disputes
+  SET
+    assigned_to = p_admin_id,
+    status = CASE WHEN status = 'open' THEN 'investigating' ELSE status END,
+    updated_at = now()
+  WHERE id = p_dispute_id AND status NOT IN ('resolved', 'closed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found or already settled';
+  END IF;
+
+  PERFORM log_admin_action('dispute.assign', 'dispute', p_dispute_id::text, jsonb_build_object('assigned_to', p_admin_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to change the priority of a dispute
+CREATE OR REPLACE FUNCTION set_dispute_priority(p_dispute_id uuid, p_priority text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('disputes.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot change dispute priority';
+  END IF;
+
+  UPDATE disputes
+  SET priority = p_priority, updated_at = now()
+  WHERE id = p_dispute_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  PERFORM log_admin_action('dispute.priority', 'dispute', p_dispute_id::text, jsonb_build_object('priority', p_priority));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accept refunds recorded by the Stripe webhook, and book each Stripe refund once in the order's currency
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount decimal,
+  p_idempotency_key text,
+  p_reason text DEFAULT NULL,
+  p_stripe_refund_id text DEFAULT NULL,
+  p_cancel boolean DEFAULT false
+) RETURNS json AS $$
+DECLARE
+  order_record orders%ROWTYPE;
+  existing_refund refunds%ROWTYPE;
+  refund_id uuid;
+  entry_id uuid;
+  refund_method text;
+  seller_reversal decimal(10,2);
+  already_reversed decimal(10,2);
+  new_refunded_amount decimal(10,2);
+  new_order_status text;
+  refund_notes text;
+BEGIN
+  SELECT * INTO order_record FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Sellers and admins who handle refunds may refund, buyers only by cancelling an order that has not shipped (or retrying that cancellation),
+  -- and the Stripe webhook books refunds made in the Stripe dashboard
+  IF NOT (
+    auth.role() = 'service_role' OR
+    has_admin_permission('orders.refund') OR
+    order_record.seller_id = auth.uid() OR
+    (order_record.buyer_id = auth.uid() AND p_cancel AND order_record.status IN ('paid', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to refund this order';
+  END IF;
+
+  -- A retried request, or a refund the webhook already booked, returns the refund that was recorded
+  SELECT * INTO existing_refund
+  FROM refunds
+  WHERE order_id = order_record.id
+  AND (idempotency_key = p_idempotency_key OR (p_stripe_refund_id IS NOT NULL AND stripe_refund_id = p_stripe_refund_id))
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN json_build_object(
+      'refund_id', existing_refund.id,
+      'order_id', existing_refund.order_id,
+      'amount', existing_refund.amount,
+      'currency', order_record.currency,
+      'method', existing_refund.method,
+      'refunded_amount', order_record.refunded_amount,
+      'order_status', order_record.status
+    );
+  END IF;
+
+  -- Funds are only still in escrow until the order completes
+  IF order_record.status NOT IN ('paid', 'pickup_scheduled', 'picked_up', 'delivery_scheduled', 'delivered', 'disputed') THEN
+    RAISE EXCEPTION 'Order is % and can no longer be refunded', order_record.status;
+  END IF;
+
+  IF p_cancel AND order_record.status != 'paid' THEN
+    RAISE EXCEPTION 'Order cannot be cancelled at this stage';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than 0';
+  END IF;
+
+  new_refunded_amount := COALESCE(order_record.refunded_amount, 0) + p_amount;
+
+  IF new_refunded_amount > order_record.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the remaining order amount of %',
+      order_record.total_amount - COALESCE(order_record.refunded_amount, 0);
+  END IF;
+
+  IF p_cancel AND new_refunded_amount != order_record.total_amount THEN
+    RAISE EXCEPTION 'Cancelled orders must be refunded in full';
+  END IF;
+
+  refund_method := CASE WHEN order_record.payment_intent_id IS NULL THEN 'wallet' ELSE 'card' END;
+
+  -- Card payments are refunded through Stripe before they are recorded here
+  IF refund_method = 'card' AND p_stripe_refund_id IS NULL THEN
+    RAISE EXCEPTION 'A Stripe refund is required for card payments';
+  END IF;
+
+  -- The seller gives up the same share of their proceeds as the buyer gets back,
+  -- the last refund takes whatever rounding left in escrow
+  IF new_refunded_amount = order_record.total_amount THEN
+    SELECT COALESCE(SUM(seller_amount_reversed), 0) INTO already_reversed
+    FROM refunds
+    WHERE order_id = order_record.id;
+
+    seller_reversal := COALESCE(order_record.seller_amount, 0) - already_reversed;
+  ELSE
+    seller_reversal := round(COALESCE(order_record.seller_amount, 0) * p_amount / order_record.total_amount, 2);
+  END IF;
+
+  INSERT INTO refunds (
+    order_id, amount, seller_amount_reversed, method, reason,
+    idempotency_key, payment_intent_id, stripe_refund_id, requested_by
+  ) VALUES (
+    order_record.id, p_amount, seller_reversal, refund_method, p_reason,
+    p_idempotency_key, order_record.payment_intent_id, p_stripe_refund_id, auth.uid()
+  ) RETURNING id INTO refund_id;
+
+  -- The platform returns its share of the fees along with the seller's escrow
+  entry_id := post_journal_entry(
+    'order_refund', 'Order refund', 'refund', refund_id::text, p_stripe_refund_id,
+    jsonb_build_array(
+      ledger_line('user_escrow', order_record.seller_id, to_cents(seller_reversal), order_record.currency),
+      ledger_line('platform_fees', NULL, to_cents(p_amount) - to_cents(seller_reversal), order_record.currency),
+      CASE WHEN refund_method = 'wallet'
+        THEN ledger_line('user_available', order_record.buyer_id, -to_cents(p_amount), order_record.currency)
+        ELSE ledger_line('stripe_clearing', NULL, -to_cents(p_amount), order_record.currency)
+      END
+    )
+  );
+
+  IF seller_reversal > 0 THEN
+    PERFORM add_wallet_statement(
+      order_record.seller_id, entry_id, 'escrow_reversal', -seller_reversal,
+      'Order refunded - escrow returned to buyer', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  IF refund_method = 'wallet' THEN
+    PERFORM add_wallet_statement(
+      order_record.buyer_id, entry_id, 'refund', p_amount,
+      'Order refund', order_record.id::text, 'refund'
+    );
+  END IF;
+
+  new_order_status := CASE
+    WHEN p_cancel THEN 'cancelled'
+    WHEN new_refunded_amount = order_record.total_amount THEN 'refunded'
+    ELSE order_record.status
+  END;
+
+  refund_notes := p_amount || ' ' || upper(order_record.currency) || ' refunded to ' || refund_method ||
+    CASE WHEN p_reason IS NOT NULL THEN ': ' || p_reason ELSE '' END;
+
+  -- The status change is logged with the refund as its note
+  PERFORM set_config('app.order_notes', refund_notes, true);
+
+  UPDATE orders
+  SET
+    refunded_amount = new_refunded_amount,
+    status = new_order_status,
+    updated_at = now()
+  WHERE id = order_record.id;
+
+  PERFORM set_config('app.order_notes', '', true);
+
+  -- A cancelled sale goes back on the market
+  IF p_cancel THEN
+    UPDATE items SET status = 'active', updated_at = now() WHERE id = order_record.item_id AND status = 'sold';
+  END IF;
+
+  -- A refund that leaves the status as it is gets no entry from log_order_status_change()
+  IF new_order_status = order_record.status THEN
+    INSERT INTO order_history (order_id, action, notes, created_by)
+    VALUES (order_record.id, 'partially_refunded', refund_notes, auth.uid());
+  END IF;
+
+  -- Refunds by the buyer, the seller or the webhook are not admin actions
+  IF auth.uid() NOT IN (order_record.buyer_id, order_record.seller_id) AND has_admin_permission('orders.refund') THEN
+    PERFORM log_admin_action(
+      'order.refund', 'order', order_record.id::text,
+      jsonb_build_object('refund_id', refund_id, 'amount', p_amount, 'currency', order_record.currency, 'reason', p_reason)
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'refund_id', refund_id,
+    'order_id', order_record.id,
+    'amount', p_amount,
+    'currency', order_record.currency,
+    'method', refund_method,
+    'refunded_amount', new_refunded_amount,
+    'order_status', new_order_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to list the roles the current caller holds on an order
+CREATE OR REPLACE FUNCTION order_actors(p_order orders)
+RETURNS text[] AS $$
+DECLARE
+  actors text[] := '{}';
+  declared_actor text;
+BEGIN
+  -- Service role and scheduled jobs act as the system, and may declare
+  -- who they act for through transition_order_status
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    declared_actor := NULLIF(current_setting('app.order_actor', true), '');
+    IF declared_actor IS NOT NULL THEN
+      actors := array_append(actors, declared_actor);
+    END IF;
+    RETURN array_append(actors, 'system');
+  END IF;
+
+  IF auth.uid() = p_order.buyer_id THEN
+    actors := array_append(actors, 'buyer');
+  END IF;
+
+  IF auth.uid() = p_order.seller_id THEN
+    actors := array_append(actors, 'seller');
+  END IF;
+
+  IF auth.uid() = p_order.rider_id THEN
+    actors := array_append(actors, 'rider');
+  END IF;
+
+  IF has_admin_permission('orders.manage') THEN
+    actors := array_append(actors, 'admin');
+  END IF;
+
+  RETURN actors;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to replace a rider's API key, the old key stops working immediately
+CREATE OR REPLACE FUNCTION rotate_rider_api_key(p_rider_id uuid)
+RETURNS json AS $$
+DECLARE
+  api_key text;
+BEGIN
+  IF NOT has_admin_permission('integrations.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot rotate rider API keys';
+  END IF;
+
+  api_key := generate_rider_api_key();
+
+  UPDATE riders
+  SET
+    api_key_hash = encode(digest(api_key, 'sha256'), 'hex'),
+    api_key_prefix = left(api_key, 11),
+    api_key_created_at = now(),
+    api_key_revoked_at = NULL,
+    last_used_at = NULL,
+    updated_at = now()
+  WHERE id = p_rider_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  PERFORM log_admin_action('rider.rotate_api_key', 'rider', p_rider_id::text, jsonb_build_object('api_key_prefix', left(api_key, 11)));
+
+  RETURN json_build_object(
+    'rider_id', p_rider_id,
+    'api_key', api_key
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to disable a rider's API key
+CREATE OR REPLACE FUNCTION revoke_rider_api_key(p_rider_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('integrations.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot revoke rider API keys';
+  END IF;
+
+  UPDATE riders
+  SET
+    api_key_revoked_at = now(),
+    updated_at = now()
+  WHERE id = p_rider_id
+  AND api_key_revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found or key already revoked';
+  END IF;
+
+  PERFORM log_admin_action('rider.revoke_api_key', 'rider', p_rider_id::text);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to change what a rider's API key may do
+CREATE OR REPLACE FUNCTION set_rider_api_key_scopes(p_rider_id uuid, p_scopes text[])
+RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('integrations.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot change rider API key scopes';
+  END IF;
+
+  IF NOT ('deliveries:read' = ANY(p_scopes)) THEN
+    RAISE EXCEPTION 'Rider API keys always need the deliveries:read scope';
+  END IF;
+
+  UPDATE riders
+  SET
+    api_key_scopes = p_scopes,
+    updated_at = now()
+  WHERE id = p_rider_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rider not found';
+  END IF;
+
+  PERFORM log_admin_action('rider.set_api_key_scopes', 'rider', p_rider_id::text, jsonb_build_object('scopes', p_scopes));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Send a delivery again from the first attempt
+CREATE OR REPLACE FUNCTION replay_webhook_delivery(p_delivery_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_admin_permission('integrations.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot replay webhook events';
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET
+    status = 'pending',
+    attempts = 0,
+    next_attempt_at = now(),
+    delivered_at = NULL
+  WHERE id = p_delivery_id
+  AND status IN ('delivered', 'dead');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook delivery not found or still in progress';
+  END IF;
+
+  PERFORM log_admin_action('webhook.replay', 'webhook_delivery', p_delivery_id::text);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every movement of the platform's Stripe balance the ledger knows about (finance admins only)
+CREATE OR REPLACE FUNCTION get_ledger_stripe_movements(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  entry_id uuid,
+  entry_type text,
+  external_id text,
+  reference_id text,
+  amount_cents bigint,
+  currency text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT has_admin_permission('finance.view') THEN
+    RAISE EXCEPTION 'Your admin role cannot view the ledger';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, e.entry_type, e.external_id, e.reference_id, l.amount_cents, a.currency, e.created_at
+  FROM ledger_entries e
+  JOIN ledger_lines l ON l.entry_id = e.id
+  JOIN ledger_accounts a ON a.id = l.account_id
+  WHERE a.kind = 'stripe_clearing'
+  AND e.created_at >= p_from
+  AND e.created_at < p_to
+  ORDER BY e.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Internal consistency of the ledger and the balance caches, per currency (finance admins only)
+CREATE OR REPLACE FUNCTION get_ledger_health()
+RETURNS json AS $$
+DECLARE
+  unbalanced_count integer;
+  trial_balance json;
+  wallet_drift json;
+BEGIN
+  IF NOT has_admin_permission('finance.view') THEN
+    RAISE EXCEPTION 'Your admin role cannot view the ledger';
+  END IF;
+
+  SELECT count(DISTINCT entry_id) INTO unbalanced_count
+  FROM (
+    SELECT e.id AS entry_id
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    LEFT JOIN ledger_accounts a ON a.id = l.account_id
+    GROUP BY e.id, a.currency
+    HAVING COALESCE(SUM(l.amount_cents), 0) != 0
+    UNION ALL
+    SELECT e.id
+    FROM ledger_entries e
+    LEFT JOIN ledger_lines l ON l.entry_id = e.id
+    GROUP BY e.id
+    HAVING count(l.id) < 2
+  ) AS unbalanced;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'kind', kind,
+    'currency', currency,
+    'balance_cents', balance_cents
+  ) ORDER BY currency, kind), '[]'::json)
+  INTO trial_balance
+  FROM (
+    SELECT a.kind, a.currency, COALESCE(SUM(l.amount_cents), 0) AS balance_cents
+    FROM ledger_accounts a
+    LEFT JOIN ledger_lines l ON l.account_id = a.id
+    GROUP BY a.kind, a.currency
+  ) AS balances;
+
+  -- Both caches are checked: the balance per currency and the wallet row mirroring its payout currency
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', drift.user_id,
+    'currency', drift.currency,
+    'available_balance', drift.available_balance,
+    'pending_balance', drift.pending_balance,
+    'ledger_available_cents', drift.available_cents,
+    'ledger_escrow_cents', drift.escrow_cents
+  )), '[]'::json)
+  INTO wallet_drift
+  FROM (
+    SELECT wb.user_id, wb.currency, wb.available_balance, wb.pending_balance, b.available_cents, b.escrow_cents
+    FROM wallet_balances wb
+    CROSS JOIN LATERAL ledger_wallet_balance(wb.user_id, wb.currency) AS b
+    WHERE to_cents(wb.available_balance) != b.available_cents
+    OR to_cents(wb.pending_balance) != b.escrow_cents
+    UNION ALL
+    SELECT w.user_id, w.currency, w.available_balance, w.pending_balance, b.available_cents, b.escrow_cents
+    FROM wallets w
+    CROSS JOIN LATERAL ledger_wallet_balance(w.user_id, w.currency) AS b
+    WHERE to_cents(w.available_balance) != b.available_cents
+    OR to_cents(w.pending_balance) != b.escrow_cents
+  ) AS drift;
+
+  RETURN json_build_object(
+    'unbalanced_entries', unbalanced_count,
+    'trial_balance', trial_balance,
+    'wallet_drift', wallet_drift
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to add an admin or change their role, the last super admin cannot step down
+CREATE OR REPLACE FUNCTION set_admin_role(p_user_id uuid, p_role text)
+RETURNS void AS $$
+DECLARE
+  previous_role text;
+BEGIN
+  IF NOT has_admin_permission('admins.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot manage admins';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM admin_roles WHERE key = p_role) THEN
+    RAISE EXCEPTION 'Unknown admin role: %', p_role;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT role INTO previous_role FROM platform_admins WHERE user_id = p_user_id FOR UPDATE;
+
+  IF previous_role = 'super_admin' AND p_role != 'super_admin' AND (
+    SELECT count(*) FROM platform_admins WHERE role = 'super_admin'
+  ) = 1 THEN
+    RAISE EXCEPTION 'The platform needs at least one super admin';
+  END IF;
+
+  INSERT INTO platform_admins (user_id, role)
+  VALUES (p_user_id, p_role)
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  PERFORM log_admin_action(
+    CASE WHEN previous_role IS NULL THEN 'admin.add' ELSE 'admin.set_role' END,
+    'profile', p_user_id::text,
+    jsonb_build_object('role', p_role, 'previous_role', previous_role)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to take away a user's admin rights, the last super admin cannot be removed
+CREATE OR REPLACE FUNCTION remove_admin(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  previous_role text;
+BEGIN
+  IF NOT has_admin_permission('admins.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot manage admins';
+  END IF;
+
+  SELECT role INTO previous_role FROM platform_admins WHERE user_id = p_user_id FOR UPDATE;
+
+  IF previous_role IS NULL THEN
+    RAISE EXCEPTION 'User is not an admin';
+  END IF;
+
+  IF previous_role = 'super_admin' AND (
+    SELECT count(*) FROM platform_admins WHERE role = 'super_admin'
+  ) = 1 THEN
+    RAISE EXCEPTION 'The platform needs at least one super admin';
+  END IF;
+
+  -- Open disputes go back to the queue
+  UPDATE disputes
+  SET assigned_to = NULL, updated_at = now()
+  WHERE assigned_to = p_user_id
+  AND status NOT IN ('resolved', 'closed');
+
+  DELETE FROM platform_admins WHERE user_id = p_user_id;
+
+  PERFORM log_admin_action('admin.remove', 'profile', p_user_id::text, jsonb_build_object('previous_role', previous_role));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Flagged listings are hidden from buyers until a moderator approves or removes them
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_status_check;
+ALTER TABLE items ADD CONSTRAINT items_status_check CHECK (status IN ('active', 'reserved', 'sold', 'removed', 'flagged'));
+
+-- Function to approve, flag or remove a listing
+CREATE OR REPLACE FUNCTION moderate_item(p_item_id uuid, p_action text, p_reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  item_record items%ROWTYPE;
+  new_status text;
+BEGIN
+  IF NOT has_admin_permission('items.moderate') THEN
+    RAISE EXCEPTION 'Your admin role cannot moderate listings';
+  END IF;
+
+  new_status := CASE p_action
+    WHEN 'approve' THEN 'active'
+    WHEN 'flag' THEN 'flagged'
+    WHEN 'remove' THEN 'removed'
+  END;
+
+  IF new_status IS NULL THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  -- Sold and reserved items belong to a buyer now, disputes handle those
+  IF item_record.status NOT IN ('active', 'flagged', 'removed') THEN
+    RAISE EXCEPTION 'Item is % and cannot be moderated', item_record.status;
+  END IF;
+
+  UPDATE items SET status = new_status, updated_at = now() WHERE id = p_item_id;
+
+  PERFORM log_admin_action(
+    'item.' || p_action, 'item', p_item_id::text,
+    jsonb_build_object('previous_status', item_record.status, 'status', new_status, 'reason', p_reason)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to audit admin changes made straight through table policies, secrets stay out of the log
+CREATE OR REPLACE FUNCTION audit_admin_table_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id text;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_admin() THEN
+    RETURN NULL;
+  END IF;
+
+  target_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.id::text ELSE NEW.id::text END;
+
+  PERFORM log_admin_action(
+    TG_ARGV[0] || '.' || lower(TG_OP), TG_ARGV[0], target_id,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN jsonb_build_object('new', to_jsonb(NEW) - 'secret')
+      WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('old', to_jsonb(OLD) - 'secret', 'new', to_jsonb(NEW) - 'secret')
+      ELSE jsonb_build_object('old', to_jsonb(OLD) - 'secret')
+    END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_fee_rules_trigger ON fee_rules;
+CREATE TRIGGER audit_fee_rules_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON fee_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_admin_table_change('fee_rule');
+
+DROP TRIGGER IF EXISTS audit_webhook_endpoints_trigger ON webhook_endpoints;
+CREATE TRIGGER audit_webhook_endpoints_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_admin_table_change('webhook_endpoint');
+
+-- Function to audit order status changes an admin made
+CREATE OR REPLACE FUNCTION audit_admin_order_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM log_admin_action(
+    'order.transition', 'order', NEW.order_id::text,
+    jsonb_build_object('previous_status', NEW.previous_status, 'status', NEW.new_status, 'notes', NEW.notes)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_admin_order_transition_trigger ON order_history;
+CREATE TRIGGER audit_admin_order_transition_trigger
+  AFTER INSERT ON order_history
+  FOR EACH ROW
+  WHEN (NEW.actor = 'admin')
+  EXECUTE FUNCTION audit_admin_order_transition();
+
+REVOKE EXECUTE ON FUNCTION user_has_admin_permission(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION log_admin_action(text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,502 @@
+/*
+  # Account Suspension and Bans
+
+  1. New Tables
+    - `account_appeals` - Appeals from suspended or banned users and the admin's answer
+
+  2. Schema Updates
+    - `profiles.account_status` - active, suspended or banned
+    - `profiles.suspended_until` - When a suspension lifts by itself
+    - `profiles.status_reason` - Why the account was restricted, shown to the user
+    - `profiles.status_changed_at` - When the status last changed
+
+  3. Functions
+    - `is_account_restricted()` - Whether a user is banned or inside a suspension
+    - `enforce_account_standing()` - Stops restricted users from listing, messaging and making offers
+    - `protect_account_status()` - Users cannot change their own account status
+    - `set_account_status()` - Suspends, bans or reinstates a user, needs `users.manage`
+    - `submit_account_appeal()` - Lets a restricted user appeal, one open appeal at a time
+    - `review_account_appeal()` - Accepts or rejects an appeal, accepting reinstates the user
+    - `lift_expired_suspensions()` - Reinstates users whose suspension ended
+    - `item_available_to()` - Items of restricted sellers cannot be bought
+    - `process_saved_search_alerts()` - Leaves listings of restricted sellers out of saved search alerts
+
+  4. Notes
+    - A suspension stops applying at `suspended_until` even before the job reinstates the user
+    - Listings of restricted sellers are hidden from browse and search, and come back once they are reinstated
+    - Payment routes refuse restricted buyers, orders they already paid for carry on
+    - Users are no longer deleted by admins, a ban keeps their orders and ledger history intact
+    - The job runs every 15 minutes when pg_cron is available
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS account_status text NOT NULL DEFAULT 'active';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS suspended_until timestamptz;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_reason text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_account_status_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_account_status_check CHECK (account_status IN ('active', 'suspended', 'banned'));
+
+-- Suspensions are always time-bounded
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_suspended_until_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_suspended_until_check CHECK (account_status <> 'suspended' OR suspended_until IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_account_status ON profiles(account_status) WHERE account_status <> 'active';
+CREATE INDEX IF NOT EXISTS idx_profiles_suspended_until ON profiles(suspended_until) WHERE account_status = 'suspended';
+
+-- Create account_appeals table
+CREATE TABLE IF NOT EXISTS account_appeals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  account_status text NOT NULL CHECK (account_status IN ('suspended', 'banned')),
+  message text NOT NULL CHECK (char_length(message) BETWEEN 10 AND 2000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'closed')),
+  response text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_appeals_one_pending ON account_appeals(user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_account_appeals_user_id ON account_appeals(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_account_appeals_status ON account_appeals(status, created_at);
+
+-- Enable RLS
+ALTER TABLE account_appeals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for account_appeals, appeals are written through functions only
+CREATE POLICY "Users can view their own appeals"
+  ON account_appeals
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all account appeals"
+  ON account_appeals
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('users.view'));
+
+-- Function to check whether a user is banned or inside a suspension
+CREATE OR REPLACE FUNCTION is_account_restricted(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_user_id
+    AND (
+      account_status = 'banned'
+      OR (account_status = 'suspended' AND suspended_until > now())
+    )
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Function to stop restricted users from listing, messaging and making offers,
+-- the trigger argument names the column holding the acting user
+CREATE OR REPLACE FUNCTION enforce_account_standing()
+RETURNS TRIGGER AS $$
+DECLARE
+  acting_user_id uuid := (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+  profile_record profiles%ROWTYPE;
+BEGIN
+  -- Jobs, webhooks and the other party's actions still go through
+  IF acting_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO profile_record FROM profiles WHERE id = acting_user_id;
+
+  IF profile_record.account_status = 'banned' THEN
+    RAISE EXCEPTION 'Your account is banned';
+  END IF;
+
+  IF profile_record.account_status = 'suspended' AND profile_record.suspended_until > now() THEN
+    RAISE EXCEPTION 'Your account is suspended until % UTC',
+      to_char(profile_record.suspended_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_account_standing_trigger ON items;
+CREATE TRIGGER enforce_account_standing_trigger
+  BEFORE INSERT ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_standing('seller_id');
+
+DROP TRIGGER IF EXISTS enforce_account_standing_trigger ON conversations;
+CREATE TRIGGER enforce_account_standing_trigger
+  BEFORE INSERT ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_standing('buyer_id');
+
+DROP TRIGGER IF EXISTS enforce_account_standing_trigger ON messages;
+CREATE TRIGGER enforce_account_standing_trigger
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_standing('sender_id');
+
+DROP TRIGGER IF EXISTS enforce_account_standing_trigger ON offers;
+CREATE TRIGGER enforce_account_standing_trigger
+  BEFORE INSERT ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_standing('created_by');
+
+-- Function to keep users from lifting their own restriction
+CREATE OR REPLACE FUNCTION protect_account_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.account_status := 'active';
+    NEW.suspended_until := NULL;
+    NEW.status_reason := NULL;
+    NEW.status_changed_at := NULL;
+  ELSIF (NEW.account_status, NEW.suspended_until, NEW.status_reason, NEW.status_changed_at)
+    IS DISTINCT FROM (OLD.account_status, OLD.suspended_until, OLD.status_reason, OLD.status_changed_at) THEN
+    RAISE EXCEPTION 'Account status can only be changed by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_account_status_trigger ON profiles;
+CREATE TRIGGER protect_account_status_trigger
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_account_status();
+
+-- Restricted sellers' listings are hidden from everyone but themselves
+DROP POLICY IF EXISTS "Anyone can view active items" ON items;
+CREATE POLICY "Anyone can view active items"
+  ON items
+  FOR SELECT
+  TO authenticated
+  USING (status = 'active' AND NOT is_account_restricted(seller_id));
+
+-- Function to check whether a buyer may take an item, the caller locks the item row
+CREATE OR REPLACE FUNCTION item_available_to(p_item items, p_buyer_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  IF p_item.status NOT IN ('active', 'reserved') THEN
+    RETURN false;
+  END IF;
+
+  -- Hidden listings of restricted sellers cannot be bought through a saved link either
+  IF is_account_restricted(p_item.seller_id) THEN
+    RETURN false;
+  END IF;
+
+  IF p_item.status = 'reserved'
+    AND p_item.reserved_by IS DISTINCT FROM p_buyer_id
+    AND p_item.reserved_until > now() THEN
+    RETURN false;
+  END IF;
+
+  -- An accepted offer holds the item for its buyer until the offer runs out
+  RETURN NOT EXISTS (
+    SELECT 1 FROM offers
+    WHERE item_id = p_item.id
+    AND status = 'accepted'
+    AND order_id IS NULL
+    AND reserved_until > now()
+    AND buyer_id != p_buyer_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to notify users about new listings matching their saved searches, leaving out restricted sellers
+CREATE OR REPLACE FUNCTION process_saved_search_alerts()
+RETURNS integer AS $$
+DECLARE
+  saved_search RECORD;
+  run_started_at timestamptz := now();
+  match_ids uuid[];
+  match_count integer;
+  notifications_sent integer := 0;
+BEGIN
+  FOR saved_search IN
+    SELECT * FROM saved_searches
+    WHERE is_muted = false
+    ORDER BY last_checked_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT
+      array_agg(i.id ORDER BY i.created_at DESC),
+      COUNT(*)
+    INTO match_ids, match_count
+    FROM items i
+    WHERE i.status = 'active'
+    AND i.created_at > saved_search.last_checked_at
+    AND i.created_at <= run_started_at
+    AND i.seller_id != saved_search.user_id
+    AND NOT is_account_restricted(i.seller_id)
+    AND item_matches_search(i, saved_search.query, saved_search.filters);
+
+    IF match_count BETWEEN 1 AND 3 THEN
+      -- A few matches are sent individually
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        'New match for "' || saved_search.name || '"',
+        '"' || i.title || '" was just listed.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', jsonb_build_array(i.id),
+          'count', 1
+        )
+      )
+      FROM items i
+      WHERE i.id = ANY(match_ids);
+      notifications_sent := notifications_sent + match_count;
+    ELSIF match_count > 3 THEN
+      -- Many matches are batched into one digest
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        match_count || ' new matches for "' || saved_search.name || '"',
+        'Tap to see the latest listings matching your saved search.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', to_jsonb(match_ids[1:20]),
+          'count', match_count
+        )
+      );
+      notifications_sent := notifications_sent + 1;
+    END IF;
+
+    UPDATE saved_searches
+    SET last_checked_at = run_started_at
+    WHERE id = saved_search.id;
+  END LOOP;
+
+  RETURN notifications_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION process_saved_search_alerts() FROM PUBLIC, anon, authenticated;
+
+-- Function to suspend, ban or reinstate a user
+CREATE OR REPLACE FUNCTION set_account_status(
+  p_user_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_suspended_until timestamptz DEFAULT NULL
+) RETURNS void AS $$
+DECLARE
+  previous_status text;
+BEGIN
+  IF NOT has_admin_permission('users.manage') THEN
+    RAISE EXCEPTION 'Only admins who manage users can change account status';
+  END IF;
+
+  IF p_status NOT IN ('active', 'suspended', 'banned') THEN
+    RAISE EXCEPTION 'Invalid account status: %', p_status;
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own account status';
+  END IF;
+
+  IF p_status = 'suspended' AND (p_suspended_until IS NULL OR p_suspended_until <= now()) THEN
+    RAISE EXCEPTION 'A suspension needs an end date in the future';
+  END IF;
+
+  IF p_status <> 'active' AND NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to restrict an account';
+  END IF;
+
+  IF p_status <> 'active' AND EXISTS (SELECT 1 FROM platform_admins WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Remove the user from the admin team first';
+  END IF;
+
+  SELECT account_status INTO previous_status
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  UPDATE profiles SET
+    account_status = p_status,
+    suspended_until = CASE WHEN p_status = 'suspended' THEN p_suspended_until END,
+    status_reason = CASE WHEN p_status = 'active' THEN NULL ELSE trim(p_reason) END,
+    status_changed_at = now()
+  WHERE id = p_user_id;
+
+  -- A reinstated user has nothing left to appeal
+  IF p_status = 'active' THEN
+    UPDATE account_appeals SET
+      status = 'closed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+    WHERE user_id = p_user_id AND status = 'pending';
+  END IF;
+
+  PERFORM create_notification(
+    p_user_id,
+    'system',
+    CASE p_status
+      WHEN 'active' THEN 'Account reinstated'
+      WHEN 'suspended' THEN 'Account suspended'
+      ELSE 'Account banned'
+    END,
+    CASE p_status
+      WHEN 'active' THEN 'You can list, message and buy again.'
+      WHEN 'suspended' THEN 'Your account is suspended until '
+        || to_char(p_suspended_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') || ' UTC: ' || trim(p_reason)
+      ELSE 'Your account is banned: ' || trim(p_reason)
+    END,
+    jsonb_build_object('account_status', p_status, 'suspended_until', p_suspended_until)
+  );
+
+  PERFORM log_admin_action(
+    CASE p_status
+      WHEN 'active' THEN 'user.reinstate'
+      WHEN 'suspended' THEN 'user.suspend'
+      ELSE 'user.ban'
+    END,
+    'user',
+    p_user_id::text,
+    jsonb_build_object(
+      'previous_status', previous_status,
+      'reason', NULLIF(trim(p_reason), ''),
+      'suspended_until', p_suspended_until
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to let a restricted user appeal, one open appeal at a time
+CREATE OR REPLACE FUNCTION submit_account_appeal(p_message text)
+RETURNS account_appeals AS $$
+DECLARE
+  profile_record profiles%ROWTYPE;
+  appeal_record account_appeals%ROWTYPE;
+BEGIN
+  SELECT * INTO profile_record FROM profiles WHERE id = auth.uid();
+
+  IF NOT FOUND OR NOT is_account_restricted(auth.uid()) THEN
+    RAISE EXCEPTION 'Only suspended or banned accounts can appeal';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM account_appeals WHERE user_id = auth.uid() AND status = 'pending') THEN
+    RAISE EXCEPTION 'You already have an appeal under review';
+  END IF;
+
+  INSERT INTO account_appeals (user_id, account_status, message)
+  VALUES (auth.uid(), profile_record.account_status, trim(p_message))
+  RETURNING * INTO appeal_record;
+
+  RETURN appeal_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to accept or reject an appeal, accepting reinstates the user
+CREATE OR REPLACE FUNCTION review_account_appeal(
+  p_appeal_id uuid,
+  p_accept boolean,
+  p_response text DEFAULT NULL
+) RETURNS void AS $$
+DECLARE
+  appeal_record account_appeals%ROWTYPE;
+BEGIN
+  IF NOT has_admin_permission('users.manage') THEN
+    RAISE EXCEPTION 'Only admins who manage users can review appeals';
+  END IF;
+
+  SELECT * INTO appeal_record
+  FROM account_appeals
+  WHERE id = p_appeal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appeal not found';
+  END IF;
+
+  IF appeal_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Appeal has already been reviewed';
+  END IF;
+
+  IF NOT p_accept AND NULLIF(trim(p_response), '') IS NULL THEN
+    RAISE EXCEPTION 'Explain to the user why the appeal was rejected';
+  END IF;
+
+  UPDATE account_appeals SET
+    status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+    response = NULLIF(trim(p_response), ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = p_appeal_id;
+
+  PERFORM log_admin_action(
+    CASE WHEN p_accept THEN 'user.appeal_accept' ELSE 'user.appeal_reject' END,
+    'user',
+    appeal_record.user_id::text,
+    jsonb_build_object('appeal_id', p_appeal_id, 'response', NULLIF(trim(p_response), ''))
+  );
+
+  IF p_accept THEN
+    PERFORM set_account_status(appeal_record.user_id, 'active');
+  ELSE
+    PERFORM create_notification(
+      appeal_record.user_id,
+      'system',
+      'Appeal rejected',
+      trim(p_response),
+      jsonb_build_object('appeal_id', p_appeal_id, 'account_status', appeal_record.account_status)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to reinstate users whose suspension ended
+CREATE OR REPLACE FUNCTION lift_expired_suspensions()
+RETURNS integer AS $$
+DECLARE
+  lifted record;
+  lifted_count integer := 0;
+BEGIN
+  FOR lifted IN
+    UPDATE profiles SET
+      account_status = 'active',
+      suspended_until = NULL,
+      status_reason = NULL,
+      status_changed_at = now()
+    WHERE account_status = 'suspended'
+    AND suspended_until <= now()
+    RETURNING id
+  LOOP
+    -- An appeal left open when the suspension ran out has nothing left to decide
+    UPDATE account_appeals SET status = 'closed', reviewed_at = now()
+    WHERE user_id = lifted.id AND status = 'pending';
+
+    PERFORM create_notification(
+      lifted.id,
+      'system',
+      'Suspension ended',
+      'Your suspension has ended. You can list, message and buy again.',
+      jsonb_build_object('account_status', 'active')
+    );
+
+    lifted_count := lifted_count + 1;
+  END LOOP;
+
+  RETURN lifted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lift_expired_suspensions() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('lift-expired-suspensions', '*/15 * * * *', 'SELECT lift_expired_suspensions();');
+  END IF;
+END $$;
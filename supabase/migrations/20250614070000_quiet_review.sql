@@ -0,0 +1,374 @@
+/*
+  # Item Moderation Queue
+
+  1. New Tables
+    - `moderation_reasons` - Reason codes moderators pick from, with the label sellers see
+    - `moderation_history` - Every moderation decision on a listing, who made it and why
+
+  2. Schema Updates
+    - `items.status` - Adds `pending_review` for new listings waiting for a moderator
+    - `items.risk_score` - How closely a listing should be looked at, higher is riskier
+    - `items.published_at` - When the listing went live, on creation or when a moderator approved it
+
+  3. Functions
+    - `item_risk_score()` - Scores a new listing from its seller's history
+    - `hold_item_for_review()` - New listings wait for review unless `platform.itemAutoApproval` is on
+    - `protect_item_moderation()` - Sellers cannot publish listings under review or bring back removed ones
+    - `moderate_item()` - Approves, rejects, flags or removes a listing with a reason code,
+      records the decision and tells the seller
+    - `process_saved_search_alerts()` - Matches listings on when they went live
+
+  4. Notes
+    - Listings under review or flagged are only visible to their seller and to admins
+    - Rejecting, flagging and removing need a reason code, approving does not
+    - Sellers can still delete a listing that is under review
+    - Saved-search alerts match on `published_at`, so a listing is alerted once a moderator approves it
+    - Existing listings count as published when they were created
+*/
+
+-- Create moderation_reasons table
+CREATE TABLE IF NOT EXISTS moderation_reasons (
+  code text PRIMARY KEY,
+  label text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO moderation_reasons (code, label) VALUES
+  ('prohibited_item', 'This item is not allowed on the platform'),
+  ('counterfeit', 'This item appears to be counterfeit'),
+  ('misleading_description', 'The description or price is misleading'),
+  ('inappropriate_images', 'The photos are inappropriate or do not show the item'),
+  ('wrong_category', 'The listing is in the wrong category'),
+  ('spam', 'The listing is spam or a duplicate'),
+  ('other', 'The listing breaks our selling rules')
+ON CONFLICT (code) DO NOTHING;
+
+-- Create moderation_history table
+CREATE TABLE IF NOT EXISTS moderation_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  moderator_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('approve', 'reject', 'flag', 'remove')),
+  reason_code text REFERENCES moderation_reasons(code),
+  note text CHECK (char_length(note) <= 1000),
+  previous_status text NOT NULL,
+  new_status text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_history_item_id ON moderation_history(item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_history_moderator_id ON moderation_history(moderator_id);
+
+-- Listings waiting for a moderator
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_status_check;
+ALTER TABLE items ADD CONSTRAINT items_status_check CHECK (status IN ('active', 'reserved', 'sold', 'removed', 'flagged', 'pending_review'));
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS risk_score integer NOT NULL DEFAULT 0;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE items
+SET published_at = created_at
+WHERE published_at IS NULL
+AND status IN ('active', 'reserved', 'sold');
+
+CREATE INDEX IF NOT EXISTS idx_items_published_at ON items(published_at) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_items_moderation_queue ON items(risk_score DESC, created_at) WHERE status IN ('pending_review', 'flagged');
+
+-- Enable RLS
+ALTER TABLE moderation_reasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view moderation reasons"
+  ON moderation_reasons
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can view all moderation history"
+  ON moderation_history
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('items.view'));
+
+-- Function to score a new listing from its seller's history
+CREATE OR REPLACE FUNCTION item_risk_score(p_seller_id uuid)
+RETURNS integer AS $$
+DECLARE
+  score integer := 0;
+  seller_created_at timestamptz;
+BEGIN
+  SELECT created_at INTO seller_created_at FROM profiles WHERE id = p_seller_id;
+
+  -- A listing of theirs was taken down in the last 90 days
+  IF EXISTS (
+    SELECT 1
+    FROM moderation_history mh
+    JOIN items i ON i.id = mh.item_id
+    WHERE i.seller_id = p_seller_id
+    AND mh.action IN ('reject', 'remove')
+    AND mh.created_at > now() - interval '90 days'
+  ) THEN
+    score := score + 40;
+  END IF;
+
+  IF seller_created_at IS NULL OR seller_created_at > now() - interval '7 days' THEN
+    score := score + 20;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM orders WHERE seller_id = p_seller_id AND status = 'completed'
+  ) THEN
+    score := score + 10;
+  END IF;
+
+  RETURN score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION item_risk_score(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to hold new listings for review when auto approval is off
+CREATE OR REPLACE FUNCTION hold_item_for_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  auto_approval boolean;
+BEGIN
+  NEW.risk_score := item_risk_score(NEW.seller_id);
+
+  SELECT (value #>> '{}')::boolean INTO auto_approval
+  FROM platform_settings
+  WHERE key = 'platform.itemAutoApproval';
+
+  IF NEW.status = 'active' AND NOT COALESCE(auto_approval, false) THEN
+    NEW.status := 'pending_review';
+  END IF;
+
+  NEW.published_at := CASE WHEN NEW.status = 'active' THEN now() END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS hold_item_for_review_trigger ON items;
+CREATE TRIGGER hold_item_for_review_trigger
+  BEFORE INSERT ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION hold_item_for_review();
+
+-- Function to keep sellers from overriding a moderator
+CREATE OR REPLACE FUNCTION protect_item_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.risk_score := OLD.risk_score;
+  NEW.published_at := OLD.published_at;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Deleting a listing under review is fine, publishing it is not
+  IF OLD.status IN ('pending_review', 'flagged') AND NEW.status <> 'removed' THEN
+    RAISE EXCEPTION 'This listing is under review and can only be published by a moderator';
+  END IF;
+
+  IF NEW.status IN ('pending_review', 'flagged') OR OLD.status = 'removed' THEN
+    RAISE EXCEPTION 'Listing status can only be changed by a moderator';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_item_moderation_trigger ON items;
+CREATE TRIGGER protect_item_moderation_trigger
+  BEFORE UPDATE ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_item_moderation();
+
+-- Reason codes replace the free-text reason
+DROP FUNCTION IF EXISTS moderate_item(uuid, text, text);
+
+-- Function to approve, reject, flag or remove a listing
+CREATE OR REPLACE FUNCTION moderate_item(
+  p_item_id uuid,
+  p_action text,
+  p_reason_code text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS moderation_history AS $$
+DECLARE
+  item_record items%ROWTYPE;
+  reason_label text;
+  new_status text;
+  history_record moderation_history%ROWTYPE;
+BEGIN
+  IF NOT has_admin_permission('items.moderate') THEN
+    RAISE EXCEPTION 'Your admin role cannot moderate listings';
+  END IF;
+
+  new_status := CASE p_action
+    WHEN 'approve' THEN 'active'
+    WHEN 'reject' THEN 'removed'
+    WHEN 'flag' THEN 'flagged'
+    WHEN 'remove' THEN 'removed'
+  END;
+
+  IF new_status IS NULL THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF p_action <> 'approve' THEN
+    SELECT label INTO reason_label FROM moderation_reasons WHERE code = p_reason_code;
+
+    IF reason_label IS NULL THEN
+      RAISE EXCEPTION 'Pick a reason to % this listing', p_action;
+    END IF;
+  END IF;
+
+  SELECT * INTO item_record FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  -- Sold and reserved items belong to a buyer now, disputes handle those
+  IF NOT (
+    (p_action = 'approve' AND item_record.status IN ('pending_review', 'flagged')) OR
+    (p_action = 'reject' AND item_record.status = 'pending_review') OR
+    (p_action = 'flag' AND item_record.status = 'active') OR
+    (p_action = 'remove' AND item_record.status IN ('active', 'flagged', 'pending_review'))
+  ) THEN
+    RAISE EXCEPTION 'A listing that is % cannot be %', replace(item_record.status, '_', ' '),
+      CASE p_action WHEN 'approve' THEN 'approved' WHEN 'reject' THEN 'rejected' WHEN 'flag' THEN 'flagged' ELSE 'removed' END;
+  END IF;
+
+  -- An approved listing goes live now, for saved-search alerts too
+  UPDATE items
+  SET
+    status = new_status,
+    published_at = CASE WHEN p_action = 'approve' THEN now() ELSE published_at END,
+    updated_at = now()
+  WHERE id = p_item_id;
+
+  INSERT INTO moderation_history (item_id, moderator_id, action, reason_code, note, previous_status, new_status)
+  VALUES (
+    p_item_id,
+    auth.uid(),
+    p_action,
+    CASE WHEN p_action = 'approve' THEN NULL ELSE p_reason_code END,
+    NULLIF(trim(p_note), ''),
+    item_record.status,
+    new_status
+  )
+  RETURNING * INTO history_record;
+
+  PERFORM create_notification(
+    item_record.seller_id,
+    'moderation',
+    CASE p_action
+      WHEN 'approve' THEN 'Listing approved'
+      WHEN 'reject' THEN 'Listing rejected'
+      WHEN 'flag' THEN 'Listing under review'
+      ELSE 'Listing removed'
+    END,
+    CASE p_action
+      WHEN 'approve' THEN '"' || item_record.title || '" is now live.'
+      WHEN 'flag' THEN '"' || item_record.title || '" is hidden while we review it: ' || reason_label
+      ELSE '"' || item_record.title || '" was taken down: ' || reason_label
+    END || COALESCE(' ' || history_record.note, ''),
+    jsonb_build_object(
+      'item_id', p_item_id,
+      'action', p_action,
+      'reason_code', history_record.reason_code
+    )
+  );
+
+  PERFORM log_admin_action(
+    'item.' || p_action, 'item', p_item_id::text,
+    jsonb_build_object(
+      'previous_status', item_record.status,
+      'status', new_status,
+      'reason_code', history_record.reason_code,
+      'note', history_record.note
+    )
+  );
+
+  RETURN history_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to alert saved searches about listings that went live since their last check
+CREATE OR REPLACE FUNCTION process_saved_search_alerts()
+RETURNS integer AS $$
+DECLARE
+  saved_search RECORD;
+  run_started_at timestamptz := now();
+  match_ids uuid[];
+  match_count integer;
+  notifications_sent integer := 0;
+BEGIN
+  FOR saved_search IN
+    SELECT * FROM saved_searches
+    WHERE is_muted = false
+    ORDER BY last_checked_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT
+      array_agg(i.id ORDER BY i.published_at DESC),
+      COUNT(*)
+    INTO match_ids, match_count
+    FROM items i
+    WHERE i.status = 'active'
+    AND i.published_at > saved_search.last_checked_at
+    AND i.published_at <= run_started_at
+    AND i.seller_id != saved_search.user_id
+    AND NOT is_account_restricted(i.seller_id)
+    AND item_matches_search(i, saved_search.query, saved_search.filters);
+
+    IF match_count BETWEEN 1 AND 3 THEN
+      -- A few matches are sent individually
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        'New match for "' || saved_search.name || '"',
+        '"' || i.title || '" was just listed.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', jsonb_build_array(i.id),
+          'count', 1
+        )
+      )
+      FROM items i
+      WHERE i.id = ANY(match_ids);
+      notifications_sent := notifications_sent + match_count;
+    ELSIF match_count > 3 THEN
+      -- Many matches are batched into one digest
+      PERFORM create_notification(
+        saved_search.user_id,
+        'saved_search',
+        match_count || ' new matches for "' || saved_search.name || '"',
+        'Tap to see the latest listings matching your saved search.',
+        jsonb_build_object(
+          'saved_search_id', saved_search.id,
+          'item_ids', to_jsonb(match_ids[1:20]),
+          'count', match_count
+        )
+      );
+      notifications_sent := notifications_sent + 1;
+    END IF;
+
+    UPDATE saved_searches
+    SET last_checked_at = run_started_at
+    WHERE id = saved_search.id;
+  END LOOP;
+
+  RETURN notifications_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION process_saved_search_alerts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,439 @@
+/*
+  # User Reports
+
+  1. New Tables
+    - `report_reasons` - Reasons users pick from, per target type
+    - `reports` - Reports on listings, profiles, messages and reviews, and how they were resolved
+
+  2. Schema Updates
+    - `messages.is_hidden` - Hidden messages are shown as removed in the conversation
+    - `platform.reportAutoHideThreshold` setting, 3 reporters by default
+    - `platform.reportDailyLimit` setting, 10 reports per user a day by default
+    - `reports.manage` admin permission for moderators and support agents
+
+  3. Functions
+    - `submit_report()` - Reports a target, one open report per user and target, within the daily limit
+    - `hide_reported_target()` - Hides a target once enough users reported it
+    - `protect_hidden_content()` - Users cannot unhide their own messages and reviews
+    - `get_report_queue()` - Open reports grouped by target, most reported first
+    - `resolve_reports()` - Closes every open report on a target as actioned or dismissed
+
+  4. Notes
+    - Hidden listings are flagged and join the moderation queue, hidden reviews stop counting towards the rating
+    - Profiles are never hidden automatically, an admin decides whether to suspend the user
+    - Dismissing reports brings back what the threshold hid, unless a moderator flagged the listing since
+    - Users cannot report themselves or their own content, and restricted users cannot report
+*/
+
+-- Create report_reasons table
+CREATE TABLE IF NOT EXISTS report_reasons (
+  target_type text NOT NULL CHECK (target_type IN ('item', 'profile', 'message', 'review')),
+  code text NOT NULL,
+  label text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (target_type, code)
+);
+
+-- Listing reasons use the moderation reason codes so a hidden listing carries the reason
+INSERT INTO report_reasons (target_type, code, label) VALUES
+  ('item', 'counterfeit', 'Counterfeit'),
+  ('item', 'prohibited_item', 'Prohibited item'),
+  ('item', 'misleading_description', 'Misleading description or price'),
+  ('item', 'inappropriate_images', 'Inappropriate photos'),
+  ('item', 'spam', 'Spam or duplicate'),
+  ('item', 'other', 'Something else'),
+  ('profile', 'fake_account', 'Fake account'),
+  ('profile', 'impersonation', 'Pretending to be someone else'),
+  ('profile', 'scam', 'Scam or fraud'),
+  ('profile', 'harassment', 'Harassment'),
+  ('profile', 'other', 'Something else'),
+  ('message', 'harassment', 'Harassment or hate'),
+  ('message', 'scam', 'Scam or fraud'),
+  ('message', 'off_platform_payment', 'Asks to pay outside the app'),
+  ('message', 'spam', 'Spam'),
+  ('message', 'other', 'Something else'),
+  ('review', 'fake_review', 'Fake review'),
+  ('review', 'abusive', 'Abusive or hateful'),
+  ('review', 'irrelevant', 'Not about the order'),
+  ('review', 'other', 'Something else')
+ON CONFLICT (target_type, code) DO NOTHING;
+
+-- Create reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('item', 'profile', 'message', 'review')),
+  target_id uuid NOT NULL,
+  reason_code text NOT NULL,
+  details text CHECK (char_length(details) <= 1000),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolution_note text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  FOREIGN KEY (target_type, reason_code) REFERENCES report_reasons(target_type, code)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_one_open ON reports(reporter_id, target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_reports_reporter_id ON reports(reporter_id, created_at DESC);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+
+-- Reporters it takes to hide a target, and reports a user can file a day
+INSERT INTO platform_settings (key, value, is_secret, version) VALUES
+  ('platform.reportAutoHideThreshold', '3', false, 1),
+  ('platform.reportDailyLimit', '10', false, 1)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT 1, defaults.key, NULL, defaults.value, 'Initial defaults'
+FROM (VALUES
+  ('platform.reportAutoHideThreshold', '3'::jsonb),
+  ('platform.reportDailyLimit', '10'::jsonb)
+) AS defaults(key, value)
+WHERE NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE platform_settings_audit.key = defaults.key);
+
+INSERT INTO admin_permissions (key, description) VALUES
+  ('reports.manage', 'Triage user reports and hide reported messages and reviews')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO admin_role_permissions (role, permission) VALUES
+  ('support', 'reports.manage'),
+  ('moderator', 'reports.manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE report_reasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report reasons"
+  ON report_reasons
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Reports are filed through submit_report() so limits cannot be skipped
+CREATE POLICY "Users can view their own reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Admins can view all reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (has_admin_permission('reports.manage'));
+
+-- Function to hide a target once enough users reported it
+CREATE OR REPLACE FUNCTION hide_reported_target(p_target_type text, p_target_id uuid)
+RETURNS void AS $$
+DECLARE
+  item_record items%ROWTYPE;
+  top_reason text;
+BEGIN
+  IF p_target_type = 'item' THEN
+    SELECT * INTO item_record FROM items WHERE id = p_target_id FOR UPDATE;
+
+    IF NOT FOUND OR item_record.status <> 'active' THEN
+      RETURN;
+    END IF;
+
+    SELECT reason_code INTO top_reason
+    FROM reports
+    WHERE target_type = 'item' AND target_id = p_target_id AND status = 'open'
+    GROUP BY reason_code
+    ORDER BY count(*) DESC, min(created_at)
+    LIMIT 1;
+
+    UPDATE items SET status = 'flagged', updated_at = now() WHERE id = p_target_id;
+
+    INSERT INTO moderation_history (item_id, moderator_id, action, reason_code, note, previous_status, new_status)
+    VALUES (p_target_id, NULL, 'flag', top_reason, 'Hidden automatically after user reports', 'active', 'flagged');
+
+    PERFORM create_notification(
+      item_record.seller_id,
+      'moderation',
+      'Listing under review',
+      '"' || item_record.title || '" is hidden while we review reports about it: '
+        || (SELECT label FROM moderation_reasons WHERE code = top_reason),
+      jsonb_build_object('item_id', p_target_id, 'action', 'flag', 'reason_code', top_reason)
+    );
+  ELSIF p_target_type = 'message' THEN
+    UPDATE messages SET is_hidden = true WHERE id = p_target_id;
+  ELSIF p_target_type = 'review' THEN
+    UPDATE reviews SET is_hidden = true, updated_at = now() WHERE id = p_target_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION hide_reported_target(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to report a listing, profile, message or review
+CREATE OR REPLACE FUNCTION submit_report(
+  p_target_type text,
+  p_target_id uuid,
+  p_reason_code text,
+  p_details text DEFAULT NULL
+)
+RETURNS reports AS $$
+DECLARE
+  reporter uuid := auth.uid();
+  owner_id uuid;
+  daily_limit integer;
+  threshold integer;
+  reporter_count integer;
+  report_record reports%ROWTYPE;
+BEGIN
+  IF reporter IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF is_account_restricted(reporter) THEN
+    RAISE EXCEPTION 'Restricted accounts cannot report';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM report_reasons WHERE target_type = p_target_type AND code = p_reason_code
+  ) THEN
+    RAISE EXCEPTION 'Pick a reason for your report';
+  END IF;
+
+  -- Users can only report what they can see
+  IF p_target_type = 'item' THEN
+    SELECT seller_id INTO owner_id FROM items WHERE id = p_target_id AND status <> 'removed';
+  ELSIF p_target_type = 'profile' THEN
+    SELECT id INTO owner_id FROM profiles WHERE id = p_target_id;
+  ELSIF p_target_type = 'message' THEN
+    SELECT m.sender_id INTO owner_id
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE m.id = p_target_id
+    AND reporter IN (c.buyer_id, c.seller_id);
+  ELSIF p_target_type = 'review' THEN
+    SELECT reviewer_id INTO owner_id FROM reviews WHERE id = p_target_id AND NOT is_hidden;
+  END IF;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Nothing to report';
+  END IF;
+
+  IF owner_id = reporter THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM reports
+    WHERE reporter_id = reporter
+    AND target_type = p_target_type
+    AND target_id = p_target_id
+    AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already reported this, our team is looking into it';
+  END IF;
+
+  SELECT (value #>> '{}')::integer INTO daily_limit
+  FROM platform_settings
+  WHERE key = 'platform.reportDailyLimit';
+
+  IF (
+    SELECT count(*) FROM reports
+    WHERE reporter_id = reporter
+    AND created_at > now() - interval '24 hours'
+  ) >= COALESCE(daily_limit, 10) THEN
+    RAISE EXCEPTION 'You have sent too many reports today, try again tomorrow';
+  END IF;
+
+  INSERT INTO reports (reporter_id, target_type, target_id, reason_code, details)
+  VALUES (reporter, p_target_type, p_target_id, p_reason_code, NULLIF(trim(p_details), ''))
+  RETURNING * INTO report_record;
+
+  SELECT (value #>> '{}')::integer INTO threshold
+  FROM platform_settings
+  WHERE key = 'platform.reportAutoHideThreshold';
+
+  SELECT count(DISTINCT reporter_id) INTO reporter_count
+  FROM reports
+  WHERE target_type = p_target_type
+  AND target_id = p_target_id
+  AND status = 'open';
+
+  IF reporter_count >= COALESCE(threshold, 3) THEN
+    PERFORM hide_reported_target(p_target_type, p_target_id);
+  END IF;
+
+  RETURN report_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to keep users from unhiding their own messages and reviews
+CREATE OR REPLACE FUNCTION protect_hidden_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.is_hidden := OLD.is_hidden;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_hidden_content_trigger ON messages;
+CREATE TRIGGER protect_hidden_content_trigger
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_content();
+
+DROP TRIGGER IF EXISTS protect_hidden_content_trigger ON reviews;
+CREATE TRIGGER protect_hidden_content_trigger
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_hidden_content();
+
+-- Function to list open reports grouped by target, most reported first
+CREATE OR REPLACE FUNCTION get_report_queue(p_target_type text DEFAULT NULL)
+RETURNS TABLE (
+  target_type text,
+  target_id uuid,
+  report_count integer,
+  reasons text[],
+  details text[],
+  first_reported_at timestamptz,
+  last_reported_at timestamptz,
+  summary text,
+  owner_id uuid,
+  owner_nickname text,
+  is_hidden boolean
+) AS $$
+BEGIN
+  IF NOT has_admin_permission('reports.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot triage reports';
+  END IF;
+
+  RETURN QUERY
+  WITH grouped AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      count(*)::integer AS report_count,
+      array_agg(DISTINCT r.reason_code) AS reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at DESC), NULL) AS details,
+      min(r.created_at) AS first_reported_at,
+      max(r.created_at) AS last_reported_at
+    FROM reports r
+    WHERE r.status = 'open'
+    AND (p_target_type IS NULL OR r.target_type = p_target_type)
+    GROUP BY r.target_type, r.target_id
+  )
+  SELECT
+    g.target_type,
+    g.target_id,
+    g.report_count,
+    g.reasons,
+    g.details,
+    g.first_reported_at,
+    g.last_reported_at,
+    CASE g.target_type
+      WHEN 'item' THEN i.title
+      WHEN 'profile' THEN p.nickname
+      WHEN 'message' THEN m.content
+      ELSE rv.content
+    END,
+    owner_profile.id,
+    owner_profile.nickname,
+    CASE g.target_type
+      WHEN 'item' THEN i.status IN ('flagged', 'removed')
+      WHEN 'message' THEN m.is_hidden
+      WHEN 'review' THEN rv.is_hidden
+      ELSE false
+    END
+  FROM grouped g
+  LEFT JOIN items i ON g.target_type = 'item' AND i.id = g.target_id
+  LEFT JOIN profiles p ON g.target_type = 'profile' AND p.id = g.target_id
+  LEFT JOIN messages m ON g.target_type = 'message' AND m.id = g.target_id
+  LEFT JOIN reviews rv ON g.target_type = 'review' AND rv.id = g.target_id
+  LEFT JOIN profiles owner_profile ON owner_profile.id = COALESCE(i.seller_id, p.id, m.sender_id, rv.reviewer_id)
+  ORDER BY g.report_count DESC, g.first_reported_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to close the open reports on a target, dismissing brings back what was hidden
+CREATE OR REPLACE FUNCTION resolve_reports(
+  p_target_type text,
+  p_target_id uuid,
+  p_resolution text,
+  p_note text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  resolved_count integer;
+  item_record items%ROWTYPE;
+  last_decision moderation_history%ROWTYPE;
+BEGIN
+  IF NOT has_admin_permission('reports.manage') THEN
+    RAISE EXCEPTION 'Your admin role cannot triage reports';
+  END IF;
+
+  IF p_resolution NOT IN ('actioned', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown resolution: %', p_resolution;
+  END IF;
+
+  UPDATE reports SET
+    status = p_resolution,
+    resolution_note = NULLIF(trim(p_note), ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE target_type = p_target_type
+  AND target_id = p_target_id
+  AND status = 'open';
+
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  IF resolved_count = 0 THEN
+    RAISE EXCEPTION 'There are no open reports on this %', p_target_type;
+  END IF;
+
+  -- Listings are approved or removed from the moderation queue, messages and reviews here
+  IF p_target_type IN ('message', 'review') THEN
+    IF p_target_type = 'message' THEN
+      UPDATE messages SET is_hidden = (p_resolution = 'actioned') WHERE id = p_target_id;
+    ELSE
+      UPDATE reviews SET is_hidden = (p_resolution = 'actioned'), updated_at = now() WHERE id = p_target_id;
+    END IF;
+  ELSIF p_target_type = 'item' AND p_resolution = 'dismissed' THEN
+    SELECT * INTO item_record FROM items WHERE id = p_target_id FOR UPDATE;
+
+    SELECT * INTO last_decision
+    FROM moderation_history
+    WHERE item_id = p_target_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- Only the automatic flag is undone, a listing a moderator flagged stays in their queue
+    IF item_record.status = 'flagged' AND last_decision.action = 'flag' AND last_decision.moderator_id IS NULL THEN
+      UPDATE items SET status = 'active', updated_at = now() WHERE id = p_target_id;
+
+      INSERT INTO moderation_history (item_id, moderator_id, action, reason_code, note, previous_status, new_status)
+      VALUES (p_target_id, auth.uid(), 'approve', NULL, 'Reports dismissed', 'flagged', 'active');
+
+      PERFORM create_notification(
+        item_record.seller_id,
+        'moderation',
+        'Listing approved',
+        '"' || item_record.title || '" is live again.',
+        jsonb_build_object('item_id', p_target_id, 'action', 'approve', 'reason_code', NULL)
+      );
+    END IF;
+  END IF;
+
+  PERFORM log_admin_action(
+    CASE p_resolution WHEN 'actioned' THEN 'report.action' ELSE 'report.dismiss' END,
+    p_target_type,
+    p_target_id::text,
+    jsonb_build_object('reports', resolved_count, 'note', NULLIF(trim(p_note), ''))
+  );
+
+  RETURN resolved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,389 @@
+/*
+  # Listing Risk Rules
+
+  1. Schema Updates
+    - `items.risk_signals` - Why a listing scored the way it did, shown to moderators
+    - `items.image_hashes` - Content hashes of the listing's photos, as recorded by storage
+    - `moderation.*` settings - Keyword lists, luxury brands and the score of each rule
+
+  2. Functions
+    - `item_image_hashes()` - Looks up the content hashes storage recorded for photo URLs
+    - `set_item_image_hashes()` - Keeps `items.image_hashes` in step with `items.images`
+    - `listing_keyword()` - First keyword that appears in a text as a whole word or phrase
+    - `listing_risk_context()` - Category median price and seller history a listing is scored with
+    - `score_listing()` - Scores a listing against the `moderation.*` rules
+    - `hold_item_for_review()` - Now also holds listings that score over `moderation.reviewThreshold`
+    - `protect_item_moderation()` - Keeps clients from writing the risk score
+    - `rescore_edited_item()` - Rescores a listing when its seller edits it and holds it if needed
+
+  3. Notes
+    - `score_listing()` is the only implementation of the rules, its tests are in
+      supabase/tests/database/listing_risk.test.sql
+    - Scores sent by clients are ignored, listings are scored in the insert and update triggers
+    - Photo hashes are the eTags the storage server computed from the uploaded bytes, file names
+      are chosen by the client and never trusted
+    - Rules only apply while `platform.autoModeration` is on, otherwise `item_risk_score()` is used
+*/
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS risk_signals text[] NOT NULL DEFAULT '{}';
+ALTER TABLE items ADD COLUMN IF NOT EXISTS image_hashes text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_items_image_hashes ON items USING gin(image_hashes);
+
+-- Default rules, mirrors DEFAULT_SETTINGS.moderation
+INSERT INTO platform_settings (key, value, is_secret, version) VALUES
+  ('moderation.reviewThreshold', '50', false, 1),
+  ('moderation.prohibitedKeywords', '["weapon", "knife", "ivory", "fur trim", "prescription", "vape"]', false, 1),
+  ('moderation.prohibitedKeywordScore', '60', false, 1),
+  ('moderation.replicaKeywords', '["replica", "fake", "inspired by", "mirror quality", "1:1", "aaa grade", "dupe"]', false, 1),
+  ('moderation.replicaKeywordScore', '50', false, 1),
+  ('moderation.contactDetailsScore', '30', false, 1),
+  ('moderation.luxuryBrands', '["chanel", "louis vuitton", "gucci", "hermes", "hermès", "prada", "dior", "balenciaga", "rolex", "cartier", "saint laurent", "fendi"]', false, 1),
+  ('moderation.luxuryPriceRatio', '30', false, 1),
+  ('moderation.luxuryPriceScore', '40', false, 1),
+  ('moderation.newSellerDays', '7', false, 1),
+  ('moderation.newSellerScore', '20', false, 1),
+  ('moderation.noSalesScore', '10', false, 1),
+  ('moderation.recentTakedownScore', '40', false, 1),
+  ('moderation.duplicateImageScore', '40', false, 1)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO platform_settings_audit (version, key, previous_value, new_value, notes)
+SELECT 1, platform_settings.key, NULL, platform_settings.value, 'Initial defaults'
+FROM platform_settings
+WHERE platform_settings.key LIKE 'moderation.%'
+AND NOT EXISTS (SELECT 1 FROM platform_settings_audit WHERE platform_settings_audit.key = platform_settings.key);
+
+-- Function to look up the content hashes of photos, storage sets the eTag to the md5 of the uploaded bytes
+CREATE OR REPLACE FUNCTION item_image_hashes(p_images text[])
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT trim(BOTH '"' FROM objects.metadata->>'eTag')), '{}')
+  FROM unnest(p_images) AS image
+  JOIN storage.objects
+    ON objects.bucket_id = 'item-images'
+    AND objects.name = substring(image FROM '/item-images/([^?]+)')
+  WHERE objects.metadata->>'eTag' IS NOT NULL;
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION item_image_hashes(text[]) FROM PUBLIC, anon, authenticated;
+
+-- Function to keep the photo hashes in step with the photos, clients cannot write them
+CREATE OR REPLACE FUNCTION set_item_image_hashes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.images IS DISTINCT FROM OLD.images THEN
+    NEW.image_hashes := item_image_hashes(NEW.images);
+  ELSE
+    NEW.image_hashes := OLD.image_hashes;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backfill the hashes of photos uploaded before this migration
+UPDATE items
+SET image_hashes = item_image_hashes(images)
+WHERE images <> '{}';
+
+DROP TRIGGER IF EXISTS set_item_image_hashes_trigger ON items;
+CREATE TRIGGER set_item_image_hashes_trigger
+  BEFORE INSERT OR UPDATE ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_item_image_hashes();
+
+-- Function to find the first keyword that appears in a text as a whole word or phrase
+CREATE OR REPLACE FUNCTION listing_keyword(p_text text, p_keywords jsonb)
+RETURNS text AS $$
+DECLARE
+  haystack text := ' ' || regexp_replace(lower(COALESCE(p_text, '')), '[^a-z0-9à-ÿ:]+', ' ', 'g') || ' ';
+  keyword text;
+  needle text;
+BEGIN
+  IF jsonb_typeof(p_keywords) IS DISTINCT FROM 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR keyword IN SELECT jsonb_array_elements_text(p_keywords)
+  LOOP
+    needle := trim(regexp_replace(lower(keyword), '[^a-z0-9à-ÿ:]+', ' ', 'g'));
+
+    IF needle <> '' AND position(' ' || needle || ' ' IN haystack) > 0 THEN
+      RETURN keyword;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to gather what the listing rules need to know about the market and the seller
+CREATE OR REPLACE FUNCTION listing_risk_context(p_item items)
+RETURNS jsonb AS $$
+DECLARE
+  listing_currency text;
+  seller_created_at timestamptz;
+  brand_median numeric;
+  brand_listings integer;
+  median_price numeric;
+BEGIN
+  SELECT created_at, currency INTO seller_created_at, listing_currency FROM profiles WHERE id = p_item.seller_id;
+
+  -- New listings get their currency from set_item_currency(), which may not have run yet
+  listing_currency := COALESCE(p_item.currency, listing_currency, 'usd');
+
+  -- Compare with the brand within the category when there are enough of its listings
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price), count(*)
+  INTO brand_median, brand_listings
+  FROM items
+  WHERE category = p_item.category
+  AND lower(brand) = lower(trim(p_item.brand))
+  AND currency = listing_currency
+  AND status IN ('active', 'reserved', 'sold')
+  AND id IS DISTINCT FROM p_item.id;
+
+  IF brand_listings >= 5 THEN
+    median_price := brand_median;
+  ELSE
+    SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY price) INTO median_price
+    FROM items
+    WHERE category = p_item.category
+    AND currency = listing_currency
+    AND status IN ('active', 'reserved', 'sold')
+    AND id IS DISTINCT FROM p_item.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'category_median_price', median_price,
+    'seller_age_days', COALESCE(floor(extract(epoch FROM now() - seller_created_at) / 86400), 0),
+    'completed_sales', (
+      SELECT count(*) FROM orders WHERE seller_id = p_item.seller_id AND status = 'completed'
+    ),
+    'recent_takedowns', (
+      SELECT count(DISTINCT mh.item_id)
+      FROM moderation_history mh
+      JOIN items i ON i.id = mh.item_id
+      WHERE i.seller_id = p_item.seller_id
+      AND mh.action IN ('reject', 'remove')
+      AND mh.created_at > now() - interval '90 days'
+    ),
+    'duplicate_images', (
+      SELECT count(*)
+      FROM items
+      WHERE seller_id <> p_item.seller_id
+      AND status <> 'removed'
+      AND image_hashes && item_image_hashes(p_item.images)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION listing_risk_context(items) FROM PUBLIC, anon, authenticated;
+
+-- Function to score a listing against the moderation.* rules, every rule adds its score at most once
+CREATE OR REPLACE FUNCTION score_listing(p_item items, OUT score integer, OUT signals text[])
+AS $$
+DECLARE
+  rules jsonb;
+  context jsonb;
+  keyword text;
+  median_price numeric;
+BEGIN
+  score := 0;
+  signals := '{}';
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO rules
+  FROM platform_settings
+  WHERE key LIKE 'moderation.%';
+
+  context := listing_risk_context(p_item);
+
+  keyword := listing_keyword(concat_ws(' ', p_item.title, p_item.description, p_item.brand), rules->'moderation.prohibitedKeywords');
+  IF keyword IS NOT NULL THEN
+    score := score + COALESCE((rules->>'moderation.prohibitedKeywordScore')::integer, 0);
+    signals := signals || ('Prohibited keyword "' || keyword || '"');
+  END IF;
+
+  keyword := listing_keyword(concat_ws(' ', p_item.title, p_item.description, p_item.brand), rules->'moderation.replicaKeywords');
+  IF keyword IS NOT NULL THEN
+    score := score + COALESCE((rules->>'moderation.replicaKeywordScore')::integer, 0);
+    signals := signals || ('Replica keyword "' || keyword || '"');
+  END IF;
+
+  -- Emails, phone numbers and messaging apps, sellers use them to take the sale off the platform
+  IF p_item.description ~* '[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}'
+    OR p_item.description ~ '(\+?\d[\s.()-]?){9,}'
+    OR p_item.description ~* '\y(whats\s?app|telegram|signal|wechat|snapchat|insta(gram)?|dm me|text me|call me)\y'
+  THEN
+    score := score + COALESCE((rules->>'moderation.contactDetailsScore')::integer, 0);
+    signals := signals || 'Contact details in the description'::text;
+  END IF;
+
+  keyword := listing_keyword(concat_ws(' ', p_item.brand, p_item.title), rules->'moderation.luxuryBrands');
+  median_price := (context->>'category_median_price')::numeric;
+  IF keyword IS NOT NULL
+    AND median_price > 0
+    AND p_item.price < median_price * COALESCE((rules->>'moderation.luxuryPriceRatio')::numeric, 0) / 100
+  THEN
+    score := score + COALESCE((rules->>'moderation.luxuryPriceScore')::integer, 0);
+    signals := signals || (
+      '"' || keyword || '" priced at ' || round(p_item.price / median_price * 100) || '% of the ' || p_item.category || ' median'
+    );
+  END IF;
+
+  IF (context->>'seller_age_days')::integer < COALESCE((rules->>'moderation.newSellerDays')::integer, 0) THEN
+    score := score + COALESCE((rules->>'moderation.newSellerScore')::integer, 0);
+    signals := signals || ('Seller joined ' || (context->>'seller_age_days') || ' days ago');
+  END IF;
+
+  IF (context->>'completed_sales')::integer = 0 THEN
+    score := score + COALESCE((rules->>'moderation.noSalesScore')::integer, 0);
+    signals := signals || 'Seller has no completed sales'::text;
+  END IF;
+
+  IF (context->>'recent_takedowns')::integer > 0 THEN
+    score := score + COALESCE((rules->>'moderation.recentTakedownScore')::integer, 0);
+    signals := signals || ((context->>'recent_takedowns') || ' of the seller''s listings taken down in the last 90 days');
+  END IF;
+
+  IF (context->>'duplicate_images')::integer > 0 THEN
+    score := score + COALESCE((rules->>'moderation.duplicateImageScore')::integer, 0);
+    signals := signals || ('Photos also used in ' || (context->>'duplicate_images') || ' other sellers'' listings');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION score_listing(items) FROM PUBLIC, anon, authenticated;
+
+-- Function to hold new listings for review when auto approval is off or the rules score them too high
+CREATE OR REPLACE FUNCTION hold_item_for_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  auto_approval boolean;
+  auto_moderation boolean;
+  review_threshold integer;
+BEGIN
+  SELECT (value #>> '{}')::boolean INTO auto_approval
+  FROM platform_settings
+  WHERE key = 'platform.itemAutoApproval';
+
+  SELECT (value #>> '{}')::boolean INTO auto_moderation
+  FROM platform_settings
+  WHERE key = 'platform.autoModeration';
+
+  SELECT (value #>> '{}')::integer INTO review_threshold
+  FROM platform_settings
+  WHERE key = 'moderation.reviewThreshold';
+
+  -- Whatever score the client sent is replaced
+  IF COALESCE(auto_moderation, false) THEN
+    SELECT risk.score, risk.signals INTO NEW.risk_score, NEW.risk_signals FROM score_listing(NEW) AS risk;
+  ELSE
+    NEW.risk_score := item_risk_score(NEW.seller_id);
+    NEW.risk_signals := '{}';
+  END IF;
+
+  IF NEW.status = 'active' AND (
+    NOT COALESCE(auto_approval, false) OR
+    (COALESCE(auto_moderation, false) AND NEW.risk_score >= COALESCE(review_threshold, 50))
+  ) THEN
+    NEW.status := 'pending_review';
+  END IF;
+
+  NEW.published_at := CASE WHEN NEW.status = 'active' THEN now() END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to keep sellers from overriding a moderator
+CREATE OR REPLACE FUNCTION protect_item_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.published_at := OLD.published_at;
+  NEW.risk_score := OLD.risk_score;
+  NEW.risk_signals := OLD.risk_signals;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Deleting a listing under review is fine, publishing it is not
+  IF OLD.status IN ('pending_review', 'flagged') AND NEW.status <> 'removed' THEN
+    RAISE EXCEPTION 'This listing is under review and can only be published by a moderator';
+  END IF;
+
+  IF NEW.status IN ('pending_review', 'flagged') OR OLD.status = 'removed' THEN
+    RAISE EXCEPTION 'Listing status can only be changed by a moderator';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to rescore a listing its seller edited, runs after protect_item_moderation()
+CREATE OR REPLACE FUNCTION rescore_edited_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  auto_moderation boolean;
+  review_threshold integer;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.seller_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT (value #>> '{}')::boolean INTO auto_moderation
+  FROM platform_settings
+  WHERE key = 'platform.autoModeration';
+
+  IF NOT COALESCE(auto_moderation, false) OR (
+    (NEW.title, NEW.description, NEW.price, NEW.brand, NEW.category, NEW.images) IS NOT DISTINCT FROM
+    (OLD.title, OLD.description, OLD.price, OLD.brand, OLD.category, OLD.images)
+  ) THEN
+    NEW.risk_score := OLD.risk_score;
+    NEW.risk_signals := OLD.risk_signals;
+    RETURN NEW;
+  END IF;
+
+  SELECT (value #>> '{}')::integer INTO review_threshold
+  FROM platform_settings
+  WHERE key = 'moderation.reviewThreshold';
+
+  SELECT risk.score, risk.signals INTO NEW.risk_score, NEW.risk_signals FROM score_listing(NEW) AS risk;
+
+  IF OLD.status = 'active' AND NEW.status = 'active' AND NEW.risk_score >= COALESCE(review_threshold, 50) THEN
+    NEW.status := 'pending_review';
+
+    INSERT INTO moderation_history (item_id, moderator_id, action, reason_code, note, previous_status, new_status)
+    VALUES (
+      OLD.id,
+      NULL,
+      'flag',
+      NULL,
+      left('Held for review after an edit: ' || array_to_string(NEW.risk_signals, '; '), 1000),
+      OLD.status,
+      NEW.status
+    );
+
+    PERFORM create_notification(
+      OLD.seller_id,
+      'moderation',
+      'Listing under review',
+      '"' || NEW.title || '" is hidden until a moderator checks your changes.',
+      jsonb_build_object('item_id', OLD.id, 'action', 'flag', 'reason_code', NULL)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS rescore_edited_item_trigger ON items;
+CREATE TRIGGER rescore_edited_item_trigger
+  BEFORE UPDATE ON items
+  FOR EACH ROW
+  EXECUTE FUNCTION rescore_edited_item();
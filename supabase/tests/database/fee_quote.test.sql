@@ -0,0 +1,102 @@
+-- Wallet payments store the quote they were made with on the order, and are booked at it
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- Fixture rows skip the triggers, only the payment is under test
+SET LOCAL session_replication_role = replica;
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'buyer@example.com'),
+  ('00000000-0000-0000-0000-0000000000a1', 'seller@example.com');
+
+INSERT INTO profiles (id, email, nickname) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', 'buyer@example.com', 'quote_buyer'),
+  ('00000000-0000-0000-0000-0000000000a1', 'seller@example.com', 'quote_seller');
+
+INSERT INTO items (id, title, description, price, brand, size, condition, category, seller_id, status, currency) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'Denim jacket', 'Worn twice', 100.00, 'Levi''s', 'M', 'good', 'jackets',
+   '00000000-0000-0000-0000-0000000000a1', 'active', 'usd');
+
+SET LOCAL session_replication_role = origin;
+
+-- The buyer tops up 200.00
+SELECT post_journal_entry(
+  'wallet_topup', 'Wallet top-up', 'payment_intent', 'pi_quote_test', 'pi_quote_test',
+  jsonb_build_array(
+    ledger_line('stripe_clearing', NULL, 20000),
+    ledger_line('user_available', '00000000-0000-0000-0000-0000000000b1', -20000)
+  )
+);
+
+-- 5% buyer protection and 10% commission on a 100.00 item
+CREATE FUNCTION pg_temp.quote(p_changes jsonb DEFAULT '{}')
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'currency', 'usd',
+    'item_price_cents', 10000,
+    'buyer_protection_cents', 500,
+    'discount_cents', 0,
+    'buyer_total_cents', 10500,
+    'seller_commission_cents', 1000,
+    'seller_payout_cents', 9000,
+    'platform_fee_cents', 1500,
+    'seller_tier', 'new',
+    'lines', '[]'::jsonb
+  ) || p_changes;
+$$ LANGUAGE sql;
+
+SET LOCAL request.jwt.claims = '{"role": "service_role"}';
+
+SELECT throws_like(
+  $$SELECT process_wallet_payment(
+    '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+    pg_temp.quote('{"item_price_cents": 9000, "buyer_total_cents": 9500, "seller_payout_cents": 8000}')
+  )$$,
+  '%Fee quote does not match the price%',
+  'A quote for another price is refused'
+);
+
+SELECT throws_like(
+  $$SELECT process_wallet_payment(
+    '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+    pg_temp.quote('{"buyer_total_cents": 10000}')
+  )$$,
+  '%Fee quote does not match the price%',
+  'A quote whose total leaves out a fee is refused'
+);
+
+SELECT lives_ok(
+  $$SELECT process_wallet_payment(
+    '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1',
+    pg_temp.quote()
+  )$$,
+  'A quote that adds up is paid'
+);
+
+SELECT results_eq(
+  $$SELECT total_amount, platform_fee, seller_amount, fee_breakdown
+    FROM orders
+    WHERE item_id = '00000000-0000-0000-0000-0000000000c1'$$,
+  $$VALUES (105.00::decimal(10,2), 15.00::decimal(10,2), 90.00::decimal(10,2), pg_temp.quote())$$,
+  'The order stores the quote and its amounts'
+);
+
+SELECT is(
+  (SELECT available_balance FROM wallet_balances
+   WHERE user_id = '00000000-0000-0000-0000-0000000000b1' AND currency = 'usd'),
+  95.00::decimal(10,2),
+  'The buyer pays the quoted total'
+);
+
+SELECT is(
+  (SELECT pending_balance FROM wallet_balances
+   WHERE user_id = '00000000-0000-0000-0000-0000000000a1' AND currency = 'usd'),
+  90.00::decimal(10,2),
+  'The seller''s payout is held in escrow'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
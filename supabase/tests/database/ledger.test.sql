@@ -0,0 +1,80 @@
+-- Journal entries only post when their lines balance, and posted lines are never changed
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- Fixture rows skip the triggers, only the ledger is under test
+SET LOCAL session_replication_role = replica;
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'wallet@example.com');
+
+INSERT INTO profiles (id, email, nickname) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'wallet@example.com', 'ledger_wallet');
+
+SET LOCAL session_replication_role = origin;
+
+SELECT lives_ok(
+  $$SELECT post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment_intent', 'pi_ledger_test', 'pi_ledger_test',
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, 2500),
+      ledger_line('user_available', '00000000-0000-0000-0000-0000000000d1', -2500)
+    )
+  )$$,
+  'A balanced entry is posted'
+);
+
+SELECT is(
+  (SELECT available_balance FROM wallet_balances
+   WHERE user_id = '00000000-0000-0000-0000-0000000000d1' AND currency = 'usd'),
+  25.00::decimal(10,2),
+  'Posting refreshes the wallet it credits'
+);
+
+SELECT throws_like(
+  $$SELECT post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment_intent', 'pi_ledger_short', 'pi_ledger_short',
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, 2500),
+      ledger_line('user_available', '00000000-0000-0000-0000-0000000000d1', -2000)
+    )
+  )$$,
+  '%does not balance (off by 500 usd cents)%',
+  'An entry that is off by some cents is refused'
+);
+
+SELECT throws_like(
+  $$SELECT post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment_intent', 'pi_ledger_empty', 'pi_ledger_empty',
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, 0),
+      ledger_line('user_available', '00000000-0000-0000-0000-0000000000d1', 0)
+    )
+  )$$,
+  '%does not balance%',
+  'An entry needs two lines that move money'
+);
+
+SELECT throws_like(
+  $$SELECT post_journal_entry(
+    'wallet_topup', 'Wallet top-up', 'payment_intent', 'pi_ledger_mixed', 'pi_ledger_mixed',
+    jsonb_build_array(
+      ledger_line('stripe_clearing', NULL, 2500, 'usd'),
+      ledger_line('user_available', '00000000-0000-0000-0000-0000000000d1', -2500, 'eur')
+    )
+  )$$,
+  '%does not balance%',
+  'An entry must balance in each currency'
+);
+
+SELECT throws_like(
+  $$UPDATE ledger_lines SET amount_cents = 0$$,
+  '%append-only%',
+  'Posted lines cannot be changed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
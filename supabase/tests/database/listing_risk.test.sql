@@ -0,0 +1,178 @@
+-- Listings are scored against the moderation.* rules, and new ones that score too high are held
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+-- Fixture rows skip the triggers, only the scoring is under test
+SET LOCAL session_replication_role = replica;
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', 'established@example.com'),
+  ('00000000-0000-0000-0000-0000000000e2', 'new@example.com'),
+  ('00000000-0000-0000-0000-0000000000e3', 'other@example.com');
+
+INSERT INTO profiles (id, email, nickname, created_at) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', 'established@example.com', 'risk_established', now() - interval '365 days'),
+  ('00000000-0000-0000-0000-0000000000e2', 'new@example.com', 'risk_new', now() - interval '2 days'),
+  ('00000000-0000-0000-0000-0000000000e3', 'other@example.com', 'risk_other', now() - interval '365 days');
+
+-- Bags sold for 300, 400 and 500, one of them by the established seller
+INSERT INTO items (id, title, description, price, brand, size, condition, category, seller_id, status, currency, image_hashes) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', 'Tote', 'Roomy', 300, 'Zara', 'M', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e3', 'sold', 'usd', '{d41d8cd98f00b204e9800998ecf8427e}'),
+  ('00000000-0000-0000-0000-0000000000f2', 'Clutch', 'Small', 500, 'Zara', 'S', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e3', 'sold', 'usd', '{}'),
+  ('00000000-0000-0000-0000-0000000000f3', 'Satchel', 'Sturdy', 400, 'Zara', 'M', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e1', 'sold', 'usd', '{}'),
+  ('00000000-0000-0000-0000-0000000000f4', 'Backpack', 'Taken down', 50, 'Zara', 'M', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e2', 'removed', 'usd', '{}');
+
+INSERT INTO orders (item_id, buyer_id, seller_id, total_amount, status, currency) VALUES
+  ('00000000-0000-0000-0000-0000000000f3', '00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-0000000000e1',
+   400, 'completed', 'usd');
+
+INSERT INTO moderation_history (item_id, action, previous_status, new_status) VALUES
+  ('00000000-0000-0000-0000-0000000000f4', 'remove', 'active', 'removed');
+
+-- The new seller uploads a photo the other seller already used
+INSERT INTO storage.objects (bucket_id, name, metadata) VALUES
+  ('item-images', 'risk_new/bag.jpg', '{"eTag": "\"d41d8cd98f00b204e9800998ecf8427e\""}');
+
+SET LOCAL session_replication_role = origin;
+
+-- A listing as it would be inserted, with the fields a test changes
+CREATE FUNCTION pg_temp.listing(p_seller_id uuid, p_changes jsonb DEFAULT '{}')
+RETURNS items AS $$
+  SELECT jsonb_populate_record(NULL::items, jsonb_build_object(
+    'title', 'Leather shoulder bag',
+    'description', 'Barely used, comes with the dust bag.',
+    'price', 250,
+    'brand', 'Zara',
+    'size', 'M',
+    'condition', 'good',
+    'category', 'bags',
+    'currency', 'usd',
+    'images', '[]'::jsonb,
+    'seller_id', p_seller_id
+  ) || p_changes);
+$$ LANGUAGE sql;
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1'))).signals,
+  '{}'::text[],
+  'An ordinary listing from an established seller raises nothing'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1'))).score,
+  0,
+  'An ordinary listing from an established seller scores 0'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"title": "Shoulder bag 1:1 Replica"}'))).signals,
+  ARRAY['Replica keyword "replica"'],
+  'Replica keywords are found in the title'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"description": "Ivory-coloured lining, no fur trimming."}'))).signals,
+  ARRAY['Prohibited keyword "ivory"'],
+  'Keywords only match whole words'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"description": "Mail me at seller@example.com for more photos"}'))).signals,
+  ARRAY['Contact details in the description'],
+  'Email addresses are contact details'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"description": "Call +44 7700 900123 to arrange"}'))).signals,
+  ARRAY['Contact details in the description'],
+  'Phone numbers are contact details'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"description": "Cheaper on WhatsApp"}'))).signals,
+  ARRAY['Contact details in the description'],
+  'Messaging apps are contact details'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"brand": "Louis Vuitton", "price": 80}'))).signals,
+  ARRAY['"louis vuitton" priced at 20% of the bags median'],
+  'Luxury brands far under the category median are flagged'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"brand": "Louis Vuitton", "price": 300}'))).signals,
+  '{}'::text[],
+  'Luxury brands near the category median are not'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"brand": "Gucci", "price": 5, "category": "watches"}'))).signals,
+  '{}'::text[],
+  'Luxury prices are not judged in a category without sales'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e2', jsonb_build_object(
+    'images', jsonb_build_array('https://example.supabase.co/storage/v1/object/public/item-images/risk_new/bag.jpg')
+  )))).signals,
+  ARRAY[
+    'Seller joined 2 days ago',
+    'Seller has no completed sales',
+    '1 of the seller''s listings taken down in the last 90 days',
+    'Photos also used in 1 other sellers'' listings'
+  ],
+  'Seller history and reused photos are flagged'
+);
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e2', jsonb_build_object(
+    'images', jsonb_build_array('https://example.supabase.co/storage/v1/object/public/item-images/risk_new/bag.jpg')
+  )))).score,
+  110,
+  'Every rule adds its score'
+);
+
+-- New listings are held when they score over moderation.reviewThreshold, even with auto approval on
+UPDATE platform_settings SET value = 'true' WHERE key = 'platform.itemAutoApproval';
+
+INSERT INTO items (id, title, description, price, brand, size, condition, category, seller_id) VALUES
+  ('00000000-0000-0000-0000-0000000000f5', 'Replica bag', 'As new', 250, 'Zara', 'M', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e1'),
+  ('00000000-0000-0000-0000-0000000000f6', 'Leather bag', 'As new', 250, 'Zara', 'M', 'good', 'bags',
+   '00000000-0000-0000-0000-0000000000e1');
+
+SELECT results_eq(
+  $$SELECT id, status, risk_score FROM items
+    WHERE id IN ('00000000-0000-0000-0000-0000000000f5', '00000000-0000-0000-0000-0000000000f6')
+    ORDER BY id$$,
+  $$VALUES
+    ('00000000-0000-0000-0000-0000000000f5'::uuid, 'pending_review', 50),
+    ('00000000-0000-0000-0000-0000000000f6'::uuid, 'active', 0)$$,
+  'New listings over the threshold are held for review'
+);
+
+SELECT is(
+  (SELECT risk_signals FROM items WHERE id = '00000000-0000-0000-0000-0000000000f5'),
+  ARRAY['Replica keyword "replica"'],
+  'Moderators see why a listing was held'
+);
+
+-- Scores follow the rules as they are edited
+UPDATE platform_settings SET value = '10' WHERE key = 'moderation.replicaKeywordScore';
+
+SELECT is(
+  (score_listing(pg_temp.listing('00000000-0000-0000-0000-0000000000e1', '{"title": "Replica bag"}'))).score,
+  10,
+  'Rule scores come from the settings'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -12,6 +12,10 @@ export interface Database {
           last_name?: string;
           phone_verified: boolean;
           email_verified: boolean;
+          account_status: 'active' | 'suspended' | 'banned';
+          suspended_until: string | null;
+          status_reason: string | null;
+          status_changed_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -55,6 +59,10 @@ export interface Database {
           category: string;
           seller_id: string;
           status: string;
+          risk_score?: number;
+          risk_signals?: string[];
+          image_hashes?: string[];
+          favorites_count?: number;
           created_at: string;
           updated_at: string;
         };
@@ -127,6 +135,7 @@ export interface Database {
           message_type: 'text' | 'image' | 'offer' | 'system';
           offer_amount?: number;
           read_at?: string;
+          is_hidden: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -264,6 +273,195 @@ export interface Database {
           created_at?: string;
         };
       };
+      favorites: {
+        Row: {
+          id: string;
+          user_id: string;
+          item_id: string;
+          is_watching: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          item_id: string;
+          is_watching?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          item_id?: string;
+          is_watching?: boolean;
+          created_at?: string;
+        };
+      };
+      saved_searches: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          query: string | null;
+          filters: any;
+          is_muted: boolean;
+          last_checked_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          query?: string | null;
+          filters?: any;
+          is_muted?: boolean;
+          last_checked_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          query?: string | null;
+          filters?: any;
+          is_muted?: boolean;
+          last_checked_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      account_appeals: {
+        Row: {
+          id: string;
+          user_id: string;
+          account_status: 'suspended' | 'banned';
+          message: string;
+          status: 'pending' | 'accepted' | 'rejected' | 'closed';
+          response: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          account_status: 'suspended' | 'banned';
+          message: string;
+          status?: 'pending' | 'accepted' | 'rejected' | 'closed';
+          response?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          account_status?: 'suspended' | 'banned';
+          message?: string;
+          status?: 'pending' | 'accepted' | 'rejected' | 'closed';
+          response?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      report_reasons: {
+        Row: {
+          target_type: 'item' | 'profile' | 'message' | 'review';
+          code: string;
+          label: string;
+          created_at: string;
+        };
+        Insert: {
+          target_type: 'item' | 'profile' | 'message' | 'review';
+          code: string;
+          label: string;
+          created_at?: string;
+        };
+        Update: {
+          target_type?: 'item' | 'profile' | 'message' | 'review';
+          code?: string;
+          label?: string;
+          created_at?: string;
+        };
+      };
+      reports: {
+        Row: {
+          id: string;
+          reporter_id: string;
+          target_type: 'item' | 'profile' | 'message' | 'review';
+          target_id: string;
+          reason_code: string;
+          details: string | null;
+          status: 'open' | 'actioned' | 'dismissed';
+          resolution_note: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reporter_id: string;
+          target_type: 'item' | 'profile' | 'message' | 'review';
+          target_id: string;
+          reason_code: string;
+          details?: string | null;
+          status?: 'open' | 'actioned' | 'dismissed';
+          resolution_note?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reporter_id?: string;
+          target_type?: 'item' | 'profile' | 'message' | 'review';
+          target_id?: string;
+          reason_code?: string;
+          details?: string | null;
+          status?: 'open' | 'actioned' | 'dismissed';
+          resolution_note?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      moderation_history: {
+        Row: {
+          id: string;
+          item_id: string;
+          moderator_id: string | null;
+          action: 'approve' | 'reject' | 'flag' | 'remove';
+          reason_code: string | null;
+          note: string | null;
+          previous_status: string;
+          new_status: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          item_id: string;
+          moderator_id?: string | null;
+          action: 'approve' | 'reject' | 'flag' | 'remove';
+          reason_code?: string | null;
+          note?: string | null;
+          previous_status: string;
+          new_status: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          item_id?: string;
+          moderator_id?: string | null;
+          action?: 'approve' | 'reject' | 'flag' | 'remove';
+          reason_code?: string | null;
+          note?: string | null;
+          previous_status?: string;
+          new_status?: string;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;